@@ -10,11 +10,17 @@ import AdminLogin from './pages/AdminLogin';
 import AssessmentSubmission from './pages/AssessmentSubmission';
 import AssessmentReport from './pages/AssessmentReport';
 import ConsultancyBooking from './pages/ConsultancyBooking';
+import ManageBooking from './pages/ManageBooking';
 import Dashboard from './pages/Dashboard';
 import LeadDatabase from './pages/LeadDatabase';
 import LeadProfile from './pages/LeadProfile';
+import Facilities from './pages/Facilities';
+import FacilityProfile from './pages/FacilityProfile';
+import Pipeline from './pages/Pipeline';
+import Duplicates from './pages/Duplicates';
 import BookingSubmissions from './pages/BookingSubmissions';
 import Campaigns from './pages/Campaigns';
+import Settings from './pages/Settings';
 import ProtectedRoute from './components/ProtectedRoute';
 
 export default function App() {
@@ -55,6 +61,8 @@ export default function App() {
 
           <Route path="/booking" element={<ConsultancyBooking />} />
 
+          <Route path="/booking/manage/:token" element={<ManageBooking />} />
+
           <Route
             path="/admin/dashboard"
             element={
@@ -82,6 +90,42 @@ export default function App() {
             }
           />
 
+          <Route
+            path="/admin/accounts"
+            element={
+              <ProtectedRoute>
+                <Facilities />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/admin/accounts/:id"
+            element={
+              <ProtectedRoute>
+                <FacilityProfile />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/admin/pipeline"
+            element={
+              <ProtectedRoute>
+                <Pipeline />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/admin/duplicates"
+            element={
+              <ProtectedRoute>
+                <Duplicates />
+              </ProtectedRoute>
+            }
+          />
+
           <Route
             path="/admin/bookings"
             element={
@@ -99,6 +143,15 @@ export default function App() {
               </ProtectedRoute>
             }
           />
+
+          <Route
+            path="/admin/settings"
+            element={
+              <ProtectedRoute>
+                <Settings />
+              </ProtectedRoute>
+            }
+          />
         </Routes>
       </BrowserRouter>
     </div>
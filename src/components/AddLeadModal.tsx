@@ -1,7 +1,13 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { supabase, CustomFieldValue } from '../lib/supabase';
 import { X } from 'lucide-react';
 import { COUNTRIES, STATES_BY_COUNTRY } from '../lib/constants';
+import { findPossibleDuplicates } from '../lib/leadDuplicates';
+import { normalizeCustomFields } from '../lib/customFields';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { getInitialStage } from '../lib/pipelineStages';
+import CustomFieldInput from './CustomFieldInput';
 
 const SOURCES = ['LinkedIn', 'WhatsApp', 'Call', 'Email', 'Referral', 'Existing Client', 'Ex-Client'];
 
@@ -17,6 +23,9 @@ export default function AddLeadModal({ onClose, onSuccess }: { onClose: () => vo
   });
   const [selectedServices, setSelectedServices] = useState<string[]>([]);
   const [selectedInnovation, setSelectedInnovation] = useState<string>('');
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldValue>>({});
+  const { customFields } = useCustomFields();
+  const { stages } = usePipelineStages();
   const [services, setServices] = useState<Array<{ id: string; name: string }>>([]);
   const [innovations, setInnovations] = useState<Array<{ id: string; name: string }>>([]);
   const [loading, setLoading] = useState(false);
@@ -100,6 +109,23 @@ export default function AddLeadModal({ onClose, onSuccess }: { onClose: () => vo
     setLoading(true);
 
     try {
+      const duplicates = await findPossibleDuplicates({
+        name: formData.name,
+        email: formData.email,
+        phone: formData.phone,
+        facility: formData.facility
+      });
+
+      if (duplicates.length > 0) {
+        const summary = duplicates
+          .slice(0, 3)
+          .map(({ lead, reasons }) => `- ${lead.name} (${lead.email}) matches on ${reasons.join(', ')}`)
+          .join('\n');
+        if (!confirm(`This lead may already exist:\n${summary}\n\nAdd it anyway? It will be listed under Possible Duplicates.`)) {
+          return;
+        }
+      }
+
       const { data: { user } } = await supabase.auth.getUser();
 
       let adminName = '';
@@ -129,7 +155,9 @@ export default function AddLeadModal({ onClose, onSuccess }: { onClose: () => vo
           source: formData.source,
           product_service: productService,
           selected_services: selectedServices,
-          status: 'New',
+          custom_fields: normalizeCustomFields(customFields, customFieldValues),
+          // Unset until stages load; the database then defaults to the first open stage
+          status: getInitialStage(stages)?.name,
           added_by: adminName || user?.email || 'Admin',
           added_by_email: user?.email || null
         });
@@ -303,6 +331,24 @@ export default function AddLeadModal({ onClose, onSuccess }: { onClose: () => vo
             </select>
           </div>
 
+          {customFields.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-3">Additional Details</label>
+              <div className="grid md:grid-cols-2 gap-4 bg-slate-50 rounded-lg p-4">
+                {customFields.map((field) => (
+                  <div key={field.id} className={field.field_type === 'multi_select' ? 'md:col-span-2' : ''}>
+                    <label className="block text-sm text-slate-600 mb-1">{field.label}</label>
+                    <CustomFieldInput
+                      field={field}
+                      value={customFieldValues[field.key]}
+                      onChange={(value) => setCustomFieldValues({ ...customFieldValues, [field.key]: value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="flex space-x-4 pt-4">
             <button
               type="button"
@@ -1,7 +1,10 @@
 import { ReactNode, useState, useEffect } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { LayoutDashboard, Users, Calendar, LogOut, Megaphone, Menu, X } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { LayoutDashboard, Users, Calendar, LogOut, Megaphone, Menu, X, KanbanSquare, Settings, Copy, Building2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import TaskInbox from './TaskInbox';
+import MentionInbox from './MentionInbox';
 
 interface AdminLayoutProps {
   children: ReactNode;
@@ -10,6 +13,7 @@ interface AdminLayoutProps {
 export default function AdminLayout({ children }: AdminLayoutProps) {
   const location = useLocation();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [loggingOut, setLoggingOut] = useState(false);
   const [adminName, setAdminName] = useState<string>('');
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -46,6 +50,8 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
     setLoggingOut(true);
     try {
       await supabase.auth.signOut();
+      // "My leads" and similar filters depend on who is signed in
+      queryClient.removeQueries({ queryKey: ['current-admin-email'] });
       navigate('/admin');
     } catch (error) {
       console.error('Logout error:', error);
@@ -56,8 +62,12 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
   const navItems = [
     { path: '/admin/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
     { path: '/admin/leads', icon: Users, label: 'Leads' },
+    { path: '/admin/accounts', icon: Building2, label: 'Accounts' },
+    { path: '/admin/pipeline', icon: KanbanSquare, label: 'Pipeline' },
+    { path: '/admin/duplicates', icon: Copy, label: 'Duplicates' },
     { path: '/admin/bookings', icon: Calendar, label: 'Bookings' },
-    { path: '/admin/campaigns', icon: Megaphone, label: 'Campaigns' }
+    { path: '/admin/campaigns', icon: Megaphone, label: 'Campaigns' },
+    { path: '/admin/settings', icon: Settings, label: 'Settings' }
   ];
 
   return (
@@ -92,6 +102,8 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <MentionInbox />
+              <TaskInbox />
               <button
                 onClick={handleLogout}
                 disabled={loggingOut}
@@ -0,0 +1,361 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AvailabilityWindow } from '../lib/supabase';
+import {
+  WEEKDAYS,
+  SLOT_INTERVALS,
+  BookingRules,
+  toTimeInput,
+  fetchBookingRules,
+  updateBookingRules,
+  fetchAvailabilityWindows,
+  createAvailabilityWindow,
+  updateAvailabilityWindow,
+  deleteAvailabilityWindow,
+  fetchAvailabilityOverrides,
+  createAvailabilityOverride,
+  deleteAvailabilityOverride
+} from '../lib/bookingAvailability';
+import { formatTimeRange } from '../lib/timezoneUtils';
+import { formatDateOnlyToDDMMYY } from '../lib/dateUtils';
+import { CalendarClock, Trash2, Plus } from 'lucide-react';
+
+const inputClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]';
+
+function RulesForm({ rules, onSave, isPending }: { rules: BookingRules; onSave: (rules: BookingRules) => void; isPending: boolean }) {
+  const [minNotice, setMinNotice] = useState(String(rules.min_notice_hours));
+  const [maxDays, setMaxDays] = useState(String(rules.max_days_ahead));
+  const [buffer, setBuffer] = useState(String(rules.buffer_minutes));
+  const [dailyCap, setDailyCap] = useState(rules.daily_cap ? String(rules.daily_cap) : '');
+  const [slotInterval, setSlotInterval] = useState(rules.slot_interval_minutes);
+
+  useEffect(() => {
+    setMinNotice(String(rules.min_notice_hours));
+    setMaxDays(String(rules.max_days_ahead));
+    setBuffer(String(rules.buffer_minutes));
+    setDailyCap(rules.daily_cap ? String(rules.daily_cap) : '');
+    setSlotInterval(rules.slot_interval_minutes);
+  }, [rules]);
+
+  const handleSave = () => {
+    const parsed = {
+      min_notice_hours: parseInt(minNotice, 10),
+      max_days_ahead: parseInt(maxDays, 10),
+      buffer_minutes: parseInt(buffer, 10),
+      daily_cap: dailyCap.trim() ? parseInt(dailyCap, 10) : null,
+      slot_interval_minutes: slotInterval
+    };
+
+    if (
+      isNaN(parsed.min_notice_hours) || parsed.min_notice_hours < 0 ||
+      isNaN(parsed.max_days_ahead) || parsed.max_days_ahead < 1 ||
+      isNaN(parsed.buffer_minutes) || parsed.buffer_minutes < 0 ||
+      (parsed.daily_cap !== null && (isNaN(parsed.daily_cap) || parsed.daily_cap < 1))
+    ) {
+      alert('Please enter whole numbers: notice and buffer of 0 or more, days ahead and daily cap of at least 1');
+      return;
+    }
+
+    onSave(parsed);
+  };
+
+  return (
+    <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+      <div>
+        <label className="block text-xs font-medium text-slate-700 mb-1">Minimum notice (hours)</label>
+        <input type="number" min={0} value={minNotice} onChange={(e) => setMinNotice(e.target.value)} className={`${inputClass} w-full`} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-700 mb-1">Book up to (days ahead)</label>
+        <input type="number" min={1} value={maxDays} onChange={(e) => setMaxDays(e.target.value)} className={`${inputClass} w-full`} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-700 mb-1">Buffer between meetings (min)</label>
+        <input type="number" min={0} step={5} value={buffer} onChange={(e) => setBuffer(e.target.value)} className={`${inputClass} w-full`} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-700 mb-1">Daily cap</label>
+        <input type="number" min={1} value={dailyCap} onChange={(e) => setDailyCap(e.target.value)} placeholder="No cap" className={`${inputClass} w-full`} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-700 mb-1">Slot start every</label>
+        <select
+          value={slotInterval}
+          onChange={(e) => setSlotInterval(Number(e.target.value) as BookingRules['slot_interval_minutes'])}
+          className={`${inputClass} w-full`}
+        >
+          {SLOT_INTERVALS.map((minutes) => (
+            <option key={minutes} value={minutes}>{minutes} minutes</option>
+          ))}
+        </select>
+      </div>
+      <div className="sm:col-span-2 lg:col-span-5">
+        <button
+          onClick={handleSave}
+          disabled={isPending}
+          className="px-4 py-2 bg-[#531B93] text-white rounded-lg text-sm hover:bg-[#6d24b8] disabled:opacity-50"
+        >
+          {isPending ? 'Saving...' : 'Save Rules'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function BookingAvailabilityManager() {
+  const queryClient = useQueryClient();
+  const today = new Date().toISOString().split('T')[0];
+  const [overrideDate, setOverrideDate] = useState('');
+  const [overrideClosed, setOverrideClosed] = useState(true);
+  const [overrideStart, setOverrideStart] = useState('10:00');
+  const [overrideEnd, setOverrideEnd] = useState('13:00');
+  const [overrideNote, setOverrideNote] = useState('');
+
+  const { data: rules, isLoading: rulesLoading } = useQuery({
+    queryKey: ['booking-availability-settings'],
+    queryFn: fetchBookingRules,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const { data: windows = [] } = useQuery({
+    queryKey: ['availability-windows'],
+    queryFn: fetchAvailabilityWindows,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const { data: overrides = [] } = useQuery({
+    queryKey: ['availability-overrides', today],
+    queryFn: () => fetchAvailabilityOverrides(today),
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const rulesMutation = useMutation({
+    mutationFn: updateBookingRules,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['booking-availability-settings'] });
+    },
+    onError: () => {
+      alert('Failed to save booking rules');
+    },
+  });
+
+  const invalidateWindows = () => {
+    queryClient.invalidateQueries({ queryKey: ['availability-windows'] });
+  };
+
+  const createWindowMutation = useMutation({
+    mutationFn: createAvailabilityWindow,
+    onSuccess: invalidateWindows,
+    onError: () => {
+      alert('Failed to add working hours');
+    },
+  });
+
+  const updateWindowMutation = useMutation({
+    mutationFn: updateAvailabilityWindow,
+    onSuccess: invalidateWindows,
+    onError: () => {
+      invalidateWindows();
+      alert('Failed to update working hours. The end time must be after the start time.');
+    },
+  });
+
+  const deleteWindowMutation = useMutation({
+    mutationFn: deleteAvailabilityWindow,
+    onSuccess: invalidateWindows,
+    onError: () => {
+      alert('Failed to remove working hours');
+    },
+  });
+
+  const invalidateOverrides = () => {
+    queryClient.invalidateQueries({ queryKey: ['availability-overrides'] });
+  };
+
+  const createOverrideMutation = useMutation({
+    mutationFn: createAvailabilityOverride,
+    onSuccess: () => {
+      invalidateOverrides();
+      setOverrideDate('');
+      setOverrideNote('');
+    },
+    onError: () => {
+      alert('Failed to add date override');
+    },
+  });
+
+  const deleteOverrideMutation = useMutation({
+    mutationFn: deleteAvailabilityOverride,
+    onSuccess: invalidateOverrides,
+    onError: () => {
+      alert('Failed to remove date override');
+    },
+  });
+
+  // New hours start an hour after the day's last window ends, or at 10:00
+  const handleAddWindow = (weekday: number, dayWindows: AvailabilityWindow[]) => {
+    const lastEnd = toTimeInput(dayWindows[dayWindows.length - 1]?.end_time);
+    const startHour = lastEnd ? Math.min(parseInt(lastEnd.slice(0, 2), 10) + 1, 22) : 10;
+    createWindowMutation.mutate({
+      weekday,
+      startTime: `${String(startHour).padStart(2, '0')}:00`,
+      endTime: `${String(startHour + 1).padStart(2, '0')}:00`
+    });
+  };
+
+  const handleWindowTimeChange = (hours: AvailabilityWindow, field: 'start_time' | 'end_time', value: string) => {
+    if (!value || value === toTimeInput(hours[field])) return;
+    updateWindowMutation.mutate({ id: hours.id, changes: { [field]: value } });
+  };
+
+  const handleAddOverride = () => {
+    if (!overrideDate) return;
+    if (!overrideClosed && overrideEnd <= overrideStart) {
+      alert('The end time must be after the start time');
+      return;
+    }
+    createOverrideMutation.mutate({
+      date: overrideDate,
+      startTime: overrideClosed ? null : overrideStart,
+      endTime: overrideClosed ? null : overrideEnd,
+      note: overrideNote
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <CalendarClock className="w-5 h-5 text-[#531B93]" />
+        <h2 className="text-lg font-semibold text-slate-800">Booking Availability</h2>
+      </div>
+      <p className="text-sm text-slate-600 mb-4">
+        Controls the consultation slots offered on the public booking form. All times are in India Standard
+        Time (IST); visitors see them converted to their own timezone. Consultations are one hour long.
+      </p>
+
+      {rulesLoading && <p className="text-slate-500 text-sm">Loading settings...</p>}
+
+      {rules && (
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-slate-700 mb-2">Booking rules</h3>
+          <RulesForm rules={rules} onSave={(updated) => rulesMutation.mutate(updated)} isPending={rulesMutation.isPending} />
+        </div>
+      )}
+
+      <h3 className="text-sm font-medium text-slate-700 mb-2">Weekly working hours (IST)</h3>
+      <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg mb-6">
+        {WEEKDAYS.map((day) => {
+          const dayWindows = windows.filter((hours) => hours.weekday === day.value);
+          return (
+            <div key={day.value} className="flex flex-wrap items-center gap-3 px-3 py-2">
+              <span className="w-24 text-sm font-medium text-slate-800">{day.label}</span>
+              {dayWindows.length === 0 && <span className="text-sm text-slate-400">Unavailable</span>}
+              {dayWindows.map((hours) => (
+                <div key={hours.id} className="flex items-center space-x-1">
+                  <input
+                    type="time"
+                    defaultValue={toTimeInput(hours.start_time)}
+                    onBlur={(e) => handleWindowTimeChange(hours, 'start_time', e.target.value)}
+                    className={`${inputClass} py-1`}
+                  />
+                  <span className="text-slate-400">–</span>
+                  <input
+                    type="time"
+                    defaultValue={toTimeInput(hours.end_time)}
+                    onBlur={(e) => handleWindowTimeChange(hours, 'end_time', e.target.value)}
+                    className={`${inputClass} py-1`}
+                  />
+                  <button
+                    onClick={() => deleteWindowMutation.mutate(hours.id)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Remove hours"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => handleAddWindow(day.value, dayWindows)}
+                disabled={createWindowMutation.isPending}
+                className="flex items-center space-x-1 text-xs text-[#531B93] hover:underline disabled:opacity-50"
+              >
+                <Plus className="w-3 h-3" />
+                <span>Add hours</span>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <h3 className="text-sm font-medium text-slate-700 mb-1">Date overrides</h3>
+      <p className="text-xs text-slate-500 mb-2">
+        Block out holidays, or set different hours for one date. A date with overrides ignores its weekly hours.
+      </p>
+      <div className="space-y-2 mb-4">
+        {overrides.length === 0 && <p className="text-sm text-slate-400">No upcoming overrides</p>}
+        {overrides.map((override) => (
+          <div key={override.id} className="flex items-center justify-between gap-3 border border-slate-200 rounded-lg px-3 py-2 text-sm">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="font-medium text-slate-800">{formatDateOnlyToDDMMYY(override.override_date)}</span>
+              {override.start_time && override.end_time ? (
+                <span className="text-slate-700">
+                  {formatTimeRange(toTimeInput(override.start_time), toTimeInput(override.end_time))}
+                </span>
+              ) : (
+                <span className="px-2 py-0.5 rounded bg-red-50 text-red-700 text-xs font-medium">Closed all day</span>
+              )}
+              {override.note && <span className="text-slate-500">{override.note}</span>}
+            </div>
+            <button
+              onClick={() => deleteOverrideMutation.mutate(override.id)}
+              className="text-red-600 hover:text-red-800"
+              title="Remove override"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          value={overrideDate}
+          min={today}
+          onChange={(e) => setOverrideDate(e.target.value)}
+          className={inputClass}
+        />
+        <select
+          value={overrideClosed ? 'closed' : 'hours'}
+          onChange={(e) => setOverrideClosed(e.target.value === 'closed')}
+          className={inputClass}
+        >
+          <option value="closed">Closed all day</option>
+          <option value="hours">Custom hours</option>
+        </select>
+        {!overrideClosed && (
+          <>
+            <input type="time" value={overrideStart} onChange={(e) => setOverrideStart(e.target.value)} className={inputClass} />
+            <span className="text-slate-400">–</span>
+            <input type="time" value={overrideEnd} onChange={(e) => setOverrideEnd(e.target.value)} className={inputClass} />
+          </>
+        )}
+        <input
+          type="text"
+          value={overrideNote}
+          onChange={(e) => setOverrideNote(e.target.value)}
+          placeholder="Note, e.g. Diwali"
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+        />
+        <button
+          onClick={handleAddOverride}
+          disabled={createOverrideMutation.isPending || !overrideDate}
+          className="flex items-center space-x-1 px-3 py-2 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Override</span>
+        </button>
+      </div>
+    </div>
+  );
+}
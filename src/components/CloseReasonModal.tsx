@@ -0,0 +1,49 @@
+import { X } from 'lucide-react';
+import { CLOSED_REASON_LOST, CLOSED_REASON_WON } from '../lib/pipelineStages';
+
+/**
+ * Asks how a deal ended before it moves into a closed stage
+ */
+export default function CloseReasonModal({
+  onConfirm,
+  onClose
+}: {
+  onConfirm: (reason: string) => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 relative space-y-4">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Close lead</h2>
+          <p className="text-sm text-slate-600 mt-1">How did this deal end?</p>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={() => onConfirm(CLOSED_REASON_LOST)}
+            className="px-4 py-2 border border-red-300 text-red-600 rounded-lg text-sm hover:bg-red-50 transition-colors"
+          >
+            Close - {CLOSED_REASON_LOST}
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(CLOSED_REASON_WON)}
+            className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-lg text-sm hover:from-green-600 hover:to-emerald-700 transition-all"
+          >
+            Close - {CLOSED_REASON_WON}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { CustomFieldDefinition, CustomFieldValue } from '../lib/supabase';
+
+const inputClass =
+  'w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]';
+
+/**
+ * Form control for one custom field, chosen by the field's type.
+ * Values are passed through as entered; normalize them before saving.
+ */
+export default function CustomFieldInput({
+  field,
+  value,
+  onChange
+}: {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+}) {
+  if (field.field_type === 'multi_select') {
+    const selected = Array.isArray(value) ? value : [];
+    return (
+      <div className="flex flex-wrap gap-3">
+        {field.options.map((option) => (
+          <label key={option} className="flex items-center space-x-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(option)}
+              onChange={() => onChange(selected.includes(option) ? selected.filter((s) => s !== option) : [...selected, option])}
+              className="w-4 h-4 text-[#531B93] rounded focus:ring-2 focus:ring-[#531B93]"
+            />
+            <span>{option}</span>
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  const scalar = value === null || value === undefined || Array.isArray(value) ? '' : String(value);
+
+  if (field.field_type === 'select') {
+    return (
+      <select value={scalar} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        <option value="">Select...</option>
+        {field.options.map((option) => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type={field.field_type === 'number' ? 'number' : field.field_type === 'date' ? 'date' : 'text'}
+      value={scalar}
+      onChange={(e) => onChange(e.target.value)}
+      className={inputClass}
+    />
+  );
+}
@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { CustomFieldDefinition, CustomFieldType } from '../lib/supabase';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { CUSTOM_FIELD_TYPES, hasOptions, createCustomField, updateCustomField, deleteCustomField } from '../lib/customFields';
+import { Edit2, Trash2, Plus, Save, X, ListPlus } from 'lucide-react';
+
+type FieldForm = {
+  label: string;
+  field_type: CustomFieldType;
+  options: string;
+};
+
+const EMPTY_FORM: FieldForm = { label: '', field_type: 'text', options: '' };
+
+const parseOptions = (options: string) =>
+  Array.from(new Set(options.split(',').map((option) => option.trim()).filter(Boolean)));
+
+const typeLabel = (type: CustomFieldType) =>
+  CUSTOM_FIELD_TYPES.find((option) => option.value === type)?.label || type;
+
+export default function CustomFieldsManager() {
+  const queryClient = useQueryClient();
+  const { customFields, isLoading } = useCustomFields();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<FieldForm>(EMPTY_FORM);
+  const [newForm, setNewForm] = useState<FieldForm>(EMPTY_FORM);
+  const [showAddForm, setShowAddForm] = useState(false);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['lead-custom-fields'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createCustomField,
+    onSuccess: () => {
+      invalidate();
+      setShowAddForm(false);
+      setNewForm(EMPTY_FORM);
+    },
+    onError: (error: Error) => {
+      alert(`Failed to add field: ${error.message}`);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: updateCustomField,
+    onSuccess: () => {
+      invalidate();
+      setEditingId(null);
+    },
+    onError: (error: Error) => {
+      alert(`Failed to save field: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteCustomField,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to delete field');
+    },
+  });
+
+  const validate = (form: FieldForm) => {
+    if (!form.label.trim()) {
+      alert('Field name is required');
+      return false;
+    }
+    if (hasOptions(form.field_type) && parseOptions(form.options).length === 0) {
+      alert('Add at least one option, separated by commas');
+      return false;
+    }
+    return true;
+  };
+
+  const handleCreate = () => {
+    if (!validate(newForm)) return;
+    const maxOrder = customFields.reduce((max, field) => Math.max(max, field.sort_order), 0);
+    createMutation.mutate({
+      label: newForm.label,
+      field_type: newForm.field_type,
+      options: hasOptions(newForm.field_type) ? parseOptions(newForm.options) : [],
+      sort_order: maxOrder + 1
+    });
+  };
+
+  const handleUpdate = (field: CustomFieldDefinition) => {
+    if (!validate({ ...editForm, field_type: field.field_type })) return;
+    updateMutation.mutate({
+      id: field.id,
+      changes: {
+        label: editForm.label.trim(),
+        options: hasOptions(field.field_type) ? parseOptions(editForm.options) : []
+      }
+    });
+  };
+
+  const handleDelete = (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete the "${field.label}" field? Values already entered are kept but no longer shown.`)) return;
+    deleteMutation.mutate(field.id);
+  };
+
+  const inputClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <ListPlus className="w-5 h-5 text-[#531B93]" />
+          <h2 className="text-lg font-semibold text-slate-800">Custom Lead Fields</h2>
+        </div>
+        {!showAddForm && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="flex items-center space-x-1 text-[#2563EB] hover:text-[#1d4ed8] text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Field</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-slate-600 mb-4">
+        Extra details tracked on every lead, such as bed count or EHR system. They appear on the lead
+        profile and Add Lead form, in the advanced filters and in exports. A field's type can't be changed
+        after it is created.
+      </p>
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading fields...</p>}
+      {!isLoading && customFields.length === 0 && !showAddForm && (
+        <p className="text-slate-500 text-sm">No custom fields yet</p>
+      )}
+
+      <div className="space-y-2">
+        {customFields.map((field) => (
+          <div key={field.id} className="border border-slate-200 rounded-lg p-3">
+            {editingId === field.id ? (
+              <div className="space-y-3">
+                <div className="grid md:grid-cols-2 gap-3">
+                  <input
+                    type="text"
+                    value={editForm.label}
+                    onChange={(e) => setEditForm({ ...editForm, label: e.target.value })}
+                    placeholder="Field name"
+                    className={inputClass}
+                  />
+                  {hasOptions(field.field_type) && (
+                    <input
+                      type="text"
+                      value={editForm.options}
+                      onChange={(e) => setEditForm({ ...editForm, options: e.target.value })}
+                      placeholder="Options, comma-separated"
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleUpdate(field)}
+                    disabled={updateMutation.isPending}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>Save</span>
+                  </button>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="flex items-center space-x-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50"
+                  >
+                    <X className="w-4 h-4" />
+                    <span>Cancel</span>
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-slate-800">{field.label}</span>
+                    <span className="text-xs bg-slate-100 text-slate-700 px-2 py-0.5 rounded">{typeLabel(field.field_type)}</span>
+                  </div>
+                  {field.options.length > 0 && (
+                    <p className="text-xs text-slate-500 truncate mt-1">{field.options.join(', ')}</p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => {
+                      setEditingId(field.id);
+                      setEditForm({ label: field.label, field_type: field.field_type, options: field.options.join(', ') });
+                    }}
+                    className="text-blue-600 hover:text-blue-800"
+                    title="Edit field"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(field)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Delete field"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {showAddForm && (
+        <div className="mt-4 border-2 border-dashed border-slate-300 rounded-lg p-3 space-y-3">
+          <div className="grid md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={newForm.label}
+              onChange={(e) => setNewForm({ ...newForm, label: e.target.value })}
+              placeholder="Field name, e.g. Bed Count"
+              className={inputClass}
+            />
+            <select
+              value={newForm.field_type}
+              onChange={(e) => setNewForm({ ...newForm, field_type: e.target.value as CustomFieldType })}
+              className={inputClass}
+            >
+              {CUSTOM_FIELD_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            {hasOptions(newForm.field_type) && (
+              <input
+                type="text"
+                value={newForm.options}
+                onChange={(e) => setNewForm({ ...newForm, options: e.target.value })}
+                placeholder="Options, comma-separated"
+                className={inputClass}
+              />
+            )}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleCreate}
+              disabled={createMutation.isPending}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+            <button
+              onClick={() => {
+                setShowAddForm(false);
+                setNewForm(EMPTY_FORM);
+              }}
+              className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { SpreadsheetFormat } from '../lib/spreadsheet';
+import { fetchAllLeads, fetchLeadCount, hasActiveLeadFilters, LeadListFilters } from '../lib/leadSearch';
+import { FilterField } from '../lib/leadFilterBuilder';
+import { getExportColumns, DEFAULT_EXPORT_COLUMN_KEYS, exportLeads } from '../lib/leadExport';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { X, Download } from 'lucide-react';
+
+export default function ExportLeadsModal({
+  filters,
+  filterFields,
+  filteredCount,
+  onClose
+}: {
+  filters: LeadListFilters;
+  filterFields: FilterField[];
+  filteredCount: number;
+  onClose: () => void;
+}) {
+  const isFiltered = hasActiveLeadFilters(filters);
+  const [scope, setScope] = useState<'filtered' | 'all'>(isFiltered ? 'filtered' : 'all');
+  const [format, setFormat] = useState<SpreadsheetFormat>('csv');
+  const [columnKeys, setColumnKeys] = useState<string[]>(DEFAULT_EXPORT_COLUMN_KEYS);
+  const [exporting, setExporting] = useState(false);
+  const { customFields } = useCustomFields();
+  const { admins } = useAdminUsers();
+  const exportColumns = getExportColumns(customFields, admins);
+
+  const { data: totalCount = 0 } = useQuery({
+    queryKey: ['leads', 'count'],
+    queryFn: fetchLeadCount,
+    staleTime: 2 * 60 * 1000,
+  });
+
+  const rowCount = scope === 'filtered' ? filteredCount : totalCount;
+
+  const toggleColumn = (key: string) => {
+    setColumnKeys((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      // Rows are fetched at export time; the table only holds the current page
+      const leads = await fetchAllLeads(scope === 'filtered' ? filters : undefined, filterFields);
+      await exportLeads(leads, exportColumns, columnKeys, format);
+      onClose();
+    } catch (error) {
+      console.error('Error exporting leads:', error);
+      alert('Failed to export leads');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+      active ? 'border-[#531B93] bg-purple-50 text-[#531B93]' : 'border-slate-200 text-slate-600 hover:border-slate-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-8 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          <X className="w-6 h-6" />
+        </button>
+
+        <h2 className="text-2xl font-bold text-slate-800 mb-6">Export Leads</h2>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Rows</label>
+            <div className="flex gap-3">
+              <button onClick={() => setScope('filtered')} disabled={!isFiltered} className={`${optionClass(scope === 'filtered')} disabled:opacity-50`}>
+                Current filters ({filteredCount})
+              </button>
+              <button onClick={() => setScope('all')} className={optionClass(scope === 'all')}>
+                All leads ({totalCount})
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Format</label>
+            <div className="flex gap-3">
+              <button onClick={() => setFormat('csv')} className={optionClass(format === 'csv')}>CSV</button>
+              <button onClick={() => setFormat('xlsx')} className={optionClass(format === 'xlsx')}>Excel (.xlsx)</button>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-700">Columns</label>
+              <div className="space-x-3 text-sm">
+                <button onClick={() => setColumnKeys(exportColumns.map((column) => column.key))} className="text-[#2563EB] hover:underline">
+                  Select all
+                </button>
+                <button onClick={() => setColumnKeys([])} className="text-slate-500 hover:underline">
+                  Clear
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 bg-slate-50 rounded-lg p-4">
+              {exportColumns.map((column) => (
+                <label key={column.key} className="flex items-center space-x-2 cursor-pointer text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={columnKeys.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="w-4 h-4 text-[#531B93] rounded focus:ring-2 focus:ring-[#531B93]"
+                  />
+                  <span>{column.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex space-x-4 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={exporting || columnKeys.length === 0 || rowCount === 0}
+              className="flex-1 flex items-center justify-center space-x-2 bg-gradient-to-r from-[#531B93] to-[#2563EB] text-white px-4 py-3 rounded-lg hover:from-[#3d1470] hover:to-[#1d4ed8] transition-all disabled:opacity-50 shadow-md font-semibold"
+            >
+              <Download className="w-5 h-5" />
+              <span>{exporting ? 'Exporting...' : `Export ${rowCount} Leads`}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
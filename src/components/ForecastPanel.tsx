@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchLeadForecast, saveForecastTarget, formatMonth, formatCurrency, ForecastMonth } from '../lib/forecast';
+import { Target, Pencil } from 'lucide-react';
+
+function TargetCell({ month }: { month: ForecastMonth }) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: saveForecastTarget,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leads', 'forecast'] });
+      setEditing(false);
+    },
+    onError: () => {
+      alert('Failed to save target');
+    },
+  });
+
+  const save = () => {
+    const amount = value.trim() ? parseFloat(value) : null;
+    if (amount !== null && (isNaN(amount) || amount < 0)) {
+      alert('Enter a target of 0 or more');
+      return;
+    }
+    if (amount === month.target) {
+      setEditing(false);
+      return;
+    }
+    saveMutation.mutate({ month: month.month, amount });
+  };
+
+  if (editing) {
+    return (
+      <input
+        type="number"
+        min="0"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') save();
+          if (e.key === 'Escape') setEditing(false);
+        }}
+        disabled={saveMutation.isPending}
+        placeholder="No target"
+        className="w-28 px-2 py-1 border border-slate-300 rounded text-sm text-right focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
+        autoFocus
+      />
+    );
+  }
+
+  return (
+    <button
+      onClick={() => {
+        setValue(month.target?.toString() || '');
+        setEditing(true);
+      }}
+      className="inline-flex items-center space-x-1 text-slate-700 hover:text-[#2563EB] group"
+      title="Set target"
+    >
+      <span>{month.target !== null ? formatCurrency(month.target) : <span className="text-slate-400">Set</span>}</span>
+      <Pencil className="w-3 h-3 opacity-0 group-hover:opacity-100" />
+    </button>
+  );
+}
+
+/**
+ * Committed revenue by month won, weighted and best-case pipeline by expected
+ * close month, against the monthly targets
+ */
+export default function ForecastPanel() {
+  const { data: forecast, isLoading, error } = useQuery({
+    // Nested under ['leads'] so lead invalidations refresh it
+    queryKey: ['leads', 'forecast'],
+    queryFn: () => fetchLeadForecast(),
+    staleTime: 2 * 60 * 1000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <p className="text-slate-500 text-sm">Loading forecast...</p>
+      </div>
+    );
+  }
+
+  if (error || !forecast) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <p className="text-red-600 text-sm">Failed to load forecast</p>
+      </div>
+    );
+  }
+
+  const totals = forecast.months.reduce(
+    (sum, month) => ({
+      committed: sum.committed + month.committed,
+      weighted: sum.weighted + month.weighted,
+      bestCase: sum.bestCase + month.bestCase,
+      target: sum.target + (month.target || 0)
+    }),
+    { committed: 0, weighted: 0, bestCase: 0, target: 0 }
+  );
+
+  // Bars share one scale so months can be compared at a glance
+  const scale = Math.max(1, ...forecast.months.map((month) => Math.max(month.bestCase, month.target || 0)));
+  const percent = (value: number) => `${(value / scale) * 100}%`;
+
+  const summaryCards = [
+    { label: 'Committed', value: totals.committed, hint: 'Won deals', className: 'text-green-600' },
+    { label: 'Weighted', value: totals.weighted, hint: 'Won + open deals × stage probability', className: 'text-[#2563EB]' },
+    { label: 'Best case', value: totals.bestCase, hint: 'Won + every open deal', className: 'text-[#531B93]' },
+    { label: 'Target', value: totals.target, hint: `Next ${forecast.months.length} months`, className: 'text-slate-800' }
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-6">
+        <Target className="w-5 h-5 text-[#2563EB]" />
+        <h2 className="text-lg font-semibold text-slate-800">Revenue Forecast</h2>
+        <span className="text-xs text-slate-500">Annual contract value by expected close month</span>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {summaryCards.map((card) => (
+          <div key={card.label} className="rounded-lg bg-slate-50 p-4">
+            <p className="text-sm text-slate-600">{card.label}</p>
+            <p className={`text-2xl font-bold ${card.className}`}>{formatCurrency(card.value)}</p>
+            <p className="text-xs text-slate-500 mt-1">{card.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="pb-2 font-medium">Month</th>
+              <th className="pb-2 font-medium w-1/3"></th>
+              <th className="pb-2 font-medium text-right">Committed</th>
+              <th className="pb-2 font-medium text-right">Weighted</th>
+              <th className="pb-2 font-medium text-right">Best case</th>
+              <th className="pb-2 font-medium text-right">Target</th>
+              <th className="pb-2 font-medium text-right">Weighted vs target</th>
+            </tr>
+          </thead>
+          <tbody>
+            {forecast.months.map((month) => {
+              const attainment = month.target ? Math.round((month.weighted / month.target) * 100) : null;
+
+              return (
+                <tr key={month.month} className="border-b border-slate-100 last:border-0">
+                  <td className="py-3 font-medium text-slate-700 whitespace-nowrap">
+                    {formatMonth(month.month)}
+                    <span className="block text-xs font-normal text-slate-500">
+                      {month.openDeals} open {month.openDeals === 1 ? 'deal' : 'deals'}
+                    </span>
+                  </td>
+                  <td className="py-3 pr-4">
+                    <div className="relative h-3 bg-slate-100 rounded-full">
+                      <div className="absolute inset-y-0 left-0 bg-purple-200 rounded-full" style={{ width: percent(month.bestCase) }} />
+                      <div className="absolute inset-y-0 left-0 bg-[#2563EB] rounded-full" style={{ width: percent(month.weighted) }} />
+                      <div className="absolute inset-y-0 left-0 bg-green-500 rounded-full" style={{ width: percent(month.committed) }} />
+                      {month.target !== null && (
+                        <div className="absolute -inset-y-1 w-0.5 bg-slate-800" style={{ left: percent(month.target) }} title="Target" />
+                      )}
+                    </div>
+                  </td>
+                  <td className="py-3 text-right font-semibold text-green-600">{formatCurrency(month.committed)}</td>
+                  <td className="py-3 text-right font-semibold text-[#2563EB]">{formatCurrency(month.weighted)}</td>
+                  <td className="py-3 text-right font-semibold text-[#531B93]">{formatCurrency(month.bestCase)}</td>
+                  <td className="py-3 text-right"><TargetCell month={month} /></td>
+                  <td className="py-3 text-right">
+                    {attainment !== null ? (
+                      <span className={`font-semibold ${attainment >= 100 ? 'text-green-600' : attainment >= 75 ? 'text-amber-600' : 'text-red-600'}`}>
+                        {attainment}%
+                      </span>
+                    ) : (
+                      <span className="text-slate-400">-</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {(forecast.overdue.openDeals > 0 || forecast.unscheduled.openDeals > 0) && (
+        <div className="mt-4 space-y-1 text-sm text-slate-600">
+          {forecast.overdue.openDeals > 0 && (
+            <p>
+              <span className="font-medium text-red-600">{forecast.overdue.openDeals} open {forecast.overdue.openDeals === 1 ? 'deal is' : 'deals are'} past their expected close date</span>
+              {' '}({formatCurrency(forecast.overdue.weighted)} weighted, {formatCurrency(forecast.overdue.bestCase)} best case)
+            </p>
+          )}
+          {forecast.unscheduled.openDeals > 0 && (
+            <p>
+              <span className="font-medium text-amber-600">{forecast.unscheduled.openDeals} open {forecast.unscheduled.openDeals === 1 ? 'deal has' : 'deals have'} no expected close date</span>
+              {' '}({formatCurrency(forecast.unscheduled.weighted)} weighted, {formatCurrency(forecast.unscheduled.bestCase)} best case)
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
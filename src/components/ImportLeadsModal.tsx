@@ -0,0 +1,367 @@
+import { useMemo, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { LEAD_SOURCES } from '../lib/constants';
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { getInitialStage } from '../lib/pipelineStages';
+import { fetchAllLeads } from '../lib/leadSearch';
+import { parseSpreadsheetFile, downloadSpreadsheet, ParsedSheet } from '../lib/spreadsheet';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportRowResult,
+  autoMapColumns,
+  validateImportRows,
+  insertLeadsInBatches
+} from '../lib/leadImport';
+import { X, Upload, AlertTriangle, CheckCircle, Copy, Download } from 'lucide-react';
+
+type Step = 'upload' | 'map' | 'review' | 'importing' | 'done';
+
+export default function ImportLeadsModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: () => void }) {
+  const { stages } = usePipelineStages();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultSource, setDefaultSource] = useState('');
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [importDuplicates, setImportDuplicates] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [inserted, setInserted] = useState(0);
+  const [failedRows, setFailedRows] = useState<ImportRowResult[]>([]);
+  const [working, setWorking] = useState(false);
+
+  const invalidRows = useMemo(() => results.filter((row) => row.errors.length > 0), [results]);
+  const duplicateRows = useMemo(() => results.filter((row) => row.errors.length === 0 && row.duplicateOf), [results]);
+  const rowsToImport = useMemo(
+    () => results.filter((row) => row.errors.length === 0 && (importDuplicates || !row.duplicateOf)),
+    [results, importDuplicates]
+  );
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(({ key, required }) => required && mapping[key] < 0 && !(key === 'source' && defaultSource))
+    : [];
+
+  const handleFile = async (file: File) => {
+    setWorking(true);
+    try {
+      const parsed = await parseSpreadsheetFile(file);
+      if (parsed.rows.length === 0) {
+        alert('No rows found in this file. The first row must contain column headers.');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(autoMapColumns(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      alert('Could not read this file. Please upload a .csv or .xlsx file.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Dry run: validate every row and check for duplicates without inserting anything
+  const handleValidate = async () => {
+    if (!sheet || !mapping) return;
+
+    setWorking(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      let adminName = '';
+      if (user?.email) {
+        const { data: adminData } = await supabase
+          .from('admin_users')
+          .select('name')
+          .eq('email', user.email)
+          .maybeSingle();
+
+        adminName = adminData?.name || '';
+      }
+
+      // Paged, so duplicates are found beyond the per-request row cap
+      const existingLeads = await fetchAllLeads();
+
+      setResults(
+        validateImportRows({
+          rows: sheet.rows,
+          mapping,
+          defaultSource,
+          initialStatus: getInitialStage(stages)?.name,
+          existingLeads,
+          addedBy: adminName || user?.email || 'Admin',
+          addedByEmail: user?.email || null
+        })
+      );
+      setStep('review');
+    } catch (error) {
+      console.error('Error validating import:', error);
+      alert('Failed to validate the import. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress(0);
+
+    const result = await insertLeadsInBatches(rowsToImport, setProgress);
+    setInserted(result.inserted);
+    setFailedRows(result.failed);
+    setStep('done');
+  };
+
+  const rejects = useMemo(() => {
+    const skippedDuplicates = importDuplicates ? [] : duplicateRows;
+    return [...invalidRows, ...skippedDuplicates, ...failedRows].sort((a, b) => a.rowNumber - b.rowNumber);
+  }, [invalidRows, duplicateRows, failedRows, importDuplicates]);
+
+  const handleDownloadRejects = async () => {
+    if (!sheet) return;
+
+    const reasons = (row: ImportRowResult) =>
+      [...row.errors, ...(row.duplicateOf && row.errors.length === 0 ? [`Duplicate of ${row.duplicateOf}`] : [])].join('; ');
+
+    await downloadSpreadsheet(
+      ['Row', ...sheet.headers, 'Reason'],
+      rejects.map((row) => [row.rowNumber, ...row.raw, reasons(row)]),
+      `${fileName.replace(/\.[^.]+$/, '') || 'import'}-rejects`,
+      'csv'
+    );
+  };
+
+  const selectClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93] text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-8 relative">
+        {step !== 'importing' && (
+          <button
+            onClick={step === 'done' ? onSuccess : onClose}
+            className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        )}
+
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">Import Leads</h2>
+        {fileName && <p className="text-sm text-slate-500 mb-6">{fileName} · {sheet?.rows.length} rows</p>}
+
+        {step === 'upload' && (
+          <div className="mt-6">
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-slate-300 rounded-xl p-10 cursor-pointer hover:border-[#531B93] hover:bg-purple-50 transition-colors">
+              <Upload className="w-10 h-10 text-slate-400 mb-3" />
+              <span className="text-slate-700 font-medium">{working ? 'Reading file...' : 'Choose a CSV or Excel file'}</span>
+              <span className="text-sm text-slate-500 mt-1">The first row must contain column headers</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                disabled={working}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <div className="space-y-6">
+            <p className="text-sm text-slate-600">Match your spreadsheet columns to lead fields. Fields marked * are required.</p>
+
+            <div className="grid sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ key, label, required }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    {label}{required ? ' *' : ''}
+                  </label>
+                  <select
+                    value={mapping[key]}
+                    onChange={(e) => setMapping({ ...mapping, [key]: Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    <option value={-1}>Not mapped</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Default source</label>
+              <select value={defaultSource} onChange={(e) => setDefaultSource(e.target.value)} className={selectClass}>
+                <option value="">None</option>
+                {LEAD_SOURCES.map((source) => (
+                  <option key={source} value={source}>{source}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-1">Used for rows with no source, e.g. a sheet of LinkedIn contacts</p>
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-amber-700 bg-amber-50 rounded-lg px-4 py-3">
+                Map {missingRequired.map((field) => field.label).join(', ')} to continue
+              </p>
+            )}
+
+            <div className="flex space-x-4 pt-2">
+              <button
+                onClick={() => setStep('upload')}
+                className="flex-1 px-4 py-3 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors font-medium"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleValidate}
+                disabled={working || missingRequired.length > 0}
+                className="flex-1 bg-gradient-to-r from-[#531B93] to-[#2563EB] text-white px-4 py-3 rounded-lg hover:from-[#3d1470] hover:to-[#1d4ed8] transition-all disabled:opacity-50 shadow-md font-semibold"
+              >
+                {working ? 'Checking...' : 'Check Rows'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="rounded-lg bg-green-50 p-4">
+                <CheckCircle className="w-5 h-5 text-green-600 mb-1" />
+                <p className="text-2xl font-bold text-green-700">{results.length - invalidRows.length - duplicateRows.length}</p>
+                <p className="text-sm text-green-700">Ready</p>
+              </div>
+              <div className="rounded-lg bg-orange-50 p-4">
+                <Copy className="w-5 h-5 text-orange-600 mb-1" />
+                <p className="text-2xl font-bold text-orange-700">{duplicateRows.length}</p>
+                <p className="text-sm text-orange-700">Duplicates</p>
+              </div>
+              <div className="rounded-lg bg-red-50 p-4">
+                <AlertTriangle className="w-5 h-5 text-red-600 mb-1" />
+                <p className="text-2xl font-bold text-red-700">{invalidRows.length}</p>
+                <p className="text-sm text-red-700">Errors</p>
+              </div>
+            </div>
+
+            {duplicateRows.length > 0 && (
+              <label className="flex items-center space-x-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={importDuplicates}
+                  onChange={(e) => setImportDuplicates(e.target.checked)}
+                  className="w-4 h-4 text-[#531B93] rounded"
+                />
+                <span>Import duplicates anyway (they will be listed under Possible Duplicates)</span>
+              </label>
+            )}
+
+            {(invalidRows.length > 0 || duplicateRows.length > 0) && (
+              <div className="border border-slate-200 rounded-lg max-h-64 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 sticky top-0">
+                    <tr>
+                      <th className="text-left py-2 px-3 text-xs font-medium text-slate-600 uppercase">Row</th>
+                      <th className="text-left py-2 px-3 text-xs font-medium text-slate-600 uppercase">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...invalidRows, ...duplicateRows]
+                      .sort((a, b) => a.rowNumber - b.rowNumber)
+                      .slice(0, 200)
+                      .map((row) => (
+                        <tr key={row.rowNumber} className="border-t border-slate-100">
+                          <td className="py-2 px-3 text-slate-600 align-top">{row.rowNumber}</td>
+                          <td className="py-2 px-3">
+                            {row.errors.map((message) => (
+                              <p key={message} className="text-red-700">{message}</p>
+                            ))}
+                            {row.errors.length === 0 && row.duplicateOf && (
+                              <p className="text-orange-700">Duplicate of {row.duplicateOf}</p>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <button
+                onClick={() => setStep('map')}
+                className="flex-1 px-4 py-3 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors font-medium"
+              >
+                Back
+              </button>
+              {rejects.length > 0 && (
+                <button
+                  onClick={handleDownloadRejects}
+                  className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors font-medium"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Download Rejects</span>
+                </button>
+              )}
+              <button
+                onClick={handleImport}
+                disabled={rowsToImport.length === 0}
+                className="flex-1 bg-[#14B8A6] text-white px-4 py-3 rounded-lg hover:bg-[#0f9b8e] transition-all disabled:opacity-50 shadow-md font-semibold"
+              >
+                Import {rowsToImport.length} Leads
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="py-8">
+            <p className="text-slate-700 mb-3">Importing {progress} of {rowsToImport.length} leads...</p>
+            <div className="w-full bg-slate-200 rounded-full h-3">
+              <div
+                className="bg-gradient-to-r from-[#531B93] to-[#2563EB] h-3 rounded-full transition-all"
+                style={{ width: `${rowsToImport.length ? (progress / rowsToImport.length) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-6 py-4">
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+              <p className="text-lg text-slate-800">
+                Imported <span className="font-bold">{inserted}</span> leads
+                {rejects.length > 0 && <>, <span className="font-bold">{rejects.length}</span> rows rejected</>}
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {rejects.length > 0 && (
+                <button
+                  onClick={handleDownloadRejects}
+                  className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors font-medium"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Download Rejects</span>
+                </button>
+              )}
+              <button
+                onClick={onSuccess}
+                className="flex-1 bg-gradient-to-r from-[#531B93] to-[#2563EB] text-white px-4 py-3 rounded-lg hover:from-[#3d1470] hover:to-[#1d4ed8] transition-all shadow-md font-semibold"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
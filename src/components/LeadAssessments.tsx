@@ -0,0 +1,69 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, Assessment } from '../lib/supabase';
+import { formatDateTimeToLocal } from '../lib/dateUtils';
+import RecordTags from './RecordTags';
+import { ClipboardList, ExternalLink } from 'lucide-react';
+
+async function fetchLeadAssessments(leadId: string): Promise<Assessment[]> {
+  const { data, error } = await supabase
+    .from('assessments')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Assessments submitted by this lead, with their tags
+ */
+export default function LeadAssessments({ leadId }: { leadId: string }) {
+  const queryClient = useQueryClient();
+
+  const { data: assessments = [] } = useQuery({
+    queryKey: ['lead-assessments', leadId],
+    queryFn: () => fetchLeadAssessments(leadId),
+    staleTime: 2 * 60 * 1000,
+  });
+
+  if (assessments.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <ClipboardList className="w-5 h-5 text-[#531B93]" />
+        <h2 className="text-lg font-semibold text-slate-800">Assessments</h2>
+      </div>
+      <div className="space-y-3">
+        {assessments.map((assessment) => (
+          <div key={assessment.id} className="border border-slate-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <p className="font-medium text-slate-800">
+                  {assessment.score}/100 · {assessment.efficiency_level}
+                </p>
+                <p className="text-xs text-slate-500">{formatDateTimeToLocal(assessment.created_at)}</p>
+              </div>
+              <a
+                href={`/assessment-report/${assessment.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center space-x-1 text-sm text-[#2563EB] hover:underline"
+              >
+                <span>View report</span>
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            </div>
+            <RecordTags
+              table="assessments"
+              id={assessment.id}
+              tags={assessment.tags || []}
+              onSaved={() => queryClient.invalidateQueries({ queryKey: ['lead-assessments', leadId] })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
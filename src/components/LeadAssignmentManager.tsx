@@ -0,0 +1,104 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase, LeadAssignmentSettings } from '../lib/supabase';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { ASSIGNMENT_MODES, fetchAssignmentSettings } from '../lib/leadAssignment';
+import { UserCheck } from 'lucide-react';
+
+async function updateAssignmentMode(mode: LeadAssignmentSettings['mode']): Promise<void> {
+  const { error } = await supabase
+    .from('lead_assignment_settings')
+    .update({ mode })
+    .eq('id', true);
+
+  if (error) throw error;
+}
+
+async function updateAssignmentPool(params: { adminId: string; enabled: boolean }): Promise<void> {
+  const { error } = await supabase
+    .from('admin_users')
+    .update({ receives_auto_assignments: params.enabled })
+    .eq('id', params.adminId);
+
+  if (error) throw error;
+}
+
+export default function LeadAssignmentManager() {
+  const queryClient = useQueryClient();
+  const { admins } = useAdminUsers();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['lead-assignment-settings'],
+    queryFn: fetchAssignmentSettings,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const modeMutation = useMutation({
+    mutationFn: updateAssignmentMode,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-assignment-settings'] });
+    },
+    onError: () => {
+      alert('Failed to update assignment mode');
+    },
+  });
+
+  const poolMutation = useMutation({
+    mutationFn: updateAssignmentPool,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-users'] });
+    },
+    onError: () => {
+      alert('Failed to update assignment pool');
+    },
+  });
+
+  const mode = settings?.mode || 'off';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <UserCheck className="w-5 h-5 text-[#531B93]" />
+        <h2 className="text-lg font-semibold text-slate-800">Lead Assignment</h2>
+      </div>
+      <p className="text-sm text-slate-600 mb-4">
+        Choose how leads from the public assessment and booking forms get an owner.
+        Leads added or imported by an admin are never auto-assigned.
+      </p>
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading settings...</p>}
+
+      <div className="grid md:grid-cols-3 gap-3 mb-6">
+        {ASSIGNMENT_MODES.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => modeMutation.mutate(option.value)}
+            disabled={modeMutation.isPending || isLoading}
+            className={`text-left p-4 rounded-lg border-2 transition-all disabled:opacity-50 ${
+              mode === option.value ? 'border-[#531B93] bg-purple-50' : 'border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <p className="font-semibold text-slate-800">{option.label}</p>
+            <p className="text-xs text-slate-600 mt-1">{option.description}</p>
+          </button>
+        ))}
+      </div>
+
+      <h3 className="text-sm font-medium text-slate-700 mb-2">Admins receiving new leads</h3>
+      <div className="space-y-2">
+        {admins.map((admin) => (
+          <label key={admin.id} className="flex items-center space-x-3 cursor-pointer text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={admin.receives_auto_assignments}
+              onChange={(e) => poolMutation.mutate({ adminId: admin.id, enabled: e.target.checked })}
+              disabled={poolMutation.isPending}
+              className="w-4 h-4 text-[#531B93] rounded focus:ring-2 focus:ring-[#531B93]"
+            />
+            <span>{admin.name || admin.email}</span>
+            {admin.name && <span className="text-slate-400">{admin.email}</span>}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { LeadAttachment } from '../lib/supabase';
+import {
+  fetchLeadAttachments,
+  uploadLeadAttachment,
+  scanLeadAttachment,
+  deleteLeadAttachment,
+  getAttachmentUrl,
+  formatFileSize,
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES
+} from '../lib/leadAttachments';
+import { formatDateTimeToLocal } from '../lib/dateUtils';
+import { Paperclip, Upload, Eye, Download, Trash2, FileText, Image, X, RefreshCw } from 'lucide-react';
+
+const SCAN_BADGES: Record<LeadAttachment['scan_status'], { label: string; className: string }> = {
+  pending: { label: 'Scanning', className: 'bg-slate-100 text-slate-600' },
+  clean: { label: 'Clean', className: 'bg-green-100 text-green-700' },
+  skipped: { label: 'Not scanned', className: 'bg-amber-100 text-amber-700' },
+  infected: { label: 'Infected', className: 'bg-red-100 text-red-700' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-700' },
+  failed: { label: 'Scan failed', className: 'bg-red-100 text-red-700' }
+};
+
+// Files can only be opened once the scanner has let them through
+const canOpen = (attachment: LeadAttachment) =>
+  attachment.scan_status === 'clean' || attachment.scan_status === 'skipped';
+
+const canPreview = (attachment: LeadAttachment) =>
+  attachment.mime_type.startsWith('image/') || attachment.mime_type === 'application/pdf' || attachment.mime_type.startsWith('text/');
+
+/**
+ * Contracts, proposals and other files stored against a lead
+ */
+export default function LeadAttachments({ leadId }: { leadId: string }) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [preview, setPreview] = useState<{ attachment: LeadAttachment; url: string } | null>(null);
+
+  const { data: attachments = [], isLoading, error } = useQuery({
+    queryKey: ['lead-attachments', leadId],
+    queryFn: () => fetchLeadAttachments(leadId),
+    staleTime: 2 * 60 * 1000,
+    // Scans finish in the background; poll until they do
+    refetchInterval: (query) =>
+      query.state.data?.some((attachment) => attachment.scan_status === 'pending') ? 5000 : false,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['lead-attachments', leadId] });
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteLeadAttachment,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to delete attachment');
+    },
+  });
+
+  const rescanMutation = useMutation({
+    mutationFn: scanLeadAttachment,
+    onSettled: invalidate,
+    onError: () => {
+      alert('Failed to scan attachment');
+    },
+  });
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+
+    const problems: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const attachment = await uploadLeadAttachment({ leadId, file });
+        invalidate();
+        scanLeadAttachment(attachment.id)
+          .catch((error) => console.error('Error scanning attachment:', error))
+          .finally(invalidate);
+      } catch (error) {
+        console.error('Error uploading attachment:', error);
+        problems.push(error instanceof Error ? error.message : `${file.name} could not be uploaded`);
+      }
+    }
+
+    setUploading(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (problems.length > 0) alert(problems.join('\n'));
+  };
+
+  const openAttachment = async (attachment: LeadAttachment, download: boolean) => {
+    try {
+      const url = await getAttachmentUrl(attachment, download);
+      if (download) {
+        window.location.href = url;
+      } else {
+        setPreview({ attachment, url });
+      }
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      alert('Failed to open attachment');
+    }
+  };
+
+  const handleDelete = (attachment: LeadAttachment) => {
+    if (!confirm(`Delete ${attachment.file_name}?`)) return;
+    deleteMutation.mutate(attachment);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Paperclip className="w-5 h-5 text-slate-600" />
+          <h2 className="text-lg font-semibold text-slate-800">Attachments</h2>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="flex items-center space-x-1 text-[#2563EB] hover:text-[#1d4ed8] text-sm font-medium disabled:opacity-50"
+        >
+          <Upload className="w-4 h-4" />
+          <span>{uploading ? 'Uploading...' : 'Upload'}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          onChange={(e) => handleFiles(e.target.files)}
+          className="hidden"
+        />
+      </div>
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading attachments...</p>}
+      {error && <p className="text-red-600 text-sm">Failed to load attachments</p>}
+
+      {!isLoading && !error && attachments.length === 0 && (
+        <p className="text-slate-400 italic text-sm">
+          No files yet. PDF, Office documents, text, CSV and images up to {formatFileSize(MAX_ATTACHMENT_BYTES)}.
+        </p>
+      )}
+
+      {attachments.length > 0 && (
+        <ul className="divide-y divide-slate-100">
+          {attachments.map((attachment) => {
+            const badge = SCAN_BADGES[attachment.scan_status];
+            const Icon = attachment.mime_type.startsWith('image/') ? Image : FileText;
+
+            return (
+              <li key={attachment.id} className="flex items-center gap-3 py-3">
+                <Icon className="w-5 h-5 text-slate-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-800 truncate" title={attachment.file_name}>
+                    {attachment.file_name}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {ATTACHMENT_TYPES[attachment.mime_type]?.label || attachment.mime_type} · {formatFileSize(attachment.size_bytes)}
+                    {' · '}
+                    {attachment.uploaded_by_name || attachment.uploaded_by_email || 'Unknown'}, {formatDateTimeToLocal(attachment.created_at)}
+                  </p>
+                </div>
+                <span
+                  className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${badge.className}`}
+                  title={attachment.scan_result || undefined}
+                >
+                  {badge.label}
+                </span>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  {canOpen(attachment) && canPreview(attachment) && (
+                    <button
+                      onClick={() => openAttachment(attachment, false)}
+                      className="p-1 text-slate-400 hover:text-slate-700 rounded"
+                      title="Preview"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </button>
+                  )}
+                  {canOpen(attachment) && (
+                    <button
+                      onClick={() => openAttachment(attachment, true)}
+                      className="p-1 text-slate-400 hover:text-slate-700 rounded"
+                      title="Download"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                  )}
+                  {attachment.scan_status === 'failed' && (
+                    <button
+                      onClick={() => rescanMutation.mutate(attachment.id)}
+                      disabled={rescanMutation.isPending}
+                      className="p-1 text-slate-400 hover:text-slate-700 rounded"
+                      title="Retry scan"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(attachment)}
+                    disabled={deleteMutation.isPending}
+                    className="p-1 text-slate-400 hover:text-red-600 rounded"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {preview && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={() => setPreview(null)}>
+          <div
+            className="bg-white rounded-xl shadow-xl w-full max-w-4xl h-[85vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+              <h3 className="font-semibold text-slate-800 truncate">{preview.attachment.file_name}</h3>
+              <button onClick={() => setPreview(null)} className="p-1 text-slate-500 hover:text-slate-800 rounded">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto bg-slate-50 flex items-center justify-center">
+              {preview.attachment.mime_type.startsWith('image/') ? (
+                <img src={preview.url} alt={preview.attachment.file_name} className="max-w-full max-h-full object-contain" />
+              ) : (
+                <iframe src={preview.url} title={preview.attachment.file_name} className="w-full h-full bg-white" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase, Lead, Campaign } from '../lib/supabase';
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { useTags } from '../hooks/useTags';
+import { getClosingStage, CLOSED_REASON_WON, CLOSED_REASON_LOST } from '../lib/pipelineStages';
+import { wouldBecomeLost, LossDetails } from '../lib/lossReasons';
+import { assignLeads } from '../lib/leadAssignment';
+import { normalizeTag } from '../lib/tags';
+import { bulkUpdateLeads, bulkTagLeads, addLeadsToCampaign } from '../lib/leadBulkActions';
+import LossReasonModal from './LossReasonModal';
+import { Tag, Trash2, X } from 'lucide-react';
+
+async function fetchCampaignOptions(): Promise<Campaign[]> {
+  const { data, error } = await supabase
+    .from('campaigns')
+    .select('*')
+    .neq('status', 'Archived')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+type BulkAction =
+  | { type: 'status'; status: string; lossDetails?: LossDetails }
+  | { type: 'close'; reason: string; lossDetails?: LossDetails }
+  | { type: 'assign'; ownerId: string | null }
+  | { type: 'tag'; tag: string }
+  | { type: 'campaign'; campaignId: string };
+
+const selectClass =
+  'px-3 py-1.5 border border-slate-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[#531B93] disabled:opacity-50';
+
+export default function LeadBulkActions({
+  selectedLeads,
+  onClearSelection,
+  onDelete
+}: {
+  selectedLeads: Lead[];
+  onClearSelection: () => void;
+  onDelete: (leads: Lead[]) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { stages } = usePipelineStages();
+  const { admins } = useAdminUsers();
+  const { tags, suggestions } = useTags();
+  const [tag, setTag] = useState('');
+  // Stage change or close waiting on a loss reason
+  const [lossAction, setLossAction] = useState<Extract<BulkAction, { type: 'status' | 'close' }> | null>(null);
+
+  const { data: campaigns = [] } = useQuery({
+    queryKey: ['campaign-options'],
+    queryFn: fetchCampaignOptions,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async (action: BulkAction) => {
+      const leadIds = selectedLeads.map((lead) => lead.id);
+
+      switch (action.type) {
+        case 'status':
+          return bulkUpdateLeads({ leadIds, changes: { status: action.status, ...action.lossDetails } });
+        case 'close': {
+          const closingStage = getClosingStage(stages);
+          if (!closingStage) throw new Error('No closing stage is configured. Add one in Settings.');
+          return bulkUpdateLeads({ leadIds, changes: { status: closingStage.name, closed_reason: action.reason, ...action.lossDetails } });
+        }
+        case 'assign':
+          return assignLeads({ leadIds, ownerId: action.ownerId });
+        case 'tag':
+          return bulkTagLeads({ leadIds, tag: normalizeTag(action.tag, tags) });
+        case 'campaign':
+          return addLeadsToCampaign({ leadIds, campaignId: action.campaignId });
+      }
+    },
+    onSuccess: (_data, action) => {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      if (action.type === 'campaign') {
+        queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      }
+      if (action.type === 'tag') {
+        queryClient.invalidateQueries({ queryKey: ['tag-usage'] });
+        setTag('');
+      }
+      onClearSelection();
+    },
+    onError: (error) => {
+      console.error('Error running bulk action:', error);
+      alert(`Bulk update failed: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    },
+  });
+
+  const run = (action: BulkAction) => {
+    // Leads that would end up lost need a loss reason first
+    if (action.type === 'status' || action.type === 'close') {
+      const closingStage = getClosingStage(stages);
+      const changes = action.type === 'status'
+        ? { status: action.status }
+        : { status: closingStage?.name || '', closed_reason: action.reason };
+
+      if (!action.lossDetails && selectedLeads.some((lead) => wouldBecomeLost(lead, changes, stages))) {
+        setLossAction(action);
+        return;
+      }
+    }
+    bulkMutation.mutate(action);
+  };
+  const disabled = bulkMutation.isPending;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4 px-4 py-3 bg-purple-50 border border-purple-200 rounded-lg">
+      <span className="text-sm font-medium text-[#531B93]">
+        {disabled ? 'Updating...' : `${selectedLeads.length} selected`}
+      </span>
+
+      <select value="" onChange={(e) => e.target.value && run({ type: 'status', status: e.target.value })} disabled={disabled} className={selectClass}>
+        <option value="">Change stage...</option>
+        {stages.filter((stage) => !stage.is_closed).map((stage) => (
+          <option key={stage.id} value={stage.name}>{stage.name}</option>
+        ))}
+      </select>
+
+      <select value="" onChange={(e) => e.target.value && run({ type: 'close', reason: e.target.value })} disabled={disabled} className={selectClass}>
+        <option value="">Close as...</option>
+        <option value={CLOSED_REASON_WON}>{CLOSED_REASON_WON}</option>
+        <option value={CLOSED_REASON_LOST}>{CLOSED_REASON_LOST}</option>
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && run({ type: 'assign', ownerId: e.target.value === 'unassigned' ? null : e.target.value })}
+        disabled={disabled}
+        className={selectClass}
+      >
+        <option value="">Assign to...</option>
+        <option value="unassigned">Unassigned</option>
+        {admins.map((admin) => (
+          <option key={admin.id} value={admin.id}>{admin.name || admin.email}</option>
+        ))}
+      </select>
+
+      <select value="" onChange={(e) => e.target.value && run({ type: 'campaign', campaignId: e.target.value })} disabled={disabled} className={selectClass}>
+        <option value="">Add to campaign...</option>
+        {campaigns.map((campaign) => (
+          <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+        ))}
+      </select>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (tag.trim()) run({ type: 'tag', tag: tag.trim() });
+        }}
+        className="flex items-center"
+      >
+        <input
+          type="text"
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          list="bulk-tag-suggestions"
+          placeholder="Add tag"
+          disabled={disabled}
+          className="w-28 px-3 py-1.5 border border-slate-300 rounded-l-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93] disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !tag.trim()}
+          className="px-2 py-1.5 border border-l-0 border-slate-300 rounded-r-lg bg-white text-slate-600 hover:text-[#531B93] disabled:opacity-50"
+          title="Tag selected leads"
+        >
+          <Tag className="w-4 h-4" />
+        </button>
+        <datalist id="bulk-tag-suggestions">
+          {suggestions.map((suggestion) => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+      </form>
+
+      <button
+        onClick={() => onDelete(selectedLeads)}
+        disabled={disabled}
+        className="flex items-center space-x-1 px-3 py-1.5 border border-red-300 text-red-600 rounded-lg text-sm hover:bg-red-50 transition-colors disabled:opacity-50"
+      >
+        <Trash2 className="w-4 h-4" />
+        <span>Delete</span>
+      </button>
+
+      <button
+        onClick={onClearSelection}
+        className="ml-auto flex items-center space-x-1 text-sm text-slate-600 hover:text-slate-800"
+      >
+        <X className="w-4 h-4" />
+        <span>Clear selection</span>
+      </button>
+
+      {lossAction && (
+        <LossReasonModal
+          leadCount={selectedLeads.length}
+          onClose={() => setLossAction(null)}
+          onConfirm={(lossDetails) => {
+            setLossAction(null);
+            bulkMutation.mutate({ ...lossAction, lossDetails });
+          }}
+        />
+      )}
+    </div>
+  );
+}
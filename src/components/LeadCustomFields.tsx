@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Lead, CustomFieldValue } from '../lib/supabase';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { updateLeadCustomFields, normalizeCustomFields, formatCustomFieldValue } from '../lib/customFields';
+import CustomFieldInput from './CustomFieldInput';
+import { ListPlus, Save } from 'lucide-react';
+
+/**
+ * Lead profile card showing the admin-defined custom fields, editable in place
+ */
+export default function LeadCustomFields({
+  lead,
+  onSaved
+}: {
+  lead: Lead;
+  onSaved: (customFields: Record<string, CustomFieldValue>) => void;
+}) {
+  const { customFields } = useCustomFields();
+  const [isEditing, setIsEditing] = useState(false);
+  const [values, setValues] = useState<Record<string, CustomFieldValue>>({});
+  const [saving, setSaving] = useState(false);
+
+  if (customFields.length === 0) return null;
+
+  const startEditing = () => {
+    setValues(lead.custom_fields || {});
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Keep values for fields that were deleted since; they are hidden, not discarded
+      const merged = normalizeCustomFields(customFields, { ...(lead.custom_fields || {}), ...values });
+      await updateLeadCustomFields({ leadId: lead.id, customFields: merged });
+      onSaved(merged);
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error updating custom fields:', error);
+      alert('Failed to update custom fields');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <ListPlus className="w-5 h-5 text-[#531B93]" />
+          <h2 className="text-lg font-semibold text-slate-800">Additional Details</h2>
+        </div>
+        {!isEditing && (
+          <button
+            onClick={startEditing}
+            className="text-[#2563EB] hover:text-[#1d4ed8] text-sm font-medium"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            {customFields.map((field) => (
+              <div key={field.id} className={field.field_type === 'multi_select' ? 'md:col-span-2' : ''}>
+                <label className="block text-sm text-slate-600 mb-1">{field.label}</label>
+                <CustomFieldInput
+                  field={field}
+                  value={values[field.key]}
+                  onChange={(value) => setValues({ ...values, [field.key]: value })}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center space-x-1 px-4 py-2 bg-[#2563EB] text-white rounded-lg hover:bg-[#1d4ed8] transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>Save</span>
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {customFields.map((field) => {
+            const display = formatCustomFieldValue(field, lead.custom_fields?.[field.key]);
+            return (
+              <div key={field.id}>
+                <p className="text-sm text-slate-600 mb-1">{field.label}</p>
+                <p className={display ? 'text-slate-800 font-medium' : 'text-slate-400'}>{display || 'Not set'}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
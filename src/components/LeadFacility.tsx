@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Lead } from '../lib/supabase';
+import { fetchFacility, searchFacilities, setLeadFacility } from '../lib/facilities';
+
+/**
+ * The account a lead belongs to, with a picker to move or unlink the lead
+ */
+export default function LeadFacility({
+  lead,
+  onChange
+}: {
+  lead: Lead;
+  onChange: (facilityId: string | null) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [isPicking, setIsPicking] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => window.clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data: facility } = useQuery({
+    queryKey: ['facility', lead.facility_id, 'record'],
+    queryFn: () => fetchFacility(lead.facility_id!),
+    enabled: !!lead.facility_id,
+    staleTime: 2 * 60 * 1000,
+  });
+
+  const { data: options = [] } = useQuery({
+    queryKey: ['facilities', 'picker', search],
+    queryFn: () => searchFacilities(search),
+    enabled: isPicking,
+    staleTime: 2 * 60 * 1000,
+  });
+
+  const handleSelect = async (facilityId: string | null) => {
+    setSaving(true);
+    try {
+      await setLeadFacility({ leadId: lead.id, facilityId });
+      onChange(facilityId);
+      queryClient.invalidateQueries({ queryKey: ['facilities'] });
+      queryClient.invalidateQueries({ queryKey: ['facility'] });
+      setIsPicking(false);
+      setSearchInput('');
+    } catch (error) {
+      console.error('Error updating account:', error);
+      alert('Failed to update account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        {lead.facility_id && facility ? (
+          <Link to={`/admin/accounts/${facility.id}`} className="text-[#2563EB] hover:underline font-medium">
+            {facility.name}
+          </Link>
+        ) : (
+          <p className="text-slate-800 font-medium">{lead.facility}</p>
+        )}
+        {!isPicking && (
+          <button
+            onClick={() => setIsPicking(true)}
+            className="text-xs text-slate-500 hover:text-[#2563EB]"
+          >
+            {lead.facility_id ? 'Change account' : 'Link account'}
+          </button>
+        )}
+      </div>
+      {lead.facility_id && facility && facility.name !== lead.facility && (
+        <p className="text-xs text-slate-500">Entered as "{lead.facility}"</p>
+      )}
+
+      {isPicking && (
+        <div className="mt-2 border border-slate-200 rounded-lg p-2 space-y-2">
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search accounts..."
+            autoFocus
+            className="w-full px-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+          />
+          <div className="max-h-48 overflow-y-auto">
+            {options.length === 0 ? (
+              <p className="text-sm text-slate-500 px-2 py-1">No accounts found</p>
+            ) : (
+              options.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => handleSelect(option.id)}
+                  disabled={saving || option.id === lead.facility_id}
+                  className="w-full text-left px-2 py-1.5 rounded text-sm text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+                >
+                  {option.name}
+                  {option.state && <span className="text-slate-400"> · {option.state}</span>}
+                </button>
+              ))
+            )}
+          </div>
+          <div className="flex justify-between">
+            {lead.facility_id ? (
+              <button
+                onClick={() => handleSelect(null)}
+                disabled={saving}
+                className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                Unlink
+              </button>
+            ) : (
+              <span />
+            )}
+            <button
+              onClick={() => {
+                setIsPicking(false);
+                setSearchInput('');
+              }}
+              className="text-sm text-slate-600 hover:text-slate-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
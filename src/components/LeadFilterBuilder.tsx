@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import {
+  OPERATORS_BY_TYPE, EMPTY_FILTER_GROUP,
+  createFilterRule, getFilterField, buildFilterLogic,
+  FilterTree, FilterGroup, FilterRule, FilterCombinator, FilterField
+} from '../lib/leadFilterBuilder';
+import { useTags } from '../hooks/useTags';
+import { CLOSED_REASON_WON, CLOSED_REASON_LOST } from '../lib/pipelineStages';
+import { LEAD_SOURCES, COUNTRIES, STATES_BY_COUNTRY, EFFICIENCY_LEVELS } from '../lib/constants';
+import { X, Plus, Trash2 } from 'lucide-react';
+
+const inputClass =
+  'px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]';
+
+function CombinatorToggle({
+  value,
+  onChange
+}: {
+  value: FilterCombinator;
+  onChange: (value: FilterCombinator) => void;
+}) {
+  return (
+    <div className="inline-flex rounded-lg border border-slate-300 overflow-hidden text-xs font-semibold">
+      {(['and', 'or'] as const).map((combinator) => (
+        <button
+          key={combinator}
+          type="button"
+          onClick={() => onChange(combinator)}
+          className={`px-3 py-1 uppercase ${value === combinator ? 'bg-[#531B93] text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+        >
+          {combinator}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Modal for building AND/OR groups of lead filter rules.
+ * Edits a draft copy; nothing changes on the table until Apply.
+ */
+export default function LeadFilterBuilder({
+  value,
+  fields,
+  stageNames,
+  serviceOptions,
+  onApply,
+  onClose
+}: {
+  value: FilterTree | null;
+  fields: FilterField[];
+  stageNames: string[];
+  serviceOptions: string[];
+  onApply: (tree: FilterTree) => void;
+  onClose: () => void;
+}) {
+  const [tree, setTree] = useState<FilterTree>(
+    value || { combinator: 'and', groups: [{ ...EMPTY_FILTER_GROUP, rules: [createFilterRule(fields[0].key, fields)] }] }
+  );
+
+  const { suggestions: tagSuggestions } = useTags();
+
+  const optionsByField: Record<string, string[] | undefined> = {
+    status: stageNames,
+    closed_reason: [CLOSED_REASON_WON, CLOSED_REASON_LOST],
+    source: LEAD_SOURCES,
+    efficiency_level: EFFICIENCY_LEVELS,
+    state: Object.values(STATES_BY_COUNTRY).flat(),
+    country: COUNTRIES,
+    selected_services: serviceOptions,
+    // Free text until some tags exist to pick from
+    tags: tagSuggestions.length > 0 ? tagSuggestions : undefined
+  };
+
+  const updateGroup = (groupIndex: number, changes: Partial<FilterGroup>) => {
+    setTree((prev) => ({
+      ...prev,
+      groups: prev.groups.map((group, index) => (index === groupIndex ? { ...group, ...changes } : group))
+    }));
+  };
+
+  const updateRule = (groupIndex: number, ruleIndex: number, changes: Partial<FilterRule>) => {
+    const group = tree.groups[groupIndex];
+    updateGroup(groupIndex, {
+      rules: group.rules.map((rule, index) => (index === ruleIndex ? { ...rule, ...changes } : rule))
+    });
+  };
+
+  // Switching field resets the operator and values, since they depend on the field type
+  const changeRuleField = (groupIndex: number, ruleIndex: number, fieldKey: string) => {
+    const group = tree.groups[groupIndex];
+    updateGroup(groupIndex, {
+      rules: group.rules.map((rule, index) => (index === ruleIndex ? createFilterRule(fieldKey, fields) : rule))
+    });
+  };
+
+  const removeRule = (groupIndex: number, ruleIndex: number) => {
+    const group = tree.groups[groupIndex];
+    const rules = group.rules.filter((_, index) => index !== ruleIndex);
+    if (rules.length === 0) {
+      setTree((prev) => ({ ...prev, groups: prev.groups.filter((_, index) => index !== groupIndex) }));
+    } else {
+      updateGroup(groupIndex, { rules });
+    }
+  };
+
+  const renderValueInput = (rule: FilterRule, groupIndex: number, ruleIndex: number) => {
+    const field = getFilterField(rule.field, fields);
+    if (!field || rule.operator === 'is_empty' || rule.operator === 'is_not_empty') return null;
+
+    const setValues = (values: string[]) => updateRule(groupIndex, ruleIndex, { values });
+    const options = optionsByField[field.key] || field.options;
+
+    if ((field.type === 'enum' || field.type === 'array') && options) {
+      return (
+        <select
+          multiple
+          value={rule.values}
+          onChange={(e) => setValues(Array.from(e.target.selectedOptions, (option) => option.value))}
+          className={`${inputClass} flex-1 min-w-[12rem] h-24`}
+        >
+          {options.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (field.type === 'array') {
+      return (
+        <input
+          type="text"
+          value={rule.values.join(', ')}
+          onChange={(e) => setValues(e.target.value.split(','))}
+          placeholder="Comma-separated"
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+        />
+      );
+    }
+
+    const inputType = field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text';
+
+    if (rule.operator === 'between') {
+      return (
+        <div className="flex items-center space-x-2 flex-1">
+          <input
+            type={inputType}
+            value={rule.values[0] || ''}
+            onChange={(e) => setValues([e.target.value, rule.values[1] || ''])}
+            className={`${inputClass} w-full`}
+          />
+          <span className="text-slate-400 text-sm">and</span>
+          <input
+            type={inputType}
+            value={rule.values[1] || ''}
+            onChange={(e) => setValues([rule.values[0] || '', e.target.value])}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <input
+        type={inputType}
+        value={rule.values[0] || ''}
+        onChange={(e) => setValues([e.target.value])}
+        className={`${inputClass} flex-1 min-w-[12rem]`}
+      />
+    );
+  };
+
+  const hasCompleteRule = !!buildFilterLogic(tree, fields);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-8 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          <X className="w-6 h-6" />
+        </button>
+
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">Advanced Filters</h2>
+        <p className="text-sm text-slate-500 mb-6">
+          Rules inside a group are combined with the group's AND/OR; groups are combined with the setting below.
+          Incomplete rules are ignored.
+        </p>
+
+        {tree.groups.length > 1 && (
+          <div className="flex items-center space-x-3 mb-4 text-sm text-slate-600">
+            <span>Match</span>
+            <CombinatorToggle value={tree.combinator} onChange={(combinator) => setTree({ ...tree, combinator })} />
+            <span>{tree.combinator === 'and' ? 'all groups' : 'any group'}</span>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {tree.groups.map((group, groupIndex) => (
+            <div key={groupIndex} className="border border-slate-200 rounded-lg p-4 bg-slate-50">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-3 text-sm text-slate-600">
+                  <span className="font-medium text-slate-700">Group {groupIndex + 1}</span>
+                  {group.rules.length > 1 && (
+                    <CombinatorToggle value={group.combinator} onChange={(combinator) => updateGroup(groupIndex, { combinator })} />
+                  )}
+                </div>
+                <button
+                  onClick={() => setTree({ ...tree, groups: tree.groups.filter((_, index) => index !== groupIndex) })}
+                  className="text-sm text-slate-500 hover:text-red-600"
+                >
+                  Remove group
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                {group.rules.map((rule, ruleIndex) => {
+                  const field = getFilterField(rule.field, fields) || fields[0];
+                  return (
+                    <div key={ruleIndex} className="flex flex-wrap items-start gap-2">
+                      <span className="w-10 pt-2 text-xs font-semibold text-slate-400 uppercase">
+                        {ruleIndex === 0 ? 'Where' : group.combinator}
+                      </span>
+                      <select
+                        value={rule.field}
+                        onChange={(e) => changeRuleField(groupIndex, ruleIndex, e.target.value)}
+                        className={inputClass}
+                      >
+                        {fields.map((option) => (
+                          <option key={option.key} value={option.key}>{option.label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={rule.operator}
+                        onChange={(e) => updateRule(groupIndex, ruleIndex, { operator: e.target.value as FilterRule['operator'], values: [] })}
+                        className={inputClass}
+                      >
+                        {OPERATORS_BY_TYPE[field.type].map((operator) => (
+                          <option key={operator.value} value={operator.value}>{operator.label}</option>
+                        ))}
+                      </select>
+                      {renderValueInput(rule, groupIndex, ruleIndex)}
+                      <button
+                        onClick={() => removeRule(groupIndex, ruleIndex)}
+                        className="p-2 text-slate-400 hover:text-red-600"
+                        title="Remove rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <button
+                onClick={() => updateGroup(groupIndex, { rules: [...group.rules, createFilterRule(fields[0].key, fields)] })}
+                className="flex items-center space-x-1 mt-3 text-sm text-[#2563EB] hover:underline"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add rule</span>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={() => setTree({ ...tree, groups: [...tree.groups, { ...EMPTY_FILTER_GROUP, rules: [createFilterRule(fields[0].key, fields)] }] })}
+          className="flex items-center space-x-1 mt-4 text-sm font-medium text-[#531B93] hover:underline"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add group</span>
+        </button>
+
+        <div className="flex space-x-4 pt-6">
+          <button
+            type="button"
+            onClick={() => onApply({ combinator: 'and', groups: [] })}
+            className="px-4 py-3 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors font-medium"
+          >
+            Clear
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(tree)}
+            disabled={!hasCompleteRule && tree.groups.length > 0}
+            className="flex-1 bg-gradient-to-r from-[#531B93] to-[#2563EB] text-white px-4 py-3 rounded-lg hover:from-[#3d1470] hover:to-[#1d4ed8] transition-all disabled:opacity-50 shadow-md font-semibold"
+          >
+            Apply Filters
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { LeadInteraction } from '../lib/supabase';
+import {
+  fetchLeadInteractions,
+  logLeadInteraction,
+  deleteLeadInteraction,
+  getInteractionTypeLabel,
+  getInteractionOutcomeLabel,
+  formatLastContacted,
+  INTERACTION_TYPES,
+  INTERACTION_OUTCOMES
+} from '../lib/leadInteractions';
+import { formatDateTimeToLocal, toLocalDateTimeString } from '../lib/dateUtils';
+import { PhoneCall, Phone, Mail, MessageCircle, Linkedin, Users, Plus, Trash2, ArrowUpRight, ArrowDownLeft } from 'lucide-react';
+
+const TYPE_ICONS: Record<LeadInteraction['interaction_type'], typeof Phone> = {
+  call: Phone,
+  email: Mail,
+  whatsapp: MessageCircle,
+  linkedin: Linkedin,
+  meeting: Users
+};
+
+// Only live conversations have a duration worth recording
+const hasDuration = (type: LeadInteraction['interaction_type']) => type === 'call' || type === 'meeting';
+
+type LeadInteractionsProps = {
+  leadId: string;
+  lastContactedAt?: string | null;
+  // Logging can change the lead's status and last contacted date
+  onLogged?: () => void;
+};
+
+/**
+ * Calls, emails, messages and meetings logged against a lead
+ */
+export default function LeadInteractions({ leadId, lastContactedAt, onLogged }: LeadInteractionsProps) {
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [interactionType, setInteractionType] = useState<LeadInteraction['interaction_type']>('call');
+  const [direction, setDirection] = useState<LeadInteraction['direction']>('outbound');
+  const [outcome, setOutcome] = useState<LeadInteraction['outcome']>('connected');
+  const [duration, setDuration] = useState('');
+  const [occurredAt, setOccurredAt] = useState('');
+  const [summary, setSummary] = useState('');
+
+  const { data: interactions = [], isLoading, error } = useQuery({
+    queryKey: ['lead-interactions', leadId],
+    queryFn: () => fetchLeadInteractions(leadId),
+    staleTime: 2 * 60 * 1000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['lead-interactions', leadId] });
+    queryClient.invalidateQueries({ queryKey: ['lead-activities', leadId] });
+    queryClient.invalidateQueries({ queryKey: ['leads'] });
+    onLogged?.();
+  };
+
+  const logMutation = useMutation({
+    mutationFn: logLeadInteraction,
+    onSuccess: () => {
+      invalidate();
+      setShowForm(false);
+    },
+    onError: (error: Error) => {
+      alert(`Failed to log interaction: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteLeadInteraction,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to delete interaction');
+    },
+  });
+
+  const openForm = () => {
+    setInteractionType('call');
+    setDirection('outbound');
+    setOutcome('connected');
+    setDuration('');
+    setOccurredAt(toLocalDateTimeString());
+    setSummary('');
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!occurredAt) return;
+
+    logMutation.mutate({
+      lead_id: leadId,
+      interaction_type: interactionType,
+      direction,
+      outcome,
+      duration_minutes: hasDuration(interactionType) && duration ? parseInt(duration, 10) : null,
+      occurred_at: new Date(occurredAt).toISOString(),
+      summary
+    });
+  };
+
+  const handleDelete = (interaction: LeadInteraction) => {
+    if (!confirm(`Delete this ${getInteractionTypeLabel(interaction.interaction_type).toLowerCase()}?`)) return;
+    deleteMutation.mutate(interaction.id);
+  };
+
+  const inputClassName = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#2563EB]';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <PhoneCall className="w-5 h-5 text-slate-600" />
+          <h2 className="text-lg font-semibold text-slate-800">Interactions</h2>
+          <span className="text-xs text-slate-500">Last contacted: {formatLastContacted(lastContactedAt)}</span>
+        </div>
+        {!showForm && (
+          <button
+            onClick={openForm}
+            className="flex items-center space-x-1 text-[#2563EB] hover:text-[#1d4ed8] text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Log interaction</span>
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-3 mb-4 p-4 bg-slate-50 rounded-lg">
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={interactionType}
+              onChange={(e) => setInteractionType(e.target.value as LeadInteraction['interaction_type'])}
+              className={inputClassName}
+            >
+              {INTERACTION_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as LeadInteraction['direction'])}
+              className={inputClassName}
+            >
+              <option value="outbound">Outbound</option>
+              <option value="inbound">Inbound</option>
+            </select>
+            <select
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value as LeadInteraction['outcome'])}
+              className={inputClassName}
+            >
+              {INTERACTION_OUTCOMES.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {hasDuration(interactionType) ? (
+              <input
+                type="number"
+                min="0"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                placeholder="Duration (minutes)"
+                className={inputClassName}
+              />
+            ) : (
+              <div />
+            )}
+            <input
+              type="datetime-local"
+              value={occurredAt}
+              onChange={(e) => setOccurredAt(e.target.value)}
+              max={toLocalDateTimeString()}
+              className={`${inputClassName} col-span-2`}
+              required
+            />
+          </div>
+          <textarea
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            placeholder="Summary, e.g. discussed pricing, sending proposal Friday"
+            rows={3}
+            className={`w-full ${inputClassName}`}
+          />
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={logMutation.isPending}
+              className="px-4 py-2 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] transition-colors disabled:opacity-50"
+            >
+              {logMutation.isPending ? 'Logging...' : 'Log'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-100 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading interactions...</p>}
+      {error && <p className="text-red-600 text-sm">Failed to load interactions</p>}
+
+      {!isLoading && !error && interactions.length === 0 && !showForm && (
+        <p className="text-slate-400 italic text-sm">No calls, emails or meetings logged yet</p>
+      )}
+
+      {interactions.length > 0 && (
+        <ul className="divide-y divide-slate-100">
+          {interactions.map((interaction) => {
+            const Icon = TYPE_ICONS[interaction.interaction_type];
+            const DirectionIcon = interaction.direction === 'outbound' ? ArrowUpRight : ArrowDownLeft;
+
+            return (
+              <li key={interaction.id} className="flex items-start gap-3 py-3 group">
+                <Icon className="w-5 h-5 text-slate-400 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-800 flex items-center gap-1">
+                    <DirectionIcon className="w-3.5 h-3.5 text-slate-400" />
+                    {getInteractionTypeLabel(interaction.interaction_type)}
+                    <span className="text-slate-400 font-normal">·</span>
+                    <span className="font-normal text-slate-600">{getInteractionOutcomeLabel(interaction.outcome)}</span>
+                    {interaction.duration_minutes != null && (
+                      <span className="font-normal text-slate-500">· {interaction.duration_minutes} min</span>
+                    )}
+                  </p>
+                  {interaction.summary && (
+                    <p className="text-sm text-slate-700 whitespace-pre-wrap mt-1">{interaction.summary}</p>
+                  )}
+                  <p className="text-xs text-slate-500 mt-1">
+                    {formatDateTimeToLocal(interaction.occurred_at)}
+                    {' · '}
+                    {interaction.logged_by_name || interaction.logged_by_email || 'Unknown'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDelete(interaction)}
+                  disabled={deleteMutation.isPending}
+                  className="p-1 text-slate-400 hover:text-red-600 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
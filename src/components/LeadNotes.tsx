@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'react-router-dom';
+import { LeadNote } from '../lib/supabase';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { fetchLeadNotes, fetchNoteRevisions, createLeadNote, updateLeadNote, setNotePinned } from '../lib/leadNotes';
+import { formatDateTimeToLocal } from '../lib/dateUtils';
+import NoteComposer from './NoteComposer';
+import MarkdownText from './MarkdownText';
+import { MessageSquare, Pin, PinOff, Pencil } from 'lucide-react';
+
+function NoteHistory({ noteId }: { noteId: string }) {
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: ['lead-note-revisions', noteId],
+    queryFn: () => fetchNoteRevisions(noteId),
+  });
+
+  if (isLoading) return <p className="text-xs text-slate-500 mt-2">Loading history...</p>;
+
+  return (
+    <div className="mt-3 border-l-2 border-slate-200 pl-3 space-y-3">
+      {revisions.map((revision) => (
+        <div key={revision.id}>
+          <p className="text-xs text-slate-500 mb-1">
+            Replaced {formatDateTimeToLocal(revision.created_at)}
+            {(revision.edited_by_name || revision.edited_by_email) && ` by ${revision.edited_by_name || revision.edited_by_email}`}
+          </p>
+          <MarkdownText text={revision.body} className="text-sm text-slate-500" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Append-only notes thread for a lead, with pinning, edit history and mentions
+ */
+export default function LeadNotes({ leadId }: { leadId: string }) {
+  const queryClient = useQueryClient();
+  const location = useLocation();
+  const { currentAdmin } = useAdminUsers();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const { data: notes = [], isLoading, error } = useQuery({
+    queryKey: ['lead-notes', leadId],
+    queryFn: () => fetchLeadNotes(leadId),
+    staleTime: 2 * 60 * 1000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['lead-notes', leadId] });
+    queryClient.invalidateQueries({ queryKey: ['lead-activities', leadId] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createLeadNote,
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      alert(`Failed to add note: ${error.message}`);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: updateLeadNote,
+    onSuccess: (_data, variables) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['lead-note-revisions', variables.id] });
+      setEditingId(null);
+    },
+    onError: (error: Error) => {
+      alert(`Failed to save note: ${error.message}`);
+    },
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: setNotePinned,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to pin note');
+    },
+  });
+
+  useRealtimeSubscription(
+    'lead_notes_changes',
+    'lead_notes',
+    () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-notes', leadId] });
+    }
+  );
+
+  // Mention notifications link to /admin/leads/:id#note-<id>
+  useEffect(() => {
+    if (notes.length === 0 || !location.hash.startsWith('#note-')) return;
+    document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [notes.length, location.hash]);
+
+  const pinned = notes.filter((note) => note.is_pinned);
+  const others = notes.filter((note) => !note.is_pinned);
+
+  const renderNote = (note: LeadNote) => {
+    const canEdit = !note.author_email || note.author_email === currentAdmin?.email;
+    const isTarget = location.hash === `#note-${note.id}`;
+
+    return (
+      <li
+        key={note.id}
+        id={`note-${note.id}`}
+        className={`rounded-lg border p-3 ${
+          note.is_pinned ? 'border-amber-200 bg-amber-50' : isTarget ? 'border-purple-200 bg-purple-50' : 'border-slate-200'
+        }`}
+      >
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-slate-800 truncate">
+              {note.author_name || note.author_email || 'System'}
+            </p>
+            <p className="text-xs text-slate-500">
+              {formatDateTimeToLocal(note.created_at)}
+              {note.edited_at && (
+                <>
+                  {' · '}
+                  <button
+                    onClick={() => setHistoryId(historyId === note.id ? null : note.id)}
+                    className="hover:text-[#2563EB] underline decoration-dotted"
+                    title={`Edited ${formatDateTimeToLocal(note.edited_at)}`}
+                  >
+                    edited
+                  </button>
+                </>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center space-x-1 flex-shrink-0">
+            {canEdit && editingId !== note.id && (
+              <button
+                onClick={() => setEditingId(note.id)}
+                className="p-1 text-slate-400 hover:text-slate-700 rounded"
+                title="Edit note"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => pinMutation.mutate({ id: note.id, isPinned: !note.is_pinned })}
+              disabled={pinMutation.isPending}
+              className={`p-1 rounded ${note.is_pinned ? 'text-amber-600 hover:text-amber-700' : 'text-slate-400 hover:text-slate-700'}`}
+              title={note.is_pinned ? 'Unpin' : 'Pin'}
+            >
+              {note.is_pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+
+        {editingId === note.id ? (
+          <NoteComposer
+            initialValue={note.body}
+            submitLabel="Save"
+            disabled={updateMutation.isPending}
+            onSubmit={async (body) => {
+              await updateMutation.mutateAsync({ id: note.id, body, previousMentions: note.mentions });
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <MarkdownText text={note.body} className="text-sm text-slate-700" />
+        )}
+
+        {historyId === note.id && <NoteHistory noteId={note.id} />}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <MessageSquare className="w-5 h-5 text-slate-600" />
+        <h2 className="text-lg font-semibold text-slate-800">Notes</h2>
+        {notes.length > 0 && <span className="text-sm text-slate-500">({notes.length})</span>}
+      </div>
+
+      <NoteComposer
+        submitLabel="Add Note"
+        disabled={createMutation.isPending}
+        onSubmit={async (body) => {
+          await createMutation.mutateAsync({ leadId, body });
+        }}
+      />
+
+      {isLoading && <p className="text-slate-500 text-sm mt-4">Loading notes...</p>}
+      {error && <p className="text-red-600 text-sm mt-4">Failed to load notes</p>}
+
+      {!isLoading && !error && notes.length === 0 && (
+        <p className="text-slate-400 italic text-sm mt-4">No notes added yet</p>
+      )}
+
+      {pinned.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs font-semibold text-amber-600 uppercase tracking-wider mb-2">Pinned</p>
+          <ul className="space-y-3">{pinned.map(renderNote)}</ul>
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <ul className="space-y-3 mt-4">{others.map(renderNote)}</ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { fetchLeadTasks, createLeadTask, setTaskDone, deleteLeadTask, getTaskDueState } from '../lib/leadTasks';
+import { getAdminDisplayName } from '../lib/leadAssignment';
+import { formatDateOnlyToDDMMYY, toLocalDateString } from '../lib/dateUtils';
+import { CheckSquare, Plus, Trash2 } from 'lucide-react';
+
+const DUE_BADGES: Record<string, string> = {
+  overdue: 'bg-red-100 text-red-700',
+  today: 'bg-amber-100 text-amber-700',
+  upcoming: 'bg-slate-100 text-slate-600',
+  done: 'bg-green-100 text-green-700'
+};
+
+export default function LeadTasks({ leadId, ownerId }: { leadId: string; ownerId?: string | null }) {
+  const queryClient = useQueryClient();
+  const { admins, currentAdmin } = useAdminUsers();
+  const [showForm, setShowForm] = useState(false);
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState(toLocalDateString());
+  const [assigneeId, setAssigneeId] = useState('');
+
+  const { data: tasks = [], isLoading, error } = useQuery({
+    queryKey: ['lead-tasks', leadId],
+    queryFn: () => fetchLeadTasks(leadId),
+    staleTime: 2 * 60 * 1000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['lead-tasks', leadId] });
+    queryClient.invalidateQueries({ queryKey: ['task-inbox'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createLeadTask,
+    onSuccess: () => {
+      invalidate();
+      setTitle('');
+      setDueDate(toLocalDateString());
+      setShowForm(false);
+    },
+    onError: () => {
+      alert('Failed to add task');
+    },
+  });
+
+  const doneMutation = useMutation({
+    mutationFn: setTaskDone,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to update task');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteLeadTask,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to delete task');
+    },
+  });
+
+  useRealtimeSubscription(
+    'lead_tasks_list_changes',
+    'lead_tasks',
+    () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-tasks', leadId] });
+    }
+  );
+
+  const openForm = () => {
+    // Default the assignee to the lead owner, falling back to whoever is adding the task
+    setAssigneeId(ownerId || currentAdmin?.id || '');
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !dueDate) return;
+    createMutation.mutate({ lead_id: leadId, title, due_date: dueDate, assignee_id: assigneeId || null });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <CheckSquare className="w-5 h-5 text-slate-600" />
+          <h2 className="text-lg font-semibold text-slate-800">Tasks</h2>
+        </div>
+        {!showForm && (
+          <button
+            onClick={openForm}
+            className="flex items-center space-x-1 text-[#2563EB] hover:text-[#1d4ed8] text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Task</span>
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-3 mb-4 p-4 bg-slate-50 rounded-lg">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. Call Dr. Smith about pricing"
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
+            required
+            autoFocus
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
+              required
+            />
+            <select
+              value={assigneeId}
+              onChange={(e) => setAssigneeId(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
+            >
+              <option value="">Unassigned</option>
+              {admins.map((admin) => (
+                <option key={admin.id} value={admin.id}>{admin.name || admin.email}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="px-4 py-2 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] transition-colors disabled:opacity-50"
+            >
+              {createMutation.isPending ? 'Adding...' : 'Add'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-100 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading tasks...</p>}
+      {error && <p className="text-red-600 text-sm">Failed to load tasks</p>}
+
+      {!isLoading && !error && tasks.length === 0 && !showForm && (
+        <p className="text-slate-400 italic text-sm">No follow-up tasks yet</p>
+      )}
+
+      <ul className="space-y-2">
+        {tasks.map((task) => {
+          const dueState = getTaskDueState(task);
+          return (
+            <li key={task.id} className="flex items-start space-x-3 group">
+              <input
+                type="checkbox"
+                checked={task.is_done}
+                onChange={() => doneMutation.mutate({ id: task.id, isDone: !task.is_done })}
+                className="w-4 h-4 mt-1 text-[#531B93] rounded focus:ring-2 focus:ring-[#531B93]"
+              />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm ${task.is_done ? 'line-through text-slate-400' : 'text-slate-800'}`}>{task.title}</p>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  <span className={`text-xs px-2 py-0.5 rounded ${DUE_BADGES[dueState]}`}>
+                    {dueState === 'today' ? 'Today' : formatDateOnlyToDDMMYY(task.due_date)}
+                  </span>
+                  <span className="text-xs text-slate-500">{getAdminDisplayName(admins, task.assignee_id)}</span>
+                </div>
+              </div>
+              <button
+                onClick={() => {
+                  if (confirm('Delete this task?')) deleteMutation.mutate(task.id);
+                }}
+                className="text-slate-300 hover:text-red-600 transition-colors opacity-0 group-hover:opacity-100"
+                title="Delete task"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, LeadActivity } from '../lib/supabase';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { formatDateTimeToLocal } from '../lib/dateUtils';
+import { toPlainText } from '../lib/leadNotes';
+import { History, ArrowRight, DollarSign, MessageSquare, Calendar, Award, UserPlus, XCircle, RefreshCw, GitMerge, UserCheck, StickyNote, PhoneCall, CalendarClock, CalendarX } from 'lucide-react';
+
+async function fetchLeadActivities(leadId: string): Promise<LeadActivity[]> {
+  const { data, error } = await supabase
+    .from('lead_activities')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+const ACTIVITY_META: Record<LeadActivity['activity_type'], { label: string; icon: typeof History; color: string }> = {
+  lead_created: { label: 'Lead created', icon: UserPlus, color: 'bg-blue-100 text-blue-700' },
+  booking_created: { label: 'Consultation booked', icon: Calendar, color: 'bg-pink-100 text-pink-700' },
+  assessment_submitted: { label: 'Assessment submitted', icon: Award, color: 'bg-purple-100 text-purple-700' },
+  status_changed: { label: 'Stage changed', icon: ArrowRight, color: 'bg-yellow-100 text-yellow-700' },
+  value_changed: { label: 'Value updated', icon: DollarSign, color: 'bg-green-100 text-green-700' },
+  notes_changed: { label: 'Notes edited', icon: MessageSquare, color: 'bg-slate-100 text-slate-700' },
+  lead_closed: { label: 'Lead closed', icon: XCircle, color: 'bg-red-100 text-red-700' },
+  lead_reopened: { label: 'Lead reopened', icon: RefreshCw, color: 'bg-indigo-100 text-indigo-700' },
+  lead_merged: { label: 'Duplicate merged in', icon: GitMerge, color: 'bg-orange-100 text-orange-700' },
+  owner_changed: { label: 'Owner changed', icon: UserCheck, color: 'bg-teal-100 text-teal-700' },
+  note_added: { label: 'Note added', icon: StickyNote, color: 'bg-slate-100 text-slate-700' },
+  interaction_logged: { label: 'Interaction logged', icon: PhoneCall, color: 'bg-cyan-100 text-cyan-700' },
+  booking_rescheduled: { label: 'Consultation rescheduled', icon: CalendarClock, color: 'bg-pink-100 text-pink-700' },
+  booking_cancelled: { label: 'Consultation cancelled', icon: CalendarX, color: 'bg-red-100 text-red-700' }
+};
+
+const formatValue = (activity: LeadActivity, value?: string | null) => {
+  if (!value) {
+    if (activity.activity_type === 'value_changed') return 'Not set';
+    if (activity.activity_type === 'owner_changed') return 'Unassigned';
+    return '—';
+  }
+  if (activity.activity_type === 'value_changed') {
+    return `$${Number(value).toLocaleString()}`;
+  }
+  return value;
+};
+
+export default function LeadTimeline({ leadId }: { leadId: string }) {
+  const queryClient = useQueryClient();
+
+  const { data: activities = [], isLoading, error } = useQuery({
+    queryKey: ['lead-activities', leadId],
+    queryFn: () => fetchLeadActivities(leadId),
+    staleTime: 2 * 60 * 1000,
+  });
+
+  // Activities are written by a trigger on leads, so a lead change means new history
+  useRealtimeSubscription(
+    'lead_timeline_changes',
+    'leads',
+    () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-activities', leadId] });
+    }
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <History className="w-5 h-5 text-slate-600" />
+        <h2 className="text-lg font-semibold text-slate-800">Activity Timeline</h2>
+      </div>
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading history...</p>}
+      {error && <p className="text-red-600 text-sm">Failed to load activity history</p>}
+
+      {!isLoading && !error && activities.length === 0 && (
+        <p className="text-slate-400 italic text-sm">No activity recorded yet</p>
+      )}
+
+      {activities.length > 0 && (
+        <ol className="relative border-l border-slate-200 ml-3 space-y-5">
+          {activities.map((activity) => {
+            const meta = ACTIVITY_META[activity.activity_type];
+            const Icon = meta.icon;
+            // Interactions are stored as a header line plus the summary, like a note
+            const isNotes =
+              activity.activity_type === 'notes_changed' ||
+              activity.activity_type === 'note_added' ||
+              activity.activity_type === 'interaction_logged';
+            const isMerge = activity.activity_type === 'lead_merged';
+            const showTransition =
+              activity.activity_type === 'owner_changed' ||
+              (!isNotes && !isMerge && activity.from_value !== undefined && activity.from_value !== null);
+
+            return (
+              <li key={activity.id} className="ml-6">
+                <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ${meta.color}`}>
+                  <Icon className="w-3 h-3" />
+                </span>
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <p className="text-sm font-semibold text-slate-800">{meta.label}</p>
+                  <span className="text-xs text-slate-500">{formatDateTimeToLocal(activity.created_at)}</span>
+                </div>
+                {isNotes ? (
+                  <p className="text-sm text-slate-600 mt-1 whitespace-pre-wrap line-clamp-3">
+                    {activity.to_value ? toPlainText(activity.to_value) : <span className="italic text-slate-400">Notes cleared</span>}
+                  </p>
+                ) : isMerge ? (
+                  <div className="mt-1">
+                    <p className="text-sm text-slate-600">{activity.from_value}</p>
+                    {activity.to_value && <p className="text-xs text-slate-500">{activity.to_value}</p>}
+                  </div>
+                ) : showTransition ? (
+                  <p className="text-sm text-slate-600 mt-1">
+                    {formatValue(activity, activity.from_value)}
+                    <ArrowRight className="inline w-3 h-3 mx-1" />
+                    {formatValue(activity, activity.to_value)}
+                  </p>
+                ) : activity.to_value ? (
+                  <p className="text-sm text-slate-600 mt-1">{formatValue(activity, activity.to_value)}</p>
+                ) : null}
+                <p className="text-xs text-slate-500 mt-1">
+                  by {activity.actor_name || activity.actor_email || 'System'}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
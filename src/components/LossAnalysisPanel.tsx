@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchLossAnalysis, LossBreakdownItem } from '../lib/lossReasons';
+import { formatCurrency } from '../lib/forecast';
+import { TrendingDown } from 'lucide-react';
+
+const PERIODS = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+  { value: 'all', label: 'All time' }
+];
+
+function Breakdown({ title, items }: { title: string; items: LossBreakdownItem[] }) {
+  const max = items[0]?.count || 1;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-slate-700 mb-3">{title}</h3>
+      {items.length > 0 ? (
+        <div className="space-y-2">
+          {items.slice(0, 8).map((item) => (
+            <div key={item.label}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="text-slate-700 truncate" title={item.label}>{item.label}</span>
+                <span className="text-slate-500 whitespace-nowrap ml-2">
+                  <span className="font-semibold text-slate-800">{item.count}</span>
+                  {item.value > 0 && ` · ${formatCurrency(item.value)}`}
+                </span>
+              </div>
+              <div className="w-full bg-slate-100 rounded-full h-2">
+                <div
+                  className="bg-gradient-to-r from-red-500 to-orange-400 h-2 rounded-full"
+                  style={{ width: `${(item.count / max) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-slate-400 text-sm">None</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Lost deals broken down by reason, source, service and owner
+ */
+export default function LossAnalysisPanel() {
+  const [period, setPeriod] = useState('90');
+
+  const { data: analysis, isLoading, error } = useQuery({
+    // Nested under ['leads'] so lead invalidations refresh it
+    queryKey: ['leads', 'loss-analysis', period],
+    queryFn: () => fetchLossAnalysis(
+      period === 'all' ? null : new Date(Date.now() - parseInt(period, 10) * 24 * 60 * 60 * 1000).toISOString()
+    ),
+    staleTime: 2 * 60 * 1000,
+  });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <TrendingDown className="w-5 h-5 text-red-600" />
+          <h2 className="text-lg font-semibold text-slate-800">Loss Analysis</h2>
+        </div>
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value)}
+          className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+        >
+          {PERIODS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading loss analysis...</p>}
+      {error && <p className="text-red-600 text-sm">Failed to load loss analysis</p>}
+
+      {analysis && (
+        analysis.totalLost === 0 ? (
+          <p className="text-slate-500 text-center py-8">No deals lost in this period</p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-600 mb-6">
+              <span className="text-2xl font-bold text-red-600 mr-2">{analysis.totalLost}</span>
+              lost {analysis.totalLost === 1 ? 'deal' : 'deals'} worth {formatCurrency(analysis.totalValue)} per year
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+              <Breakdown title="By reason" items={analysis.byReason} />
+              <Breakdown title="By source" items={analysis.bySource} />
+              <Breakdown title="By service" items={analysis.byService} />
+              <Breakdown title="By owner" items={analysis.byOwner} />
+            </div>
+            {analysis.byCompetitor.length > 0 && (
+              <div className="mt-6 pt-6 border-t border-slate-100">
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Lost to competitors</h3>
+                <div className="flex flex-wrap gap-2">
+                  {analysis.byCompetitor.map((item) => (
+                    <span key={item.label} className="px-2 py-1 rounded bg-red-50 text-red-700 text-xs font-medium">
+                      {item.label} ({item.count})
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )
+      )}
+    </div>
+  );
+}
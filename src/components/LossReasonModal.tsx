@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useLossReasons } from '../hooks/useLossReasons';
+import { LossDetails } from '../lib/lossReasons';
+import { X } from 'lucide-react';
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]';
+
+/**
+ * Asks why a deal was lost before it is closed; a reason is required
+ */
+export default function LossReasonModal({
+  leadCount = 1,
+  isPending = false,
+  onConfirm,
+  onClose
+}: {
+  leadCount?: number;
+  isPending?: boolean;
+  onConfirm: (details: LossDetails) => void;
+  onClose: () => void;
+}) {
+  const { activeReasons, isLoading } = useLossReasons();
+  const [reasonId, setReasonId] = useState('');
+  const [competitor, setCompetitor] = useState('');
+  const [details, setDetails] = useState('');
+
+  const reason = activeReasons.find((item) => item.id === reasonId);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+
+    onConfirm({
+      loss_reason_id: reason.id,
+      loss_competitor: reason.asks_competitor ? competitor.trim() || null : null,
+      loss_details: details.trim() || null
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 relative space-y-4">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Close as lost</h2>
+          <p className="text-sm text-slate-600 mt-1">
+            {leadCount === 1 ? 'Why was this deal lost?' : `Why were these ${leadCount} deals lost?`}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Reason</label>
+          <select
+            value={reasonId}
+            onChange={(e) => setReasonId(e.target.value)}
+            className={inputClass}
+            required
+            autoFocus
+          >
+            <option value="">{isLoading ? 'Loading...' : 'Select a reason'}</option>
+            {activeReasons.map((item) => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
+          {!isLoading && activeReasons.length === 0 && (
+            <p className="text-xs text-red-600 mt-1">No loss reasons are configured. Add them in Settings.</p>
+          )}
+        </div>
+
+        {reason?.asks_competitor && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Competitor (optional)</label>
+            <input
+              type="text"
+              value={competitor}
+              onChange={(e) => setCompetitor(e.target.value)}
+              placeholder="Who did they go with?"
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Details (optional)</label>
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            rows={3}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!reason || isPending}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            {isPending ? 'Closing...' : 'Close as lost'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { LossReason } from '../lib/supabase';
+import { useLossReasons } from '../hooks/useLossReasons';
+import { createLossReason, updateLossReason, deleteLossReason } from '../lib/lossReasons';
+import { ThumbsDown, Trash2, Plus } from 'lucide-react';
+
+const inputClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]';
+
+export default function LossReasonsManager() {
+  const queryClient = useQueryClient();
+  const { lossReasons, isLoading } = useLossReasons();
+  const [name, setName] = useState('');
+  const [asksCompetitor, setAsksCompetitor] = useState(false);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['loss-reasons'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createLossReason,
+    onSuccess: () => {
+      invalidate();
+      setName('');
+      setAsksCompetitor(false);
+    },
+    onError: (error: Error) => {
+      alert(`Failed to add loss reason: ${error.message}`);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: updateLossReason,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to update loss reason');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteLossReason,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to delete loss reason. Leads closed with it keep it; deactivate it instead.');
+    },
+  });
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    if (lossReasons.some((reason) => reason.name.toLowerCase() === name.trim().toLowerCase())) {
+      alert('That loss reason already exists');
+      return;
+    }
+    const maxOrder = lossReasons.reduce((max, reason) => Math.max(max, reason.sort_order), 0);
+    createMutation.mutate({ name, asksCompetitor, sortOrder: maxOrder + 1 });
+  };
+
+  const handleDelete = (reason: LossReason) => {
+    if (!confirm(`Delete the "${reason.name}" loss reason?`)) return;
+    deleteMutation.mutate(reason.id);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <ThumbsDown className="w-5 h-5 text-[#531B93]" />
+        <h2 className="text-lg font-semibold text-slate-800">Loss Reasons</h2>
+      </div>
+      <p className="text-sm text-slate-600 mb-4">
+        Closing a lead as lost requires one of the active reasons. They feed the loss analysis on the dashboard.
+      </p>
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading loss reasons...</p>}
+
+      <div className="space-y-2 mb-4">
+        {lossReasons.map((reason) => (
+          <div key={reason.id} className="flex items-center justify-between gap-3 border border-slate-200 rounded-lg px-3 py-2">
+            <span className={`text-sm font-medium ${reason.is_active ? 'text-slate-800' : 'text-slate-400 line-through'}`}>
+              {reason.name}
+            </span>
+            <div className="flex items-center space-x-4">
+              <label className="flex items-center space-x-1 text-xs text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reason.asks_competitor}
+                  onChange={(e) => updateMutation.mutate({ id: reason.id, changes: { asks_competitor: e.target.checked } })}
+                  className="w-4 h-4 text-[#531B93] rounded"
+                />
+                <span>Ask for competitor</span>
+              </label>
+              <label className="flex items-center space-x-1 text-xs text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reason.is_active}
+                  onChange={(e) => updateMutation.mutate({ id: reason.id, changes: { is_active: e.target.checked } })}
+                  className="w-4 h-4 text-[#531B93] rounded"
+                />
+                <span>Active</span>
+              </label>
+              <button
+                onClick={() => handleDelete(reason)}
+                className="text-red-600 hover:text-red-800"
+                title="Delete loss reason"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New loss reason"
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+        />
+        <label className="flex items-center space-x-1 text-xs text-slate-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={asksCompetitor}
+            onChange={(e) => setAsksCompetitor(e.target.checked)}
+            className="w-4 h-4 text-[#531B93] rounded"
+          />
+          <span>Ask for competitor</span>
+        </label>
+        <button
+          onClick={handleCreate}
+          disabled={createMutation.isPending || !name.trim()}
+          className="flex items-center space-x-1 px-3 py-2 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Reason</span>
+        </button>
+      </div>
+    </div>
+  );
+}
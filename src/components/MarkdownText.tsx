@@ -0,0 +1,104 @@
+import { ReactNode } from 'react';
+
+// Mentions, **bold**, `code`, [links](https://...) and *italic* / _italic_
+const INLINE_PATTERN = /@\[([^\]\n]+)\]\(([0-9a-f-]{36})\)|\*\*([^*]+)\*\*|`([^`]+)`|\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)|\*([^*\s][^*]*)\*|_([^_\s][^_]*)_/g;
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) nodes.push(text.slice(lastIndex, index));
+    const key = `${keyPrefix}-${index}`;
+
+    if (match[1]) {
+      nodes.push(
+        <span key={key} className="px-1 rounded bg-purple-50 text-[#531B93] font-medium">@{match[1]}</span>
+      );
+    } else if (match[3]) {
+      nodes.push(<strong key={key}>{renderInline(match[3], key)}</strong>);
+    } else if (match[4]) {
+      nodes.push(<code key={key} className="px-1 rounded bg-slate-100 text-sm font-mono">{match[4]}</code>);
+    } else if (match[5]) {
+      nodes.push(
+        <a key={key} href={match[6]} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+          {match[5]}
+        </a>
+      );
+    } else {
+      nodes.push(<em key={key}>{renderInline(match[7] || match[8], key)}</em>);
+    }
+
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+}
+
+function renderLines(lines: string[], keyPrefix: string): ReactNode[] {
+  return lines.flatMap((line, i) => [
+    ...(i > 0 ? [<br key={`${keyPrefix}-br-${i}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${i}`)
+  ]);
+}
+
+/**
+ * Renders the small subset of markdown used in notes without injecting HTML:
+ * headings, bullet and numbered lists, paragraphs and inline formatting
+ */
+export default function MarkdownText({ text, className = '' }: { text: string; className?: string }) {
+  const blocks: ReactNode[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      blocks.push(
+        <p key={key} className={heading[1].length === 1 ? 'text-base font-bold' : 'font-semibold'}>
+          {renderInline(heading[2], key)}
+        </p>
+      );
+      i++;
+      continue;
+    }
+
+    const listPattern = /^\s*[-*]\s+/.test(line) ? /^\s*[-*]\s+/ : /^\s*\d+\.\s+/.test(line) ? /^\s*\d+\.\s+/ : null;
+    if (listPattern) {
+      const items: string[] = [];
+      while (i < lines.length && listPattern.test(lines[i])) {
+        items.push(lines[i].replace(listPattern, ''));
+        i++;
+      }
+      const ListTag = listPattern.source.includes('\\d') ? 'ol' : 'ul';
+      blocks.push(
+        <ListTag key={key} className={`${ListTag === 'ol' ? 'list-decimal' : 'list-disc'} pl-5 space-y-0.5`}>
+          {items.map((item, j) => (
+            <li key={j}>{renderInline(item, `${key}-${j}`)}</li>
+          ))}
+        </ListTag>
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !/^(#{1,3}\s|\s*[-*]\s|\s*\d+\.\s)/.test(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>);
+  }
+
+  return <div className={`space-y-2 break-words ${className}`}>{blocks}</div>;
+}
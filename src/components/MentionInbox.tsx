@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { fetchNotifications, markNotificationsRead, toPlainText, InboxNotification } from '../lib/leadNotes';
+import { formatDateTimeToLocal } from '../lib/dateUtils';
+import { AtSign } from 'lucide-react';
+
+/**
+ * Navbar button listing notes that mention the signed-in admin
+ */
+export default function MentionInbox() {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { currentAdmin } = useAdminUsers();
+
+  const { data: notifications = [] } = useQuery({
+    queryKey: ['notifications', currentAdmin?.id],
+    queryFn: () => fetchNotifications(currentAdmin!.id),
+    enabled: !!currentAdmin,
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: true,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: markNotificationsRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+
+  useRealtimeSubscription(
+    'mention_inbox_changes',
+    'admin_notifications',
+    () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    }
+  );
+
+  if (!currentAdmin) return null;
+
+  const unread = notifications.filter((notification) => !notification.is_read);
+
+  const openNotification = (notification: InboxNotification) => {
+    setOpen(false);
+    if (!notification.is_read) readMutation.mutate([notification.id]);
+    if (notification.lead_id) {
+      navigate(`/admin/leads/${notification.lead_id}${notification.note_id ? `#note-${notification.note_id}` : ''}`);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+        title="Mentions"
+      >
+        <AtSign className="w-5 h-5" />
+        {unread.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full text-xs font-bold text-white flex items-center justify-center bg-[#531B93]">
+            {unread.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-slate-200 z-50 max-h-[70vh] overflow-y-auto">
+            <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+              <h3 className="font-semibold text-slate-800">Mentions</h3>
+              {unread.length > 0 && (
+                <button
+                  onClick={() => readMutation.mutate(unread.map((notification) => notification.id))}
+                  className="text-xs text-[#2563EB] hover:text-[#1d4ed8]"
+                >
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-slate-500 text-center">No mentions yet</p>
+            ) : (
+              <ul className="py-1">
+                {notifications.map((notification) => (
+                  <li key={notification.id}>
+                    <button
+                      onClick={() => openNotification(notification)}
+                      className={`w-full text-left px-4 py-2 hover:bg-slate-50 ${notification.is_read ? '' : 'bg-purple-50/50'}`}
+                    >
+                      <p className="text-sm text-slate-800">
+                        <span className="font-medium">{notification.actor_name || 'Someone'}</span>
+                        {' mentioned you on '}
+                        <span className="font-medium">{notification.lead?.name || 'a lead'}</span>
+                      </p>
+                      {notification.note && (
+                        <p className="text-xs text-slate-500 truncate">{toPlainText(notification.note.body)}</p>
+                      )}
+                      <p className="text-xs text-slate-400">{formatDateTimeToLocal(notification.created_at)}</p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useMemo, useState } from 'react';
+import { Lead } from '../lib/supabase';
+import { MERGE_FIELDS, mergeLeads } from '../lib/leadDuplicates';
+import { formatDateToDDMMYY } from '../lib/dateUtils';
+import { X, GitMerge } from 'lucide-react';
+
+type Side = 'left' | 'right';
+
+const display = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return <span className="text-slate-400 italic">empty</span>;
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+};
+
+export default function MergeLeadsModal({
+  left,
+  right,
+  onClose,
+  onSuccess
+}: {
+  left: Lead;
+  right: Lead;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  // Keep the older lead by default so its history and created date survive
+  const [survivor, setSurvivor] = useState<Side>(
+    new Date(left.created_at) <= new Date(right.created_at) ? 'left' : 'right'
+  );
+  const [choices, setChoices] = useState<Record<string, Side>>(() => {
+    const initial: Record<string, Side> = {};
+    MERGE_FIELDS.forEach(({ key }) => {
+      // Prefer whichever side actually has a value
+      const leftValue = left[key];
+      initial[key] = leftValue === null || leftValue === undefined || leftValue === '' ? 'right' : 'left';
+    });
+    return initial;
+  });
+  const [merging, setMerging] = useState(false);
+
+  const mergedServices = useMemo(
+    () => Array.from(new Set([...(left.selected_services || []), ...(right.selected_services || [])])).sort(),
+    [left, right]
+  );
+
+  const differingFields = MERGE_FIELDS.filter(({ key }) => (left[key] ?? '') !== (right[key] ?? ''));
+
+  const handleMerge = async () => {
+    const survivorLead = survivor === 'left' ? left : right;
+    const mergedLead = survivor === 'left' ? right : left;
+
+    if (!confirm(`Merge ${mergedLead.name} into ${survivorLead.name}? The other record will be deleted.`)) return;
+
+    // Only send fields whose chosen value differs from the survivor's current value
+    const fields: Partial<Record<keyof Lead, unknown>> = {};
+    differingFields.forEach(({ key }) => {
+      const chosen = choices[key] === 'left' ? left[key] : right[key];
+      if ((chosen ?? '') !== (survivorLead[key] ?? '')) {
+        fields[key] = chosen ?? null;
+      }
+    });
+
+    setMerging(true);
+    try {
+      await mergeLeads({ survivorId: survivorLead.id, mergedId: mergedLead.id, fields });
+      onSuccess();
+    } catch (error) {
+      console.error('Error merging leads:', error);
+      alert(`Failed to merge leads: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const columnClass = (side: Side) =>
+    `text-left px-3 py-2 rounded-lg border-2 text-sm transition-all ${
+      survivor === side ? 'border-[#531B93] bg-purple-50' : 'border-slate-200 hover:border-slate-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-8 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          <X className="w-6 h-6" />
+        </button>
+
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">Merge Leads</h2>
+        <p className="text-slate-600 text-sm mb-6">
+          Pick the record to keep and, for each differing field, which value survives. Products/services are combined,
+          and bookings, assessments and history move to the kept record.
+        </p>
+
+        <div className="grid grid-cols-[10rem_1fr_1fr] gap-3 items-start">
+          <div className="text-sm font-medium text-slate-600 pt-2">Keep record</div>
+          {(['left', 'right'] as Side[]).map((side) => {
+            const lead = side === 'left' ? left : right;
+            return (
+              <button key={side} onClick={() => setSurvivor(side)} className={columnClass(side)}>
+                <p className="font-semibold text-slate-800">{lead.name}</p>
+                <p className="text-xs text-slate-500">
+                  {lead.source} · added {formatDateToDDMMYY(lead.created_at)}
+                </p>
+              </button>
+            );
+          })}
+
+          {differingFields.map(({ key, label }) => (
+            <div key={key} className="contents">
+              <div className="text-sm font-medium text-slate-600 pt-2">{label}</div>
+              {(['left', 'right'] as Side[]).map((side) => {
+                const lead = side === 'left' ? left : right;
+                return (
+                  <label
+                    key={side}
+                    className={`flex items-start space-x-2 px-3 py-2 rounded-lg border cursor-pointer text-sm ${
+                      choices[key] === side ? 'border-[#2563EB] bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name={`merge-${key}`}
+                      checked={choices[key] === side}
+                      onChange={() => setChoices({ ...choices, [key]: side })}
+                      className="mt-1"
+                    />
+                    <span className="text-slate-800 break-words whitespace-pre-wrap">{display(lead[key])}</span>
+                  </label>
+                );
+              })}
+            </div>
+          ))}
+
+          <div className="text-sm font-medium text-slate-600 pt-2">Services</div>
+          <div className="col-span-2 px-3 py-2 rounded-lg bg-slate-50 text-sm text-slate-800">
+            {mergedServices.length > 0 ? mergedServices.join(', ') : <span className="text-slate-400 italic">none</span>}
+          </div>
+        </div>
+
+        {differingFields.length === 0 && (
+          <p className="text-sm text-slate-500 mt-4">All fields are identical. Merging will just remove the extra record.</p>
+        )}
+
+        <div className="flex space-x-4 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={merging}
+            className="flex-1 flex items-center justify-center space-x-2 bg-gradient-to-r from-[#531B93] to-[#2563EB] text-white px-4 py-3 rounded-lg hover:from-[#3d1470] hover:to-[#1d4ed8] transition-all disabled:opacity-50 shadow-md font-semibold"
+          >
+            <GitMerge className="w-5 h-5" />
+            <span>{merging ? 'Merging...' : 'Merge Leads'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useRef, useState, KeyboardEvent } from 'react';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { formatMention } from '../lib/leadNotes';
+import { AdminUser } from '../lib/supabase';
+
+// The "@query" being typed just before the caret
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@[\]]*)$/;
+
+/**
+ * Markdown textarea for a note, with @mention autocomplete over admin users
+ */
+export default function NoteComposer({
+  initialValue = '',
+  submitLabel,
+  disabled,
+  onSubmit,
+  onCancel
+}: {
+  initialValue?: string;
+  submitLabel: string;
+  disabled?: boolean;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const { admins } = useAdminUsers();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [value, setValue] = useState(initialValue);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = mentionQuery === null
+    ? []
+    : admins
+        .filter((admin) =>
+          (admin.name || '').toLowerCase().includes(mentionQuery.toLowerCase()) ||
+          admin.email.toLowerCase().includes(mentionQuery.toLowerCase())
+        )
+        .slice(0, 6);
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+    setMentionQuery(match ? match[2] : null);
+    setHighlighted(0);
+  };
+
+  const insertMention = (admin: AdminUser) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const caret = textarea.selectionStart;
+    const before = value.slice(0, caret).replace(/@[^\s@[\]]*$/, '');
+    const mention = `${formatMention(admin)} `;
+    const next = before + mention + value.slice(caret);
+
+    setValue(next);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(before.length + mention.length, before.length + mention.length);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!value.trim()) return;
+    try {
+      await onSubmit(value);
+      if (!initialValue) setValue('');
+    } catch {
+      // The caller reports the error; keep the text so nothing is lost
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            updateMentionQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
+          placeholder="Add a note... Type @ to mention an admin"
+          disabled={disabled}
+          className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB] disabled:opacity-50"
+          rows={4}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute left-2 right-2 top-full -mt-1 bg-white border border-slate-200 rounded-lg shadow-lg z-20 py-1">
+            {suggestions.map((admin, index) => (
+              <li key={admin.id}>
+                <button
+                  type="button"
+                  // Keep the textarea focused so the caret position survives
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    insertMention(admin);
+                  }}
+                  className={`w-full text-left px-3 py-1.5 text-sm ${
+                    index === highlighted ? 'bg-purple-50 text-[#531B93]' : 'text-slate-700 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="font-medium">{admin.name || admin.email}</span>
+                  {admin.name && <span className="text-slate-400"> · {admin.email}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-400">Markdown: **bold**, *italic*, `code`, - lists</p>
+        <div className="flex space-x-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={disabled || !value.trim()}
+            className="px-3 py-1.5 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] transition-colors disabled:opacity-50"
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
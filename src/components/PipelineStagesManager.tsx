@@ -0,0 +1,328 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase, PipelineStage } from '../lib/supabase';
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { STAGE_COLORS, STAGE_COLOR_KEYS } from '../lib/pipelineStages';
+import { ArrowUp, ArrowDown, Edit2, Trash2, Plus, Save, X, Layers } from 'lucide-react';
+
+type StageForm = {
+  name: string;
+  color: string;
+  probability: string;
+  is_qualified: boolean;
+  is_won: boolean;
+  is_lost: boolean;
+  is_closed: boolean;
+};
+
+const EMPTY_FORM: StageForm = {
+  name: '',
+  color: 'slate',
+  probability: '0',
+  is_qualified: false,
+  is_won: false,
+  is_lost: false,
+  is_closed: false
+};
+
+const toForm = (stage: PipelineStage): StageForm => ({
+  name: stage.name,
+  color: stage.color,
+  probability: String(stage.probability),
+  is_qualified: stage.is_qualified,
+  is_won: stage.is_won,
+  is_lost: stage.is_lost,
+  is_closed: stage.is_closed
+});
+
+const toRow = (form: StageForm) => ({
+  name: form.name.trim(),
+  color: form.color,
+  probability: Math.min(100, Math.max(0, parseInt(form.probability) || 0)),
+  is_qualified: form.is_qualified,
+  is_won: form.is_won,
+  is_lost: form.is_lost,
+  is_closed: form.is_closed
+});
+
+async function saveStage(params: { id?: string; form: StageForm; sortOrder?: number }): Promise<void> {
+  const row = toRow(params.form);
+  const { error } = params.id
+    ? await supabase.from('pipeline_stages').update(row).eq('id', params.id)
+    : await supabase.from('pipeline_stages').insert({ ...row, sort_order: params.sortOrder ?? 0 });
+
+  if (error) throw error;
+}
+
+async function swapStageOrder(params: { first: PipelineStage; second: PipelineStage }): Promise<void> {
+  const { first, second } = params;
+  const results = await Promise.all([
+    supabase.from('pipeline_stages').update({ sort_order: second.sort_order }).eq('id', first.id),
+    supabase.from('pipeline_stages').update({ sort_order: first.sort_order }).eq('id', second.id)
+  ]);
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw failed.error;
+}
+
+async function deleteStage(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('pipeline_stages')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+function StageFields({ form, onChange }: { form: StageForm; onChange: (form: StageForm) => void }) {
+  const flags: Array<{ key: 'is_qualified' | 'is_won' | 'is_lost' | 'is_closed'; label: string }> = [
+    { key: 'is_qualified', label: 'Qualified' },
+    { key: 'is_won', label: 'Won' },
+    { key: 'is_lost', label: 'Lost' },
+    { key: 'is_closed', label: 'Closing stage' }
+  ];
+
+  return (
+    <div className="grid md:grid-cols-4 gap-3 items-center">
+      <input
+        type="text"
+        value={form.name}
+        onChange={(e) => onChange({ ...form, name: e.target.value })}
+        placeholder="Stage name"
+        className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+      />
+      <select
+        value={form.color}
+        onChange={(e) => onChange({ ...form, color: e.target.value })}
+        className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+      >
+        {STAGE_COLOR_KEYS.map((key) => (
+          <option key={key} value={key}>{key}</option>
+        ))}
+      </select>
+      <div className="relative">
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={form.probability}
+          onChange={(e) => onChange({ ...form, probability: e.target.value })}
+          className="w-full pl-3 pr-8 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+        />
+        <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-500 text-sm">%</span>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        {flags.map((flag) => (
+          <label key={flag.key} className="flex items-center space-x-1 text-xs text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form[flag.key]}
+              onChange={(e) => {
+                const next = { ...form, [flag.key]: e.target.checked };
+                // A stage cannot be both won and lost
+                if (flag.key === 'is_won' && e.target.checked) next.is_lost = false;
+                if (flag.key === 'is_lost' && e.target.checked) next.is_won = false;
+                onChange(next);
+              }}
+              className="w-4 h-4 text-[#531B93] rounded"
+            />
+            <span>{flag.label}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function PipelineStagesManager() {
+  const queryClient = useQueryClient();
+  const { stages, isLoading } = usePipelineStages();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<StageForm>(EMPTY_FORM);
+  const [newForm, setNewForm] = useState<StageForm>(EMPTY_FORM);
+  const [showAddForm, setShowAddForm] = useState(false);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['pipeline-stages'] });
+    queryClient.invalidateQueries({ queryKey: ['leads'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveStage,
+    onSuccess: () => {
+      invalidate();
+      setEditingId(null);
+      setShowAddForm(false);
+      setNewForm(EMPTY_FORM);
+    },
+    onError: (error: Error) => {
+      alert(`Failed to save stage: ${error.message}`);
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: swapStageOrder,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to reorder stages');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteStage,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to delete stage. Move any leads out of this stage first.');
+    },
+  });
+
+  const handleSave = (id: string | undefined, form: StageForm) => {
+    if (!form.name.trim()) {
+      alert('Stage name is required');
+      return;
+    }
+    const maxOrder = stages.reduce((max, stage) => Math.max(max, stage.sort_order), 0);
+    saveMutation.mutate({ id, form, sortOrder: maxOrder + 1 });
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = stages[index + direction];
+    if (!target) return;
+    reorderMutation.mutate({ first: stages[index], second: target });
+  };
+
+  const handleDelete = (stage: PipelineStage) => {
+    if (!confirm(`Delete the "${stage.name}" stage?`)) return;
+    deleteMutation.mutate(stage.id);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-5 h-5 text-[#531B93]" />
+          <h2 className="text-lg font-semibold text-slate-800">Pipeline Stages</h2>
+        </div>
+        {!showAddForm && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="flex items-center space-x-1 text-[#2563EB] hover:text-[#1d4ed8] text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Stage</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-slate-600 mb-4">
+        Stages drive the lead status options, pipeline columns, dashboard stats and email reports.
+        Renaming a stage updates every lead in it.
+      </p>
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading stages...</p>}
+
+      <div className="space-y-2">
+        {stages.map((stage, index) => (
+          <div key={stage.id} className="border border-slate-200 rounded-lg p-3">
+            {editingId === stage.id ? (
+              <div className="space-y-3">
+                <StageFields form={editForm} onChange={setEditForm} />
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleSave(stage.id, editForm)}
+                    disabled={saveMutation.isPending}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>Save</span>
+                  </button>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="flex items-center space-x-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50"
+                  >
+                    <X className="w-4 h-4" />
+                    <span>Cancel</span>
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${(STAGE_COLORS[stage.color] || STAGE_COLORS.slate).badge}`}>
+                    {stage.name}
+                  </span>
+                  <span className="text-sm text-slate-600">{stage.probability}%</span>
+                  <div className="flex flex-wrap gap-1">
+                    {stage.is_qualified && <span className="text-xs bg-purple-50 text-purple-700 px-2 py-0.5 rounded">Qualified</span>}
+                    {stage.is_won && <span className="text-xs bg-green-50 text-green-700 px-2 py-0.5 rounded">Won</span>}
+                    {stage.is_lost && <span className="text-xs bg-red-50 text-red-700 px-2 py-0.5 rounded">Lost</span>}
+                    {stage.is_closed && <span className="text-xs bg-slate-100 text-slate-700 px-2 py-0.5 rounded">Closing</span>}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0 || reorderMutation.isPending}
+                    className="text-slate-500 hover:text-slate-800 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === stages.length - 1 || reorderMutation.isPending}
+                    className="text-slate-500 hover:text-slate-800 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingId(stage.id);
+                      setEditForm(toForm(stage));
+                    }}
+                    className="text-blue-600 hover:text-blue-800"
+                    title="Edit stage"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(stage)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Delete stage"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {showAddForm && (
+        <div className="mt-4 border-2 border-dashed border-slate-300 rounded-lg p-3 space-y-3">
+          <StageFields form={newForm} onChange={setNewForm} />
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handleSave(undefined, newForm)}
+              disabled={saveMutation.isPending}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+            <button
+              onClick={() => {
+                setShowAddForm(false);
+                setNewForm(EMPTY_FORM);
+              }}
+              className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { setRecordTags, TaggableTable } from '../lib/tags';
+import TagInput from './TagInput';
+
+/**
+ * Tag editor for one lead, booking or assessment that saves on every change
+ */
+export default function RecordTags({
+  table,
+  id,
+  tags,
+  onSaved
+}: {
+  table: TaggableTable;
+  id: string;
+  tags: string[];
+  onSaved: (tags: string[]) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = async (next: string[]) => {
+    setSaving(true);
+    try {
+      await setRecordTags({ table, id, tags: next });
+      onSaved(next);
+      queryClient.invalidateQueries({ queryKey: ['tag-usage'] });
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      alert('Failed to update tags');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return <TagInput value={tags} onChange={handleChange} disabled={saving} />;
+}
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { LeadView } from '../lib/supabase';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { fetchLeadViews, createLeadView, updateLeadView, deleteLeadView, isSameViewFilters } from '../lib/leadViews';
+import { getAdminDisplayName } from '../lib/leadAssignment';
+import { Bookmark, Link2, Lock, Save, Trash2, Users } from 'lucide-react';
+
+// Link that reopens a view with its filters for anyone on the team
+function getViewLink(view: LeadView): string {
+  const params = new URLSearchParams(view.filters);
+  params.set('view', view.id);
+  return `${window.location.origin}/admin/leads?${params.toString()}`;
+}
+
+/**
+ * Sidebar on the lead table listing the admin's saved views and views shared
+ * by teammates, with a form to save the current filters as a new view
+ */
+export default function SavedViewsSidebar({
+  activeViewId,
+  currentFilters,
+  onSelect
+}: {
+  activeViewId: string | null;
+  currentFilters: Record<string, string>;
+  onSelect: (view: LeadView | null) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { admins, currentAdmin } = useAdminUsers();
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+
+  const { data: views = [] } = useQuery({
+    queryKey: ['lead-views'],
+    queryFn: fetchLeadViews,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createLeadView,
+    onSuccess: (view) => {
+      setName('');
+      setIsShared(false);
+      queryClient.invalidateQueries({ queryKey: ['lead-views'] });
+      onSelect(view);
+    },
+    onError: (error) => {
+      console.error('Error saving view:', error);
+      alert('Failed to save view');
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: updateLeadView,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-views'] });
+    },
+    onError: (error) => {
+      console.error('Error updating view:', error);
+      alert('Failed to update view');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteLeadView,
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ['lead-views'] });
+      if (id === activeViewId) onSelect(null);
+    },
+    onError: (error) => {
+      console.error('Error deleting view:', error);
+      alert('Failed to delete view');
+    },
+  });
+
+  const myViews = views.filter((view) => view.admin_id === currentAdmin?.id);
+  const sharedViews = views.filter((view) => view.admin_id !== currentAdmin?.id);
+  const activeView = views.find((view) => view.id === activeViewId);
+  const isModified = !!activeView && !isSameViewFilters(activeView.filters, currentFilters);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentAdmin || !name.trim()) return;
+    createMutation.mutate({ admin_id: currentAdmin.id, name, filters: currentFilters, is_shared: isShared });
+  };
+
+  const handleCopyLink = async (view: LeadView) => {
+    try {
+      await navigator.clipboard.writeText(getViewLink(view));
+    } catch (error) {
+      console.error('Error copying view link:', error);
+      prompt('Copy this link:', getViewLink(view));
+    }
+  };
+
+  const renderView = (view: LeadView, isOwn: boolean) => (
+    <li key={view.id} className="group flex items-center">
+      <button
+        onClick={() => onSelect(view)}
+        className={`flex-1 min-w-0 text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+          view.id === activeViewId ? 'bg-purple-50 text-[#531B93] font-medium' : 'text-slate-700 hover:bg-slate-50'
+        }`}
+        title={isOwn ? view.name : `${view.name} (shared by ${getAdminDisplayName(admins, view.admin_id)})`}
+      >
+        <span className="block truncate">{view.name}</span>
+        {!isOwn && (
+          <span className="block truncate text-xs text-slate-400">{getAdminDisplayName(admins, view.admin_id)}</span>
+        )}
+      </button>
+      <div className="hidden group-hover:flex items-center space-x-1 pl-1">
+        <button onClick={() => handleCopyLink(view)} className="p-1 text-slate-400 hover:text-slate-700" title="Copy link">
+          <Link2 className="w-4 h-4" />
+        </button>
+        {isOwn && (
+          <>
+            <button
+              onClick={() => updateMutation.mutate({ id: view.id, changes: { is_shared: !view.is_shared } })}
+              className="p-1 text-slate-400 hover:text-slate-700"
+              title={view.is_shared ? 'Shared with team - click to make private' : 'Private - click to share with team'}
+            >
+              {view.is_shared ? <Users className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => {
+                if (confirm(`Delete the view "${view.name}"?`)) deleteMutation.mutate(view.id);
+              }}
+              className="p-1 text-slate-400 hover:text-red-600"
+              title="Delete view"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 space-y-5">
+      <div>
+        <h2 className="flex items-center space-x-2 text-sm font-semibold text-slate-800 mb-2">
+          <Bookmark className="w-4 h-4" />
+          <span>Views</span>
+        </h2>
+        <button
+          onClick={() => onSelect(null)}
+          className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+            !activeViewId && Object.keys(currentFilters).length === 0
+              ? 'bg-purple-50 text-[#531B93] font-medium'
+              : 'text-slate-700 hover:bg-slate-50'
+          }`}
+        >
+          All leads
+        </button>
+      </div>
+
+      <div>
+        <p className="px-3 mb-1 text-xs font-semibold text-slate-500 uppercase tracking-wider">My views</p>
+        {myViews.length > 0 ? (
+          <ul className="space-y-0.5">{myViews.map((view) => renderView(view, true))}</ul>
+        ) : (
+          <p className="px-3 text-xs text-slate-400">No saved views yet</p>
+        )}
+      </div>
+
+      {sharedViews.length > 0 && (
+        <div>
+          <p className="px-3 mb-1 text-xs font-semibold text-slate-500 uppercase tracking-wider">Shared with team</p>
+          <ul className="space-y-0.5">{sharedViews.map((view) => renderView(view, false))}</ul>
+        </div>
+      )}
+
+      {isModified && activeView.admin_id === currentAdmin?.id && (
+        <button
+          onClick={() => updateMutation.mutate({ id: activeView.id, changes: { filters: currentFilters } })}
+          disabled={updateMutation.isPending}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 border border-[#531B93] text-[#531B93] rounded-lg text-sm hover:bg-purple-50 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>Update "{activeView.name}"</span>
+        </button>
+      )}
+
+      {currentAdmin && (
+        <form onSubmit={handleSave} className="space-y-2 pt-4 border-t border-slate-200">
+          <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Save current filters</p>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="View name"
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+          />
+          <label className="flex items-center space-x-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isShared}
+              onChange={(e) => setIsShared(e.target.checked)}
+              className="w-4 h-4 text-[#531B93] rounded focus:ring-2 focus:ring-[#531B93]"
+            />
+            <span>Share with team</span>
+          </label>
+          <button
+            type="submit"
+            disabled={!name.trim() || createMutation.isPending}
+            className="w-full bg-gradient-to-r from-[#531B93] to-[#2563EB] text-white px-3 py-2 rounded-lg text-sm font-medium hover:from-[#3d1470] hover:to-[#1d4ed8] transition-all disabled:opacity-50"
+          >
+            {createMutation.isPending ? 'Saving...' : 'Save View'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
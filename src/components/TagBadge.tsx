@@ -0,0 +1,29 @@
+import { useTags } from '../hooks/useTags';
+import { getTagBadgeClass } from '../lib/tags';
+import { X } from 'lucide-react';
+
+/**
+ * A tag pill, colored when the tag is curated in Settings
+ */
+export default function TagBadge({ tag, onRemove }: { tag: string; onRemove?: () => void }) {
+  const { tags } = useTags();
+
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${getTagBadgeClass(tag, tags)}`}>
+      {tag}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="opacity-60 hover:opacity-100"
+          title={`Remove ${tag}`}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,76 @@
+import { useId, useState } from 'react';
+import { useTags } from '../hooks/useTags';
+import { normalizeTag } from '../lib/tags';
+import TagBadge from './TagBadge';
+
+/**
+ * Editable list of tags. Enter or comma adds the typed tag; existing tags are
+ * offered as autocomplete suggestions.
+ */
+export default function TagInput({
+  value,
+  onChange,
+  disabled = false
+}: {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}) {
+  const { tags, suggestions } = useTags();
+  const [input, setInput] = useState('');
+  const listId = useId();
+
+  const addTag = (name: string) => {
+    const tag = normalizeTag(name, tags);
+    setInput('');
+    if (!tag || value.includes(tag)) return;
+    onChange([...value, tag]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {value.map((tag) => (
+        <TagBadge
+          key={tag}
+          tag={tag}
+          onRemove={disabled ? undefined : () => onChange(value.filter((t) => t !== tag))}
+        />
+      ))}
+      <input
+        type="text"
+        list={listId}
+        value={input}
+        disabled={disabled}
+        onChange={(e) => {
+          // Picking a suggestion or typing a comma completes the tag. Browsers
+          // report a datalist pick as a plain event or a replacement, not typing.
+          const native = e.nativeEvent;
+          const picked = !(native instanceof InputEvent) || native.inputType === 'insertReplacementText';
+          if (e.target.value.endsWith(',')) {
+            addTag(e.target.value.slice(0, -1));
+          } else if (picked && suggestions.includes(e.target.value)) {
+            addTag(e.target.value);
+          } else {
+            setInput(e.target.value);
+          }
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            addTag(input);
+          } else if (e.key === 'Backspace' && !input && value.length > 0) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+        onBlur={() => input.trim() && addTag(input)}
+        placeholder={value.length === 0 ? 'Add tags...' : 'Add tag'}
+        className="flex-1 min-w-[8rem] px-2 py-1 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93] disabled:bg-slate-50"
+      />
+      <datalist id={listId}>
+        {suggestions.filter((tag) => !value.includes(tag)).map((tag) => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
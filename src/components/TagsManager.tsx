@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Tag } from '../lib/supabase';
+import { useTags } from '../hooks/useTags';
+import { createTag, updateTagColor, deleteTag } from '../lib/tags';
+import { STAGE_COLORS, STAGE_COLOR_KEYS } from '../lib/pipelineStages';
+import { Tags, Trash2, Plus } from 'lucide-react';
+
+const inputClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]';
+
+export default function TagsManager() {
+  const queryClient = useQueryClient();
+  const { tags, usage, isLoading } = useTags();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState('blue');
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['tags'] });
+    queryClient.invalidateQueries({ queryKey: ['tag-usage'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createTag,
+    onSuccess: () => {
+      invalidate();
+      setName('');
+    },
+    onError: (error: Error) => {
+      alert(`Failed to add tag: ${error.message}`);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: updateTagColor,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to update tag color');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteTag,
+    onSuccess: invalidate,
+    onError: () => {
+      alert('Failed to delete tag');
+    },
+  });
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    if (tags.some((tag) => tag.name.toLowerCase() === name.trim().toLowerCase())) {
+      alert('That tag already exists');
+      return;
+    }
+    createMutation.mutate({ name, color });
+  };
+
+  const handleDelete = (tag: Tag) => {
+    if (!confirm(`Remove "${tag.name}" from the curated list? Records keep the tag, shown without a color.`)) return;
+    deleteMutation.mutate(tag.id);
+  };
+
+  const usageCount = (name: string) => {
+    const item = usage.find((u) => u.tag === name);
+    return item ? item.lead_count + item.booking_count + item.assessment_count : 0;
+  };
+
+  // Tags typed on records that haven't been curated yet
+  const uncurated = usage.filter((item) => !tags.some((tag) => tag.name === item.tag));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Tags className="w-5 h-5 text-[#531B93]" />
+        <h2 className="text-lg font-semibold text-slate-800">Tags</h2>
+      </div>
+      <p className="text-sm text-slate-600 mb-4">
+        Leads, bookings and assessments can carry any tag. Curated tags get a color and are suggested first.
+      </p>
+
+      {isLoading && <p className="text-slate-500 text-sm">Loading tags...</p>}
+
+      <div className="space-y-2 mb-4">
+        {tags.map((tag) => (
+          <div key={tag.id} className="flex items-center justify-between gap-3 border border-slate-200 rounded-lg px-3 py-2">
+            <div className="flex items-center space-x-3 min-w-0">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${(STAGE_COLORS[tag.color] || STAGE_COLORS.slate).badge}`}>
+                {tag.name}
+              </span>
+              <span className="text-xs text-slate-500">{usageCount(tag.name)} uses</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={tag.color}
+                onChange={(e) => updateMutation.mutate({ id: tag.id, color: e.target.value })}
+                className={inputClass}
+              >
+                {STAGE_COLOR_KEYS.map((key) => (
+                  <option key={key} value={key}>{key}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleDelete(tag)}
+                className="text-red-600 hover:text-red-800"
+                title="Delete tag"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New tag"
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+        />
+        <select value={color} onChange={(e) => setColor(e.target.value)} className={inputClass}>
+          {STAGE_COLOR_KEYS.map((key) => (
+            <option key={key} value={key}>{key}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={createMutation.isPending || !name.trim()}
+          className="flex items-center space-x-1 px-3 py-2 bg-[#2563EB] text-white rounded-lg text-sm hover:bg-[#1d4ed8] disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Tag</span>
+        </button>
+      </div>
+
+      {uncurated.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-slate-500 mb-2">In use but not curated (click to curate):</p>
+          <div className="flex flex-wrap gap-2">
+            {uncurated.map((item) => (
+              <button
+                key={item.tag}
+                onClick={() => setName(item.tag)}
+                className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-700 hover:bg-slate-200"
+              >
+                {item.tag} ({item.lead_count + item.booking_count + item.assessment_count})
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
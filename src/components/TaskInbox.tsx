@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { fetchDueTasks, setTaskDone, getTaskDueState, InboxTask } from '../lib/leadTasks';
+import { formatDateOnlyToDDMMYY } from '../lib/dateUtils';
+import { Bell } from 'lucide-react';
+
+/**
+ * Navbar button listing the signed-in admin's overdue and due-today tasks
+ */
+export default function TaskInbox() {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { currentAdmin } = useAdminUsers();
+
+  const { data: tasks = [] } = useQuery({
+    queryKey: ['task-inbox', currentAdmin?.id],
+    queryFn: () => fetchDueTasks(currentAdmin!.id),
+    enabled: !!currentAdmin,
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: true,
+  });
+
+  const doneMutation = useMutation({
+    mutationFn: setTaskDone,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['task-inbox'] });
+      queryClient.invalidateQueries({ queryKey: ['lead-tasks'] });
+    },
+    onError: () => {
+      alert('Failed to update task');
+    },
+  });
+
+  useRealtimeSubscription(
+    'task_inbox_changes',
+    'lead_tasks',
+    () => {
+      queryClient.invalidateQueries({ queryKey: ['task-inbox'] });
+    }
+  );
+
+  if (!currentAdmin) return null;
+
+  const overdue = tasks.filter((task) => getTaskDueState(task) === 'overdue');
+  const today = tasks.filter((task) => getTaskDueState(task) === 'today');
+
+  const renderTask = (task: InboxTask) => (
+    <li key={task.id} className="flex items-start space-x-3 px-4 py-2 hover:bg-slate-50">
+      <input
+        type="checkbox"
+        checked={false}
+        onChange={() => doneMutation.mutate({ id: task.id, isDone: true })}
+        className="w-4 h-4 mt-1 text-[#531B93] rounded focus:ring-2 focus:ring-[#531B93]"
+        title="Mark done"
+      />
+      <button
+        onClick={() => {
+          setOpen(false);
+          navigate(`/admin/leads/${task.lead_id}`);
+        }}
+        className="flex-1 min-w-0 text-left"
+      >
+        <p className="text-sm text-slate-800 truncate">{task.title}</p>
+        <p className="text-xs text-slate-500 truncate">
+          {task.lead?.name || 'Lead'}
+          {getTaskDueState(task) === 'overdue' && ` · due ${formatDateOnlyToDDMMYY(task.due_date)}`}
+        </p>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+        title="My tasks"
+      >
+        <Bell className="w-5 h-5" />
+        {tasks.length > 0 && (
+          <span className={`absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full text-xs font-bold text-white flex items-center justify-center ${
+            overdue.length > 0 ? 'bg-red-500' : 'bg-amber-500'
+          }`}>
+            {tasks.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-slate-200 z-50 max-h-[70vh] overflow-y-auto">
+            <div className="px-4 py-3 border-b border-slate-200">
+              <h3 className="font-semibold text-slate-800">My Tasks</h3>
+            </div>
+
+            {tasks.length === 0 && (
+              <p className="px-4 py-6 text-sm text-slate-500 text-center">Nothing due today</p>
+            )}
+
+            {overdue.length > 0 && (
+              <div className="py-2">
+                <p className="px-4 py-1 text-xs font-semibold text-red-600 uppercase tracking-wider">Overdue ({overdue.length})</p>
+                <ul>{overdue.map(renderTask)}</ul>
+              </div>
+            )}
+
+            {today.length > 0 && (
+              <div className="py-2">
+                <p className="px-4 py-1 text-xs font-semibold text-amber-600 uppercase tracking-wider">Today ({today.length})</p>
+                <ul>{today.map(renderTask)}</ul>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchAdminUsers, fetchCurrentAdminEmail } from '../lib/leadAssignment';
+
+/**
+ * Hook returning all admins (possible lead owners) and the signed-in admin
+ */
+export function useAdminUsers() {
+  const query = useQuery({
+    queryKey: ['admin-users'],
+    queryFn: fetchAdminUsers,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const { data: currentEmail } = useQuery({
+    queryKey: ['current-admin-email'],
+    queryFn: fetchCurrentAdminEmail,
+    staleTime: Infinity,
+  });
+
+  const admins = query.data || [];
+  const currentAdmin = admins.find((admin) => admin.email === currentEmail) || null;
+
+  return { ...query, admins, currentAdmin };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchCustomFields } from '../lib/customFields';
+
+/**
+ * Hook returning the admin-defined lead custom fields in display order
+ */
+export function useCustomFields() {
+  const query = useQuery({
+    queryKey: ['lead-custom-fields'],
+    queryFn: fetchCustomFields,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  return { ...query, customFields: query.data || [] };
+}
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchLossReasons } from '../lib/lossReasons';
+
+/**
+ * Hook returning the admin-managed loss reasons in display order.
+ * `activeReasons` are the ones that can be picked when closing a lead.
+ */
+export function useLossReasons() {
+  const query = useQuery({
+    queryKey: ['loss-reasons'],
+    queryFn: fetchLossReasons,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const lossReasons = query.data || [];
+
+  return { ...query, lossReasons, activeReasons: lossReasons.filter((reason) => reason.is_active) };
+}
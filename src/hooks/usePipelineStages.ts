@@ -0,0 +1,27 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchPipelineStages } from '../lib/pipelineStages';
+import { useRealtimeSubscription } from './useRealtimeSubscription';
+
+/**
+ * Hook returning the admin-configured pipeline stages in display order
+ * Stays in sync with edits made from the settings page
+ */
+export function usePipelineStages() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['pipeline-stages'],
+    queryFn: fetchPipelineStages,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  useRealtimeSubscription(
+    'pipeline_stages_changes',
+    'pipeline_stages',
+    () => {
+      queryClient.invalidateQueries({ queryKey: ['pipeline-stages'] });
+    }
+  );
+
+  return { ...query, stages: query.data || [] };
+}
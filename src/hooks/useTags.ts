@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchTags, fetchTagUsage } from '../lib/tags';
+
+/**
+ * Hook returning the curated tags and every tag in use. `suggestions` lists
+ * curated tags first, then the rest by how often they are used.
+ */
+export function useTags() {
+  const tagsQuery = useQuery({
+    queryKey: ['tags'],
+    queryFn: fetchTags,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const usageQuery = useQuery({
+    queryKey: ['tag-usage'],
+    queryFn: fetchTagUsage,
+    staleTime: 2 * 60 * 1000,
+  });
+
+  const tags = tagsQuery.data || [];
+  const usage = usageQuery.data || [];
+  const curatedNames = tags.map((tag) => tag.name);
+  const suggestions = [
+    ...curatedNames,
+    ...usage.map((item) => item.tag).filter((name) => !curatedNames.includes(name))
+  ];
+
+  return { tags, usage, suggestions, isLoading: tagsQuery.isLoading || usageQuery.isLoading };
+}
@@ -0,0 +1,144 @@
+import { supabase, AvailabilityOverride, AvailabilityWindow, BookingAvailabilitySettings } from './supabase';
+import { convertFromUTC, convertToUTC } from './timezoneUtils';
+
+// Working hours and overrides are entered in the consultants' timezone
+export const CONSULTANT_TIMEZONE = 'Asia/Kolkata';
+
+// Monday first; values match Postgres extract(dow)
+export const WEEKDAYS = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 0, label: 'Sunday' }
+];
+
+export const SLOT_INTERVALS: BookingAvailabilitySettings['slot_interval_minutes'][] = [15, 30, 60];
+
+export type BookingRules = Omit<BookingAvailabilitySettings, 'id' | 'updated_at'>;
+
+// Postgres returns times as HH:MM:SS; the app works in HH:MM
+export function toTimeInput(time: string | null | undefined): string {
+  return time ? time.slice(0, 5) : '';
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + days));
+  return next.toISOString().split('T')[0];
+}
+
+export async function fetchBookingRules(): Promise<BookingAvailabilitySettings | null> {
+  const { data, error } = await supabase
+    .from('booking_availability_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateBookingRules(rules: BookingRules): Promise<void> {
+  const { error } = await supabase
+    .from('booking_availability_settings')
+    .update(rules)
+    .eq('id', true);
+
+  if (error) throw error;
+}
+
+export async function fetchAvailabilityWindows(): Promise<AvailabilityWindow[]> {
+  const { data, error } = await supabase
+    .from('availability_windows')
+    .select('*')
+    .order('weekday')
+    .order('start_time');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createAvailabilityWindow(params: { weekday: number; startTime: string; endTime: string }): Promise<void> {
+  const { error } = await supabase
+    .from('availability_windows')
+    .insert({ weekday: params.weekday, start_time: params.startTime, end_time: params.endTime });
+
+  if (error) throw error;
+}
+
+export async function updateAvailabilityWindow(params: { id: string; changes: Partial<Pick<AvailabilityWindow, 'start_time' | 'end_time'>> }): Promise<void> {
+  const { error } = await supabase
+    .from('availability_windows')
+    .update(params.changes)
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+export async function deleteAvailabilityWindow(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('availability_windows')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+// Overrides from `since` (YYYY-MM-DD) onwards; past dates no longer matter
+export async function fetchAvailabilityOverrides(since: string): Promise<AvailabilityOverride[]> {
+  const { data, error } = await supabase
+    .from('availability_overrides')
+    .select('*')
+    .gte('override_date', since)
+    .order('override_date')
+    .order('start_time', { nullsFirst: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Leave the times out to block the whole day
+export async function createAvailabilityOverride(params: {
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+  note: string;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('availability_overrides')
+    .insert({
+      override_date: params.date,
+      start_time: params.startTime,
+      end_time: params.endTime,
+      note: params.note.trim() || null
+    });
+
+  if (error) throw error;
+}
+
+export async function deleteAvailabilityOverride(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('availability_overrides')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Open consultation slots on `date` in the visitor's `timezone`, as HH:MM start times in that timezone.
+ * The database applies working hours, overrides, notice, buffers and caps.
+ * Pass `excludeBookingId` when rescheduling so the booking's own slot doesn't count against it.
+ */
+export async function fetchOpenSlots(date: string, timezone: string, excludeBookingId?: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc('get_available_booking_slots', {
+    p_from: convertToUTC(date, '00:00', timezone).toISOString(),
+    p_to: convertToUTC(addDays(date, 1), '00:00', timezone).toISOString(),
+    p_exclude_booking_id: excludeBookingId ?? null
+  });
+
+  if (error) throw error;
+  return ((data as string[]) || []).map((startsAt) => convertFromUTC(new Date(startsAt), timezone));
+}
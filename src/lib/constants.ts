@@ -33,6 +33,27 @@ export const STATES_BY_COUNTRY: Record<string, string[]> = {
   'India': INDIA_STATES
 };
 
+// Must match the leads_source_check constraint
+export const LEAD_SOURCES = [
+  'Assessment',
+  'Consultancy',
+  'LinkedIn',
+  'WhatsApp',
+  'Call',
+  'Email',
+  'Referral',
+  'Existing Client',
+  'Ex-Client'
+];
+
+// Values written to leads.efficiency_level by the assessment form
+export const EFFICIENCY_LEVELS = [
+  '🌟 Excellent Efficiency',
+  '👍 Good Efficiency',
+  '⚙️ Moderate Efficiency',
+  '⚠️ Needs Improvement'
+];
+
 export const PRODUCT_SERVICES = [
   'Drug Assist',
   'Call Operator',
@@ -0,0 +1,152 @@
+import { supabase } from './supabase';
+
+export type NewConsultancyBooking = {
+  full_name: string;
+  email: string;
+  phone: string | null;
+  country: string;
+  state: string;
+  city: string;
+  facility: string;
+  website: string | null;
+  product_service: string;
+  reason: string;
+  preferred_date: string;
+  // Display range in the visitor's timezone, e.g. "9:00 AM - 10:00 AM"
+  preferred_time: string;
+  // Slot start in the visitor's timezone, HH:MM
+  time_slot: string;
+  timezone: string;
+  timezone_value: string;
+  ist_time: string | null;
+};
+
+// Raised when someone else booked the slot, or it closed, after the form loaded it
+export const SLOT_TAKEN_ERROR = 'slot_taken';
+
+export type CreatedConsultancyBooking = {
+  id: string;
+  // Secret for the visitor's /booking/manage/:token link
+  manageToken: string;
+};
+
+// A booking as shown on its manage link
+export type ManagedBooking = {
+  id: string;
+  fullName: string;
+  facility: string;
+  reason: string;
+  productService: string;
+  status: string;
+  // IANA timezone the visitor booked in
+  timezone: string;
+  startsAt: string | null;
+  cancelledAt: string | null;
+};
+
+// The new slot for a reschedule, in the same shape the booking form sends
+export type RescheduledSlot = Pick<
+  NewConsultancyBooking,
+  'preferred_date' | 'preferred_time' | 'time_slot' | 'timezone' | 'timezone_value' | 'ist_time'
+>;
+
+/**
+ * Creates the booking, its slot and its lead in one transaction.
+ * Fails with SLOT_TAKEN_ERROR as the message when the slot is no longer open.
+ */
+export async function createConsultancyBooking(
+  booking: NewConsultancyBooking,
+  slotUtc: Date
+): Promise<CreatedConsultancyBooking> {
+  const { data, error } = await supabase.rpc('create_consultancy_booking', {
+    p_booking: booking,
+    p_slot_utc: slotUtc.toISOString()
+  });
+
+  if (error) throw new Error(error.message);
+  return data as CreatedConsultancyBooking;
+}
+
+// Returns null when no booking matches the token
+export async function fetchManagedBooking(manageToken: string): Promise<ManagedBooking | null> {
+  const { data, error } = await supabase.rpc('get_managed_booking', { p_token: manageToken });
+
+  if (error) throw error;
+  return (data as ManagedBooking | null) || null;
+}
+
+/**
+ * Moves the booking to another open slot and records it on the lead's timeline.
+ * Fails with SLOT_TAKEN_ERROR as the message when the slot is no longer open.
+ */
+export async function rescheduleManagedBooking(
+  manageToken: string,
+  slot: RescheduledSlot,
+  slotUtc: Date
+): Promise<void> {
+  const { error } = await supabase.rpc('reschedule_managed_booking', {
+    p_token: manageToken,
+    p_booking: slot,
+    p_slot_utc: slotUtc.toISOString()
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+// Cancels the booking and frees its slot
+export async function cancelManagedBooking(manageToken: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('cancel_managed_booking', {
+    p_token: manageToken,
+    p_reason: reason
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Ask the booking-invite-email edge function to email any pending calendar
+ * invites. Failures are only logged: the function also runs on a schedule
+ * and picks up whatever is still pending.
+ */
+export function sendBookingInvites(): void {
+  fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/booking-invite-email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+  }).catch((error) => {
+    console.warn('Error sending booking invites:', error);
+  });
+}
+
+/**
+ * Saves the booking's .ics file; cancelled bookings get a cancellation.
+ * Visitors identify the booking by its manage token; admins by its id, which
+ * only works with their session.
+ */
+export async function downloadBookingInvite(booking: { manageToken: string } | { bookingId: string }): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const accessToken = 'bookingId' in booking && session ? session.access_token : import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/booking-invite-email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(booking),
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Could not create the calendar invite');
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'consultation.ics';
+  link.click();
+  URL.revokeObjectURL(url);
+}
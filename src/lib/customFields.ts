@@ -0,0 +1,120 @@
+import { supabase, CustomFieldDefinition, CustomFieldType, CustomFieldValue } from './supabase';
+import { formatDateOnlyToDDMMYY } from './dateUtils';
+
+export const CUSTOM_FIELD_TYPES: Array<{ value: CustomFieldType; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Single select' },
+  { value: 'multi_select', label: 'Multi select' }
+];
+
+export function hasOptions(type: CustomFieldType): boolean {
+  return type === 'select' || type === 'multi_select';
+}
+
+export async function fetchCustomFields(): Promise<CustomFieldDefinition[]> {
+  const { data, error } = await supabase
+    .from('lead_custom_fields')
+    .select('*')
+    .order('sort_order')
+    .order('label');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// "Decision Maker Title" -> "decision_maker_title"
+export function toCustomFieldKey(label: string): string {
+  const key = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z]/.test(key) ? key : `field_${key}`;
+}
+
+export async function createCustomField(field: {
+  label: string;
+  field_type: CustomFieldType;
+  options: string[];
+  sort_order: number;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('lead_custom_fields')
+    .insert({ ...field, label: field.label.trim(), key: toCustomFieldKey(field.label) });
+
+  if (error) throw error;
+}
+
+// The key and type are fixed after creation so stored values keep their meaning
+export async function updateCustomField(params: {
+  id: string;
+  changes: Partial<Pick<CustomFieldDefinition, 'label' | 'options'>>;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('lead_custom_fields')
+    .update(params.changes)
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+export async function deleteCustomField(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('lead_custom_fields')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function updateLeadCustomFields(params: {
+  leadId: string;
+  customFields: Record<string, CustomFieldValue>;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('leads')
+    .update({ custom_fields: params.customFields })
+    .eq('id', params.leadId);
+
+  if (error) throw error;
+}
+
+/**
+ * Convert form input into the stored JSON value: numbers as numbers,
+ * multi-select as an array, and blanks as null
+ */
+export function normalizeCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue): CustomFieldValue {
+  if (field.field_type === 'multi_select') {
+    const values = (Array.isArray(value) ? value : []).filter((option) => option.trim() !== '');
+    return values.length > 0 ? values : null;
+  }
+
+  if (value === null || value === undefined || Array.isArray(value) || String(value).trim() === '') return null;
+
+  if (field.field_type === 'number') {
+    const number = Number(value);
+    return isFinite(number) ? number : null;
+  }
+
+  return String(value).trim();
+}
+
+// Drop blank values so leads.custom_fields only holds what was filled in
+export function normalizeCustomFields(
+  fields: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue>
+): Record<string, CustomFieldValue> {
+  const normalized: Record<string, CustomFieldValue> = {};
+  Object.entries(values).forEach(([key, value]) => {
+    const field = fields.find((definition) => definition.key === key);
+    const stored = field ? normalizeCustomFieldValue(field, value) : value;
+    if (stored !== null) normalized[key] = stored;
+  });
+  return normalized;
+}
+
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field.field_type === 'date') return formatDateOnlyToDDMMYY(String(value));
+  if (field.field_type === 'number' && typeof value === 'number') return value.toLocaleString();
+  return String(value);
+}
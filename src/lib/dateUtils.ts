@@ -21,3 +21,32 @@ export const formatDateTimeToLocal = (dateString: string): string => {
 
   return `${day}/${month}/${year} ${hours}:${minutes}`;
 };
+
+// YYYY-MM-DD in the browser's timezone, for comparing against Postgres date columns
+export const toLocalDateString = (date: Date = new Date()): string => {
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Postgres date columns have no time, so parse them as local midnight rather than UTC
+export const formatDateOnlyToDDMMYY = (dateString: string): string => {
+  if (!dateString) return '';
+  return formatDateToDDMMYY(`${dateString}T00:00:00`);
+};
+
+// Start of a local calendar day (YYYY-MM-DD) as an ISO timestamp, for filtering timestamptz columns by day
+export const localDayStartISO = (dateString: string, offsetDays = 0): string => {
+  const date = new Date(`${dateString}T00:00:00`);
+  date.setDate(date.getDate() + offsetDays);
+  return date.toISOString();
+};
+
+// YYYY-MM-DDTHH:mm in the browser's timezone, for datetime-local inputs
+export const toLocalDateTimeString = (date: Date = new Date()): string => {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+
+  return `${toLocalDateString(date)}T${hours}:${minutes}`;
+};
@@ -0,0 +1,148 @@
+import { supabase, Facility, FacilitySummary, Lead, ConsultancyBooking, Assessment } from './supabase';
+
+export type FacilityDetails = {
+  facility: Facility;
+  contacts: Lead[];
+  bookings: ConsultancyBooking[];
+  assessments: Assessment[];
+};
+
+// Characters with special meaning in an ilike pattern
+function sanitizeSearchTerm(term: string): string {
+  return term.replace(/[%_\\]/g, ' ').trim();
+}
+
+export async function fetchFacilitySummaries(search = ''): Promise<FacilitySummary[]> {
+  const { data, error } = await supabase.rpc('get_facility_summaries', {
+    p_search: sanitizeSearchTerm(search),
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Name search for the account picker on the lead profile
+export async function searchFacilities(search: string): Promise<Facility[]> {
+  const term = sanitizeSearchTerm(search);
+  let query = supabase
+    .from('facilities')
+    .select('*')
+    .order('name')
+    .limit(20);
+
+  if (term) {
+    query = query.ilike('name', `%${term}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchFacility(id: string): Promise<Facility | null> {
+  const { data, error } = await supabase
+    .from('facilities')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * The account with its contacts, and the bookings and assessments linked to
+ * any of those contacts
+ */
+export async function fetchFacilityDetails(id: string): Promise<FacilityDetails | null> {
+  const { data: facility, error } = await supabase
+    .from('facilities')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!facility) return null;
+
+  const { data: contacts, error: contactsError } = await supabase
+    .from('leads')
+    .select('*')
+    .eq('facility_id', id)
+    .order('created_at', { ascending: false });
+
+  if (contactsError) throw contactsError;
+
+  const contactIds = (contacts || []).map((lead) => lead.id);
+  if (contactIds.length === 0) {
+    return { facility, contacts: [], bookings: [], assessments: [] };
+  }
+
+  const [bookingsResult, assessmentsResult] = await Promise.all([
+    supabase
+      .from('consultancy_bookings_v2')
+      .select('*')
+      .in('lead_id', contactIds)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('assessments')
+      .select('*')
+      .in('lead_id', contactIds)
+      .order('created_at', { ascending: false })
+  ]);
+
+  if (bookingsResult.error) throw bookingsResult.error;
+  if (assessmentsResult.error) throw assessmentsResult.error;
+
+  return {
+    facility,
+    contacts: contacts || [],
+    bookings: bookingsResult.data || [],
+    assessments: assessmentsResult.data || []
+  };
+}
+
+export async function createFacility(facility: Pick<Facility, 'name'> & Partial<Facility>): Promise<Facility> {
+  const { data, error } = await supabase
+    .from('facilities')
+    .insert({ ...facility, name: facility.name.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateFacility(params: {
+  id: string;
+  changes: Partial<Pick<Facility, 'name' | 'website' | 'country' | 'state' | 'city' | 'specialties'>>;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('facilities')
+    .update(params.changes)
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+// Contacts are unlinked (not deleted) by the facility_id foreign key
+export async function deleteFacility(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('facilities')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function setLeadFacility(params: { leadId: string; facilityId: string | null }): Promise<void> {
+  const { error } = await supabase
+    .from('leads')
+    .update({ facility_id: params.facilityId })
+    .eq('id', params.leadId);
+
+  if (error) throw error;
+}
+
+export function getFacilityTotalValue(contacts: Lead[]): number {
+  return contacts.reduce((sum, lead) => sum + (lead.value_per_annum || 0), 0);
+}
@@ -0,0 +1,73 @@
+import { supabase, Lead, PipelineStage } from './supabase';
+import { getStage, isLeadWon } from './pipelineStages';
+import { toLocalDateString } from './dateUtils';
+
+export const FORECAST_MONTHS = 6;
+
+export interface ForecastMonth {
+  // First day of the month, YYYY-MM-DD
+  month: string;
+  target: number | null;
+  // Won deals
+  committed: number;
+  // Won deals plus open deals at their stage probability
+  weighted: number;
+  // Won deals plus every open deal at full value
+  bestCase: number;
+  openDeals: number;
+}
+
+export interface ForecastBucket {
+  weighted: number;
+  bestCase: number;
+  openDeals: number;
+}
+
+export interface LeadForecast {
+  months: ForecastMonth[];
+  // Open deals whose expected close month has already passed
+  overdue: ForecastBucket;
+  // Open deals with no expected close date
+  unscheduled: ForecastBucket;
+}
+
+// First day of the month containing `date`, as YYYY-MM-DD
+export const startOfMonth = (date: Date = new Date()): string =>
+  toLocalDateString(new Date(date.getFullYear(), date.getMonth(), 1));
+
+export const formatMonth = (month: string): string =>
+  new Date(`${month}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+export const formatCurrency = (value: number): string => `$${Math.round(value).toLocaleString()}`;
+
+// The lead's value at its stage probability; won deals count in full and other closed deals not at all
+export function getWeightedValue(lead: Pick<Lead, 'status' | 'closed_reason' | 'value_per_annum'>, stages: PipelineStage[]): number {
+  const value = lead.value_per_annum || 0;
+  if (isLeadWon(lead, stages)) return value;
+
+  const stage = getStage(stages, lead.status);
+  if (!stage || stage.is_closed || stage.is_lost) return 0;
+  return (value * stage.probability) / 100;
+}
+
+// Buckets are computed in the database from the current local month onwards
+export async function fetchLeadForecast(months = FORECAST_MONTHS): Promise<LeadForecast> {
+  const { data, error } = await supabase.rpc('get_lead_forecast', {
+    p_start: startOfMonth(),
+    p_months: months
+  });
+
+  if (error) throw error;
+  return data as LeadForecast;
+}
+
+// A null or empty amount clears the month's target
+export async function saveForecastTarget(params: { month: string; amount: number | null }): Promise<void> {
+  const { month, amount } = params;
+
+  const { error } = amount === null
+    ? await supabase.from('forecast_targets').delete().eq('month', month)
+    : await supabase.from('forecast_targets').upsert({ month, target_amount: amount }, { onConflict: 'month' });
+
+  if (error) throw error;
+}
@@ -0,0 +1,48 @@
+import { supabase, AdminUser, LeadAssignmentSettings } from './supabase';
+
+export const ASSIGNMENT_MODES: Array<{ value: LeadAssignmentSettings['mode']; label: string; description: string }> = [
+  { value: 'off', label: 'Off', description: 'New form submissions stay unassigned' },
+  { value: 'round_robin', label: 'Round-robin', description: 'Each new lead goes to the next admin in turn' },
+  { value: 'load_balanced', label: 'Load-balanced', description: 'Each new lead goes to the admin with the fewest open leads' }
+];
+
+export async function fetchAdminUsers(): Promise<AdminUser[]> {
+  const { data, error } = await supabase
+    .from('admin_users')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchCurrentAdminEmail(): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.email || null;
+}
+
+export function getAdminDisplayName(admins: AdminUser[], adminId?: string | null): string {
+  if (!adminId) return 'Unassigned';
+  const admin = admins.find((a) => a.id === adminId);
+  return admin ? admin.name || admin.email : 'Unknown';
+}
+
+// Assign one or many leads in a single update; null clears the owner
+export async function assignLeads(params: { leadIds: string[]; ownerId: string | null }): Promise<void> {
+  const { error } = await supabase
+    .from('leads')
+    .update({ owner_id: params.ownerId })
+    .in('id', params.leadIds);
+
+  if (error) throw error;
+}
+
+export async function fetchAssignmentSettings(): Promise<LeadAssignmentSettings | null> {
+  const { data, error } = await supabase
+    .from('lead_assignment_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,187 @@
+import { supabase, LeadAttachment } from './supabase';
+
+export const ATTACHMENTS_BUCKET = 'lead-attachments';
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+type AttachmentType = {
+  label: string;
+  extensions: string[];
+  // Leading bytes the file must start with; text files are checked for binary content instead
+  signatures: number[][];
+};
+
+// Keep in sync with the bucket's allowed_mime_types and the scan-lead-attachment function
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+const OLE = [0xd0, 0xcf, 0x11, 0xe0];
+
+export const ATTACHMENT_TYPES: Record<string, AttachmentType> = {
+  'application/pdf': { label: 'PDF', extensions: ['pdf'], signatures: [[0x25, 0x50, 0x44, 0x46]] },
+  'application/msword': { label: 'Word', extensions: ['doc'], signatures: [OLE] },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { label: 'Word', extensions: ['docx'], signatures: [ZIP] },
+  'application/vnd.ms-excel': { label: 'Excel', extensions: ['xls'], signatures: [OLE] },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { label: 'Excel', extensions: ['xlsx'], signatures: [ZIP] },
+  'application/vnd.ms-powerpoint': { label: 'PowerPoint', extensions: ['ppt'], signatures: [OLE] },
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': { label: 'PowerPoint', extensions: ['pptx'], signatures: [ZIP] },
+  'text/plain': { label: 'Text', extensions: ['txt'], signatures: [] },
+  'text/csv': { label: 'CSV', extensions: ['csv'], signatures: [] },
+  'image/png': { label: 'Image', extensions: ['png'], signatures: [[0x89, 0x50, 0x4e, 0x47]] },
+  'image/jpeg': { label: 'Image', extensions: ['jpg', 'jpeg'], signatures: [[0xff, 0xd8, 0xff]] }
+};
+
+export const ATTACHMENT_ACCEPT = Object.values(ATTACHMENT_TYPES)
+  .flatMap((type) => type.extensions.map((extension) => `.${extension}`))
+  .join(',');
+
+// Browsers report some types inconsistently (e.g. CSV as application/vnd.ms-excel), so go by extension
+export function getAttachmentMimeType(fileName: string): string | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  const entry = Object.entries(ATTACHMENT_TYPES).find(([, type]) => type.extensions.includes(extension));
+  return entry ? entry[0] : null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Checks size, type and that the content matches the extension.
+ * Returns the problem, or null when the file can be uploaded.
+ */
+export async function validateAttachmentFile(file: File): Promise<string | null> {
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is ${formatFileSize(file.size)}; the limit is ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+
+  const mimeType = getAttachmentMimeType(file.name);
+  if (!mimeType) return `${file.name} is not an allowed file type`;
+
+  const header = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+  const { signatures } = ATTACHMENT_TYPES[mimeType];
+
+  const matches = signatures.length === 0
+    ? !header.includes(0)
+    : signatures.some((signature) => signature.every((byte, i) => header[i] === byte));
+
+  return matches ? null : `${file.name} does not look like a ${ATTACHMENT_TYPES[mimeType].label} file`;
+}
+
+export async function fetchLeadAttachments(leadId: string): Promise<LeadAttachment[]> {
+  const { data, error } = await supabase
+    .from('lead_attachments')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// The uploader is stamped by a database trigger
+export async function uploadLeadAttachment(params: { leadId: string; file: File }): Promise<LeadAttachment> {
+  const { leadId, file } = params;
+  const problem = await validateAttachmentFile(file);
+  if (problem) throw new Error(problem);
+
+  const mimeType = getAttachmentMimeType(file.name)!;
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const storagePath = `${leadId}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(storagePath, file, { contentType: mimeType });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('lead_attachments')
+    .insert({
+      lead_id: leadId,
+      storage_path: storagePath,
+      file_name: file.name,
+      mime_type: mimeType,
+      size_bytes: file.size
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Admins can't remove a file with no attachment row, so queue it for the service role
+    const { error: queueError } = await supabase
+      .from('lead_attachment_file_removals')
+      .insert({ storage_path: storagePath });
+
+    if (queueError) {
+      console.error('Error queueing orphaned attachment file:', queueError);
+    } else {
+      removeDeletedAttachmentFiles();
+    }
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Runs the scan-lead-attachment edge function, which virus-scans the file
+ * and records the result on the attachment
+ */
+export async function scanLeadAttachment(id: string): Promise<void> {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/scan-lead-attachment`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify({ attachmentId: id }),
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Scan failed');
+  }
+}
+
+// Deleting the row queues its file for removal
+export async function deleteLeadAttachment(attachment: Pick<LeadAttachment, 'id'>): Promise<void> {
+  const { error } = await supabase
+    .from('lead_attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (error) throw error;
+
+  removeDeletedAttachmentFiles();
+}
+
+/**
+ * Ask the remove-lead-attachment-files edge function to remove the files of
+ * deleted attachments (and deleted leads) from storage. Admins can't remove
+ * them directly once the rows are gone. Failures stay queued in
+ * lead_attachment_file_removals with their error, and the function also runs
+ * on a schedule to retry them.
+ */
+export function removeDeletedAttachmentFiles(): void {
+  fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/remove-lead-attachment-files`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+  }).catch((error) => {
+    console.warn('Error removing deleted attachment files:', error);
+  });
+}
+
+// Short-lived link for previewing or downloading a private file
+export async function getAttachmentUrl(attachment: Pick<LeadAttachment, 'storage_path' | 'file_name'>, download = false): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(attachment.storage_path, 5 * 60, download ? { download: attachment.file_name } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
@@ -0,0 +1,54 @@
+import { supabase, Lead } from './supabase';
+import { removeDeletedAttachmentFiles } from './leadAttachments';
+
+// Each helper below touches every selected lead in a single request
+
+export async function bulkUpdateLeads(params: {
+  leadIds: string[];
+  changes: Partial<Pick<Lead, 'status' | 'closed_reason' | 'loss_reason_id' | 'loss_competitor' | 'loss_details'>>;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('leads')
+    .update(params.changes)
+    .in('id', params.leadIds);
+
+  if (error) throw error;
+}
+
+export async function bulkTagLeads(params: { leadIds: string[]; tag: string }): Promise<void> {
+  const { error } = await supabase.rpc('add_lead_tag', {
+    p_lead_ids: params.leadIds,
+    p_tag: params.tag,
+  });
+
+  if (error) throw error;
+}
+
+export async function addLeadsToCampaign(params: { leadIds: string[]; campaignId: string }): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('campaign_leads')
+    .upsert(
+      params.leadIds.map((leadId) => ({
+        campaign_id: params.campaignId,
+        lead_id: leadId,
+        added_by: user?.email || null
+      })),
+      { onConflict: 'campaign_id,lead_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+// Deleting the leads queues their attachment files for removal
+export async function bulkDeleteLeads(leadIds: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('leads')
+    .delete()
+    .in('id', leadIds);
+
+  if (error) throw error;
+
+  removeDeletedAttachmentFiles();
+}
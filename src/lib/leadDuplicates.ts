@@ -0,0 +1,91 @@
+import { supabase, Lead } from './supabase';
+
+// Same rule as the leads.normalized_phone generated column: last 10 digits
+export const normalizePhone = (phone?: string | null): string => {
+  return (phone || '').replace(/\D/g, '').slice(-10);
+};
+
+// Quote a value for use inside a PostgREST or() filter (commas, dots, parens)
+const quoteFilterValue = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+export type DuplicateMatch = {
+  lead: Lead;
+  reasons: Array<'email' | 'phone' | 'facility'>;
+};
+
+/**
+ * Look up existing leads that look like the same person.
+ * Mirrors the detect_lead_duplicates trigger so the UI can warn before inserting.
+ */
+export async function findPossibleDuplicates(candidate: {
+  name: string;
+  email: string;
+  phone?: string | null;
+  facility?: string | null;
+}): Promise<DuplicateMatch[]> {
+  const email = candidate.email.trim().toLowerCase();
+  const phone = normalizePhone(candidate.phone);
+  const facility = (candidate.facility || '').trim().toLowerCase();
+  const name = candidate.name.trim().toLowerCase();
+
+  const filters = [`email.ilike.${quoteFilterValue(email)}`];
+  if (phone.length >= 7) {
+    filters.push(`normalized_phone.eq.${phone}`);
+  }
+  if (facility) {
+    filters.push(`facility.ilike.${quoteFilterValue(facility)}`);
+  }
+
+  const { data, error } = await supabase
+    .from('leads')
+    .select('*')
+    .or(filters.join(','))
+    .limit(20);
+
+  if (error) throw error;
+
+  return (data || [])
+    .map((lead: Lead) => {
+      const reasons: DuplicateMatch['reasons'] = [];
+      if (lead.email?.toLowerCase() === email) reasons.push('email');
+      if (phone.length >= 7 && normalizePhone(lead.phone) === phone) reasons.push('phone');
+      if (facility && lead.facility?.trim().toLowerCase() === facility && lead.name?.trim().toLowerCase() === name) {
+        reasons.push('facility');
+      }
+      return { lead, reasons };
+    })
+    .filter((match) => match.reasons.length > 0);
+}
+
+// Lead fields an admin can pick between when merging
+export const MERGE_FIELDS: Array<{ key: keyof Lead; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'facility', label: 'Facility' },
+  { key: 'country', label: 'Country' },
+  { key: 'state', label: 'State' },
+  { key: 'source', label: 'Source' },
+  { key: 'product_service', label: 'Product/Service' },
+  { key: 'status', label: 'Stage' },
+  { key: 'closed_reason', label: 'Closed Reason' },
+  { key: 'score', label: 'Score' },
+  { key: 'efficiency_level', label: 'Efficiency Level' },
+  { key: 'value_per_annum', label: 'Value per Annum' },
+  { key: 'comments', label: 'Comments' },
+  { key: 'notes', label: 'Notes' }
+];
+
+export async function mergeLeads(params: {
+  survivorId: string;
+  mergedId: string;
+  fields: Partial<Record<keyof Lead, unknown>>;
+}): Promise<void> {
+  const { error } = await supabase.rpc('merge_leads', {
+    p_survivor_id: params.survivorId,
+    p_merged_id: params.mergedId,
+    p_fields: params.fields,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,72 @@
+import { Lead, CustomFieldDefinition, AdminUser } from './supabase';
+import { formatDateTimeToLocal, formatDateOnlyToDDMMYY } from './dateUtils';
+import { formatCustomFieldValue } from './customFields';
+import { downloadSpreadsheet, SpreadsheetFormat } from './spreadsheet';
+import { getAdminDisplayName } from './leadAssignment';
+
+export type ExportColumn = {
+  key: string;
+  label: string;
+  value: (lead: Lead) => string | number | null | undefined;
+  defaultSelected?: boolean;
+};
+
+// Every lead field that can be exported, in column order
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'name', label: 'Name', value: (lead) => lead.name, defaultSelected: true },
+  { key: 'email', label: 'Email', value: (lead) => lead.email, defaultSelected: true },
+  { key: 'phone', label: 'Phone', value: (lead) => lead.phone, defaultSelected: true },
+  { key: 'facility', label: 'Facility', value: (lead) => lead.facility, defaultSelected: true },
+  { key: 'country', label: 'Country', value: (lead) => lead.country },
+  { key: 'state', label: 'State', value: (lead) => lead.state, defaultSelected: true },
+  { key: 'source', label: 'Source', value: (lead) => lead.source, defaultSelected: true },
+  { key: 'product_service', label: 'Product/Service', value: (lead) => lead.product_service, defaultSelected: true },
+  { key: 'selected_services', label: 'Selected Services', value: (lead) => (lead.selected_services || []).join('; ') },
+  { key: 'status', label: 'Stage', value: (lead) => lead.status, defaultSelected: true },
+  { key: 'tags', label: 'Tags', value: (lead) => (lead.tags || []).join('; ') },
+  { key: 'closed_reason', label: 'Closed Reason', value: (lead) => lead.closed_reason },
+  { key: 'score', label: 'Score', value: (lead) => lead.score },
+  { key: 'efficiency_level', label: 'Efficiency Level', value: (lead) => lead.efficiency_level },
+  { key: 'value_per_annum', label: 'Value per Annum', value: (lead) => lead.value_per_annum, defaultSelected: true },
+  { key: 'expected_close_date', label: 'Expected Close Date', value: (lead) => lead.expected_close_date ? formatDateOnlyToDDMMYY(lead.expected_close_date) : '' },
+  { key: 'comments', label: 'Comments', value: (lead) => lead.comments },
+  { key: 'notes', label: 'Notes', value: (lead) => lead.notes },
+  { key: 'added_by', label: 'Added By', value: (lead) => lead.added_by },
+  { key: 'added_by_email', label: 'Added By Email', value: (lead) => lead.added_by_email },
+  { key: 'last_contacted_at', label: 'Last Contacted', value: (lead) => lead.last_contacted_at ? formatDateTimeToLocal(lead.last_contacted_at) : '' },
+  { key: 'created_at', label: 'Created', value: (lead) => formatDateTimeToLocal(lead.created_at), defaultSelected: true },
+  { key: 'updated_at', label: 'Last Updated', value: (lead) => formatDateTimeToLocal(lead.updated_at) },
+  { key: 'id', label: 'Lead ID', value: (lead) => lead.id }
+];
+
+export const DEFAULT_EXPORT_COLUMN_KEYS = EXPORT_COLUMNS.filter((column) => column.defaultSelected).map((column) => column.key);
+
+// The built-in columns, the lead owner, then one per admin-defined custom field
+export function getExportColumns(customFields: CustomFieldDefinition[], admins: AdminUser[]): ExportColumn[] {
+  return [
+    ...EXPORT_COLUMNS,
+    { key: 'owner', label: 'Owner', value: (lead: Lead) => getAdminDisplayName(admins, lead.owner_id) },
+    ...customFields.map((field) => ({
+      key: `cf:${field.key}`,
+      label: field.label,
+      value: (lead: Lead) => formatCustomFieldValue(field, lead.custom_fields?.[field.key])
+    }))
+  ];
+}
+
+export async function exportLeads(
+  leads: Lead[],
+  availableColumns: ExportColumn[],
+  columnKeys: string[],
+  format: SpreadsheetFormat
+): Promise<void> {
+  const columns = availableColumns.filter((column) => columnKeys.includes(column.key));
+  const date = new Date().toISOString().slice(0, 10);
+
+  await downloadSpreadsheet(
+    columns.map((column) => column.label),
+    leads.map((lead) => columns.map((column) => column.value(lead))),
+    `leads-${date}`,
+    format
+  );
+}
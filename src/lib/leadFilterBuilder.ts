@@ -0,0 +1,319 @@
+import { localDayStartISO } from './dateUtils';
+import { CustomFieldDefinition } from './supabase';
+
+/**
+ * Advanced lead filters: groups of rules joined with AND/OR, with the groups
+ * themselves joined with AND/OR. The tree is translated into a single
+ * PostgREST logic expression so filtering runs in the database.
+ */
+
+export type FilterFieldType = 'text' | 'enum' | 'number' | 'date' | 'array';
+
+export type FilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'not_in'
+  | 'contains'
+  | 'gte'
+  | 'lte'
+  | 'between'
+  | 'has_any'
+  | 'has_all'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterRule {
+  field: string;
+  operator: FilterOperator;
+  // Operands as entered; 'between' uses [min, max], set operators use the whole list
+  values: string[];
+}
+
+export interface FilterGroup {
+  combinator: FilterCombinator;
+  rules: FilterRule[];
+}
+
+export interface FilterTree {
+  combinator: FilterCombinator;
+  groups: FilterGroup[];
+}
+
+export interface FilterField {
+  key: string;
+  label: string;
+  type: FilterFieldType;
+  // Column path when it differs from the key, e.g. `custom_fields->>ehr_system`
+  column?: string;
+  // Compared as YYYY-MM-DD strings rather than local day timestamps
+  dateOnly?: boolean;
+  // JSON array values, matched with jsonb containment instead of array operators
+  json?: boolean;
+  // Fixed choices for enum and array fields that don't come from lead data
+  options?: string[];
+}
+
+export const FILTER_FIELDS: FilterField[] = [
+  { key: 'name', label: 'Name', type: 'text' },
+  { key: 'email', label: 'Email', type: 'text' },
+  { key: 'phone', label: 'Phone', type: 'text' },
+  { key: 'facility', label: 'Facility', type: 'text' },
+  { key: 'product_service', label: 'Product/Service', type: 'text' },
+  { key: 'added_by', label: 'Added By', type: 'text' },
+  { key: 'comments', label: 'Comments', type: 'text' },
+  { key: 'notes', label: 'Notes', type: 'text' },
+  { key: 'status', label: 'Stage', type: 'enum' },
+  { key: 'closed_reason', label: 'Closed Reason', type: 'enum' },
+  { key: 'source', label: 'Source', type: 'enum' },
+  { key: 'efficiency_level', label: 'Efficiency Level', type: 'enum' },
+  { key: 'state', label: 'State', type: 'enum' },
+  { key: 'country', label: 'Country', type: 'enum' },
+  { key: 'selected_services', label: 'Services', type: 'array' },
+  { key: 'tags', label: 'Tags', type: 'array' },
+  { key: 'score', label: 'Score', type: 'number' },
+  { key: 'value_per_annum', label: '$ Value/Year', type: 'number' },
+  { key: 'created_at', label: 'Date Added', type: 'date' },
+  { key: 'last_contacted_at', label: 'Last Contacted', type: 'date' },
+  { key: 'expected_close_date', label: 'Expected Close', type: 'date', dateOnly: true }
+];
+
+export const OPERATORS_BY_TYPE: Record<FilterFieldType, Array<{ value: FilterOperator; label: string }>> = {
+  text: [
+    { value: 'contains', label: 'contains' },
+    { value: 'eq', label: 'is' },
+    { value: 'neq', label: 'is not' },
+    { value: 'is_empty', label: 'is empty' },
+    { value: 'is_not_empty', label: 'is not empty' }
+  ],
+  enum: [
+    { value: 'in', label: 'is any of' },
+    { value: 'not_in', label: 'is none of' },
+    { value: 'is_empty', label: 'is empty' },
+    { value: 'is_not_empty', label: 'is not empty' }
+  ],
+  number: [
+    { value: 'gte', label: 'at least' },
+    { value: 'lte', label: 'at most' },
+    { value: 'between', label: 'between' },
+    { value: 'is_empty', label: 'is empty' },
+    { value: 'is_not_empty', label: 'is not empty' }
+  ],
+  date: [
+    { value: 'gte', label: 'on or after' },
+    { value: 'lte', label: 'on or before' },
+    { value: 'between', label: 'between' }
+  ],
+  array: [
+    { value: 'has_any', label: 'contains any of' },
+    { value: 'has_all', label: 'contains all of' },
+    { value: 'is_empty', label: 'is empty' }
+  ]
+};
+
+export const EMPTY_FILTER_GROUP: FilterGroup = { combinator: 'and', rules: [] };
+
+export const CUSTOM_FIELD_PREFIX = 'cf:';
+
+/**
+ * Filter fields for the admin-defined custom fields, read from leads.custom_fields.
+ * Numbers use the jsonb value so they compare numerically; everything else uses text.
+ */
+export function getCustomFilterFields(definitions: CustomFieldDefinition[]): FilterField[] {
+  return definitions.map((definition) => {
+    const key = `${CUSTOM_FIELD_PREFIX}${definition.key}`;
+    const textColumn = `custom_fields->>${definition.key}`;
+
+    switch (definition.field_type) {
+      case 'number':
+        return { key, label: definition.label, type: 'number', column: `custom_fields->${definition.key}` };
+      case 'date':
+        return { key, label: definition.label, type: 'date', column: textColumn, dateOnly: true };
+      case 'select':
+        return { key, label: definition.label, type: 'enum', column: textColumn, options: definition.options };
+      case 'multi_select':
+        return {
+          key,
+          label: definition.label,
+          type: 'array',
+          column: `custom_fields->${definition.key}`,
+          json: true,
+          options: definition.options
+        };
+      default:
+        return { key, label: definition.label, type: 'text', column: textColumn };
+    }
+  });
+}
+
+export function getFilterField(key: string, fields: FilterField[] = FILTER_FIELDS): FilterField | undefined {
+  return fields.find((field) => field.key === key);
+}
+
+export function createFilterRule(fieldKey = FILTER_FIELDS[0].key, fields: FilterField[] = FILTER_FIELDS): FilterRule {
+  const field = getFilterField(fieldKey, fields) || fields[0];
+  return { field: field.key, operator: OPERATORS_BY_TYPE[field.type][0].value, values: [] };
+}
+
+// Double-quoted PostgREST value, so commas, dots and parentheses are taken literally
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// ilike patterns can't be quoted without losing the * wildcard, so drop the reserved characters instead
+function sanitizePattern(value: string): string {
+  return value.replace(/[%*,()"\\]/g, ' ').trim();
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  return isFinite(number) ? number : null;
+}
+
+// Dates are local calendar days; the upper bound is exclusive at the start of the next day
+function lowerBound(field: FilterField, value: string | undefined): string | null {
+  if (field.type === 'date') {
+    if (!value) return null;
+    return quote(field.dateOnly ? value : localDayStartISO(value));
+  }
+  const number = toNumber(value);
+  return number === null ? null : String(number);
+}
+
+function upperBound(field: FilterField, value: string | undefined): string | null {
+  const column = field.column || field.key;
+  if (field.type === 'date') {
+    if (!value) return null;
+    return field.dateOnly ? `${column}.lte.${quote(value)}` : `${column}.lt.${quote(localDayStartISO(value, 1))}`;
+  }
+  const number = toNumber(value);
+  return number === null ? null : `${column}.lte.${number}`;
+}
+
+// jsonb containment value for a list of options, e.g. ["Epic","Cerner"]
+function jsonArray(values: string[]): string {
+  return quote(JSON.stringify(values));
+}
+
+/**
+ * PostgREST condition for one rule, or null while the rule is incomplete so
+ * half-built rules are ignored rather than breaking the query
+ */
+export function buildRuleCondition(rule: FilterRule, fields: FilterField[] = FILTER_FIELDS): string | null {
+  const field = getFilterField(rule.field, fields);
+  if (!field) return null;
+
+  const values = rule.values.map((value) => value.trim()).filter(Boolean);
+  const column = field.column || field.key;
+
+  switch (rule.operator) {
+    case 'eq':
+      return values[0] ? `${column}.eq.${quote(values[0])}` : null;
+    case 'neq':
+      return values[0] ? `${column}.neq.${quote(values[0])}` : null;
+    case 'contains': {
+      const pattern = sanitizePattern(values[0] || '');
+      return pattern ? `${column}.ilike.*${pattern}*` : null;
+    }
+    case 'in':
+      return values.length > 0 ? `${column}.in.(${values.map(quote).join(',')})` : null;
+    case 'not_in':
+      return values.length > 0 ? `${column}.not.in.(${values.map(quote).join(',')})` : null;
+    case 'gte': {
+      const bound = lowerBound(field, rule.values[0]);
+      return bound ? `${column}.gte.${bound}` : null;
+    }
+    case 'lte':
+      return upperBound(field, rule.values[0]);
+    case 'between': {
+      const min = lowerBound(field, rule.values[0]);
+      const max = upperBound(field, rule.values[1]);
+      if (min && max) return `and(${column}.gte.${min},${max})`;
+      return min ? `${column}.gte.${min}` : max;
+    }
+    case 'has_any':
+      if (values.length === 0) return null;
+      if (field.json) {
+        const conditions = values.map((value) => `${column}.cs.${jsonArray([value])}`);
+        return conditions.length === 1 ? conditions[0] : `or(${conditions.join(',')})`;
+      }
+      return `${column}.ov.{${values.map(quote).join(',')}}`;
+    case 'has_all':
+      if (values.length === 0) return null;
+      return field.json ? `${column}.cs.${jsonArray(values)}` : `${column}.cs.{${values.map(quote).join(',')}}`;
+    case 'is_empty':
+      if (field.json) return `${column}.is.null`;
+      if (field.type === 'array') return `or(${column}.is.null,${column}.eq.{})`;
+      if (field.type === 'number' || field.type === 'date') return `${column}.is.null`;
+      return `or(${column}.is.null,${column}.eq."")`;
+    case 'is_not_empty':
+      if (field.type === 'number' || field.type === 'date') return `${column}.not.is.null`;
+      return `and(${column}.not.is.null,${column}.neq."")`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Logic expression for the whole tree, e.g.
+ * `and(or(source.in.("Referral"),score.gte.80),created_at.gte."...")`.
+ * Returns null when no rule is complete.
+ */
+export function buildFilterLogic(tree: FilterTree, fields: FilterField[] = FILTER_FIELDS): string | null {
+  const groups = tree.groups
+    .map((group) => {
+      const conditions = group.rules
+        .map((rule) => buildRuleCondition(rule, fields))
+        .filter((condition): condition is string => !!condition);
+      if (conditions.length === 0) return null;
+      return conditions.length === 1 ? conditions[0] : `${group.combinator}(${conditions.join(',')})`;
+    })
+    .filter((group): group is string => !!group);
+
+  if (groups.length === 0) return null;
+  return groups.length === 1 ? groups[0] : `${tree.combinator}(${groups.join(',')})`;
+}
+
+// Counts every stored rule; custom field rules can't be checked for completeness before their definitions load
+export function countFilterRules(tree: FilterTree | null): number {
+  if (!tree) return 0;
+  return tree.groups.reduce((sum, group) => sum + group.rules.length, 0);
+}
+
+// Compact form stored in the `filter` URL param (and therefore in saved views)
+export function serializeFilterTree(tree: FilterTree): string | null {
+  const groups = tree.groups.filter((group) => group.rules.length > 0);
+  return groups.length > 0 ? JSON.stringify({ ...tree, groups }) : null;
+}
+
+// Anything malformed in a pasted link is dropped rather than thrown. Custom field
+// rules are kept as-is since the definitions may not have loaded yet.
+export function parseFilterTree(value: string | null): FilterTree | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(value) as FilterTree;
+    if (!Array.isArray(parsed.groups)) return null;
+
+    const groups = parsed.groups
+      .filter((group) => Array.isArray(group.rules))
+      .map((group) => ({
+        combinator: group.combinator === 'or' ? 'or' as const : 'and' as const,
+        rules: group.rules
+          .filter((rule) =>
+            (!!getFilterField(rule.field) || String(rule.field).startsWith(CUSTOM_FIELD_PREFIX)) &&
+            Array.isArray(rule.values)
+          )
+          .map((rule) => ({ field: rule.field, operator: rule.operator, values: rule.values.map(String) }))
+      }))
+      .filter((group) => group.rules.length > 0);
+
+    if (groups.length === 0) return null;
+    return { combinator: parsed.combinator === 'or' ? 'or' : 'and', groups };
+  } catch {
+    return null;
+  }
+}
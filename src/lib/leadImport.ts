@@ -0,0 +1,245 @@
+import { supabase, Lead } from './supabase';
+import { COUNTRIES, LEAD_SOURCES, STATES_BY_COUNTRY } from './constants';
+import { normalizePhone } from './leadDuplicates';
+
+export type ImportFieldKey =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'facility'
+  | 'country'
+  | 'state'
+  | 'source'
+  | 'product_service'
+  | 'selected_services'
+  | 'value_per_annum'
+  | 'comments'
+  | 'notes';
+
+// Lead fields a spreadsheet column can be mapped to; aliases drive auto-mapping
+export const IMPORT_FIELDS: Array<{ key: ImportFieldKey; label: string; required?: boolean; aliases: string[] }> = [
+  { key: 'name', label: 'Full Name', required: true, aliases: ['name', 'full name', 'contact', 'contact name'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email', 'email address', 'e-mail'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'whatsapp', 'contact number'] },
+  { key: 'facility', label: 'Facility', required: true, aliases: ['facility', 'company', 'organization', 'organisation', 'hospital', 'clinic'] },
+  { key: 'country', label: 'Country', aliases: ['country'] },
+  { key: 'state', label: 'State', aliases: ['state', 'province', 'region'] },
+  { key: 'source', label: 'Source', required: true, aliases: ['source', 'lead source', 'channel'] },
+  { key: 'product_service', label: 'Product/Service', aliases: ['product', 'service', 'product/service', 'product service'] },
+  { key: 'selected_services', label: 'Services (separated by ; or ,)', aliases: ['services', 'selected services', 'interests'] },
+  { key: 'value_per_annum', label: 'Value per Annum', aliases: ['value', 'value per annum', 'annual value', 'deal value'] },
+  { key: 'comments', label: 'Comments', aliases: ['comments', 'comment'] },
+  { key: 'notes', label: 'Notes', aliases: ['notes', 'note'] }
+];
+
+// Column index per field, -1 when unmapped
+export type ColumnMapping = Record<ImportFieldKey, number>;
+
+export type LeadInsert = Pick<Lead, 'name' | 'email' | 'facility' | 'source' | 'product_service'> & {
+  status?: string;
+  phone: string | null;
+  country: string | null;
+  state: string | null;
+  selected_services: string[];
+  value_per_annum: number | null;
+  comments: string | null;
+  notes: string | null;
+  added_by: string;
+  added_by_email: string | null;
+};
+
+export type ImportRowResult = {
+  rowNumber: number;
+  raw: string[];
+  lead: LeadInsert | null;
+  errors: string[];
+  duplicateOf: string | null;
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'us': 'USA',
+  'united states': 'USA',
+  'united states of america': 'USA',
+  'ca': 'Canada',
+  'in': 'India'
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  IMPORT_FIELDS.forEach(({ key, aliases }) => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && aliases.includes(header));
+    mapping[key] = index;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+}
+
+const matchIgnoringCase = (value: string, options: string[]) =>
+  options.find((option) => option.toLowerCase() === value.toLowerCase());
+
+function resolveCountry(value: string): string | undefined {
+  return matchIgnoringCase(value, COUNTRIES) || COUNTRY_ALIASES[value.toLowerCase()];
+}
+
+// A state given without a country is accepted when it belongs to exactly one country
+function inferCountryFromState(state: string): string | undefined {
+  const matches = COUNTRIES.filter((country) => matchIgnoringCase(state, STATES_BY_COUNTRY[country] || []));
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Validate every row against the leads table rules without writing anything.
+ * Rows matching an existing lead, or an earlier row in the same file, are flagged as duplicates.
+ */
+export function validateImportRows(params: {
+  rows: string[][];
+  mapping: ColumnMapping;
+  defaultSource: string;
+  // Left unset to fall back to the database default, the first open stage
+  initialStatus?: string;
+  existingLeads: Array<Pick<Lead, 'name' | 'email' | 'phone'>>;
+  addedBy: string;
+  addedByEmail: string | null;
+}): ImportRowResult[] {
+  const { rows, mapping, defaultSource, initialStatus, existingLeads, addedBy, addedByEmail } = params;
+
+  const knownEmails = new Map<string, string>();
+  const knownPhones = new Map<string, string>();
+  existingLeads.forEach((lead) => {
+    if (lead.email) knownEmails.set(lead.email.trim().toLowerCase(), `existing lead ${lead.name}`);
+    const phone = normalizePhone(lead.phone);
+    if (phone.length >= 7) knownPhones.set(phone, `existing lead ${lead.name}`);
+  });
+
+  return rows.map((raw, index) => {
+    // Row 1 is the header row in the source file
+    const rowNumber = index + 2;
+    const cell = (key: ImportFieldKey) => (mapping[key] >= 0 ? raw[mapping[key]] || '' : '').trim();
+    const errors: string[] = [];
+
+    const name = cell('name');
+    const email = cell('email').toLowerCase();
+    const facility = cell('facility');
+    const phone = cell('phone');
+
+    if (!name) errors.push('Name is required');
+    if (!email) errors.push('Email is required');
+    else if (!EMAIL_PATTERN.test(email)) errors.push(`Invalid email "${email}"`);
+    if (!facility) errors.push('Facility is required');
+
+    const sourceValue = cell('source') || defaultSource;
+    const source = sourceValue ? matchIgnoringCase(sourceValue, LEAD_SOURCES) : undefined;
+    if (!sourceValue) errors.push('Source is required');
+    else if (!source) errors.push(`Unknown source "${sourceValue}"`);
+
+    const countryValue = cell('country');
+    const stateValue = cell('state');
+    let country = countryValue ? resolveCountry(countryValue) : undefined;
+    if (countryValue && !country) errors.push(`Unknown country "${countryValue}"`);
+    if (!countryValue && stateValue) country = inferCountryFromState(stateValue);
+
+    let state: string | undefined;
+    if (stateValue) {
+      if (!country) {
+        if (!countryValue) errors.push(`Cannot tell which country state "${stateValue}" belongs to`);
+      } else {
+        state = matchIgnoringCase(stateValue, STATES_BY_COUNTRY[country] || []);
+        if (!state) errors.push(`"${stateValue}" is not a state of ${country}`);
+      }
+    }
+
+    const selectedServices = cell('selected_services')
+      .split(/[;|,]/)
+      .map((service) => service.trim())
+      .filter(Boolean);
+    const productService = cell('product_service') || selectedServices[0] || '';
+    if (!productService) errors.push('Product/Service or Services is required');
+
+    const valueText = cell('value_per_annum').replace(/[$,\s]/g, '');
+    const value = valueText ? Number(valueText) : null;
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      errors.push(`Invalid value per annum "${cell('value_per_annum')}"`);
+    }
+
+    let duplicateOf: string | null = null;
+    if (email && knownEmails.has(email)) {
+      duplicateOf = knownEmails.get(email)!;
+    } else {
+      const normalized = normalizePhone(phone);
+      if (normalized.length >= 7 && knownPhones.has(normalized)) {
+        duplicateOf = knownPhones.get(normalized)!;
+      }
+    }
+
+    // Later rows in the file are checked against this one
+    if (email && !knownEmails.has(email)) knownEmails.set(email, `row ${rowNumber}`);
+    const normalizedPhone = normalizePhone(phone);
+    if (normalizedPhone.length >= 7 && !knownPhones.has(normalizedPhone)) knownPhones.set(normalizedPhone, `row ${rowNumber}`);
+
+    if (errors.length > 0) {
+      return { rowNumber, raw, lead: null, errors, duplicateOf };
+    }
+
+    return {
+      rowNumber,
+      raw,
+      errors,
+      duplicateOf,
+      lead: {
+        name,
+        email,
+        phone: phone || null,
+        facility,
+        country: country || null,
+        state: state || null,
+        source: source as Lead['source'],
+        product_service: productService,
+        selected_services: selectedServices,
+        value_per_annum: value,
+        comments: cell('comments') || null,
+        notes: cell('notes') || null,
+        status: initialStatus,
+        added_by: addedBy,
+        added_by_email: addedByEmail
+      }
+    };
+  });
+}
+
+export const IMPORT_BATCH_SIZE = 100;
+
+/**
+ * Insert validated rows in batches. A failing batch doesn't stop the import;
+ * its rows are returned with the database error so they end up in the rejects file.
+ */
+export async function insertLeadsInBatches(
+  rows: ImportRowResult[],
+  onProgress: (done: number) => void
+): Promise<{ inserted: number; failed: ImportRowResult[] }> {
+  let inserted = 0;
+  const failed: ImportRowResult[] = [];
+
+  for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+    const { error } = await supabase.from('leads').insert(batch.map((row) => row.lead));
+
+    if (error) {
+      console.error('Error importing lead batch:', error);
+      batch.forEach((row) => failed.push({ ...row, errors: [...row.errors, `Database error: ${error.message}`] }));
+    } else {
+      inserted += batch.length;
+    }
+
+    onProgress(Math.min(start + batch.length, rows.length));
+  }
+
+  return { inserted, failed };
+}
@@ -0,0 +1,82 @@
+import { supabase, LeadInteraction } from './supabase';
+
+export const INTERACTION_TYPES: { value: LeadInteraction['interaction_type']; label: string }[] = [
+  { value: 'call', label: 'Call' },
+  { value: 'email', label: 'Email' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'linkedin', label: 'LinkedIn message' },
+  { value: 'meeting', label: 'Meeting' }
+];
+
+export const INTERACTION_OUTCOMES: { value: LeadInteraction['outcome']; label: string }[] = [
+  { value: 'connected', label: 'Connected' },
+  { value: 'no_answer', label: 'No answer' },
+  { value: 'left_voicemail', label: 'Left voicemail' },
+  { value: 'replied', label: 'Replied' },
+  { value: 'meeting_booked', label: 'Meeting booked' },
+  { value: 'not_interested', label: 'Not interested' },
+  { value: 'other', label: 'Other' }
+];
+
+// Choices for the lead list's "Not contacted in" filter
+export const NOT_CONTACTED_DAY_OPTIONS = [7, 14, 30, 60, 90];
+
+export const getInteractionTypeLabel = (type: LeadInteraction['interaction_type']) =>
+  INTERACTION_TYPES.find((option) => option.value === type)?.label || type;
+
+export const getInteractionOutcomeLabel = (outcome: LeadInteraction['outcome']) =>
+  INTERACTION_OUTCOMES.find((option) => option.value === outcome)?.label || outcome;
+
+// "Today", "Yesterday", "5 days ago" or "Never"
+export function formatLastContacted(lastContactedAt?: string | null): string {
+  if (!lastContactedAt) return 'Never';
+
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const days = Math.round((startOfDay(new Date()) - startOfDay(new Date(lastContactedAt))) / (24 * 60 * 60 * 1000));
+
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  return `${days} days ago`;
+}
+
+export async function fetchLeadInteractions(leadId: string): Promise<LeadInteraction[]> {
+  const { data, error } = await supabase
+    .from('lead_interactions')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('occurred_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Logs a call, email or meeting. Database triggers stamp who logged it,
+ * update the lead's last_contacted_at, add it to the timeline and move a
+ * New lead on to Contacted.
+ */
+export async function logLeadInteraction(
+  interaction: Pick<LeadInteraction, 'lead_id' | 'interaction_type' | 'direction' | 'outcome' | 'occurred_at'> &
+    Partial<Pick<LeadInteraction, 'duration_minutes' | 'summary'>>
+): Promise<LeadInteraction> {
+  const { data, error } = await supabase
+    .from('lead_interactions')
+    .insert({
+      ...interaction,
+      summary: interaction.summary?.trim() || null
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteLeadInteraction(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('lead_interactions')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,124 @@
+import { supabase, Lead, LeadNote, LeadNoteRevision, AdminNotification } from './supabase';
+
+export type InboxNotification = AdminNotification & {
+  lead: Pick<Lead, 'id' | 'name'> | null;
+  note: Pick<LeadNote, 'body'> | null;
+};
+
+// Mentions are stored in the note body as @[Name](admin-id)
+export const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([0-9a-f-]{36})\)/g;
+
+export function formatMention(admin: { id: string; name?: string | null; email: string }): string {
+  const label = (admin.name || admin.email).replace(/[[\]\n]/g, '');
+  return `@[${label}](${admin.id})`;
+}
+
+export function getMentionIds(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), (match) => match[2])));
+}
+
+// Body with mentions shown as @Name, for previews and excerpts
+export function toPlainText(body: string): string {
+  return body.replace(MENTION_PATTERN, '@$1');
+}
+
+export async function fetchLeadNotes(leadId: string): Promise<LeadNote[]> {
+  const { data, error } = await supabase
+    .from('lead_notes')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchNoteRevisions(noteId: string): Promise<LeadNoteRevision[]> {
+  const { data, error } = await supabase
+    .from('lead_note_revisions')
+    .select('*')
+    .eq('note_id', noteId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// The author is stamped by a database trigger
+export async function createLeadNote(params: { leadId: string; body: string }): Promise<LeadNote> {
+  const body = params.body.trim();
+  const mentions = getMentionIds(body);
+
+  const { data, error } = await supabase
+    .from('lead_notes')
+    .insert({ lead_id: params.leadId, body, mentions })
+    .select()
+    .single();
+
+  if (error) throw error;
+  if (mentions.length > 0) sendMentionEmails();
+  return data;
+}
+
+// The previous body is kept in lead_note_revisions by a database trigger
+export async function updateLeadNote(params: { id: string; body: string; previousMentions: string[] }): Promise<void> {
+  const body = params.body.trim();
+  const mentions = getMentionIds(body);
+
+  const { error } = await supabase
+    .from('lead_notes')
+    .update({ body, mentions })
+    .eq('id', params.id);
+
+  if (error) throw error;
+  if (mentions.some((id) => !params.previousMentions.includes(id))) sendMentionEmails();
+}
+
+export async function setNotePinned(params: { id: string; isPinned: boolean }): Promise<void> {
+  const { error } = await supabase
+    .from('lead_notes')
+    .update({ is_pinned: params.isPinned })
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+/**
+ * Ask the mention-notification-email edge function to send any unsent
+ * mention emails. Failures are only logged: the function also runs on a
+ * schedule and picks up whatever is still unsent.
+ */
+export function sendMentionEmails(): void {
+  fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mention-notification-email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+  }).catch((error) => {
+    console.warn('Error sending mention emails:', error);
+  });
+}
+
+export async function fetchNotifications(adminId: string): Promise<InboxNotification[]> {
+  const { data, error } = await supabase
+    .from('admin_notifications')
+    .select('*, lead:leads(id, name), note:lead_notes(body)')
+    .eq('admin_id', adminId)
+    .order('created_at', { ascending: false })
+    .limit(30);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function markNotificationsRead(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('admin_notifications')
+    .update({ is_read: true })
+    .in('id', ids);
+
+  if (error) throw error;
+}
@@ -0,0 +1,269 @@
+import { supabase, Lead } from './supabase';
+import { localDayStartISO, toLocalDateString } from './dateUtils';
+import { buildFilterLogic, countFilterRules, parseFilterTree, FilterField, FilterTree, FILTER_FIELDS } from './leadFilterBuilder';
+
+// Columns the lead table can be sorted by on the server
+export const LEAD_SORT_COLUMNS = [
+  'name',
+  'email',
+  'phone',
+  'facility',
+  'state',
+  'source',
+  'added_by',
+  'product_service',
+  'score',
+  'status',
+  'value_per_annum',
+  'last_contacted_at',
+  'created_at'
+] as const;
+
+export type LeadSortColumn = typeof LEAD_SORT_COLUMNS[number];
+
+export const LEAD_PAGE_SIZES = [50, 100, 250, 500];
+export const DEFAULT_LEAD_PAGE_SIZE = 100;
+
+// PostgREST caps a single response at 1000 rows by default
+const FETCH_ALL_BATCH_SIZE = 1000;
+
+export interface LeadListFilters {
+  search: string;
+  status: string;
+  // 'All', 'unassigned' or an admin_users id
+  owner: string;
+  source: string;
+  state: string;
+  // Matches leads offering any of these services
+  services: string[];
+  // Matches leads carrying any of these tags
+  tags: string[];
+  // Local calendar dates (YYYY-MM-DD) bounding created_at, inclusive
+  dateFrom: string;
+  dateTo: string;
+  scoreMin: number | null;
+  scoreMax: number | null;
+  // Leads with no interaction logged in this many days, including never contacted
+  notContactedDays: number | null;
+  // AND/OR rule groups from the filter builder
+  advanced: FilterTree | null;
+}
+
+export const DEFAULT_LEAD_FILTERS: LeadListFilters = {
+  search: '',
+  status: 'All',
+  owner: 'All',
+  source: 'All',
+  state: 'All',
+  services: [],
+  tags: [],
+  dateFrom: '',
+  dateTo: '',
+  scoreMin: null,
+  scoreMax: null,
+  notContactedDays: null,
+  advanced: null
+};
+
+/**
+ * URL params that make up a saved view. `page` and `view` itself are left out
+ * so opening a view always starts on its first page.
+ */
+export const LEAD_VIEW_PARAM_KEYS = [
+  'q', 'status', 'owner', 'source', 'state', 'services', 'tags', 'from', 'to', 'score_min', 'score_max', 'not_contacted', 'filter', 'sort', 'dir', 'size'
+];
+
+export interface LeadListParams extends LeadListFilters {
+  sort: LeadSortColumn;
+  ascending: boolean;
+  page: number;
+  pageSize: number;
+}
+
+export interface LeadPage {
+  leads: Lead[];
+  total: number;
+}
+
+/**
+ * Read the lead table state from the URL so filtered views can be shared and
+ * survive a refresh. Unknown or missing values fall back to the defaults.
+ */
+export function parseLeadListParams(searchParams: URLSearchParams): LeadListParams {
+  const sort = searchParams.get('sort') as LeadSortColumn | null;
+  const page = parseInt(searchParams.get('page') || '', 10);
+  const pageSize = parseInt(searchParams.get('size') || '', 10);
+  const scoreMin = parseFloat(searchParams.get('score_min') || '');
+  const scoreMax = parseFloat(searchParams.get('score_max') || '');
+  const notContactedDays = parseInt(searchParams.get('not_contacted') || '', 10);
+
+  return {
+    search: searchParams.get('q') || '',
+    status: searchParams.get('status') || 'All',
+    owner: searchParams.get('owner') || 'All',
+    source: searchParams.get('source') || 'All',
+    state: searchParams.get('state') || 'All',
+    services: (searchParams.get('services') || '').split(',').filter(Boolean),
+    tags: (searchParams.get('tags') || '').split(',').filter(Boolean),
+    dateFrom: searchParams.get('from') || '',
+    dateTo: searchParams.get('to') || '',
+    scoreMin: isNaN(scoreMin) ? null : scoreMin,
+    scoreMax: isNaN(scoreMax) ? null : scoreMax,
+    notContactedDays: notContactedDays > 0 ? notContactedDays : null,
+    advanced: parseFilterTree(searchParams.get('filter')),
+    sort: sort && LEAD_SORT_COLUMNS.includes(sort) ? sort : 'created_at',
+    ascending: searchParams.get('dir') === 'asc',
+    page: page > 0 ? page : 1,
+    pageSize: LEAD_PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_LEAD_PAGE_SIZE
+  };
+}
+
+// The saved-view portion of the URL, as stored in lead_views.filters
+export function getLeadViewParams(searchParams: URLSearchParams): Record<string, string> {
+  const params: Record<string, string> = {};
+  LEAD_VIEW_PARAM_KEYS.forEach((key) => {
+    const value = searchParams.get(key);
+    if (value) params[key] = value;
+  });
+  return params;
+}
+
+export function hasActiveLeadFilters(filters: LeadListFilters): boolean {
+  return !!filters.search ||
+    filters.status !== 'All' ||
+    filters.owner !== 'All' ||
+    filters.source !== 'All' ||
+    filters.state !== 'All' ||
+    filters.services.length > 0 ||
+    filters.tags.length > 0 ||
+    !!filters.dateFrom ||
+    !!filters.dateTo ||
+    filters.scoreMin !== null ||
+    filters.scoreMax !== null ||
+    filters.notContactedDays !== null ||
+    countFilterRules(filters.advanced) > 0;
+}
+
+// Characters with special meaning inside a PostgREST or() filter
+function sanitizeSearchTerm(term: string): string {
+  return term.replace(/[%*,()"\\]/g, ' ').trim();
+}
+
+function buildLeadQuery(filters: LeadListFilters, fields: FilterField[], count?: 'exact') {
+  let query = supabase.from('leads').select('*', { count });
+
+  // Search, the not-contacted filter and the filter builder need logic expressions; PostgREST takes
+  // one per request, so they are ANDed together into a single expression
+  const conditions: string[] = [];
+
+  const term = sanitizeSearchTerm(filters.search);
+  if (term) {
+    // Substring match, served by the trigram indexes on these columns
+    conditions.push(
+      `or(${['name', 'email', 'facility', 'phone'].map((column) => `${column}.ilike.*${term}*`).join(',')})`
+    );
+  }
+
+  const advancedLogic = filters.advanced && buildFilterLogic(filters.advanced, fields);
+  if (advancedLogic) {
+    conditions.push(advancedLogic);
+  }
+
+  if (filters.notContactedDays !== null) {
+    // "Not contacted in 7 days" covers today and the six days before it
+    const since = localDayStartISO(toLocalDateString(), 1 - filters.notContactedDays);
+    conditions.push(`or(last_contacted_at.is.null,last_contacted_at.lt."${since}")`);
+  }
+
+  if (conditions.length > 0) {
+    query = query.or(`and(${conditions.join(',')})`);
+  }
+
+  if (filters.status !== 'All') {
+    query = query.eq('status', filters.status);
+  }
+
+  if (filters.owner === 'unassigned') {
+    query = query.is('owner_id', null);
+  } else if (filters.owner !== 'All') {
+    query = query.eq('owner_id', filters.owner);
+  }
+
+  if (filters.source !== 'All') {
+    query = query.eq('source', filters.source);
+  }
+
+  if (filters.state !== 'All') {
+    query = query.eq('state', filters.state);
+  }
+
+  if (filters.services.length > 0) {
+    query = query.overlaps('selected_services', filters.services);
+  }
+
+  if (filters.tags.length > 0) {
+    query = query.overlaps('tags', filters.tags);
+  }
+
+  if (filters.dateFrom) {
+    query = query.gte('created_at', localDayStartISO(filters.dateFrom));
+  }
+
+  if (filters.dateTo) {
+    query = query.lt('created_at', localDayStartISO(filters.dateTo, 1));
+  }
+
+  if (filters.scoreMin !== null) {
+    query = query.gte('score', filters.scoreMin);
+  }
+
+  if (filters.scoreMax !== null) {
+    query = query.lte('score', filters.scoreMax);
+  }
+
+  return query;
+}
+
+// `fields` are the filter builder fields, including any custom ones the advanced filters use
+export async function fetchLeadPage(params: LeadListParams, fields: FilterField[] = FILTER_FIELDS): Promise<LeadPage> {
+  const from = (params.page - 1) * params.pageSize;
+
+  const { data, error, count } = await buildLeadQuery(params, fields, 'exact')
+    .order(params.sort, { ascending: params.ascending, nullsFirst: false })
+    .order('id')
+    .range(from, from + params.pageSize - 1);
+
+  if (error) throw error;
+  return { leads: data || [], total: count || 0 };
+}
+
+export async function fetchLeadCount(): Promise<number> {
+  const { count, error } = await supabase
+    .from('leads')
+    .select('id', { count: 'exact', head: true });
+
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * Every lead matching the filters (or every lead when none are given),
+ * fetched in batches to get past the per-request row cap. Used for exports,
+ * import duplicate checks and the pipeline board.
+ */
+export async function fetchAllLeads(filters?: LeadListFilters, fields: FilterField[] = FILTER_FIELDS): Promise<Lead[]> {
+  const leads: Lead[] = [];
+
+  for (let from = 0; ; from += FETCH_ALL_BATCH_SIZE) {
+    const { data, error } = await buildLeadQuery(filters || DEFAULT_LEAD_FILTERS, fields)
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, from + FETCH_ALL_BATCH_SIZE - 1);
+
+    if (error) throw error;
+    leads.push(...(data || []));
+    if (!data || data.length < FETCH_ALL_BATCH_SIZE) break;
+  }
+
+  return leads;
+}
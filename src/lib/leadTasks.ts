@@ -0,0 +1,73 @@
+import { supabase, Lead, LeadTask } from './supabase';
+import { toLocalDateString } from './dateUtils';
+
+export type InboxTask = LeadTask & {
+  lead: Pick<Lead, 'id' | 'name' | 'facility'> | null;
+};
+
+export async function fetchLeadTasks(leadId: string): Promise<LeadTask[]> {
+  const { data, error } = await supabase
+    .from('lead_tasks')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('is_done')
+    .order('due_date');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Open tasks assigned to an admin that are due today or earlier
+export async function fetchDueTasks(assigneeId: string): Promise<InboxTask[]> {
+  const { data, error } = await supabase
+    .from('lead_tasks')
+    .select('*, lead:leads(id, name, facility)')
+    .eq('assignee_id', assigneeId)
+    .eq('is_done', false)
+    .lte('due_date', toLocalDateString())
+    .order('due_date');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createLeadTask(task: {
+  lead_id: string;
+  title: string;
+  due_date: string;
+  assignee_id: string | null;
+}): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('lead_tasks')
+    .insert({ ...task, title: task.title.trim(), created_by: user?.email || null });
+
+  if (error) throw error;
+}
+
+export async function setTaskDone(params: { id: string; isDone: boolean }): Promise<void> {
+  const { error } = await supabase
+    .from('lead_tasks')
+    .update({ is_done: params.isDone })
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+export async function deleteLeadTask(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('lead_tasks')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export function getTaskDueState(task: Pick<LeadTask, 'due_date' | 'is_done'>): 'done' | 'overdue' | 'today' | 'upcoming' {
+  if (task.is_done) return 'done';
+  const today = toLocalDateString();
+  if (task.due_date < today) return 'overdue';
+  if (task.due_date === today) return 'today';
+  return 'upcoming';
+}
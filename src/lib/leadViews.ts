@@ -0,0 +1,55 @@
+import { supabase, LeadView } from './supabase';
+
+// Own views and views shared by teammates; RLS hides everyone else's private views
+export async function fetchLeadViews(): Promise<LeadView[]> {
+  const { data, error } = await supabase
+    .from('lead_views')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createLeadView(view: {
+  admin_id: string;
+  name: string;
+  filters: Record<string, string>;
+  is_shared: boolean;
+}): Promise<LeadView> {
+  const { data, error } = await supabase
+    .from('lead_views')
+    .insert({ ...view, name: view.name.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateLeadView(params: {
+  id: string;
+  changes: Partial<Pick<LeadView, 'name' | 'filters' | 'is_shared'>>;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('lead_views')
+    .update(params.changes)
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+export async function deleteLeadView(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('lead_views')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+// Views store only non-empty params, so key order is the only thing to normalize
+export function isSameViewFilters(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
@@ -0,0 +1,79 @@
+import { supabase, Lead, LossReason, PipelineStage } from './supabase';
+import { isLeadLost } from './pipelineStages';
+
+// What gets recorded on a lead when it is closed as lost
+export type LossDetails = Pick<Lead, 'loss_reason_id' | 'loss_competitor' | 'loss_details'>;
+
+export interface LossBreakdownItem {
+  label: string;
+  count: number;
+  value: number;
+}
+
+export interface LossAnalysis {
+  totalLost: number;
+  totalValue: number;
+  byReason: LossBreakdownItem[];
+  bySource: LossBreakdownItem[];
+  byService: LossBreakdownItem[];
+  byOwner: LossBreakdownItem[];
+  byCompetitor: LossBreakdownItem[];
+}
+
+// Whether moving the lead to `status` would close it as lost, so a loss reason has to be asked for
+export function wouldBecomeLost(
+  lead: Pick<Lead, 'status' | 'closed_reason'>,
+  changes: Partial<Pick<Lead, 'status' | 'closed_reason'>>,
+  stages: PipelineStage[]
+): boolean {
+  return !isLeadLost(lead, stages) && isLeadLost({ ...lead, ...changes }, stages);
+}
+
+export async function fetchLossReasons(): Promise<LossReason[]> {
+  const { data, error } = await supabase
+    .from('loss_reasons')
+    .select('*')
+    .order('sort_order')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createLossReason(params: { name: string; asksCompetitor: boolean; sortOrder: number }): Promise<void> {
+  const { error } = await supabase
+    .from('loss_reasons')
+    .insert({ name: params.name.trim(), asks_competitor: params.asksCompetitor, sort_order: params.sortOrder });
+
+  if (error) throw error;
+}
+
+export async function updateLossReason(params: { id: string; changes: Partial<Pick<LossReason, 'asks_competitor' | 'is_active'>> }): Promise<void> {
+  const { error } = await supabase
+    .from('loss_reasons')
+    .update(params.changes)
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+// Rejected by the database while any lead still has the reason; deactivate it instead
+export async function deleteLossReason(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('loss_reasons')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Lost leads broken down by reason, source, service, owner and competitor.
+ * Aggregated in the database; `since` limits it to leads lost after that time.
+ */
+export async function fetchLossAnalysis(since: string | null): Promise<LossAnalysis> {
+  const { data, error } = await supabase.rpc('get_loss_analysis', { p_since: since });
+
+  if (error) throw error;
+  return data as LossAnalysis;
+}
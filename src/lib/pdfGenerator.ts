@@ -1,7 +1,8 @@
-import { Lead } from './supabase';
+import { Lead, PipelineStage } from './supabase';
+import { STAGE_COLORS, getStage, isLeadClosed, isLeadLost, isLeadQualified, isLeadWon } from './pipelineStages';
 import { formatDateToDDMMYY } from './dateUtils';
 
-export const generateMonthlyPDF = (leads: Lead[]) => {
+export const generateMonthlyPDF = (leads: Lead[], stages: PipelineStage[]) => {
   const sortedLeads = [...leads].sort((a, b) =>
     new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
   );
@@ -111,14 +112,6 @@ export const generateMonthlyPDF = (leads: Lead[]) => {
       font-size: 11px;
       font-weight: 600;
     }
-    .status-new { background: #dbeafe; color: #1e40af; }
-    .status-contacted { background: #fef3c7; color: #92400e; }
-    .status-qualified { background: #d1fae5; color: #065f46; }
-    .status-contract { background: #e9d5ff; color: #6b21a8; }
-    .status-confirmed { background: #d1fae5; color: #065f46; }
-    .status-closed { background: #f1f5f9; color: #475569; }
-    .status-closed-confirmed { background: #d1fae5; color: #065f46; }
-    .status-closed-not-interested { background: #fee2e2; color: #991b1b; }
     .source-badge {
       display: inline-block;
       padding: 4px 8px;
@@ -158,11 +151,11 @@ export const generateMonthlyPDF = (leads: Lead[]) => {
       </div>
       <div class="summary-item" style="border-left-color: #10b981;">
         <div class="label">Confirmed Clients</div>
-        <div class="value">${sortedLeads.filter(l => l.status === 'Confirmed Client' || (l.status === 'Closed' && l.closed_reason === 'Confirmed Client')).length}</div>
+        <div class="value">${sortedLeads.filter(l => isLeadWon(l, stages)).length}</div>
       </div>
       <div class="summary-item" style="border-left-color: #f59e0b;">
         <div class="label">Qualified Prospects</div>
-        <div class="value">${sortedLeads.filter(l => l.status === 'Qualified Prospect').length}</div>
+        <div class="value">${sortedLeads.filter(l => isLeadQualified(l, stages) && !isLeadWon(l, stages) && !isLeadClosed(l, stages)).length}</div>
       </div>
     </div>
   </div>
@@ -191,15 +184,11 @@ export const generateMonthlyPDF = (leads: Lead[]) => {
           </td>
         </tr>
       ` : sortedLeads.map(lead => {
-        const statusClass =
-          lead.status === 'New' ? 'status-new' :
-          lead.status === 'Contacted' ? 'status-contacted' :
-          lead.status === 'Qualified Prospect' ? 'status-qualified' :
-          lead.status === 'Contract Sent' ? 'status-contract' :
-          lead.status === 'Confirmed Client' ? 'status-confirmed' :
-          lead.status === 'Closed' && lead.closed_reason === 'Confirmed Client' ? 'status-closed-confirmed' :
-          lead.status === 'Closed' && lead.closed_reason === 'Not Interested' ? 'status-closed-not-interested' :
-          'status-closed';
+        // Won and lost leads keep their outcome colors whatever their stage is called
+        const statusColor =
+          isLeadWon(lead, stages) ? STAGE_COLORS.green :
+          isLeadLost(lead, stages) ? STAGE_COLORS.red :
+          STAGE_COLORS[getStage(stages, lead.status)?.color || 'slate'] || STAGE_COLORS.slate;
 
         const sourceClass =
           lead.source === 'Assessment' ? 'source-assessment' :
@@ -216,7 +205,7 @@ export const generateMonthlyPDF = (leads: Lead[]) => {
           <td>${lead.state || lead.country || 'N/A'}</td>
           <td><span class="source-badge ${sourceClass}">${lead.source}</span></td>
           <td>${lead.added_by || 'System'}</td>
-          <td><span class="status-badge ${statusClass}">${lead.status}${lead.status === 'Closed' && lead.closed_reason ? ` (${lead.closed_reason})` : ''}</span></td>
+          <td><span class="status-badge" style="background: ${statusColor.hex}; color: ${statusColor.hexText};">${lead.status}${isLeadClosed(lead, stages) && lead.closed_reason ? ` (${lead.closed_reason})` : ''}</span></td>
           <td>${lead.value_per_annum ? '$' + lead.value_per_annum.toLocaleString() : '-'}</td>
         </tr>
         `;
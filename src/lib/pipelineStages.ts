@@ -0,0 +1,79 @@
+import { supabase, Lead, PipelineStage } from './supabase';
+
+// Outcomes recorded in leads.closed_reason when a lead enters an is_closed stage
+export const CLOSED_REASON_WON = 'Confirmed Client';
+export const CLOSED_REASON_LOST = 'Not Interested';
+
+/**
+ * Tailwind classes per stage color key.
+ * Class names must be spelled out in full so Tailwind keeps them in the build.
+ */
+export const STAGE_COLORS: Record<string, { badge: string; border: string; hex: string; hexText: string }> = {
+  blue: { badge: 'bg-blue-100 text-blue-700', border: 'border-blue-400', hex: '#dbeafe', hexText: '#1e40af' },
+  yellow: { badge: 'bg-yellow-100 text-yellow-700', border: 'border-yellow-400', hex: '#fef3c7', hexText: '#92400e' },
+  green: { badge: 'bg-green-100 text-green-700', border: 'border-green-400', hex: '#d1fae5', hexText: '#065f46' },
+  emerald: { badge: 'bg-emerald-100 text-emerald-700', border: 'border-emerald-400', hex: '#d1fae5', hexText: '#065f46' },
+  purple: { badge: 'bg-purple-100 text-purple-700', border: 'border-purple-400', hex: '#e9d5ff', hexText: '#6b21a8' },
+  indigo: { badge: 'bg-indigo-100 text-indigo-700', border: 'border-indigo-400', hex: '#e0e7ff', hexText: '#3730a3' },
+  pink: { badge: 'bg-pink-100 text-pink-700', border: 'border-pink-400', hex: '#fce7f3', hexText: '#9d174d' },
+  orange: { badge: 'bg-orange-100 text-orange-700', border: 'border-orange-400', hex: '#ffedd5', hexText: '#9a3412' },
+  red: { badge: 'bg-red-100 text-red-700', border: 'border-red-400', hex: '#fee2e2', hexText: '#991b1b' },
+  slate: { badge: 'bg-slate-100 text-slate-700', border: 'border-slate-400', hex: '#f1f5f9', hexText: '#475569' }
+};
+
+export const STAGE_COLOR_KEYS = Object.keys(STAGE_COLORS);
+
+export async function fetchPipelineStages(): Promise<PipelineStage[]> {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('*')
+    .order('sort_order')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export function getStage(stages: PipelineStage[], name: string): PipelineStage | undefined {
+  return stages.find((stage) => stage.name === name);
+}
+
+export function isLeadClosed(lead: Pick<Lead, 'status'>, stages: PipelineStage[]): boolean {
+  return !!getStage(stages, lead.status)?.is_closed;
+}
+
+export function isLeadWon(lead: Pick<Lead, 'status' | 'closed_reason'>, stages: PipelineStage[]): boolean {
+  const stage = getStage(stages, lead.status);
+  if (!stage) return false;
+  return stage.is_won || (stage.is_closed && lead.closed_reason === CLOSED_REASON_WON);
+}
+
+export function isLeadLost(lead: Pick<Lead, 'status' | 'closed_reason'>, stages: PipelineStage[]): boolean {
+  const stage = getStage(stages, lead.status);
+  if (!stage) return false;
+  return stage.is_lost || (stage.is_closed && !!lead.closed_reason && lead.closed_reason !== CLOSED_REASON_WON);
+}
+
+export function isLeadQualified(lead: Pick<Lead, 'status'>, stages: PipelineStage[]): boolean {
+  return !!getStage(stages, lead.status)?.is_qualified;
+}
+
+// Badge classes for a lead, taking the close outcome into account
+export function getLeadStatusColor(lead: Pick<Lead, 'status' | 'closed_reason'>, stages: PipelineStage[]): string {
+  const stage = getStage(stages, lead.status);
+  if (stage?.is_closed) {
+    if (isLeadWon(lead, stages)) return STAGE_COLORS.green.badge;
+    if (isLeadLost(lead, stages)) return STAGE_COLORS.red.badge;
+  }
+  return (STAGE_COLORS[stage?.color || 'slate'] || STAGE_COLORS.slate).badge;
+}
+
+// First stage in order, used for new and reopened leads
+export function getInitialStage(stages: PipelineStage[]): PipelineStage | undefined {
+  return stages.find((stage) => !stage.is_closed && !stage.is_won && !stage.is_lost) || stages[0];
+}
+
+// Stage a lead moves to when it is closed from the profile
+export function getClosingStage(stages: PipelineStage[]): PipelineStage | undefined {
+  return stages.find((stage) => stage.is_closed);
+}
@@ -103,7 +103,55 @@ function subscribeToChannels() {
       handleSubscriptionStatus(status, assessmentsChannel);
     });
 
-  channelRefs = [leadsChannel, servicesChannel, bookingsChannel, assessmentsChannel];
+  // Subscribe to pipeline_stages so stage edits reach every open page
+  const stagesChannel = supabase
+    .channel('pipeline-stages-changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'pipeline_stages' }, (payload) => {
+      console.log('[RealtimeManager] 📥 Pipeline stages change:', payload);
+      window.dispatchEvent(new CustomEvent('supabase:pipeline_stages:change', { detail: payload }));
+    })
+    .subscribe((status) => {
+      console.log('[RealtimeManager] 📡 Pipeline stages channel status:', status);
+      handleSubscriptionStatus(status, stagesChannel);
+    });
+
+  // Subscribe to lead_tasks so the task inbox and lead task lists stay current
+  const tasksChannel = supabase
+    .channel('lead-tasks-changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'lead_tasks' }, (payload) => {
+      console.log('[RealtimeManager] 📥 Lead tasks change:', payload);
+      window.dispatchEvent(new CustomEvent('supabase:lead_tasks:change', { detail: payload }));
+    })
+    .subscribe((status) => {
+      console.log('[RealtimeManager] 📡 Lead tasks channel status:', status);
+      handleSubscriptionStatus(status, tasksChannel);
+    });
+
+  // Subscribe to lead_notes so open note threads show other admins' notes
+  const notesChannel = supabase
+    .channel('lead-notes-changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'lead_notes' }, (payload) => {
+      console.log('[RealtimeManager] 📥 Lead notes change:', payload);
+      window.dispatchEvent(new CustomEvent('supabase:lead_notes:change', { detail: payload }));
+    })
+    .subscribe((status) => {
+      console.log('[RealtimeManager] 📡 Lead notes channel status:', status);
+      handleSubscriptionStatus(status, notesChannel);
+    });
+
+  // Subscribe to admin_notifications for the mentions inbox
+  const notificationsChannel = supabase
+    .channel('admin-notifications-changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'admin_notifications' }, (payload) => {
+      console.log('[RealtimeManager] 📥 Notifications change:', payload);
+      window.dispatchEvent(new CustomEvent('supabase:admin_notifications:change', { detail: payload }));
+    })
+    .subscribe((status) => {
+      console.log('[RealtimeManager] 📡 Notifications channel status:', status);
+      handleSubscriptionStatus(status, notificationsChannel);
+    });
+
+  channelRefs = [leadsChannel, servicesChannel, bookingsChannel, assessmentsChannel, stagesChannel, tasksChannel, notesChannel, notificationsChannel];
   console.log(`[RealtimeManager] ✅ Subscribed to ${channelRefs.length} channels`);
 }
 
@@ -0,0 +1,80 @@
+// xlsx is large, so it is loaded only when a file is actually read or written
+const loadXlsx = () => import('xlsx');
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export type ParsedSheet = {
+  headers: string[];
+  rows: string[][];
+};
+
+/**
+ * Read the first sheet of a CSV or Excel file into a header row plus string cells.
+ * Fully blank rows are dropped.
+ */
+export async function parseSpreadsheetFile(file: File): Promise<ParsedSheet> {
+  const XLSX = await loadXlsx();
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: 'array', raw: false });
+  const sheetName = workbook.SheetNames[0];
+
+  if (!sheetName) {
+    return { headers: [], rows: [] };
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: false
+  });
+
+  const [headerRow = [], ...body] = matrix;
+  const headers = headerRow.map((cell, index) => String(cell ?? '').trim() || `Column ${index + 1}`);
+  const rows = body
+    .map((row) => headers.map((_, index) => String(row[index] ?? '').trim()))
+    .filter((row) => row.some((cell) => cell !== ''));
+
+  return { headers, rows };
+}
+
+// Spreadsheet apps run CSV cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@'];
+
+function escapeCsvFormula(cell: string | number): string | number {
+  return typeof cell === 'string' && FORMULA_PREFIXES.includes(cell.charAt(0)) ? `'${cell}` : cell;
+}
+
+/**
+ * Build a CSV or XLSX file from a header row and data rows and start a browser download.
+ */
+export async function downloadSpreadsheet(
+  headers: string[],
+  rows: Array<Array<string | number | null | undefined>>,
+  filename: string,
+  format: SpreadsheetFormat
+): Promise<void> {
+  const XLSX = await loadXlsx();
+  // XLSX cells are written as plain values, so only CSV needs formula escaping
+  const toCell = format === 'csv' ? escapeCsvFormula : (cell: string | number) => cell;
+  const sheet = XLSX.utils.aoa_to_sheet([
+    headers.map(toCell),
+    ...rows.map((row) => row.map((cell) => toCell(cell ?? '')))
+  ]);
+  const fullName = `${filename}.${format}`;
+
+  if (format === 'xlsx') {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Sheet1');
+    XLSX.writeFile(workbook, fullName);
+    return;
+  }
+
+  const blob = new Blob([XLSX.utils.sheet_to_csv(sheet)], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fullName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
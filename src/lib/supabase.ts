@@ -81,6 +81,8 @@ export type Lead = {
   phone: string;
   facility: string;
   state: string;
+  country?: string;
+  normalized_phone?: string;
   source: 'Assessment' | 'Consultancy' | 'LinkedIn' | 'WhatsApp' | 'Call' | 'Email' | 'Referral' | 'Existing Client' | 'Ex-Client';
   score?: number;
   efficiency_level?: string;
@@ -93,6 +95,17 @@ export type Lead = {
   notes?: string;
   added_by?: string;
   added_by_email?: string;
+  owner_id?: string | null;
+  facility_id?: string | null;
+  tags?: string[];
+  custom_fields?: Record<string, CustomFieldValue>;
+  last_contacted_at?: string | null;
+  expected_close_date?: string | null;
+  loss_reason_id?: string | null;
+  loss_competitor?: string | null;
+  loss_details?: string | null;
+  lost_at?: string | null;
+  won_at?: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -116,6 +129,12 @@ export type ConsultancyBooking = {
   ist_time: string | null;
   status: string;
   notes: string | null;
+  lead_id?: string | null;
+  tags?: string[];
+  invite_sequence?: number;
+  invite_pending?: boolean;
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -136,6 +155,8 @@ export type Assessment = {
   product_service: string;
   selected_challenges?: string[];
   recommended_services?: string[];
+  lead_id?: string | null;
+  tags?: string[];
   created_at: string;
 };
 
@@ -150,4 +171,243 @@ export type Campaign = {
   status: string;
   created_at: string;
   updated_at: string;
+  campaign_leads?: Array<{ count: number }>;
+};
+
+export type LeadActivity = {
+  id: string;
+  lead_id: string;
+  activity_type:
+    | 'lead_created'
+    | 'booking_created'
+    | 'assessment_submitted'
+    | 'status_changed'
+    | 'value_changed'
+    | 'notes_changed'
+    | 'lead_closed'
+    | 'lead_reopened'
+    | 'lead_merged'
+    | 'owner_changed'
+    | 'note_added'
+    | 'interaction_logged'
+    | 'booking_rescheduled'
+    | 'booking_cancelled';
+  from_value?: string | null;
+  to_value?: string | null;
+  actor_name?: string | null;
+  actor_email?: string | null;
+  created_at: string;
+};
+
+export type PipelineStage = {
+  id: string;
+  name: string;
+  sort_order: number;
+  color: string;
+  probability: number;
+  is_qualified: boolean;
+  is_won: boolean;
+  is_lost: boolean;
+  is_closed: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type LossReason = {
+  id: string;
+  name: string;
+  sort_order: number;
+  asks_competitor: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type LeadDuplicate = {
+  id: string;
+  lead_id: string;
+  duplicate_of_id: string;
+  match_reasons: Array<'email' | 'phone' | 'facility'>;
+  status: 'pending' | 'dismissed';
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+};
+
+export type AdminUser = {
+  id: string;
+  email: string;
+  name?: string | null;
+  receives_auto_assignments: boolean;
+  created_at: string;
+  last_login?: string | null;
+};
+
+export type LeadAssignmentSettings = {
+  id: boolean;
+  mode: 'off' | 'round_robin' | 'load_balanced';
+  last_assigned_admin_id?: string | null;
+  updated_at: string;
+};
+
+export type BookingAvailabilitySettings = {
+  id: boolean;
+  min_notice_hours: number;
+  max_days_ahead: number;
+  buffer_minutes: number;
+  daily_cap: number | null;
+  slot_interval_minutes: 15 | 30 | 60;
+  updated_at: string;
+};
+
+export type AvailabilityWindow = {
+  id: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AvailabilityOverride = {
+  id: string;
+  override_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  note?: string | null;
+  created_at: string;
+};
+
+export type LeadTask = {
+  id: string;
+  lead_id: string;
+  title: string;
+  due_date: string;
+  assignee_id?: string | null;
+  is_done: boolean;
+  completed_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type LeadNote = {
+  id: string;
+  lead_id: string;
+  body: string;
+  mentions: string[];
+  is_pinned: boolean;
+  author_id?: string | null;
+  author_name?: string | null;
+  author_email?: string | null;
+  edited_at?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type LeadAttachment = {
+  id: string;
+  lead_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  scan_status: 'pending' | 'clean' | 'skipped' | 'infected' | 'rejected' | 'failed';
+  scan_result?: string | null;
+  scanned_at?: string | null;
+  uploaded_by_id?: string | null;
+  uploaded_by_name?: string | null;
+  uploaded_by_email?: string | null;
+  created_at: string;
+};
+
+export type LeadInteraction = {
+  id: string;
+  lead_id: string;
+  interaction_type: 'call' | 'email' | 'whatsapp' | 'linkedin' | 'meeting';
+  direction: 'outbound' | 'inbound';
+  duration_minutes?: number | null;
+  outcome: 'connected' | 'no_answer' | 'left_voicemail' | 'replied' | 'meeting_booked' | 'not_interested' | 'other';
+  summary?: string | null;
+  occurred_at: string;
+  logged_by_id?: string | null;
+  logged_by_name?: string | null;
+  logged_by_email?: string | null;
+  created_at: string;
+};
+
+export type LeadNoteRevision = {
+  id: string;
+  note_id: string;
+  body: string;
+  edited_by_name?: string | null;
+  edited_by_email?: string | null;
+  created_at: string;
+};
+
+export type AdminNotification = {
+  id: string;
+  admin_id: string;
+  type: 'mention';
+  lead_id?: string | null;
+  note_id?: string | null;
+  actor_name?: string | null;
+  is_read: boolean;
+  emailed_at?: string | null;
+  created_at: string;
+};
+
+export type LeadView = {
+  id: string;
+  admin_id: string;
+  name: string;
+  filters: Record<string, string>;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select';
+
+export type CustomFieldValue = string | number | string[] | null;
+
+export type CustomFieldDefinition = {
+  id: string;
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string[];
+  sort_order: number;
+  created_at: string;
+};
+
+export type Tag = {
+  id: string;
+  name: string;
+  color: string;
+  created_at: string;
+};
+
+export type TagUsage = {
+  tag: string;
+  lead_count: number;
+  booking_count: number;
+  assessment_count: number;
+};
+
+export type Facility = {
+  id: string;
+  name: string;
+  website: string | null;
+  country: string | null;
+  state: string | null;
+  city: string | null;
+  specialties: string[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type FacilitySummary = Facility & {
+  contact_count: number;
+  total_value: number;
 };
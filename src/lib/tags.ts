@@ -0,0 +1,73 @@
+import { supabase, Tag, TagUsage } from './supabase';
+import { STAGE_COLORS } from './pipelineStages';
+
+// Tables whose rows carry a `tags` text[] column
+export type TaggableTable = 'leads' | 'consultancy_bookings_v2' | 'assessments';
+
+export async function fetchTags(): Promise<Tag[]> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchTagUsage(): Promise<TagUsage[]> {
+  const { data, error } = await supabase.rpc('get_tag_usage');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createTag(tag: { name: string; color: string }): Promise<void> {
+  const { error } = await supabase
+    .from('tags')
+    .insert({ name: tag.name.trim(), color: tag.color });
+
+  if (error) throw error;
+}
+
+// Only the color can change; renaming would leave records holding the old text
+export async function updateTagColor(params: { id: string; color: string }): Promise<void> {
+  const { error } = await supabase
+    .from('tags')
+    .update({ color: params.color })
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+export async function deleteTag(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('tags')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function setRecordTags(params: { table: TaggableTable; id: string; tags: string[] }): Promise<void> {
+  const { error } = await supabase
+    .from(params.table)
+    .update({ tags: params.tags })
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+/**
+ * Trim a typed tag and, when it matches a curated tag ignoring case, use the
+ * curated spelling so "HOT" and "hot" don't become separate tags
+ */
+export function normalizeTag(name: string, curated: Tag[]): string {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  const match = curated.find((tag) => tag.name.toLowerCase() === trimmed.toLowerCase());
+  return match ? match.name : trimmed;
+}
+
+export function getTagBadgeClass(name: string, curated: Tag[]): string {
+  const tag = curated.find((t) => t.name === name);
+  return (STAGE_COLORS[tag?.color || 'slate'] || STAGE_COLORS.slate).badge;
+}
@@ -11,11 +11,6 @@ export const TIMEZONES = [
   { name: 'Australian Eastern Time (AET)', value: 'Australia/Sydney', offset: 10 }
 ];
 
-export const TIME_SLOTS_24H = [
-  '09:00', '10:00', '11:00', '12:00', '13:00', '14:00',
-  '15:00', '16:00', '17:00', '18:00'
-];
-
 export function convertToUTC(date: string, time: string, timezone: string): Date {
   const dateTimeString = `${date}T${time}:00`;
 
@@ -27,7 +22,7 @@ export function convertToUTC(date: string, time: string, timezone: string): Date
     day: '2-digit',
     hour: '2-digit',
     minute: '2-digit',
-    hour12: false
+    hourCycle: 'h23'
   });
 
   const parts = formatter.formatToParts(tempDate);
@@ -45,7 +40,7 @@ export function convertFromUTC(utcDate: Date, timezone: string): string {
     timeZone: timezone,
     hour: '2-digit',
     minute: '2-digit',
-    hour12: false
+    hourCycle: 'h23'
   });
 
   return formatter.format(utcDate);
@@ -72,26 +67,3 @@ export function getNextHour(time: string): string {
   const nextHours = (hours + 1) % 24;
   return `${String(nextHours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
 }
-
-export function getAvailableSlots(
-  bookedSlotsUTC: Array<{ time_slot_utc: string }>,
-  selectedDate: string,
-  userTimezone: string
-): string[] {
-  const availableSlots: string[] = [];
-
-  for (const slot of TIME_SLOTS_24H) {
-    const userSlotUTC = convertToUTC(selectedDate, slot, userTimezone);
-
-    const isBooked = bookedSlotsUTC.some(booked => {
-      const bookedTime = new Date(booked.time_slot_utc);
-      return Math.abs(bookedTime.getTime() - userSlotUTC.getTime()) < 60000;
-    });
-
-    if (!isBooked) {
-      availableSlots.push(slot);
-    }
-  }
-
-  return availableSlots;
-}
@@ -229,8 +229,7 @@ export default function AssessmentSubmission() {
           efficiency_level: efficiencyLevel,
           product_service: recommendedServices.join(', ') || 'Not specified',
           selected_services: recommendedServices,
-          comments: `Specialties: ${selectedSpecialties.join(', ')}, Country: ${countryName}`,
-          status: 'New'
+          comments: `Specialties: ${selectedSpecialties.join(', ')}, Country: ${countryName}`
         });
 
       if (leadError) {
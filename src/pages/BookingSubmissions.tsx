@@ -3,8 +3,12 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase, ConsultancyBooking } from '../lib/supabase';
 import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
 import { usePageVisibility } from '../hooks/usePageVisibility';
+import { useTags } from '../hooks/useTags';
 import AdminLayout from '../components/AdminLayout';
-import { Calendar, Clock, Mail, Phone, Building2, MapPin, Globe, Package, X } from 'lucide-react';
+import TagBadge from '../components/TagBadge';
+import RecordTags from '../components/RecordTags';
+import { downloadBookingInvite, sendBookingInvites } from '../lib/consultancyBookings';
+import { Calendar, CalendarPlus, Clock, Mail, Phone, Building2, MapPin, Globe, Package, X } from 'lucide-react';
 
 async function fetchBookings(): Promise<ConsultancyBooking[]> {
   const { data, error } = await supabase
@@ -34,8 +38,10 @@ async function deleteBooking(id: string): Promise<void> {
 export default function BookingSubmissions() {
   const [selectedBooking, setSelectedBooking] = useState<ConsultancyBooking | null>(null);
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [filterTag, setFilterTag] = useState<string>('all');
   const queryClient = useQueryClient();
   const isVisible = usePageVisibility();
+  const { usage } = useTags();
 
   const { data: bookings = [], isLoading, error } = useQuery({
     queryKey: ['bookings'],
@@ -49,6 +55,8 @@ export default function BookingSubmissions() {
     mutationFn: updateBookingStatus,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      // Cancelling or reinstating queues a calendar update for the visitor
+      sendBookingInvites();
     },
     onError: () => {
       alert('Failed to update status');
@@ -100,9 +108,11 @@ export default function BookingSubmissions() {
     return colors[status] || 'bg-slate-100 text-slate-700';
   };
 
-  const filteredBookings = filterStatus === 'all'
-    ? bookings
-    : bookings.filter(b => b.status === filterStatus);
+  const filteredBookings = bookings
+    .filter(b => filterStatus === 'all' || b.status === filterStatus)
+    .filter(b => filterTag === 'all' || (b.tags || []).includes(filterTag));
+
+  const bookingTags = usage.filter((item) => item.booking_count > 0).map((item) => item.tag);
 
   if (isLoading) {
     return (
@@ -145,6 +155,16 @@ export default function BookingSubmissions() {
               <option value="Completed">Completed</option>
               <option value="Cancelled">Cancelled</option>
             </select>
+            <select
+              value={filterTag}
+              onChange={(e) => setFilterTag(e.target.value)}
+              className="px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB] text-sm"
+            >
+              <option value="all">All Tags</option>
+              {bookingTags.map((tag) => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
             <div className="bg-[#2563EB] text-white px-4 py-2 rounded-lg text-sm font-medium">
               Total: {filteredBookings.length}
             </div>
@@ -164,6 +184,13 @@ export default function BookingSubmissions() {
                     <h3 className="text-lg font-semibold text-slate-800">{booking.full_name}</h3>
                     <p className="text-sm text-slate-600">{booking.reason}</p>
                     <p className="text-sm text-blue-600 font-medium mt-1">{booking.product_service}</p>
+                    {booking.tags && booking.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {booking.tags.map((tag) => (
+                          <TagBadge key={tag} tag={tag} />
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(booking.status)}`}>
                     {booking.status}
@@ -233,9 +260,9 @@ export default function BookingSubmissions() {
 
           {filteredBookings.length === 0 && (
             <div className="text-center py-12 text-slate-600">
-              {filterStatus === 'all'
+              {filterStatus === 'all' && filterTag === 'all'
                 ? 'No consultation bookings yet.'
-                : `No bookings with status "${filterStatus}".`}
+                : 'No bookings match the selected filters.'}
             </div>
           )}
         </div>
@@ -249,6 +276,10 @@ export default function BookingSubmissions() {
             handleUpdateStatus(selectedBooking.id, status);
             setSelectedBooking({ ...selectedBooking, status });
           }}
+          onTagsSaved={(tags) => {
+            setSelectedBooking({ ...selectedBooking, tags });
+            queryClient.invalidateQueries({ queryKey: ['bookings'] });
+          }}
           onDelete={() => handleDeleteBooking(selectedBooking.id)}
         />
       )}
@@ -260,11 +291,13 @@ function BookingDetailModal({
   booking,
   onClose,
   onUpdateStatus,
+  onTagsSaved,
   onDelete
 }: {
   booking: ConsultancyBooking;
   onClose: () => void;
   onUpdateStatus: (status: string) => void;
+  onTagsSaved: (tags: string[]) => void;
   onDelete: () => void;
 }) {
   return (
@@ -402,6 +435,16 @@ function BookingDetailModal({
             </div>
           )}
 
+          {booking.status === 'Cancelled' && booking.cancellation_reason && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm text-red-700 font-medium mb-1">
+                Cancelled by the visitor
+                {booking.cancelled_at && ` on ${new Date(booking.cancelled_at).toLocaleDateString()}`}
+              </p>
+              <p className="text-red-900 whitespace-pre-wrap">{booking.cancellation_reason}</p>
+            </div>
+          )}
+
           <div className="grid md:grid-cols-2 gap-6">
             <div>
               <p className="text-sm text-slate-600 mb-1">Submitted On</p>
@@ -429,6 +472,16 @@ function BookingDetailModal({
             </div>
           </div>
 
+          <div className="border-t border-slate-200 pt-6">
+            <p className="text-sm text-slate-600 mb-3 font-medium">Tags</p>
+            <RecordTags
+              table="consultancy_bookings_v2"
+              id={booking.id}
+              tags={booking.tags || []}
+              onSaved={onTagsSaved}
+            />
+          </div>
+
           <div className="border-t border-slate-200 pt-6">
             <p className="text-sm text-slate-600 mb-3 font-medium">Update Status</p>
             <div className="flex flex-wrap gap-2">
@@ -449,6 +502,14 @@ function BookingDetailModal({
           </div>
 
           <div className="flex gap-3 pt-4 border-t border-slate-200">
+            <button
+              onClick={() => downloadBookingInvite({ bookingId: booking.id }).catch((error) => alert(error.message))}
+              className="flex items-center space-x-2 px-4 py-3 bg-blue-50 text-[#2563EB] rounded-lg hover:bg-blue-100 transition-colors font-medium"
+              title={booking.status === 'Cancelled' ? 'Download the cancellation (.ics)' : 'Download the calendar invite (.ics)'}
+            >
+              <CalendarPlus className="w-5 h-5" />
+              <span>Calendar Invite</span>
+            </button>
             <button
               onClick={onClose}
               className="flex-1 px-4 py-3 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors font-medium"
@@ -8,7 +8,7 @@ import { Plus, Edit2, Archive, Trash2, X } from 'lucide-react';
 async function fetchCampaigns(): Promise<Campaign[]> {
   const { data, error } = await supabase
     .from('campaigns')
-    .select('*')
+    .select('*, campaign_leads(count)')
     .order('created_at', { ascending: false });
   if (error) throw error;
   return data || [];
@@ -144,6 +144,10 @@ export default function Campaigns() {
               )}
 
               <div className="space-y-2 text-sm">
+                <div>
+                  <span className="text-slate-500">Leads: </span>
+                  <span className="text-slate-700 font-medium">{campaign.campaign_leads?.[0]?.count ?? 0}</span>
+                </div>
                 {campaign.target_audience && (
                   <div>
                     <span className="text-slate-500">Target: </span>
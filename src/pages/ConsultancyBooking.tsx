@@ -1,7 +1,16 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { CheckCircle, X, Clock } from 'lucide-react';
-import { TIMEZONES, TIME_SLOTS_24H, convertTimeToIST, formatTimeRange, getNextHour, convertToUTC, getAvailableSlots } from '../lib/timezoneUtils';
+import { Link } from 'react-router-dom';
+import { CheckCircle, X, Clock, CalendarPlus } from 'lucide-react';
+import { TIMEZONES, convertTimeToIST, formatTimeRange, getNextHour, convertToUTC } from '../lib/timezoneUtils';
+import { fetchBookingRules, fetchOpenSlots } from '../lib/bookingAvailability';
+import {
+  createConsultancyBooking,
+  downloadBookingInvite,
+  sendBookingInvites,
+  SLOT_TAKEN_ERROR,
+  CreatedConsultancyBooking
+} from '../lib/consultancyBookings';
 
 const CONSULTATION_REASONS = [
   'Job Inquiry',
@@ -82,6 +91,7 @@ export default function ConsultancyBooking() {
   });
 
   const [submitted, setSubmitted] = useState(false);
+  const [createdBooking, setCreatedBooking] = useState<CreatedConsultancyBooking | null>(null);
   const [loading, setLoading] = useState(false);
   const [showJobModal, setShowJobModal] = useState(false);
   const [phoneError, setPhoneError] = useState('');
@@ -89,9 +99,14 @@ export default function ConsultancyBooking() {
   const [availableTimeSlots, setAvailableTimeSlots] = useState<string[]>([]);
   const [istTime, setIstTime] = useState<string>('');
   const [productServices, setProductServices] = useState<string[]>([]);
+  const [maxDaysAhead, setMaxDaysAhead] = useState<number | null>(null);
+  const [slotTaken, setSlotTaken] = useState(false);
 
   useEffect(() => {
     fetchProductServices();
+    fetchBookingRules()
+      .then((rules) => setMaxDaysAhead(rules?.max_days_ahead ?? null))
+      .catch((error) => console.error('Error fetching booking rules:', error));
   }, []);
 
   const fetchProductServices = async () => {
@@ -130,15 +145,7 @@ export default function ConsultancyBooking() {
 
   const fetchAvailableSlots = async (date: string, timezone: string) => {
     try {
-      const { data, error } = await supabase
-        .from('booking_slots')
-        .select('time_slot_utc')
-        .eq('is_booked', true);
-
-      if (error) throw error;
-
-      const bookedUTC = data?.map(slot => ({ time_slot_utc: slot.time_slot_utc })) || [];
-      const available = getAvailableSlots(bookedUTC, date, timezone);
+      const available = await fetchOpenSlots(date, timezone);
       setAvailableTimeSlots(available);
 
       if (!available.includes(formData.preferred_time)) {
@@ -146,7 +153,7 @@ export default function ConsultancyBooking() {
       }
     } catch (error) {
       console.error('Error fetching available slots:', error);
-      setAvailableTimeSlots(TIME_SLOTS_24H);
+      setAvailableTimeSlots([]);
     }
   };
 
@@ -218,7 +225,7 @@ export default function ConsultancyBooking() {
       const formattedTime = formatTimeRange(formData.preferred_time, getNextHour(formData.preferred_time));
       const formattedISTTime = istTime ? formatTimeRange(istTime, getNextHour(istTime)) : null;
 
-      const bookingData = {
+      const created = await createConsultancyBooking({
         full_name: fullName,
         email: formData.email.toLowerCase(),
         phone: fullPhone,
@@ -231,60 +238,24 @@ export default function ConsultancyBooking() {
         reason: formData.reason,
         preferred_date: formData.preferred_date,
         preferred_time: formattedTime,
+        time_slot: formData.preferred_time,
         timezone: selectedTimezone?.name || formData.timezone,
         timezone_value: formData.timezone,
-        ist_time: formattedISTTime,
-        status: 'Pending'
-      };
-
-      const { data: insertedBooking, error: bookingError } = await supabase
-        .from('consultancy_bookings_v2')
-        .insert(bookingData)
-        .select()
-        .single();
-
-      if (bookingError) {
-        console.error('Booking error:', bookingError);
-        throw new Error('Failed to submit booking');
-      }
-
-      const { error: slotError } = await supabase
-        .from('booking_slots')
-        .insert({
-          booking_date: formData.preferred_date,
-          time_slot: formData.preferred_time,
-          time_slot_utc: utcDateTime.toISOString(),
-          timezone: formData.timezone,
-          is_booked: true,
-          booking_id: insertedBooking.id
-        });
-
-      if (slotError) {
-        console.error('Slot booking error:', slotError);
-      }
-
-      const { error: leadError } = await supabase
-        .from('leads')
-        .insert({
-          name: fullName,
-          email: formData.email.toLowerCase(),
-          phone: fullPhone || 'N/A',
-          facility: formData.facility,
-          state: formData.state,
-          source: 'Consultancy',
-          product_service: formData.product_service,
-          comments: `Consultation Booking - Reason: ${formData.reason} | Product: ${formData.product_service} | Country: ${countryName} | City: ${formData.city} | Website: ${formData.website || 'N/A'} | Preferred: ${formattedTime} ${selectedTimezone?.name} | IST: ${formattedISTTime || 'N/A'} | Date: ${formData.preferred_date}`,
-          status: 'New'
-        });
-
-      if (leadError) {
-        console.error('Lead creation error:', leadError);
-      }
+        ist_time: formattedISTTime
+      }, utcDateTime);
 
+      sendBookingInvites();
+      setCreatedBooking(created);
       setSubmitted(true);
     } catch (error) {
+      if (error instanceof Error && error.message === SLOT_TAKEN_ERROR) {
+        setSlotTaken(true);
+        setFormData(prev => ({ ...prev, preferred_time: '' }));
+        fetchAvailableSlots(formData.preferred_date, formData.timezone);
+        return;
+      }
       console.error('Error submitting booking:', error);
-      alert('Failed to submit booking. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to submit booking. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -303,6 +274,23 @@ export default function ConsultancyBooking() {
           <p className="text-slate-600 mb-6">
             Thank you for booking a consultation. Our team will reach out to you shortly to confirm the appointment details.
           </p>
+          {createdBooking && (
+            <>
+              <button
+                onClick={() => downloadBookingInvite({ manageToken: createdBooking.manageToken }).catch((error) => alert(error.message))}
+                className="w-full flex items-center justify-center space-x-2 border border-[#2563EB] text-[#2563EB] px-6 py-3 rounded-lg font-semibold hover:bg-blue-50 transition-colors mb-3"
+              >
+                <CalendarPlus className="w-5 h-5" />
+                <span>Add to Calendar</span>
+              </button>
+              <p className="text-sm text-slate-500 mb-6">
+                Need to change plans?{' '}
+                <Link to={`/booking/manage/${createdBooking.manageToken}`} className="text-[#2563EB] font-medium hover:underline">
+                  Reschedule or cancel your booking
+                </Link>
+              </p>
+            </>
+          )}
           <button
             onClick={() => window.location.reload()}
             className="bg-[#2563EB] text-white px-6 py-3 rounded-lg font-semibold hover:bg-[#1d4ed8] transition-colors shadow-md"
@@ -543,6 +531,7 @@ export default function ConsultancyBooking() {
                         value={formData.preferred_date}
                         onChange={(e) => setFormData({ ...formData, preferred_date: e.target.value, preferred_time: '' })}
                         min={new Date().toISOString().split('T')[0]}
+                        max={maxDaysAhead ? new Date(Date.now() + maxDaysAhead * 24 * 60 * 60 * 1000).toISOString().split('T')[0] : undefined}
                         className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
                         required
                       />
@@ -575,7 +564,10 @@ export default function ConsultancyBooking() {
                     </label>
                     <select
                       value={formData.preferred_time}
-                      onChange={(e) => setFormData({ ...formData, preferred_time: e.target.value })}
+                      onChange={(e) => {
+                        setSlotTaken(false);
+                        setFormData({ ...formData, preferred_time: e.target.value });
+                      }}
                       className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
                       style={{ color: formData.preferred_time ? '#0f172a' : '#64748b' }}
                       disabled={!formData.preferred_date || !formData.timezone}
@@ -594,6 +586,9 @@ export default function ConsultancyBooking() {
                     {!formData.timezone && formData.preferred_date && (
                       <p className="text-sm text-slate-500 mt-2">Please select your timezone</p>
                     )}
+                    {slotTaken && (
+                      <p className="text-sm text-red-600 mt-2">Sorry, that time was just booked by someone else. Please choose another slot.</p>
+                    )}
                     {availableTimeSlots.length === 0 && formData.preferred_date && formData.timezone && (
                       <p className="text-sm text-amber-600 mt-2">No available time slots for this date. Please select another date.</p>
                     )}
@@ -1,11 +1,15 @@
 import { useEffect } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { supabase, Lead } from '../lib/supabase';
+import { supabase } from '../lib/supabase';
 import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
 import { usePageVisibility } from '../hooks/usePageVisibility';
+import { useTags } from '../hooks/useTags';
 import AdminLayout from '../components/AdminLayout';
 import EmailScheduleManager from '../components/EmailScheduleManager';
-import { TrendingUp, Users, UserCheck, CheckCircle2, Award, AlertCircle, MapPin } from 'lucide-react';
+import ForecastPanel from '../components/ForecastPanel';
+import LossAnalysisPanel from '../components/LossAnalysisPanel';
+import TagBadge from '../components/TagBadge';
+import { TrendingUp, Users, UserCheck, CheckCircle2, Award, AlertCircle, MapPin, Tags } from 'lucide-react';
 
 interface StateCount {
   state: string;
@@ -32,94 +36,32 @@ interface DashboardStats {
   topChallenges: ChallengeCount[];
 }
 
-// Fetch leads from Supabase
-async function fetchLeads(): Promise<Lead[]> {
-  const { data, error } = await supabase
-    .from('leads')
-    .select('*')
-    .order('created_at', { ascending: false });
+// The stats are aggregated in the database; only the conversion rate is derived here
+async function fetchDashboardStats(): Promise<DashboardStats> {
+  const { data, error } = await supabase.rpc('get_lead_dashboard_stats');
 
   if (error) throw error;
-  return data || [];
-}
-
-// Calculate dashboard statistics from leads
-function calculateStats(leads: Lead[]): DashboardStats {
-  const totalLeads = leads.length;
-  const qualifiedLeads = leads.filter(
-    (lead) => lead.status === 'Qualified Prospect' || lead.status === 'Contract Sent' || lead.status === 'Confirmed Client'
-  ).length;
-  const closedDeals = leads.filter((lead) => lead.status === 'Closed' && lead.closed_reason === 'Confirmed Client').length;
-  const conversionRate = totalLeads > 0 ? Math.round((closedDeals / totalLeads) * 1000) / 10 : 0;
-
-  const assessmentLeads = leads.filter((lead) => lead.source === 'Assessment').length;
-  const consultancyLeads = leads.filter((lead) => lead.source === 'Consultancy').length;
-  const referralLeads = leads.filter((lead) => lead.source === 'Referral').length;
-
-  const goodEfficiency = leads.filter((lead) => lead.efficiency_level === 'Good Efficiency').length;
-  const moderateEfficiency = leads.filter((lead) => lead.efficiency_level === 'Moderate Efficiency').length;
-  const needsImprovement = leads.filter((lead) => lead.efficiency_level === 'Needs Improvement').length;
 
-  // Calculate leads by state
-  const stateCounts: Record<string, number> = {};
-  leads.forEach((lead) => {
-    if (lead.state) {
-      stateCounts[lead.state] = (stateCounts[lead.state] || 0) + 1;
-    }
-  });
-  const leadsByState = Object.entries(stateCounts)
-    .map(([state, count]) => ({ state, count }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 10);
+  const stats = data as Omit<DashboardStats, 'conversionRate'>;
+  const conversionRate = stats.totalLeads > 0 ? Math.round((stats.closedDeals / stats.totalLeads) * 1000) / 10 : 0;
 
-  // Calculate top challenges
-  const challengeCounts: Record<string, number> = {};
-  leads.forEach((lead) => {
-    if (lead.comments) {
-      const challenges = lead.comments.split(',').map(c => c.trim()).filter(c => c.length > 0);
-      challenges.forEach(challenge => {
-        const normalized = challenge.toLowerCase();
-        challengeCounts[normalized] = (challengeCounts[normalized] || 0) + 1;
-      });
-    }
-  });
-  const topChallenges = Object.entries(challengeCounts)
-    .map(([challenge, count]) => ({ challenge, count }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 10);
-
-  return {
-    totalLeads,
-    qualifiedLeads,
-    closedDeals,
-    conversionRate,
-    assessmentLeads,
-    consultancyLeads,
-    referralLeads,
-    goodEfficiency,
-    moderateEfficiency,
-    needsImprovement,
-    leadsByState,
-    topChallenges
-  };
+  return { ...stats, conversionRate };
 }
 
 export default function Dashboard() {
   const queryClient = useQueryClient();
   const isVisible = usePageVisibility();
+  const { usage: tagUsage } = useTags();
 
-  // Fetch leads with React Query
-  const { data: leads = [], isLoading, error } = useQuery({
-    queryKey: ['leads'],
-    queryFn: fetchLeads,
+  // Fetch stats with React Query; nested under ['leads'] so lead invalidations refresh it
+  const { data: stats, isLoading, error } = useQuery({
+    queryKey: ['leads', 'dashboard-stats'],
+    queryFn: fetchDashboardStats,
     staleTime: 2 * 60 * 1000, // Consider data fresh for 2 minutes
     refetchOnWindowFocus: true,
     refetchOnReconnect: true,
   });
 
-  // Calculate stats from leads
-  const stats = calculateStats(leads);
-
   // Subscribe to realtime updates
   useRealtimeSubscription(
     'dashboard_leads_changes',
@@ -134,9 +76,35 @@ export default function Dashboard() {
   useEffect(() => {
     if (isVisible) {
       queryClient.invalidateQueries({ queryKey: ['leads'] });
+      queryClient.invalidateQueries({ queryKey: ['tag-usage'] });
     }
   }, [isVisible, queryClient]);
 
+  if (isLoading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-slate-600">Loading dashboard...</div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error || !stats) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-red-600">Error loading dashboard data. Please refresh the page.</div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  // Ten most used tags; get_tag_usage already orders by total use
+  const topTags = tagUsage
+    .filter((item) => item.lead_count + item.booking_count + item.assessment_count > 0)
+    .slice(0, 10);
+
   const statCards = [
     {
       label: 'Total Leads',
@@ -172,26 +140,6 @@ export default function Dashboard() {
     }
   ];
 
-  if (isLoading) {
-    return (
-      <AdminLayout>
-        <div className="flex items-center justify-center h-64">
-          <div className="text-slate-600">Loading dashboard...</div>
-        </div>
-      </AdminLayout>
-    );
-  }
-
-  if (error) {
-    return (
-      <AdminLayout>
-        <div className="flex items-center justify-center h-64">
-          <div className="text-red-600">Error loading dashboard data. Please refresh the page.</div>
-        </div>
-      </AdminLayout>
-    );
-  }
-
   return (
     <AdminLayout>
       <div className="space-y-6 sm:space-y-8">
@@ -224,6 +172,10 @@ export default function Dashboard() {
           })}
         </div>
 
+        <ForecastPanel />
+
+        <LossAnalysisPanel />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
             <h2 className="text-lg font-semibold text-slate-800 mb-4">Lead Sources</h2>
@@ -393,6 +345,39 @@ export default function Dashboard() {
           </div>
         </div>
 
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center space-x-2 mb-6">
+            <Tags className="w-5 h-5 text-[#531B93]" />
+            <h2 className="text-lg font-semibold text-slate-800">Tags</h2>
+          </div>
+          {topTags.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="pb-2 font-medium">Tag</th>
+                    <th className="pb-2 font-medium text-right">Leads</th>
+                    <th className="pb-2 font-medium text-right">Bookings</th>
+                    <th className="pb-2 font-medium text-right">Assessments</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topTags.map((item) => (
+                    <tr key={item.tag} className="border-b border-slate-100 last:border-0">
+                      <td className="py-2"><TagBadge tag={item.tag} /></td>
+                      <td className="py-2 text-right font-semibold text-slate-800">{item.lead_count}</td>
+                      <td className="py-2 text-right font-semibold text-slate-800">{item.booking_count}</td>
+                      <td className="py-2 text-right font-semibold text-slate-800">{item.assessment_count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-slate-500 text-center py-8">No tagged records yet</p>
+          )}
+        </div>
+
         <EmailScheduleManager />
       </div>
     </AdminLayout>
@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { supabase, Lead, LeadDuplicate } from '../lib/supabase';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { usePageVisibility } from '../hooks/usePageVisibility';
+import { formatDateToDDMMYY } from '../lib/dateUtils';
+import AdminLayout from '../components/AdminLayout';
+import MergeLeadsModal from '../components/MergeLeadsModal';
+import { Copy, GitMerge, XCircle, Mail, Phone, Building2 } from 'lucide-react';
+
+type DuplicatePair = LeadDuplicate & {
+  lead: Lead | null;
+  duplicate_of: Lead | null;
+};
+
+const REASON_LABELS: Record<string, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  facility: 'Same name & facility'
+};
+
+// Fetch pending duplicate pairs with both leads embedded
+async function fetchDuplicatePairs(): Promise<DuplicatePair[]> {
+  const { data, error } = await supabase
+    .from('lead_duplicates')
+    .select('*, lead:leads!lead_duplicates_lead_id_fkey(*), duplicate_of:leads!lead_duplicates_duplicate_of_id_fkey(*)')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).filter((pair: DuplicatePair) => pair.lead && pair.duplicate_of);
+}
+
+// Mark a pair as not a duplicate so it leaves the queue
+async function dismissDuplicate(id: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('lead_duplicates')
+    .update({
+      status: 'dismissed',
+      resolved_by: user?.email || null,
+      resolved_at: new Date().toISOString()
+    })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+function LeadSummary({ lead }: { lead: Lead }) {
+  const navigate = useNavigate();
+
+  return (
+    <button
+      onClick={() => navigate(`/admin/leads/${lead.id}`)}
+      className="text-left w-full p-4 rounded-lg border border-slate-200 hover:border-[#531B93] hover:bg-purple-50 transition-colors"
+    >
+      <p className="font-semibold text-slate-900">{lead.name}</p>
+      <div className="mt-2 space-y-1 text-sm text-slate-600">
+        <div className="flex items-center space-x-2">
+          <Mail className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">{lead.email}</span>
+        </div>
+        {lead.phone && (
+          <div className="flex items-center space-x-2">
+            <Phone className="w-4 h-4 flex-shrink-0" />
+            <span>{lead.phone}</span>
+          </div>
+        )}
+        <div className="flex items-center space-x-2">
+          <Building2 className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">{lead.facility}</span>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        {lead.source} · {lead.status} · added {formatDateToDDMMYY(lead.created_at)}
+      </p>
+    </button>
+  );
+}
+
+export default function Duplicates() {
+  const [mergingPair, setMergingPair] = useState<DuplicatePair | null>(null);
+  const queryClient = useQueryClient();
+  const isVisible = usePageVisibility();
+
+  const { data: pairs = [], isLoading, error } = useQuery({
+    queryKey: ['lead-duplicates'],
+    queryFn: fetchDuplicatePairs,
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: true,
+    refetchOnReconnect: true,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: dismissDuplicate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-duplicates'] });
+    },
+    onError: (error) => {
+      console.error('Error dismissing duplicate:', error);
+      alert('Failed to dismiss duplicate');
+    },
+  });
+
+  // New leads are checked by a trigger, so any lead change can add or remove pairs
+  useRealtimeSubscription(
+    'duplicates_leads_changes',
+    'leads',
+    () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-duplicates'] });
+    }
+  );
+
+  // Refetch when tab becomes visible
+  useEffect(() => {
+    if (isVisible) {
+      queryClient.invalidateQueries({ queryKey: ['lead-duplicates'] });
+    }
+  }, [isVisible, queryClient]);
+
+  const handleMerged = () => {
+    setMergingPair(null);
+    queryClient.invalidateQueries({ queryKey: ['lead-duplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['leads'] });
+    queryClient.invalidateQueries({ queryKey: ['lead-activities'] });
+  };
+
+  if (isLoading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-slate-600">Loading duplicates...</div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-red-600">Error loading duplicates. Please refresh the page.</div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-slate-800 mb-2">Possible Duplicates</h1>
+          <p className="text-slate-600 text-sm sm:text-base">
+            Leads that share an email, phone number, or name and facility with an existing lead
+          </p>
+        </div>
+
+        {pairs.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-12 text-center">
+            <Copy className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-500">No possible duplicates to review</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {pairs.map((pair) => (
+              <div key={pair.id} className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                  <div className="flex flex-wrap gap-2">
+                    {pair.match_reasons.map((reason) => (
+                      <span
+                        key={reason}
+                        className="px-3 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-700"
+                      >
+                        {REASON_LABELS[reason] || reason}
+                      </span>
+                    ))}
+                    <span className="text-xs text-slate-500 self-center">
+                      flagged {formatDateToDDMMYY(pair.created_at)}
+                    </span>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => dismissMutation.mutate(pair.id)}
+                      disabled={dismissMutation.isPending}
+                      className="flex items-center space-x-1 px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      <span>Not a duplicate</span>
+                    </button>
+                    <button
+                      onClick={() => setMergingPair(pair)}
+                      className="flex items-center space-x-1 px-3 py-2 bg-[#531B93] text-white rounded-lg text-sm hover:bg-[#3d1470] transition-colors"
+                    >
+                      <GitMerge className="w-4 h-4" />
+                      <span>Merge</span>
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <LeadSummary lead={pair.duplicate_of!} />
+                  <LeadSummary lead={pair.lead!} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {mergingPair && (
+        <MergeLeadsModal
+          left={mergingPair.duplicate_of!}
+          right={mergingPair.lead!}
+          onClose={() => setMergingPair(null)}
+          onSuccess={handleMerged}
+        />
+      )}
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { usePageVisibility } from '../hooks/usePageVisibility';
+import { fetchFacilitySummaries, createFacility } from '../lib/facilities';
+import AdminLayout from '../components/AdminLayout';
+import { Building2, Search, Plus, Users, MapPin } from 'lucide-react';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function Facilities() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isVisible = usePageVisibility();
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [newName, setNewName] = useState('');
+  const [showAddForm, setShowAddForm] = useState(false);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data: facilities = [], isLoading, error } = useQuery({
+    queryKey: ['facilities', search],
+    queryFn: () => fetchFacilitySummaries(search),
+    placeholderData: keepPreviousData,
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: true,
+    refetchOnReconnect: true,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createFacility,
+    onSuccess: (facility) => {
+      queryClient.invalidateQueries({ queryKey: ['facilities'] });
+      navigate(`/admin/accounts/${facility.id}`);
+    },
+    onError: (error: Error) => {
+      alert(`Failed to add account: ${error.message}`);
+    },
+  });
+
+  // New leads create or join accounts through a database trigger
+  useRealtimeSubscription(
+    'facilities_leads_changes',
+    'leads',
+    () => {
+      queryClient.invalidateQueries({ queryKey: ['facilities'] });
+    }
+  );
+
+  useEffect(() => {
+    if (isVisible) {
+      queryClient.invalidateQueries({ queryKey: ['facilities'] });
+    }
+  }, [isVisible, queryClient]);
+
+  if (isLoading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-slate-600">Loading accounts...</div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-red-600">Error loading accounts. Please refresh the page.</div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-slate-800 mb-2">Accounts</h1>
+            <p className="text-slate-600 text-sm sm:text-base">
+              Facilities with every lead who works there. New leads are matched to an account by facility name.
+            </p>
+          </div>
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="flex items-center justify-center space-x-2 bg-gradient-to-r from-[#531B93] to-[#2563EB] text-white px-4 py-2 rounded-lg hover:from-[#3d1470] hover:to-[#1d4ed8] transition-all shadow-md"
+          >
+            <Plus className="w-5 h-5" />
+            <span>New Account</span>
+          </button>
+        </div>
+
+        {showAddForm && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newName.trim()) createMutation.mutate({ name: newName });
+            }}
+            className="flex flex-wrap gap-2 bg-white rounded-xl shadow-sm border border-slate-200 p-4"
+          >
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Facility name"
+              autoFocus
+              className="flex-1 min-w-[12rem] px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+            />
+            <button
+              type="submit"
+              disabled={createMutation.isPending || !newName.trim()}
+              className="px-4 py-2 bg-[#2563EB] text-white rounded-lg hover:bg-[#1d4ed8] disabled:opacity-50"
+            >
+              Create
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowAddForm(false);
+                setNewName('');
+              }}
+              className="px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+          </form>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="relative mb-6">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search accounts..."
+              className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+            />
+          </div>
+
+          {facilities.length === 0 ? (
+            <div className="text-center py-12">
+              <Building2 className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+              <p className="text-slate-500">{search ? 'No accounts match your search' : 'No accounts yet'}</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-sm text-slate-600">
+                    <th className="pb-3 font-medium">Account</th>
+                    <th className="pb-3 font-medium">Location</th>
+                    <th className="pb-3 font-medium text-right">Contacts</th>
+                    <th className="pb-3 font-medium text-right">$ Value/Year</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {facilities.map((facility) => (
+                    <tr
+                      key={facility.id}
+                      onClick={() => navigate(`/admin/accounts/${facility.id}`)}
+                      className="border-b border-slate-100 hover:bg-slate-50 cursor-pointer"
+                    >
+                      <td className="py-3">
+                        <div className="flex items-center space-x-2">
+                          <Building2 className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                          <span className="font-medium text-slate-800">{facility.name}</span>
+                        </div>
+                      </td>
+                      <td className="py-3 text-sm text-slate-600">
+                        {[facility.city, facility.state, facility.country].filter(Boolean).length > 0 && (
+                          <span className="flex items-center space-x-1">
+                            <MapPin className="w-3 h-3 text-slate-400" />
+                            <span>{[facility.city, facility.state, facility.country].filter(Boolean).join(', ')}</span>
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 text-right">
+                        <span className="inline-flex items-center space-x-1 text-sm text-slate-700">
+                          <Users className="w-4 h-4 text-slate-400" />
+                          <span>{facility.contact_count}</span>
+                        </span>
+                      </td>
+                      <td className="py-3 text-right font-medium">
+                        {facility.total_value > 0 ? (
+                          <span className="text-green-600">${Number(facility.total_value).toLocaleString()}</span>
+                        ) : (
+                          <span className="text-slate-400">-</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,414 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Facility } from '../lib/supabase';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { fetchFacilityDetails, updateFacility, deleteFacility, getFacilityTotalValue } from '../lib/facilities';
+import { getLeadStatusColor } from '../lib/pipelineStages';
+import { COUNTRIES, STATES_BY_COUNTRY } from '../lib/constants';
+import { formatDateToDDMMYY } from '../lib/dateUtils';
+import AdminLayout from '../components/AdminLayout';
+import TagBadge from '../components/TagBadge';
+import { ArrowLeft, Building2, Globe, MapPin, Users, DollarSign, Calendar, ClipboardList, Save, Trash2 } from 'lucide-react';
+
+type FacilityForm = {
+  name: string;
+  website: string;
+  country: string;
+  state: string;
+  city: string;
+  specialties: string;
+};
+
+const toForm = (facility: Facility): FacilityForm => ({
+  name: facility.name,
+  website: facility.website || '',
+  country: facility.country || '',
+  state: facility.state || '',
+  city: facility.city || '',
+  specialties: facility.specialties.join(', ')
+});
+
+const inputClass = 'w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]';
+
+export default function FacilityProfile() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { stages } = usePipelineStages();
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<FacilityForm | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['facility', id],
+    queryFn: () => fetchFacilityDetails(id!),
+    enabled: !!id,
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: true,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: updateFacility,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['facility', id] });
+      queryClient.invalidateQueries({ queryKey: ['facilities'] });
+      setIsEditing(false);
+    },
+    onError: (error: Error) => {
+      alert(`Failed to save account: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteFacility,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['facilities'] });
+      navigate('/admin/accounts');
+    },
+    onError: () => {
+      alert('Failed to delete account');
+    },
+  });
+
+  useRealtimeSubscription(
+    'facility_leads_changes',
+    'leads',
+    () => {
+      queryClient.invalidateQueries({ queryKey: ['facility', id] });
+    }
+  );
+
+  // Start from the saved values each time editing opens
+  useEffect(() => {
+    if (isEditing && data) setForm(toForm(data.facility));
+  }, [isEditing, data]);
+
+  if (isLoading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-slate-600">Loading account...</div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <AdminLayout>
+        <div className="text-center py-12">
+          <p className="text-slate-600 mb-4">{error ? 'Error loading account. Please refresh the page.' : 'Account not found'}</p>
+          <button onClick={() => navigate('/admin/accounts')} className="text-[#2563EB] hover:text-[#1d4ed8]">
+            Back to Accounts
+          </button>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const { facility, contacts, bookings, assessments } = data;
+  const totalValue = getFacilityTotalValue(contacts);
+  const contactName = (leadId?: string | null) => contacts.find((lead) => lead.id === leadId)?.name || 'Unknown contact';
+
+  const handleSave = () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      alert('Account name is required');
+      return;
+    }
+    updateMutation.mutate({
+      id: facility.id,
+      changes: {
+        name: form.name.trim(),
+        website: form.website.trim() || null,
+        country: form.country || null,
+        state: form.state || null,
+        city: form.city.trim() || null,
+        specialties: form.specialties.split(',').map((s) => s.trim()).filter(Boolean)
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the account "${facility.name}"? Its ${contacts.length} contacts are kept but unlinked.`)) return;
+    deleteMutation.mutate(facility.id);
+  };
+
+  const stats = [
+    { label: 'Contacts', value: contacts.length, icon: Users, textColor: 'text-[#531B93]', bgColor: 'bg-purple-50' },
+    { label: 'Total Value/Year', value: `$${totalValue.toLocaleString()}`, icon: DollarSign, textColor: 'text-green-600', bgColor: 'bg-green-50' },
+    { label: 'Bookings', value: bookings.length, icon: Calendar, textColor: 'text-blue-600', bgColor: 'bg-blue-50' },
+    { label: 'Assessments', value: assessments.length, icon: ClipboardList, textColor: 'text-orange-600', bgColor: 'bg-orange-50' }
+  ];
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <button
+            onClick={() => navigate('/admin/accounts')}
+            className="flex items-center space-x-2 text-slate-600 hover:text-slate-800 mb-4 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Accounts</span>
+          </button>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center space-x-3">
+              <Building2 className="w-8 h-8 text-[#531B93]" />
+              <div>
+                <h1 className="text-2xl font-bold text-slate-800">{facility.name}</h1>
+                <p className="text-slate-600">Account since {formatDateToDDMMYY(facility.created_at)}</p>
+              </div>
+            </div>
+            <button
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="flex items-center space-x-1 px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Delete</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {stats.map((stat) => {
+            const Icon = stat.icon;
+            return (
+              <div key={stat.label} className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-600 mb-1">{stat.label}</p>
+                  <p className="text-2xl font-bold text-slate-800">{stat.value}</p>
+                </div>
+                <div className={`${stat.bgColor} p-3 rounded-lg`}>
+                  <Icon className={`w-5 h-5 ${stat.textColor}`} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-semibold text-slate-800 mb-4">Contacts</h2>
+              {contacts.length === 0 ? (
+                <p className="text-slate-500 text-sm">No leads are linked to this account</p>
+              ) : (
+                <div className="divide-y divide-slate-100">
+                  {contacts.map((lead) => (
+                    <button
+                      key={lead.id}
+                      onClick={() => navigate(`/admin/leads/${lead.id}`)}
+                      className="w-full flex items-center justify-between gap-3 py-3 text-left hover:bg-slate-50 px-2 rounded-lg"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-800">{lead.name}</p>
+                        <p className="text-sm text-slate-500 truncate">{lead.email}</p>
+                      </div>
+                      <div className="flex items-center space-x-3 flex-shrink-0">
+                        {lead.value_per_annum ? (
+                          <span className="text-sm font-medium text-green-600">${lead.value_per_annum.toLocaleString()}</span>
+                        ) : null}
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${getLeadStatusColor(lead, stages)}`}>
+                          {lead.status}
+                        </span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-semibold text-slate-800 mb-4">Bookings</h2>
+              {bookings.length === 0 ? (
+                <p className="text-slate-500 text-sm">No consultation bookings</p>
+              ) : (
+                <div className="space-y-3">
+                  {bookings.map((booking) => (
+                    <div key={booking.id} className="border border-slate-200 rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-1">
+                        <p className="font-medium text-slate-800">{contactName(booking.lead_id)}</p>
+                        <span className="text-xs bg-slate-100 text-slate-700 px-2 py-1 rounded">{booking.status}</span>
+                      </div>
+                      <p className="text-sm text-slate-600">
+                        {booking.product_service} · {new Date(booking.preferred_date).toLocaleDateString()} {booking.preferred_time}
+                      </p>
+                      {booking.tags && booking.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {booking.tags.map((tag) => (
+                            <TagBadge key={tag} tag={tag} />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-semibold text-slate-800 mb-4">Assessments</h2>
+              {assessments.length === 0 ? (
+                <p className="text-slate-500 text-sm">No assessments submitted</p>
+              ) : (
+                <div className="space-y-3">
+                  {assessments.map((assessment) => (
+                    <div key={assessment.id} className="border border-slate-200 rounded-lg p-4 flex items-center justify-between gap-3">
+                      <div>
+                        <p className="font-medium text-slate-800">{contactName(assessment.lead_id)}</p>
+                        <p className="text-sm text-slate-600">
+                          {assessment.score}/100 · {assessment.efficiency_level} · {formatDateToDDMMYY(assessment.created_at)}
+                        </p>
+                      </div>
+                      <a
+                        href={`/assessment-report/${assessment.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-[#2563EB] hover:underline flex-shrink-0"
+                      >
+                        View report
+                      </a>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-slate-800">Details</h2>
+                {!isEditing && (
+                  <button
+                    onClick={() => setIsEditing(true)}
+                    className="text-[#2563EB] hover:text-[#1d4ed8] text-sm font-medium"
+                  >
+                    Edit
+                  </button>
+                )}
+              </div>
+
+              {isEditing && form ? (
+                <div className="space-y-3">
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Name"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={form.website}
+                    onChange={(e) => setForm({ ...form, website: e.target.value })}
+                    placeholder="Website"
+                    className={inputClass}
+                  />
+                  <select
+                    value={form.country}
+                    onChange={(e) => setForm({ ...form, country: e.target.value, state: '' })}
+                    className={inputClass}
+                  >
+                    <option value="">Country</option>
+                    {COUNTRIES.map((country) => (
+                      <option key={country} value={country}>{country}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={form.state}
+                    onChange={(e) => setForm({ ...form, state: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">State</option>
+                    {(STATES_BY_COUNTRY[form.country] || Object.values(STATES_BY_COUNTRY).flat()).map((state) => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={form.city}
+                    onChange={(e) => setForm({ ...form, city: e.target.value })}
+                    placeholder="City"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={form.specialties}
+                    onChange={(e) => setForm({ ...form, specialties: e.target.value })}
+                    placeholder="Specialties, comma-separated"
+                    className={inputClass}
+                  />
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={handleSave}
+                      disabled={updateMutation.isPending}
+                      className="flex items-center space-x-1 px-4 py-2 bg-[#2563EB] text-white rounded-lg hover:bg-[#1d4ed8] transition-colors disabled:opacity-50"
+                    >
+                      <Save className="w-4 h-4" />
+                      <span>Save</span>
+                    </button>
+                    <button
+                      onClick={() => setIsEditing(false)}
+                      className="px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex items-start space-x-3">
+                    <Globe className="w-5 h-5 text-slate-400 mt-0.5" />
+                    <div className="min-w-0">
+                      <p className="text-sm text-slate-600">Website</p>
+                      {facility.website ? (
+                        <a
+                          href={facility.website.startsWith('http') ? facility.website : `https://${facility.website}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline font-medium break-all"
+                        >
+                          {facility.website}
+                        </a>
+                      ) : (
+                        <p className="text-slate-400">Not set</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-start space-x-3">
+                    <MapPin className="w-5 h-5 text-slate-400 mt-0.5" />
+                    <div>
+                      <p className="text-sm text-slate-600">Location</p>
+                      <p className="text-slate-800 font-medium">
+                        {[facility.city, facility.state, facility.country].filter(Boolean).join(', ') || 'Not set'}
+                      </p>
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-sm text-slate-600 mb-2">Specialties</p>
+                    {facility.specialties.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {facility.specialties.map((specialty) => (
+                          <span key={specialty} className="px-2 py-1 bg-blue-50 text-blue-700 rounded text-xs font-medium">
+                            {specialty}
+                          </span>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-slate-400">Not set</p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
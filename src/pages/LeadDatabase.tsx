@@ -1,24 +1,88 @@
-import { useEffect, useState, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { supabase, Lead } from '../lib/supabase';
+import { useCallback, useEffect, useRef, useState, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { List, RowComponentProps } from 'react-window';
+import { supabase, Lead, LeadView, AdminUser, PipelineStage } from '../lib/supabase';
 import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
 import { usePageVisibility } from '../hooks/usePageVisibility';
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useTags } from '../hooks/useTags';
+import { getAdminDisplayName } from '../lib/leadAssignment';
+import { bulkDeleteLeads } from '../lib/leadBulkActions';
+import { removeDeletedAttachmentFiles } from '../lib/leadAttachments';
+import { formatLastContacted, NOT_CONTACTED_DAY_OPTIONS } from '../lib/leadInteractions';
+import {
+  fetchLeadPage, fetchLeadCount, parseLeadListParams, getLeadViewParams, hasActiveLeadFilters,
+  LeadSortColumn, LEAD_PAGE_SIZES
+} from '../lib/leadSearch';
+import { LEAD_SOURCES, STATES_BY_COUNTRY } from '../lib/constants';
+import { countFilterRules, serializeFilterTree, getCustomFilterFields, FILTER_FIELDS } from '../lib/leadFilterBuilder';
+import { getLeadStatusColor, isLeadClosed } from '../lib/pipelineStages';
 import AdminLayout from '../components/AdminLayout';
-import { Plus, Filter, Search, Trash2, Edit3, Eye } from 'lucide-react';
+import {
+  Plus, Filter, Search, Trash2, Edit3, Eye, Upload, Download, UserCheck,
+  ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight, SlidersHorizontal, ListFilter
+} from 'lucide-react';
 import ManageServicesModal from '../components/ManageServicesModal';
 import AddLeadModal from '../components/AddLeadModal';
-import { useNavigate } from 'react-router-dom';
+import ImportLeadsModal from '../components/ImportLeadsModal';
+import ExportLeadsModal from '../components/ExportLeadsModal';
+import LeadBulkActions from '../components/LeadBulkActions';
+import SavedViewsSidebar from '../components/SavedViewsSidebar';
+import LeadFilterBuilder from '../components/LeadFilterBuilder';
+import TagBadge from '../components/TagBadge';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { formatDateToDDMMYY } from '../lib/dateUtils';
 
-// Fetch leads from Supabase
-async function fetchLeads(): Promise<Lead[]> {
+// How long a bulk delete can be undone before it is sent to the database
+const UNDO_WINDOW_MS = 10 * 1000;
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Rows are virtualized, so every row has the same fixed height
+const ROW_HEIGHT = 56;
+const MAX_LIST_HEIGHT = 640;
+
+// Column widths are fixed so the header lines up with the virtualized rows
+const LEAD_COLUMNS: Array<{ key: string; label: string; width: number; sort?: LeadSortColumn }> = [
+  { key: 'select', label: '', width: 48 },
+  { key: 'name', label: 'Name', width: 200, sort: 'name' },
+  { key: 'email', label: 'Email', width: 240, sort: 'email' },
+  { key: 'phone', label: 'Phone', width: 150, sort: 'phone' },
+  { key: 'facility', label: 'Facility', width: 200, sort: 'facility' },
+  { key: 'state', label: 'State', width: 90, sort: 'state' },
+  { key: 'source', label: 'Source', width: 130, sort: 'source' },
+  { key: 'added_by', label: 'Added By', width: 180, sort: 'added_by' },
+  { key: 'owner', label: 'Owner', width: 160 },
+  { key: 'product_service', label: 'Product/Service', width: 200, sort: 'product_service' },
+  { key: 'score', label: 'Score', width: 80, sort: 'score' },
+  { key: 'tags', label: 'Tags', width: 200 },
+  { key: 'status', label: 'Stage', width: 200, sort: 'status' },
+  { key: 'value_per_annum', label: '$ Value/Year', width: 130, sort: 'value_per_annum' },
+  { key: 'last_contacted_at', label: 'Last Contacted', width: 140, sort: 'last_contacted_at' },
+  { key: 'created_at', label: 'Date Added', width: 130, sort: 'created_at' },
+  { key: 'actions', label: 'Actions', width: 100 }
+];
+
+const TABLE_WIDTH = LEAD_COLUMNS.reduce((sum, column) => sum + column.width, 0);
+
+const columnStyle = (key: string) => ({ width: LEAD_COLUMNS.find((column) => column.key === key)?.width });
+
+const ALL_STATES = Object.values(STATES_BY_COUNTRY).flat();
+
+// Service names offered in the services filter
+async function fetchServiceOptions(): Promise<string[]> {
   const { data, error } = await supabase
-    .from('leads')
-    .select('*')
-    .order('created_at', { ascending: false });
+    .from('services')
+    .select('name')
+    .eq('is_visible', true)
+    .order('sort_order')
+    .order('name');
 
   if (error) throw error;
-  return data || [];
+  return (data || []).map((service) => service.name);
 }
 
 // Delete a lead
@@ -29,34 +93,235 @@ async function deleteLead(id: string): Promise<void> {
     .eq('id', id);
 
   if (error) throw error;
+
+  removeDeletedAttachmentFiles();
+}
+
+interface LeadRowProps {
+  leads: Lead[];
+  selectedIds: string[];
+  admins: AdminUser[];
+  stages: PipelineStage[];
+  onToggleSelected: (id: string) => void;
+  onView: (id: string) => void;
+  onDelete: (id: string, name: string) => void;
+}
+
+function LeadRow({
+  index,
+  style,
+  leads,
+  selectedIds,
+  admins,
+  stages,
+  onToggleSelected,
+  onView,
+  onDelete
+}: RowComponentProps<LeadRowProps>) {
+  const lead = leads[index];
+  const cellClass = 'px-4 text-sm truncate flex-shrink-0';
+
+  return (
+    <div
+      style={style}
+      className={`flex items-center border-b border-slate-200 ${index % 2 === 0 ? 'bg-white' : 'bg-slate-50'} hover:bg-slate-100 transition-colors`}
+    >
+      <div style={columnStyle('select')} className="px-4 flex-shrink-0">
+        <input
+          type="checkbox"
+          checked={selectedIds.includes(lead.id)}
+          onChange={() => onToggleSelected(lead.id)}
+          className="w-4 h-4 text-[#531B93] rounded focus:ring-2 focus:ring-[#531B93]"
+        />
+      </div>
+      <div style={columnStyle('name')} className={`${cellClass} text-slate-900 font-semibold`}>{lead.name}</div>
+      <div style={columnStyle('email')} className={`${cellClass} text-slate-800`}>{lead.email}</div>
+      <div style={columnStyle('phone')} className={`${cellClass} text-slate-800`}>{lead.phone}</div>
+      <div style={columnStyle('facility')} className={`${cellClass} text-slate-800`}>{lead.facility}</div>
+      <div style={columnStyle('state')} className={`${cellClass} text-slate-800`}>{lead.state}</div>
+      <div style={columnStyle('source')} className="px-4 flex-shrink-0">
+        <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
+          lead.source === 'Assessment' ? 'bg-purple-100 text-purple-700' :
+          lead.source === 'Consultancy' ? 'bg-pink-100 text-pink-700' :
+          'bg-blue-100 text-blue-700'
+        }`}>
+          {lead.source}
+        </span>
+      </div>
+      <div style={columnStyle('added_by')} className={`${cellClass} text-slate-700`}>{lead.added_by || 'System'}</div>
+      <div style={columnStyle('owner')} className={`${cellClass} ${lead.owner_id ? 'text-slate-700' : 'text-slate-400'}`}>
+        {getAdminDisplayName(admins, lead.owner_id)}
+      </div>
+      <div style={columnStyle('product_service')} className={`${cellClass} text-slate-600`}>{lead.product_service}</div>
+      <div style={columnStyle('score')} className={`${cellClass} text-slate-700 font-semibold`}>
+        {lead.score ? lead.score : '-'}
+      </div>
+      <div style={columnStyle('tags')} className="px-4 flex-shrink-0 flex items-center gap-1 overflow-hidden">
+        {(lead.tags || []).map((tag) => (
+          <TagBadge key={tag} tag={tag} />
+        ))}
+      </div>
+      <div style={columnStyle('status')} className="px-4 flex-shrink-0 truncate">
+        <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${getLeadStatusColor(lead, stages)}`}>
+          {lead.status}{isLeadClosed(lead, stages) && lead.closed_reason ? ` (${lead.closed_reason})` : ''}
+        </span>
+      </div>
+      <div style={columnStyle('value_per_annum')} className={`${cellClass} text-slate-700 font-medium`}>
+        {lead.value_per_annum ? (
+          <span className="text-green-600">${lead.value_per_annum.toLocaleString()}</span>
+        ) : (
+          <span className="text-slate-400">-</span>
+        )}
+      </div>
+      <div
+        style={columnStyle('last_contacted_at')}
+        className={`${cellClass} ${lead.last_contacted_at ? 'text-slate-600' : 'text-slate-400'}`}
+        title={lead.last_contacted_at ? formatDateToDDMMYY(lead.last_contacted_at) : undefined}
+      >
+        {formatLastContacted(lead.last_contacted_at)}
+      </div>
+      <div style={columnStyle('created_at')} className={`${cellClass} text-slate-600`}>
+        {formatDateToDDMMYY(lead.created_at)}
+      </div>
+      <div style={columnStyle('actions')} className="px-4 flex-shrink-0">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => onView(lead.id)}
+            className="text-blue-600 hover:text-blue-800 transition-colors"
+            title="View Details"
+          >
+            <Eye className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => onDelete(lead.id, lead.name)}
+            className="text-red-600 hover:text-red-800 transition-colors"
+            title="Delete Lead"
+          >
+            <Trash2 className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
 }
 
 export default function LeadDatabase() {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState('All');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const params = useMemo(() => parseLeadListParams(searchParams), [searchParams]);
+  const [searchInput, setSearchInput] = useState(params.search);
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
+  const [showFilterBuilder, setShowFilterBuilder] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pendingDelete, setPendingDelete] = useState<Lead[] | null>(null);
+  const pendingDeleteRef = useRef<{ leads: Lead[]; timer: number } | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
   const [showManageServices, setShowManageServices] = useState(false);
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const isVisible = usePageVisibility();
+  const { stages } = usePipelineStages();
+  const { admins, currentAdmin } = useAdminUsers();
+  const { customFields, isPending: customFieldsPending } = useCustomFields();
+  const { usage: tagUsage } = useTags();
+
+  // Advanced filters can reference custom fields, so they are added to the built-in ones
+  const filterFields = useMemo(() => [...FILTER_FIELDS, ...getCustomFilterFields(customFields)], [customFields]);
+
+  // Write table state to the URL; empty values drop the param. Any change
+  // other than paging starts again from the first page.
+  const updateParams = useCallback((changes: Record<string, string | null>, resetPage = true) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (resetPage) next.delete('page');
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Keep the search box in sync when the URL changes (e.g. back button)
+  useEffect(() => {
+    setSearchInput(params.search);
+  }, [params.search]);
 
-  // Fetch leads with React Query
-  const { data: leads = [], isLoading, error } = useQuery({
-    queryKey: ['leads'],
-    queryFn: fetchLeads,
+  useEffect(() => {
+    if (searchInput === params.search) return;
+    const timer = window.setTimeout(() => updateParams({ q: searchInput.trim() || null }), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [searchInput, params.search, updateParams]);
+
+  // "My Leads" is stored in the URL as 'mine' and resolved to the signed-in admin here
+  const queryParams = useMemo(
+    () => ({ ...params, owner: params.owner === 'mine' ? currentAdmin?.id || '' : params.owner }),
+    [params, currentAdmin]
+  );
+
+  // Fetch the current page of leads with React Query
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ['leads', 'page', queryParams],
+    queryFn: () => fetchLeadPage(queryParams, filterFields),
+    // Wait for the custom field definitions so rules on them aren't dropped from the first request
+    enabled: !!queryParams.owner && !customFieldsPending,
+    placeholderData: keepPreviousData,
     staleTime: 2 * 60 * 1000, // 2 minutes
     refetchOnWindowFocus: true,
     refetchOnReconnect: true,
   });
 
+  const { data: totalLeadCount = 0 } = useQuery({
+    queryKey: ['leads', 'count'],
+    queryFn: fetchLeadCount,
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: true,
+  });
+
+  const { data: serviceOptions = [] } = useQuery({
+    queryKey: ['service-options'],
+    queryFn: fetchServiceOptions,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const leads = useMemo(() => data?.leads || [], [data]);
+  const activeViewId = searchParams.get('view');
+  const currentViewFilters = useMemo(() => getLeadViewParams(searchParams), [searchParams]);
+
   // Delete mutation
-  const deleteMutation = useMutation({
+  const { mutate: deleteLeadById } = useMutation({
     mutationFn: deleteLead,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['leads'] });
     },
   });
 
+  // Send a pending bulk delete to the database now
+  const commitPendingDelete = useCallback(() => {
+    const pending = pendingDeleteRef.current;
+    if (!pending) return;
+
+    window.clearTimeout(pending.timer);
+    pendingDeleteRef.current = null;
+
+    bulkDeleteLeads(pending.leads.map((lead) => lead.id))
+      .catch((error) => {
+        console.error('Error deleting leads:', error);
+        alert('Failed to delete leads');
+      })
+      .finally(() => {
+        setPendingDelete((current) => (current === pending.leads ? null : current));
+        queryClient.invalidateQueries({ queryKey: ['leads'] });
+      });
+  }, [queryClient]);
+
+  // Leaving the page ends the undo window early rather than dropping the delete
+  useEffect(() => commitPendingDelete, [commitPendingDelete]);
+
   // Subscribe to realtime updates
   useRealtimeSubscription(
     'leads_database_changes',
@@ -73,51 +338,117 @@ export default function LeadDatabase() {
     }
   }, [isVisible, queryClient]);
 
-  // Client-side filtering with useMemo for performance
-  const filteredLeads = useMemo(() => {
-    let filtered = [...leads];
-
-    if (searchTerm) {
-      filtered = filtered.filter(
-        (lead) =>
-          lead.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          lead.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          lead.phone?.includes(searchTerm)
-      );
+  // Step back when the current page empties out, e.g. after deleting its last leads
+  useEffect(() => {
+    if (data && data.leads.length === 0 && params.page > 1) {
+      const lastPage = Math.max(1, Math.ceil(data.total / params.pageSize));
+      updateParams({ page: lastPage > 1 ? String(lastPage) : null }, false);
     }
+  }, [data, params.page, params.pageSize, updateParams]);
 
-    if (statusFilter !== 'All') {
-      filtered = filtered.filter((lead) => lead.status === statusFilter);
-    }
+  // Leads waiting out the undo window are hidden as if already deleted
+  const visibleLeads = useMemo(() => {
+    if (!pendingDelete) return leads;
+    const pendingIds = new Set(pendingDelete.map((lead) => lead.id));
+    return leads.filter((lead) => !pendingIds.has(lead.id));
+  }, [leads, pendingDelete]);
 
-    return filtered;
-  }, [leads, searchTerm, statusFilter]);
+  const matchingCount = (data?.total || 0) - (leads.length - visibleLeads.length);
+  const pageCount = Math.max(1, Math.ceil(matchingCount / params.pageSize));
+  const firstRow = (params.page - 1) * params.pageSize;
+  const isFiltered = hasActiveLeadFilters(params);
+  const moreFiltersCount = [
+    params.source !== 'All',
+    params.state !== 'All',
+    params.services.length > 0,
+    params.tags.length > 0,
+    !!params.dateFrom || !!params.dateTo,
+    params.scoreMin !== null || params.scoreMax !== null,
+    params.notContactedDays !== null
+  ].filter(Boolean).length;
+  const advancedRuleCount = countFilterRules(params.advanced);
 
-  const handleDeleteLead = async (id: string, name: string) => {
-    if (!confirm(`Are you sure you want to delete ${name}?`)) return;
-    deleteMutation.mutate(id);
+  // Only act on selected leads that are on the current page
+  const selectedLeads = useMemo(
+    () => visibleLeads.filter((lead) => selectedIds.includes(lead.id)),
+    [visibleLeads, selectedIds]
+  );
+  const allVisibleSelected = visibleLeads.length > 0 && selectedLeads.length === visibleLeads.length;
+
+  const toggleSelected = useCallback((id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]));
+  }, []);
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? [] : visibleLeads.map((lead) => lead.id));
   };
 
-  const getStatusColor = (status: string, closedReason?: string) => {
-    if (status === 'Closed') {
-      if (closedReason === 'Confirmed Client') {
-        return 'bg-green-100 text-green-700';
-      } else if (closedReason === 'Not Interested') {
-        return 'bg-red-100 text-red-700';
-      }
-      return 'bg-slate-100 text-slate-700';
-    }
+  // Opening a view replaces every filter; the view id stays in the URL so edits show as unsaved changes
+  const handleSelectView = (view: LeadView | null) => {
+    setSearchParams(view ? { ...view.filters, view: view.id } : {});
+    setSelectedIds([]);
+  };
+
+  const toggleServiceFilter = (service: string) => {
+    const services = params.services.includes(service)
+      ? params.services.filter((s) => s !== service)
+      : [...params.services, service];
+    updateParams({ services: services.join(',') || null });
+  };
 
-    const colors: Record<string, string> = {
-      'New': 'bg-blue-100 text-blue-700',
-      'Contacted': 'bg-yellow-100 text-yellow-700',
-      'Qualified Prospect': 'bg-green-100 text-green-700',
-      'Contract Sent': 'bg-purple-100 text-purple-700',
-      'Confirmed Client': 'bg-emerald-100 text-emerald-700'
-    };
-    return colors[status] || 'bg-slate-100 text-slate-700';
+  const toggleTagFilter = (tag: string) => {
+    const tags = params.tags.includes(tag)
+      ? params.tags.filter((t) => t !== tag)
+      : [...params.tags, tag];
+    updateParams({ tags: tags.join(',') || null });
   };
 
+  // Tags used on at least one lead, plus any selected in the URL that no longer are
+  const tagOptions = [
+    ...tagUsage.filter((item) => item.lead_count > 0).map((item) => item.tag),
+    ...params.tags
+  ].filter((tag, index, all) => all.indexOf(tag) === index);
+
+  const handleSort = (column: LeadSortColumn) => {
+    const ascending = params.sort === column ? !params.ascending : true;
+    updateParams({ sort: column, dir: ascending ? 'asc' : null });
+  };
+
+  const handleBulkDelete = (leadsToDelete: Lead[]) => {
+    if (!confirm(`Delete ${leadsToDelete.length} leads? You can undo for a few seconds.`)) return;
+
+    commitPendingDelete();
+    const timer = window.setTimeout(commitPendingDelete, UNDO_WINDOW_MS);
+    pendingDeleteRef.current = { leads: leadsToDelete, timer };
+    setPendingDelete(leadsToDelete);
+    setSelectedIds([]);
+  };
+
+  const handleUndoDelete = () => {
+    if (pendingDeleteRef.current) {
+      window.clearTimeout(pendingDeleteRef.current.timer);
+      pendingDeleteRef.current = null;
+    }
+    setPendingDelete(null);
+  };
+
+  const handleDeleteLead = useCallback((id: string, name: string) => {
+    if (!confirm(`Are you sure you want to delete ${name}?`)) return;
+    deleteLeadById(id);
+  }, [deleteLeadById]);
+
+  const handleViewLead = useCallback((id: string) => navigate(`/admin/leads/${id}`), [navigate]);
+
+  const rowProps = useMemo(() => ({
+    leads: visibleLeads,
+    selectedIds,
+    admins,
+    stages,
+    onToggleSelected: toggleSelected,
+    onView: handleViewLead,
+    onDelete: handleDeleteLead
+  }), [visibleLeads, selectedIds, admins, stages, toggleSelected, handleViewLead, handleDeleteLead]);
+
   if (isLoading) {
     return (
       <AdminLayout>
@@ -143,7 +474,9 @@ export default function LeadDatabase() {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
           <div>
-            <h1 className="text-xl sm:text-2xl font-bold text-slate-800 mb-2">{leads.length} leads</h1>
+            <h1 className="text-xl sm:text-2xl font-bold text-slate-800 mb-2">
+              {totalLeadCount - (pendingDelete?.length || 0)} leads
+            </h1>
             <p className="text-slate-600 text-sm sm:text-base">View and manage all leads</p>
           </div>
           <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3">
@@ -154,6 +487,20 @@ export default function LeadDatabase() {
               <Edit3 className="w-5 h-5" />
               <span>Manage Services</span>
             </button>
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="flex items-center justify-center space-x-2 bg-white border-2 border-[#2563EB] text-[#2563EB] px-4 py-2 rounded-lg hover:bg-[#2563EB] hover:text-white transition-all shadow-md"
+            >
+              <Upload className="w-5 h-5" />
+              <span>Import</span>
+            </button>
+            <button
+              onClick={() => setShowExportModal(true)}
+              className="flex items-center justify-center space-x-2 bg-white border-2 border-[#2563EB] text-[#2563EB] px-4 py-2 rounded-lg hover:bg-[#2563EB] hover:text-white transition-all shadow-md"
+            >
+              <Download className="w-5 h-5" />
+              <span>Export</span>
+            </button>
             <button
               onClick={() => setShowAddModal(true)}
               className="flex items-center justify-center space-x-2 bg-gradient-to-r from-[#531B93] to-[#2563EB] text-white px-4 py-2 rounded-lg hover:from-[#3d1470] hover:to-[#1d4ed8] transition-all shadow-md"
@@ -164,121 +511,319 @@ export default function LeadDatabase() {
           </div>
         </div>
 
-        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-          <div className="flex flex-col md:flex-row md:items-center space-y-4 md:space-y-0 md:space-x-4 mb-6">
-            <div className="flex-1 relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
-              <input
-                type="text"
-                placeholder="Search by name, email, or phone..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]"
-              />
-            </div>
+        <div className="flex flex-col lg:flex-row gap-6">
+          <aside className="lg:w-64 flex-shrink-0">
+            <SavedViewsSidebar
+              activeViewId={activeViewId}
+              currentFilters={currentViewFilters}
+              onSelect={handleSelectView}
+            />
+          </aside>
+
+          <div className="flex-1 min-w-0 bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+            <div className="flex flex-col md:flex-row md:items-center space-y-4 md:space-y-0 md:space-x-4 mb-6">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
+                <input
+                  type="text"
+                  placeholder="Search by name, email, facility, or phone..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Filter className="w-5 h-5 text-slate-400" />
+                <select
+                  value={params.status}
+                  onChange={(e) => updateParams({ status: e.target.value === 'All' ? null : e.target.value })}
+                  className="px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                >
+                  <option value="All">All Status</option>
+                  {stages.map((stage) => (
+                    <option key={stage.id} value={stage.name}>{stage.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <UserCheck className="w-5 h-5 text-slate-400" />
+                <select
+                  value={params.owner}
+                  onChange={(e) => updateParams({ owner: e.target.value === 'All' ? null : e.target.value })}
+                  className="px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                >
+                  <option value="All">All Owners</option>
+                  {currentAdmin && <option value="mine">My Leads</option>}
+                  <option value="unassigned">Unassigned</option>
+                  {admins.map((admin) => (
+                    <option key={admin.id} value={admin.id}>{admin.name || admin.email}</option>
+                  ))}
+                </select>
+              </div>
+
+              <button
+                onClick={() => setShowMoreFilters(!showMoreFilters)}
+                className={`flex items-center justify-center space-x-2 px-4 py-2 border rounded-lg transition-colors ${
+                  moreFiltersCount > 0 ? 'border-[#531B93] text-[#531B93] bg-purple-50' : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                <span>More filters{moreFiltersCount > 0 ? ` (${moreFiltersCount})` : ''}</span>
+              </button>
 
-            <div className="flex items-center space-x-2">
-              <Filter className="w-5 h-5 text-slate-400" />
-              <select
-                value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value)}
-                className="px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+              <button
+                onClick={() => setShowFilterBuilder(true)}
+                className={`flex items-center justify-center space-x-2 px-4 py-2 border rounded-lg transition-colors ${
+                  advancedRuleCount > 0 ? 'border-[#531B93] text-[#531B93] bg-purple-50' : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+                }`}
               >
-                <option value="All">All Status</option>
-                <option value="New">New</option>
-                <option value="Contacted">Contacted</option>
-                <option value="Qualified Prospect">Qualified Prospect</option>
-                <option value="Contract Sent">Contract Sent</option>
-                <option value="Confirmed Client">Confirmed Client</option>
-                <option value="Closed">Closed</option>
-              </select>
+                <ListFilter className="w-4 h-4" />
+                <span>Advanced{advancedRuleCount > 0 ? ` (${advancedRuleCount})` : ''}</span>
+              </button>
             </div>
-          </div>
 
-          <div className="overflow-auto">
-            <table className="w-full min-w-max border-collapse">
-              <thead>
-                <tr className="bg-slate-50 border-b border-slate-200">
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Name</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Email</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Phone</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Facility</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">State</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Source</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Added By</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Product/Service</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Score</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Stage</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">$ Value/Year</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Date Contacted</th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap">Actions</th>
-                </tr>
-              </thead>
-              <tbody>
-                {filteredLeads.map((lead, index) => (
-                  <tr key={lead.id} className={`border-b border-slate-200 ${index % 2 === 0 ? 'bg-white' : 'bg-slate-50'} hover:bg-slate-100 transition-colors`}>
-                    <td className="py-4 px-4 text-sm text-slate-900 font-semibold whitespace-nowrap">{lead.name}</td>
-                    <td className="py-4 px-4 text-sm text-slate-800 whitespace-nowrap">{lead.email}</td>
-                    <td className="py-4 px-4 text-sm text-slate-800 whitespace-nowrap">{lead.phone}</td>
-                    <td className="py-4 px-4 text-sm text-slate-800 whitespace-nowrap">{lead.facility}</td>
-                    <td className="py-4 px-4 text-sm text-slate-800 whitespace-nowrap">{lead.state}</td>
-                    <td className="py-4 px-4 whitespace-nowrap">
-                      <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
-                        lead.source === 'Assessment' ? 'bg-purple-100 text-purple-700' :
-                        lead.source === 'Consultancy' ? 'bg-pink-100 text-pink-700' :
-                        'bg-blue-100 text-blue-700'
-                      }`}>
-                        {lead.source}
-                      </span>
-                    </td>
-                    <td className="py-4 px-4 text-sm text-slate-700 whitespace-nowrap">{lead.added_by || 'System'}</td>
-                    <td className="py-4 px-4 text-sm text-slate-600 whitespace-nowrap">{lead.product_service}</td>
-                    <td className="py-4 px-4 text-sm text-slate-700 font-semibold whitespace-nowrap">
-                      {lead.score ? lead.score : '-'}
-                    </td>
-                    <td className="py-4 px-4 whitespace-nowrap">
-                      <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${getStatusColor(lead.status, lead.closed_reason)}`}>
-                        {lead.status}{lead.status === 'Closed' && lead.closed_reason ? ` (${lead.closed_reason})` : ''}
-                      </span>
-                    </td>
-                    <td className="py-4 px-4 text-sm text-slate-700 font-medium whitespace-nowrap">
-                      {lead.value_per_annum ? (
-                        <span className="text-green-600">${lead.value_per_annum.toLocaleString()}</span>
-                      ) : (
-                        <span className="text-slate-400">-</span>
-                      )}
-                    </td>
-                    <td className="py-4 px-4 text-sm text-slate-600 whitespace-nowrap">
-                      {formatDateToDDMMYY(lead.created_at)}
-                    </td>
-                    <td className="py-4 px-4 whitespace-nowrap">
-                      <div className="flex items-center space-x-3">
+            {showMoreFilters && (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 mb-6 p-4 bg-slate-50 rounded-lg">
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Source</label>
+                  <select
+                    value={params.source}
+                    onChange={(e) => updateParams({ source: e.target.value === 'All' ? null : e.target.value })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                  >
+                    <option value="All">All Sources</option>
+                    {LEAD_SOURCES.map((source) => (
+                      <option key={source} value={source}>{source}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">State</label>
+                  <select
+                    value={params.state}
+                    onChange={(e) => updateParams({ state: e.target.value === 'All' ? null : e.target.value })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                  >
+                    <option value="All">All States</option>
+                    {ALL_STATES.map((state) => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Date added</label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="date"
+                      value={params.dateFrom}
+                      onChange={(e) => updateParams({ from: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                    />
+                    <span className="text-slate-400">-</span>
+                    <input
+                      type="date"
+                      value={params.dateTo}
+                      onChange={(e) => updateParams({ to: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Score</label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      value={params.scoreMin ?? ''}
+                      onChange={(e) => updateParams({ score_min: e.target.value || null })}
+                      placeholder="Min"
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                    />
+                    <span className="text-slate-400">-</span>
+                    <input
+                      type="number"
+                      value={params.scoreMax ?? ''}
+                      onChange={(e) => updateParams({ score_max: e.target.value || null })}
+                      placeholder="Max"
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Not contacted in</label>
+                  <select
+                    value={params.notContactedDays ?? ''}
+                    onChange={(e) => updateParams({ not_contacted: e.target.value || null })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                  >
+                    <option value="">Any time</option>
+                    {NOT_CONTACTED_DAY_OPTIONS.map((days) => (
+                      <option key={days} value={days}>{days} days</option>
+                    ))}
+                  </select>
+                </div>
+
+                {serviceOptions.length > 0 && (
+                  <div className="md:col-span-2 xl:col-span-4">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Services (any of)</label>
+                    <div className="flex flex-wrap gap-2">
+                      {serviceOptions.map((service) => (
                         <button
-                          onClick={() => navigate(`/admin/leads/${lead.id}`)}
-                          className="text-blue-600 hover:text-blue-800 transition-colors"
-                          title="View Details"
+                          key={service}
+                          onClick={() => toggleServiceFilter(service)}
+                          className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                            params.services.includes(service)
+                              ? 'bg-[#531B93] border-[#531B93] text-white'
+                              : 'bg-white border-slate-300 text-slate-600 hover:border-slate-400'
+                          }`}
                         >
-                          <Eye className="w-5 h-5" />
+                          {service}
                         </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {tagOptions.length > 0 && (
+                  <div className="md:col-span-2 xl:col-span-4">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Tags (any of)</label>
+                    <div className="flex flex-wrap gap-2">
+                      {tagOptions.map((tag) => (
                         <button
-                          onClick={() => handleDeleteLead(lead.id, lead.name)}
-                          className="text-red-600 hover:text-red-800 transition-colors"
-                          title="Delete Lead"
+                          key={tag}
+                          onClick={() => toggleTagFilter(tag)}
+                          className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                            params.tags.includes(tag)
+                              ? 'bg-[#531B93] border-[#531B93] text-white'
+                              : 'bg-white border-slate-300 text-slate-600 hover:border-slate-400'
+                          }`}
                         >
-                          <Trash2 className="w-5 h-5" />
+                          {tag}
                         </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-
-            {filteredLeads.length === 0 && (
-              <div className="text-center py-12 text-slate-500">
-                {searchTerm || statusFilter !== 'All' ? 'No leads match your filters' : 'No leads yet'}
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {isFiltered && (
+                  <div className="md:col-span-2 xl:col-span-4">
+                    <button
+                      onClick={() => {
+                        setSearchInput('');
+                        updateParams({ q: null, status: null, owner: null, source: null, state: null, services: null, tags: null, from: null, to: null, score_min: null, score_max: null, not_contacted: null, filter: null });
+                      }}
+                      className="text-sm text-[#2563EB] hover:underline"
+                    >
+                      Clear all filters
+                    </button>
+                  </div>
+                )}
               </div>
             )}
+
+            {selectedLeads.length > 0 && (
+              <LeadBulkActions
+                selectedLeads={selectedLeads}
+                onClearSelection={() => setSelectedIds([])}
+                onDelete={handleBulkDelete}
+              />
+            )}
+
+            <div className={`overflow-x-auto transition-opacity ${isFetching ? 'opacity-60' : ''}`}>
+              <div style={{ width: TABLE_WIDTH }}>
+                <div className="flex items-center bg-slate-50 border-b border-slate-200 h-11">
+                  {LEAD_COLUMNS.map((column) => (
+                    <div
+                      key={column.key}
+                      style={{ width: column.width }}
+                      className="px-4 flex-shrink-0 text-left text-xs font-medium text-slate-600 uppercase tracking-wider whitespace-nowrap"
+                    >
+                      {column.key === 'select' ? (
+                        <input
+                          type="checkbox"
+                          checked={allVisibleSelected}
+                          onChange={toggleSelectAll}
+                          className="w-4 h-4 text-[#531B93] rounded focus:ring-2 focus:ring-[#531B93]"
+                          title="Select all on this page"
+                        />
+                      ) : column.sort ? (
+                        <button
+                          onClick={() => handleSort(column.sort!)}
+                          className="flex items-center space-x-1 uppercase tracking-wider hover:text-slate-800"
+                        >
+                          <span>{column.label}</span>
+                          {params.sort === column.sort ? (
+                            params.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />
+                          ) : (
+                            <ArrowUpDown className="w-3 h-3 text-slate-300" />
+                          )}
+                        </button>
+                      ) : (
+                        column.label
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {visibleLeads.length > 0 && (
+                  <List
+                    rowComponent={LeadRow}
+                    rowCount={visibleLeads.length}
+                    rowHeight={ROW_HEIGHT}
+                    rowProps={rowProps}
+                    overscanCount={10}
+                    style={{ height: Math.min(visibleLeads.length * ROW_HEIGHT, MAX_LIST_HEIGHT), width: TABLE_WIDTH }}
+                  />
+                )}
+              </div>
+
+              {visibleLeads.length === 0 && (
+                <div className="text-center py-12 text-slate-500">
+                  {isFiltered ? 'No leads match your filters' : 'No leads yet'}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mt-4 text-sm text-slate-600">
+              <span>
+                {matchingCount > 0
+                  ? `Showing ${firstRow + 1}-${firstRow + visibleLeads.length} of ${matchingCount}`
+                  : 'Showing 0 leads'}
+              </span>
+              <div className="flex items-center space-x-3">
+                <select
+                  value={params.pageSize}
+                  onChange={(e) => updateParams({ size: e.target.value })}
+                  className="px-3 py-1.5 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93]"
+                >
+                  {LEAD_PAGE_SIZES.map((size) => (
+                    <option key={size} value={size}>{size} per page</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => updateParams({ page: params.page > 2 ? String(params.page - 1) : null }, false)}
+                  disabled={params.page <= 1}
+                  className="p-1.5 border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                  title="Previous page"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span>Page {params.page} of {pageCount}</span>
+                <button
+                  onClick={() => updateParams({ page: String(params.page + 1) }, false)}
+                  disabled={params.page >= pageCount}
+                  className="p-1.5 border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                  title="Next page"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -293,6 +838,48 @@ export default function LeadDatabase() {
         />
       )}
 
+      {showImportModal && (
+        <ImportLeadsModal
+          onClose={() => setShowImportModal(false)}
+          onSuccess={() => {
+            setShowImportModal(false);
+            queryClient.invalidateQueries({ queryKey: ['leads'] });
+          }}
+        />
+      )}
+
+      {showExportModal && (
+        <ExportLeadsModal
+          filters={queryParams}
+          filterFields={filterFields}
+          filteredCount={matchingCount}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
+      {showFilterBuilder && (
+        <LeadFilterBuilder
+          value={params.advanced}
+          fields={filterFields}
+          stageNames={stages.map((stage) => stage.name)}
+          serviceOptions={serviceOptions}
+          onApply={(tree) => {
+            updateParams({ filter: serializeFilterTree(tree) });
+            setShowFilterBuilder(false);
+          }}
+          onClose={() => setShowFilterBuilder(false)}
+        />
+      )}
+
+      {pendingDelete && (
+        <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 z-50 flex items-center space-x-4 bg-slate-800 text-white px-5 py-3 rounded-lg shadow-xl">
+          <span className="text-sm">Deleted {pendingDelete.length} leads</span>
+          <button onClick={handleUndoDelete} className="text-sm font-semibold text-blue-300 hover:text-blue-200">
+            Undo
+          </button>
+        </div>
+      )}
+
       {showManageServices && (
         <ManageServicesModal onClose={() => setShowManageServices(false)} />
       )}
@@ -2,8 +2,25 @@ import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase, Lead, ConsultancyBooking } from '../lib/supabase';
 import AdminLayout from '../components/AdminLayout';
-import { ArrowLeft, Mail, Phone, Building2, MapPin, Award, Calendar, MessageSquare, DollarSign, Save, RefreshCw, Clock } from 'lucide-react';
-import { formatDateTimeToLocal } from '../lib/dateUtils';
+import LeadTimeline from '../components/LeadTimeline';
+import LeadTasks from '../components/LeadTasks';
+import LeadCustomFields from '../components/LeadCustomFields';
+import LeadAssessments from '../components/LeadAssessments';
+import LeadFacility from '../components/LeadFacility';
+import LeadNotes from '../components/LeadNotes';
+import LeadAttachments from '../components/LeadAttachments';
+import LeadInteractions from '../components/LeadInteractions';
+import RecordTags from '../components/RecordTags';
+import LossReasonModal from '../components/LossReasonModal';
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { useLossReasons } from '../hooks/useLossReasons';
+import { wouldBecomeLost, LossDetails } from '../lib/lossReasons';
+import { assignLeads } from '../lib/leadAssignment';
+import { isLeadClosed, getStage, getInitialStage, getClosingStage, CLOSED_REASON_WON, CLOSED_REASON_LOST } from '../lib/pipelineStages';
+import { ArrowLeft, Mail, Phone, Building2, MapPin, Award, Calendar, MessageSquare, DollarSign, Save, RefreshCw, Clock, UserCheck } from 'lucide-react';
+import { formatDateTimeToLocal, formatDateOnlyToDDMMYY } from '../lib/dateUtils';
+import { getWeightedValue, formatCurrency } from '../lib/forecast';
 
 export default function LeadProfile() {
   const { id } = useParams<{ id: string }>();
@@ -13,10 +30,14 @@ export default function LeadProfile() {
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const [valuePerAnnum, setValuePerAnnum] = useState('');
-  const [notes, setNotes] = useState('');
+  const [expectedCloseDate, setExpectedCloseDate] = useState('');
   const [isEditingValue, setIsEditingValue] = useState(false);
-  const [isEditingNotes, setIsEditingNotes] = useState(false);
   const [enableEdit, setEnableEdit] = useState(false);
+  const { stages } = usePipelineStages();
+  const { admins, currentAdmin } = useAdminUsers();
+  const { lossReasons } = useLossReasons();
+  // Stage change waiting on a loss reason
+  const [lossPrompt, setLossPrompt] = useState<Pick<Lead, 'status' | 'closed_reason'> | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -35,13 +56,13 @@ export default function LeadProfile() {
       if (error) throw error;
       setLead(data);
       setValuePerAnnum(data?.value_per_annum?.toString() || '');
-      setNotes(data?.notes || '');
+      setExpectedCloseDate(data?.expected_close_date || '');
 
       if (data?.source === 'Consultancy') {
         const { data: bookingData } = await supabase
           .from('consultancy_bookings_v2')
           .select('*')
-          .eq('email', data.email)
+          .eq('lead_id', data.id)
           .order('created_at', { ascending: false })
           .limit(1)
           .maybeSingle();
@@ -57,18 +78,22 @@ export default function LeadProfile() {
     }
   };
 
-  const updateStatus = async (status: string) => {
+  const updateStatus = async (status: string, lossDetails?: LossDetails) => {
     if (!lead) return;
+    if (!lossDetails && wouldBecomeLost(lead, { status }, stages)) {
+      setLossPrompt({ status });
+      return;
+    }
     setUpdating(true);
 
     try {
       const { error } = await supabase
         .from('leads')
-        .update({ status })
+        .update({ status, ...lossDetails })
         .eq('id', lead.id);
 
       if (error) throw error;
-      setLead({ ...lead, status });
+      setLead({ ...lead, status, ...lossDetails });
     } catch (error) {
       console.error('Error updating status:', error);
       alert('Failed to update status');
@@ -77,61 +102,65 @@ export default function LeadProfile() {
     }
   };
 
-  const saveValuePerAnnum = async () => {
+  const updateOwner = async (ownerId: string | null) => {
     if (!lead) return;
     setUpdating(true);
 
     try {
-      const value = valuePerAnnum ? parseFloat(valuePerAnnum) : null;
-      const { error } = await supabase
-        .from('leads')
-        .update({ value_per_annum: value })
-        .eq('id', lead.id);
-
-      if (error) throw error;
-      setLead({ ...lead, value_per_annum: value || undefined });
-      setIsEditingValue(false);
+      await assignLeads({ leadIds: [lead.id], ownerId });
+      setLead({ ...lead, owner_id: ownerId });
     } catch (error) {
-      console.error('Error updating value:', error);
-      alert('Failed to update value');
+      console.error('Error updating owner:', error);
+      alert('Failed to update owner');
     } finally {
       setUpdating(false);
     }
   };
 
-  const saveNotes = async () => {
+  const saveValuePerAnnum = async () => {
     if (!lead) return;
     setUpdating(true);
 
     try {
+      const value = valuePerAnnum ? parseFloat(valuePerAnnum) : null;
+      const closeDate = expectedCloseDate || null;
       const { error } = await supabase
         .from('leads')
-        .update({ notes })
+        .update({ value_per_annum: value, expected_close_date: closeDate })
         .eq('id', lead.id);
 
       if (error) throw error;
-      setLead({ ...lead, notes });
-      setIsEditingNotes(false);
+      setLead({ ...lead, value_per_annum: value || undefined, expected_close_date: closeDate });
+      setIsEditingValue(false);
     } catch (error) {
-      console.error('Error updating notes:', error);
-      alert('Failed to update notes');
+      console.error('Error updating value:', error);
+      alert('Failed to update value');
     } finally {
       setUpdating(false);
     }
   };
 
-  const closeLead = async (reason: string) => {
+  const closeLead = async (reason: string, lossDetails?: LossDetails) => {
     if (!lead) return;
+    const closingStage = getClosingStage(stages);
+    if (!closingStage) {
+      alert('No closing stage is configured. Add one in Settings.');
+      return;
+    }
+    if (!lossDetails && wouldBecomeLost(lead, { status: closingStage.name, closed_reason: reason }, stages)) {
+      setLossPrompt({ status: closingStage.name, closed_reason: reason });
+      return;
+    }
     setUpdating(true);
 
     try {
       const { error } = await supabase
         .from('leads')
-        .update({ status: 'Closed', closed_reason: reason })
+        .update({ status: closingStage.name, closed_reason: reason, ...lossDetails })
         .eq('id', lead.id);
 
       if (error) throw error;
-      setLead({ ...lead, status: 'Closed', closed_reason: reason });
+      setLead({ ...lead, status: closingStage.name, closed_reason: reason, ...lossDetails });
     } catch (error) {
       console.error('Error closing lead:', error);
       alert('Failed to close lead');
@@ -176,6 +205,9 @@ export default function LeadProfile() {
     );
   }
 
+  const isClosed = isLeadClosed(lead, stages);
+  const currentStage = getStage(stages, lead.status);
+
   return (
     <AdminLayout>
       <div className="space-y-6">
@@ -194,12 +226,13 @@ export default function LeadProfile() {
               <p className="text-slate-600">Lead Profile Details</p>
             </div>
             <div className="flex space-x-3">
-              {lead.status === 'Closed' ? (
+              {isClosed ? (
                 <button
                   onClick={() => {
                     setEnableEdit(!enableEdit);
-                    if (!enableEdit) {
-                      updateStatus('New');
+                    const initialStage = getInitialStage(stages);
+                    if (!enableEdit && initialStage) {
+                      updateStatus(initialStage.name);
                     }
                   }}
                   disabled={updating}
@@ -211,14 +244,14 @@ export default function LeadProfile() {
               ) : (
                 <>
                   <button
-                    onClick={() => closeLead('Not Interested')}
+                    onClick={() => closeLead(CLOSED_REASON_LOST)}
                     disabled={updating}
                     className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
                   >
                     Close - Not Interested
                   </button>
                   <button
-                    onClick={() => closeLead('Confirmed Client')}
+                    onClick={() => closeLead(CLOSED_REASON_WON)}
                     disabled={updating}
                     className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-lg hover:from-green-600 hover:to-emerald-700 transition-all disabled:opacity-50"
                   >
@@ -251,9 +284,12 @@ export default function LeadProfile() {
                 </div>
                 <div className="flex items-start space-x-3">
                   <Building2 className="w-5 h-5 text-slate-400 mt-0.5" />
-                  <div>
+                  <div className="flex-1 min-w-0">
                     <p className="text-sm text-slate-600">Facility</p>
-                    <p className="text-slate-800 font-medium">{lead.facility}</p>
+                    <LeadFacility
+                      lead={lead}
+                      onChange={(facilityId) => setLead({ ...lead, facility_id: facilityId })}
+                    />
                   </div>
                 </div>
                 <div className="flex items-start space-x-3">
@@ -318,9 +354,23 @@ export default function LeadProfile() {
                     </p>
                   </div>
                 </div>
+                <div className="md:col-span-2">
+                  <p className="text-sm text-slate-600 mb-2">Tags</p>
+                  <RecordTags
+                    table="leads"
+                    id={lead.id}
+                    tags={lead.tags || []}
+                    onSaved={(tags) => setLead({ ...lead, tags })}
+                  />
+                </div>
               </div>
             </div>
 
+            <LeadCustomFields
+              lead={lead}
+              onSaved={(customFields) => setLead({ ...lead, custom_fields: customFields })}
+            />
+
             {booking && (
               <div className="bg-gradient-to-r from-blue-50 to-blue-100 rounded-xl shadow-sm border border-blue-200 p-6">
                 <div className="flex items-center space-x-2 mb-4">
@@ -362,10 +412,25 @@ export default function LeadProfile() {
                       </a>
                     </div>
                   )}
+                  <div className="md:col-span-2">
+                    <p className="text-sm text-blue-700 mb-2">Booking Tags</p>
+                    <RecordTags
+                      table="consultancy_bookings_v2"
+                      id={booking.id}
+                      tags={booking.tags || []}
+                      onSaved={(tags) => setBooking({ ...booking, tags })}
+                    />
+                  </div>
                 </div>
               </div>
             )}
 
+            <LeadInteractions leadId={lead.id} lastContactedAt={lead.last_contacted_at} onLogged={fetchLead} />
+
+            <LeadAssessments leadId={lead.id} />
+
+            <LeadAttachments leadId={lead.id} />
+
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
               <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center space-x-2">
@@ -393,6 +458,15 @@ export default function LeadProfile() {
                       className="w-full pl-8 pr-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm text-slate-600 mb-1">Expected close date</label>
+                    <input
+                      type="date"
+                      value={expectedCloseDate}
+                      onChange={(e) => setExpectedCloseDate(e.target.value)}
+                      className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
+                    />
+                  </div>
                   <div className="flex space-x-2">
                     <button
                       onClick={saveValuePerAnnum}
@@ -405,6 +479,7 @@ export default function LeadProfile() {
                     <button
                       onClick={() => {
                         setValuePerAnnum(lead.value_per_annum?.toString() || '');
+                        setExpectedCloseDate(lead.expected_close_date || '');
                         setIsEditingValue(false);
                       }}
                       className="px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors"
@@ -414,63 +489,30 @@ export default function LeadProfile() {
                   </div>
                 </div>
               ) : (
-                <div className="text-2xl font-bold text-green-600">
-                  {lead.value_per_annum ? `$${lead.value_per_annum.toLocaleString()}` : 'Not set'}
-                </div>
-              )}
-            </div>
-
-            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center space-x-2">
-                  <MessageSquare className="w-5 h-5 text-slate-600" />
-                  <h2 className="text-lg font-semibold text-slate-800">Notes</h2>
-                </div>
-                {!isEditingNotes && (
-                  <button
-                    onClick={() => setIsEditingNotes(true)}
-                    className="text-[#2563EB] hover:text-[#1d4ed8] text-sm font-medium"
-                  >
-                    {lead.notes ? 'Edit' : 'Add Notes'}
-                  </button>
-                )}
-              </div>
-              {isEditingNotes ? (
-                <div className="space-y-3">
-                  <textarea
-                    value={notes}
-                    onChange={(e) => setNotes(e.target.value)}
-                    placeholder="Add notes about this lead..."
-                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
-                    rows={6}
-                  />
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={saveNotes}
-                      disabled={updating}
-                      className="flex items-center space-x-1 px-4 py-2 bg-[#2563EB] text-white rounded-lg hover:bg-[#1d4ed8] transition-colors disabled:opacity-50"
-                    >
-                      <Save className="w-4 h-4" />
-                      <span>Save</span>
-                    </button>
-                    <button
-                      onClick={() => {
-                        setNotes(lead.notes || '');
-                        setIsEditingNotes(false);
-                      }}
-                      className="px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors"
-                    >
-                      Cancel
-                    </button>
+                <div>
+                  <div className="text-2xl font-bold text-green-600">
+                    {lead.value_per_annum ? `$${lead.value_per_annum.toLocaleString()}` : 'Not set'}
                   </div>
-                </div>
-              ) : (
-                <div className="text-slate-700 whitespace-pre-wrap">
-                  {lead.notes || <span className="text-slate-400 italic">No notes added yet</span>}
+                  {!!lead.value_per_annum && !isClosed && (
+                    <p className="text-sm text-slate-600 mt-1">
+                      Weighted {formatCurrency(getWeightedValue(lead, stages))}
+                      {currentStage && ` at ${currentStage.probability}% (${currentStage.name})`}
+                    </p>
+                  )}
+                  <p className="text-sm text-slate-600 mt-1">
+                    Expected close:{' '}
+                    {lead.expected_close_date ? (
+                      <span className="font-medium text-slate-800">{formatDateOnlyToDDMMYY(lead.expected_close_date)}</span>
+                    ) : (
+                      <span className="italic text-slate-400">Not set</span>
+                    )}
+                  </p>
                 </div>
               )}
             </div>
 
+            <LeadNotes leadId={lead.id} />
+
             {lead.comments && (
               <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
                 <div className="flex items-center space-x-2 mb-4">
@@ -481,43 +523,82 @@ export default function LeadProfile() {
               </div>
             )}
 
-            {lead.status === 'Closed' && lead.closed_reason && (
+            {isClosed && lead.closed_reason && (
               <div className={`rounded-xl border-2 p-6 ${
-                lead.closed_reason === 'Confirmed Client'
+                lead.closed_reason === CLOSED_REASON_WON
                   ? 'bg-green-50 border-green-200'
                   : 'bg-red-50 border-red-200'
               }`}>
                 <h2 className="text-lg font-semibold mb-2">
-                  {lead.closed_reason === 'Confirmed Client' ? 'Confirmed Client' : 'Not Interested'}
+                  {lead.closed_reason}
                 </h2>
-                <p className={lead.closed_reason === 'Confirmed Client' ? 'text-green-700' : 'text-red-700'}>
+                <p className={lead.closed_reason === CLOSED_REASON_WON ? 'text-green-700' : 'text-red-700'}>
                   This lead has been closed as: {lead.closed_reason}
                 </p>
+                {lead.loss_reason_id && (
+                  <div className="mt-3 space-y-1 text-sm text-red-800">
+                    <p>
+                      <span className="font-medium">Reason:</span>{' '}
+                      {lossReasons.find((reason) => reason.id === lead.loss_reason_id)?.name || 'Unknown'}
+                      {lead.loss_competitor && ` (lost to ${lead.loss_competitor})`}
+                    </p>
+                    {lead.loss_details && <p className="whitespace-pre-wrap">{lead.loss_details}</p>}
+                  </div>
+                )}
               </div>
             )}
           </div>
 
           <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <div className="flex items-center space-x-2 mb-4">
+                <UserCheck className="w-5 h-5 text-slate-600" />
+                <h2 className="text-lg font-semibold text-slate-800">Owner</h2>
+              </div>
+              <select
+                value={lead.owner_id || ''}
+                onChange={(e) => updateOwner(e.target.value || null)}
+                disabled={updating}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#531B93] disabled:opacity-50"
+              >
+                <option value="">Unassigned</option>
+                {admins.map((admin) => (
+                  <option key={admin.id} value={admin.id}>{admin.name || admin.email}</option>
+                ))}
+              </select>
+              {currentAdmin && lead.owner_id !== currentAdmin.id && (
+                <button
+                  onClick={() => updateOwner(currentAdmin.id)}
+                  disabled={updating}
+                  className="mt-3 text-[#2563EB] hover:text-[#1d4ed8] text-sm font-medium disabled:opacity-50"
+                >
+                  Assign to me
+                </button>
+              )}
+            </div>
+
+            <LeadTasks leadId={lead.id} ownerId={lead.owner_id} />
+
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
               <h2 className="text-lg font-semibold text-slate-800 mb-4">Update Status</h2>
               <div className="space-y-2">
-                {['New', 'Contacted', 'Qualified Prospect', 'Contract Sent', 'Confirmed Client'].map((status) => (
+                {stages.filter((stage) => !stage.is_closed).map((stage) => (
                   <button
-                    key={status}
-                    onClick={() => updateStatus(status)}
-                    disabled={updating || lead.status === 'Closed'}
+                    key={stage.id}
+                    onClick={() => updateStatus(stage.name)}
+                    disabled={updating || isClosed}
                     className={`w-full text-left px-4 py-3 rounded-lg border-2 transition-all disabled:opacity-50 ${
-                      lead.status === status
+                      lead.status === stage.name
                         ? 'bg-blue-50 border-[#2563EB] text-[#2563EB] font-semibold'
                         : 'border-slate-200 text-slate-700 hover:border-blue-300 hover:bg-blue-50'
                     }`}
                   >
-                    {status}
+                    {stage.name}
                   </button>
                 ))}
               </div>
 
-              {lead.status === 'Closed' && (
+              {isClosed && (
                 <div className="mt-4 pt-4 border-t border-slate-200">
                   <p className="text-sm text-slate-600">
                     This lead is closed and cannot be updated.
@@ -547,9 +628,25 @@ export default function LeadProfile() {
                 )}
               </div>
             </div>
+
+            <LeadTimeline leadId={lead.id} />
           </div>
         </div>
       </div>
+
+      {lossPrompt && (
+        <LossReasonModal
+          onClose={() => setLossPrompt(null)}
+          onConfirm={(details) => {
+            setLossPrompt(null);
+            if (lossPrompt.closed_reason) {
+              closeLead(lossPrompt.closed_reason, details);
+            } else {
+              updateStatus(lossPrompt.status, details);
+            }
+          }}
+        />
+      )}
     </AdminLayout>
   );
 }
@@ -0,0 +1,364 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Calendar, CalendarClock, CalendarX, CheckCircle } from 'lucide-react';
+import { TIMEZONES, convertTimeToIST, formatTimeRange, getNextHour, convertToUTC } from '../lib/timezoneUtils';
+import { fetchBookingRules, fetchOpenSlots } from '../lib/bookingAvailability';
+import {
+  fetchManagedBooking,
+  rescheduleManagedBooking,
+  cancelManagedBooking,
+  sendBookingInvites,
+  SLOT_TAKEN_ERROR,
+  ManagedBooking
+} from '../lib/consultancyBookings';
+
+type Mode = 'view' | 'reschedule' | 'cancel';
+
+const formatAppointment = (startsAt: string, timezone: string): string => {
+  return new Date(startsAt).toLocaleString('en-US', {
+    timeZone: timezone,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+export default function ManageBooking() {
+  const { token } = useParams<{ token: string }>();
+  const [booking, setBooking] = useState<ManagedBooking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<Mode>('view');
+  const [timezone, setTimezone] = useState('');
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [availableTimeSlots, setAvailableTimeSlots] = useState<string[]>([]);
+  const [maxDaysAhead, setMaxDaysAhead] = useState<number | null>(null);
+  const [slotTaken, setSlotTaken] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadBooking = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const data = await fetchManagedBooking(token);
+      setBooking(data);
+      if (data) {
+        setTimezone((current) => current || data.timezone);
+      }
+    } catch (error) {
+      console.error('Error fetching booking:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  const fetchAvailableSlots = useCallback(async () => {
+    try {
+      const available = await fetchOpenSlots(date, timezone, booking?.id);
+      setAvailableTimeSlots(available);
+      setTime((current) => (available.includes(current) ? current : ''));
+    } catch (error) {
+      console.error('Error fetching available slots:', error);
+      setAvailableTimeSlots([]);
+    }
+  }, [date, timezone, booking?.id]);
+
+  useEffect(() => {
+    loadBooking();
+    fetchBookingRules()
+      .then((rules) => setMaxDaysAhead(rules?.max_days_ahead ?? null))
+      .catch((error) => console.error('Error fetching booking rules:', error));
+  }, [loadBooking]);
+
+  useEffect(() => {
+    if (mode === 'reschedule' && date && timezone) {
+      fetchAvailableSlots();
+    }
+  }, [mode, date, timezone, fetchAvailableSlots]);
+
+  const openMode = (next: Mode) => {
+    setMode(next);
+    setMessage('');
+    setSlotTaken(false);
+  };
+
+  const handleReschedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const selectedTimezone = TIMEZONES.find(tz => tz.value === timezone);
+      const istTime = convertTimeToIST(date, time, timezone);
+
+      await rescheduleManagedBooking(token!, {
+        preferred_date: date,
+        preferred_time: formatTimeRange(time, getNextHour(time)),
+        time_slot: time,
+        timezone: selectedTimezone?.name || timezone,
+        timezone_value: timezone,
+        ist_time: formatTimeRange(istTime, getNextHour(istTime))
+      }, convertToUTC(date, time, timezone));
+
+      sendBookingInvites();
+      await loadBooking();
+      setMode('view');
+      setDate('');
+      setTime('');
+      setMessage('Your consultation has been rescheduled. An updated calendar invite is on its way.');
+    } catch (error) {
+      if (error instanceof Error && error.message === SLOT_TAKEN_ERROR) {
+        setSlotTaken(true);
+        setTime('');
+        fetchAvailableSlots();
+        return;
+      }
+      console.error('Error rescheduling booking:', error);
+      alert(error instanceof Error ? error.message : 'Failed to reschedule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await cancelManagedBooking(token!, cancelReason);
+      sendBookingInvites();
+      await loadBooking();
+      setMode('view');
+      setCancelReason('');
+      setMessage('Your consultation has been cancelled.');
+    } catch (error) {
+      console.error('Error cancelling booking:', error);
+      alert(error instanceof Error ? error.message : 'Failed to cancel. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="h-full w-full bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center p-4 overflow-auto">
+        <div className="text-slate-600">Loading your booking...</div>
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <div className="h-full w-full bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center p-4 overflow-auto">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+          <p className="text-slate-600 mb-4">This booking link is not valid</p>
+          <a
+            href="/booking"
+            className="text-[#2563EB] hover:text-[#1d4ed8] font-medium"
+          >
+            Book a Consultation
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  const isCancelled = booking.status === 'Cancelled';
+  const isPast = !booking.startsAt || new Date(booking.startsAt).getTime() <= Date.now();
+  const canChange = !isCancelled && booking.status !== 'Completed' && !isPast;
+
+  return (
+    <div className="h-full w-full bg-gradient-to-br from-slate-50 to-blue-50 py-12 px-4 overflow-auto">
+      <div className="max-w-xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center justify-center mb-6">
+            <img src="/og logo.png" alt="Healthcare CRM" className="h-16 w-auto" />
+          </div>
+
+          <h1 className="text-3xl font-bold text-center text-slate-800 mb-2">
+            Your Consultation
+          </h1>
+          <p className="text-center text-slate-600 mb-8">
+            {booking.fullName} · {booking.facility}
+          </p>
+
+          {message && (
+            <div className="flex items-center space-x-2 bg-green-50 border border-green-200 text-green-800 rounded-lg p-4 mb-6">
+              <CheckCircle className="w-5 h-5 flex-shrink-0" />
+              <p className="text-sm">{message}</p>
+            </div>
+          )}
+
+          <div className={`rounded-lg border p-5 mb-6 ${isCancelled ? 'bg-slate-50 border-slate-200' : 'bg-blue-50 border-blue-200'}`}>
+            <div className="flex items-start space-x-3">
+              <Calendar className={`w-6 h-6 mt-0.5 ${isCancelled ? 'text-slate-400' : 'text-[#2563EB]'}`} />
+              <div className="flex-1">
+                <p className={`font-semibold ${isCancelled ? 'text-slate-500 line-through' : 'text-slate-800'}`}>
+                  {booking.startsAt ? formatAppointment(booking.startsAt, timezone) : 'Time to be confirmed'}
+                </p>
+                <p className="text-sm text-slate-600 mt-1">
+                  {booking.productService} · {booking.reason}
+                </p>
+                <p className="text-sm text-slate-500 mt-1">Status: {booking.status}</p>
+              </div>
+            </div>
+            <div className="mt-4">
+              <label className="block text-xs font-medium text-slate-500 mb-1">Show times in</label>
+              <select
+                value={timezone}
+                onChange={(e) => {
+                  setTimezone(e.target.value);
+                  setTime('');
+                }}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB] bg-white"
+              >
+                {!TIMEZONES.some(tz => tz.value === booking.timezone) && (
+                  <option value={booking.timezone}>{booking.timezone}</option>
+                )}
+                {TIMEZONES.map((tz) => (
+                  <option key={tz.value} value={tz.value}>
+                    {tz.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {!canChange && !message && (
+            <p className="text-sm text-slate-500 text-center">
+              {isCancelled
+                ? 'This consultation was cancelled.'
+                : 'This consultation can no longer be changed online. Please contact us if you need help.'}
+            </p>
+          )}
+
+          {canChange && mode === 'view' && (
+            <div className="grid sm:grid-cols-2 gap-3">
+              <button
+                onClick={() => openMode('reschedule')}
+                className="flex items-center justify-center space-x-2 bg-[#2563EB] text-white px-6 py-3 rounded-lg font-semibold hover:bg-[#1d4ed8] transition-colors shadow-md"
+              >
+                <CalendarClock className="w-5 h-5" />
+                <span>Reschedule</span>
+              </button>
+              <button
+                onClick={() => openMode('cancel')}
+                className="flex items-center justify-center space-x-2 border border-red-300 text-red-600 px-6 py-3 rounded-lg font-semibold hover:bg-red-50 transition-colors"
+              >
+                <CalendarX className="w-5 h-5" />
+                <span>Cancel Booking</span>
+              </button>
+            </div>
+          )}
+
+          {canChange && mode === 'reschedule' && (
+            <form onSubmit={handleReschedule} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  New Date *
+                </label>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => {
+                    setDate(e.target.value);
+                    setTime('');
+                  }}
+                  min={new Date().toISOString().split('T')[0]}
+                  max={maxDaysAhead ? new Date(Date.now() + maxDaysAhead * 24 * 60 * 60 * 1000).toISOString().split('T')[0] : undefined}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  New Time Slot *
+                </label>
+                <select
+                  value={time}
+                  onChange={(e) => {
+                    setSlotTaken(false);
+                    setTime(e.target.value);
+                  }}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
+                  style={{ color: time ? '#0f172a' : '#64748b' }}
+                  disabled={!date}
+                  required
+                >
+                  <option value="">Select a time slot</option>
+                  {availableTimeSlots.map((slot) => (
+                    <option key={slot} value={slot} style={{ color: '#0f172a' }}>
+                      {formatTimeRange(slot, getNextHour(slot))}
+                    </option>
+                  ))}
+                </select>
+                {slotTaken && (
+                  <p className="text-sm text-red-600 mt-2">Sorry, that time was just booked by someone else. Please choose another slot.</p>
+                )}
+                {availableTimeSlots.length === 0 && date && (
+                  <p className="text-sm text-amber-600 mt-2">No available time slots for this date. Please select another date.</p>
+                )}
+              </div>
+
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => openMode('view')}
+                  className="flex-1 px-6 py-3 border border-slate-300 text-slate-700 rounded-lg font-semibold hover:bg-slate-50 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 bg-[#2563EB] text-white px-6 py-3 rounded-lg font-semibold hover:bg-[#1d4ed8] transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Rescheduling...' : 'Confirm New Time'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {canChange && mode === 'cancel' && (
+            <form onSubmit={handleCancel} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Why are you cancelling? *
+                </label>
+                <textarea
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  rows={3}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#2563EB]"
+                  required
+                />
+              </div>
+
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => openMode('view')}
+                  className="flex-1 px-6 py-3 border border-slate-300 text-slate-700 rounded-lg font-semibold hover:bg-slate-50 transition-colors"
+                >
+                  Keep Booking
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving || !cancelReason.trim()}
+                  className="flex-1 bg-red-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-red-700 transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Cancelling...' : 'Cancel Booking'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { supabase, Lead } from '../lib/supabase';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { usePageVisibility } from '../hooks/usePageVisibility';
+import { usePipelineStages } from '../hooks/usePipelineStages';
+import AdminLayout from '../components/AdminLayout';
+import LossReasonModal from '../components/LossReasonModal';
+import CloseReasonModal from '../components/CloseReasonModal';
+import { Building2, DollarSign } from 'lucide-react';
+import { STAGE_COLORS, getStage } from '../lib/pipelineStages';
+import { wouldBecomeLost, LossDetails } from '../lib/lossReasons';
+import { fetchAllLeads } from '../lib/leadSearch';
+
+type StageMove = { id: string; status: string; closed_reason?: string };
+
+// Move a lead to another pipeline stage; moves that close it carry a closed reason, and lost deals a loss reason
+async function updateLeadStatus(params: StageMove & { lossDetails?: LossDetails }): Promise<void> {
+  const changes = params.closed_reason ? { closed_reason: params.closed_reason } : {};
+  const { error } = await supabase
+    .from('leads')
+    .update({ status: params.status, ...changes, ...params.lossDetails })
+    .eq('id', params.id);
+
+  if (error) throw error;
+}
+
+export default function Pipeline() {
+  const [draggedLeadId, setDraggedLeadId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [pendingClose, setPendingClose] = useState<{ id: string; status: string } | null>(null);
+  const [pendingLoss, setPendingLoss] = useState<StageMove | null>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isVisible = usePageVisibility();
+  const { stages, isLoading: stagesLoading } = usePipelineStages();
+
+  // LeadDatabase and Dashboard cache under their own keys but share the ['leads'] prefix, so lead invalidations refresh all three
+  const { data: leads = [], isLoading, error } = useQuery({
+    queryKey: ['leads'],
+    // The board shows every lead, so fetch past the per-request row cap
+    queryFn: () => fetchAllLeads(),
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: true,
+    refetchOnReconnect: true,
+  });
+
+  // Optimistically move the card, rolling back if the update fails
+  const moveMutation = useMutation({
+    mutationFn: updateLeadStatus,
+    onMutate: async ({ id, status, closed_reason }) => {
+      await queryClient.cancelQueries({ queryKey: ['leads'] });
+      const previousLeads = queryClient.getQueryData<Lead[]>(['leads']);
+
+      queryClient.setQueryData<Lead[]>(['leads'], (old = []) =>
+        old.map((lead) => (lead.id === id ? { ...lead, status, ...(closed_reason ? { closed_reason } : {}) } : lead))
+      );
+
+      return { previousLeads };
+    },
+    onError: (error, _variables, context) => {
+      console.error('Error moving lead:', error);
+      if (context?.previousLeads) {
+        queryClient.setQueryData(['leads'], context.previousLeads);
+      }
+      alert('Failed to update lead stage');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+    },
+  });
+
+  // Subscribe to realtime updates
+  useRealtimeSubscription(
+    'pipeline_leads_changes',
+    'leads',
+    () => {
+      // Skip refetching while our own move is in flight so the card doesn't jump back
+      if (queryClient.isMutating() === 0) {
+        queryClient.invalidateQueries({ queryKey: ['leads'] });
+      }
+    }
+  );
+
+  // Refetch when tab becomes visible
+  useEffect(() => {
+    if (isVisible) {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+    }
+  }, [isVisible, queryClient]);
+
+  const columns = useMemo(() => {
+    return stages.map((stage) => {
+      const columnLeads = leads.filter((lead) => lead.status === stage.name);
+      const totalValue = columnLeads.reduce((sum, lead) => sum + (lead.value_per_annum || 0), 0);
+      return { stage, status: stage.name, leads: columnLeads, totalValue };
+    });
+  }, [leads, stages]);
+
+  const handleDrop = (status: string) => {
+    setDropTarget(null);
+    if (!draggedLeadId) return;
+
+    const lead = leads.find((l) => l.id === draggedLeadId);
+    setDraggedLeadId(null);
+
+    if (!lead || lead.status === status) return;
+
+    // Stages that are closed without a fixed outcome need to know how the deal ended
+    const stage = getStage(stages, status);
+    if (stage?.is_closed && !stage.is_won && !stage.is_lost) {
+      setPendingClose({ id: lead.id, status });
+      return;
+    }
+    move(lead, { id: lead.id, status });
+  };
+
+  const move = (lead: Lead, stageMove: StageMove) => {
+    if (wouldBecomeLost(lead, stageMove, stages)) {
+      setPendingLoss(stageMove);
+      return;
+    }
+    moveMutation.mutate(stageMove);
+  };
+
+  if (isLoading || stagesLoading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-slate-600">Loading pipeline...</div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-red-600">Error loading pipeline. Please refresh the page.</div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-slate-800 mb-2">Pipeline</h1>
+          <p className="text-slate-600 text-sm sm:text-base">Drag leads between stages to update their status</p>
+        </div>
+
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {columns.map((column) => (
+            <div
+              key={column.status}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(column.status);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={() => handleDrop(column.status)}
+              className={`flex-shrink-0 w-72 bg-slate-100 rounded-xl border-t-4 ${(STAGE_COLORS[column.stage.color] || STAGE_COLORS.slate).border} ${
+                dropTarget === column.status ? 'ring-2 ring-[#531B93]' : ''
+              }`}
+            >
+              <div className="p-4 border-b border-slate-200">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-semibold text-slate-800">{column.status}</h2>
+                  <span className="text-xs font-medium bg-white text-slate-600 px-2 py-1 rounded-full">
+                    {column.leads.length}
+                  </span>
+                </div>
+                <p className="text-sm text-green-600 font-medium mt-1">
+                  ${column.totalValue.toLocaleString()}/yr
+                </p>
+              </div>
+
+              <div className="p-3 space-y-3 min-h-[200px] max-h-[65vh] overflow-y-auto">
+                {column.leads.map((lead) => (
+                  <div
+                    key={lead.id}
+                    draggable
+                    onDragStart={() => setDraggedLeadId(lead.id)}
+                    onDragEnd={() => {
+                      setDraggedLeadId(null);
+                      setDropTarget(null);
+                    }}
+                    onClick={() => navigate(`/admin/leads/${lead.id}`)}
+                    className={`bg-white rounded-lg shadow-sm border border-slate-200 p-3 cursor-grab hover:shadow-md transition-shadow ${
+                      draggedLeadId === lead.id ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <p className="font-semibold text-slate-900 text-sm">{lead.name}</p>
+                    <div className="flex items-center space-x-1 text-xs text-slate-600 mt-1">
+                      <Building2 className="w-3 h-3" />
+                      <span className="truncate">{lead.facility}</span>
+                    </div>
+                    <div className="flex items-center justify-between mt-2">
+                      <span className="text-xs text-slate-500">{lead.source}</span>
+                      {lead.value_per_annum ? (
+                        <span className="flex items-center text-xs font-medium text-green-600">
+                          <DollarSign className="w-3 h-3" />
+                          {lead.value_per_annum.toLocaleString()}
+                        </span>
+                      ) : null}
+                    </div>
+                    {column.stage.is_closed && lead.closed_reason && (
+                      <p className="text-xs text-slate-500 mt-1">{lead.closed_reason}</p>
+                    )}
+                  </div>
+                ))}
+
+                {column.leads.length === 0 && (
+                  <p className="text-center text-sm text-slate-400 py-8">No leads</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {pendingClose && (
+        <CloseReasonModal
+          onClose={() => setPendingClose(null)}
+          onConfirm={(reason) => {
+            const lead = leads.find((l) => l.id === pendingClose.id);
+            setPendingClose(null);
+            if (lead) move(lead, { ...pendingClose, closed_reason: reason });
+          }}
+        />
+      )}
+
+      {pendingLoss && (
+        <LossReasonModal
+          onClose={() => setPendingLoss(null)}
+          onConfirm={(lossDetails) => {
+            setPendingLoss(null);
+            moveMutation.mutate({ ...pendingLoss, lossDetails });
+          }}
+        />
+      )}
+    </AdminLayout>
+  );
+}
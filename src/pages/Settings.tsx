@@ -0,0 +1,32 @@
+import AdminLayout from '../components/AdminLayout';
+import PipelineStagesManager from '../components/PipelineStagesManager';
+import LeadAssignmentManager from '../components/LeadAssignmentManager';
+import CustomFieldsManager from '../components/CustomFieldsManager';
+import TagsManager from '../components/TagsManager';
+import LossReasonsManager from '../components/LossReasonsManager';
+import BookingAvailabilityManager from '../components/BookingAvailabilityManager';
+
+export default function Settings() {
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-slate-800 mb-2">Settings</h1>
+          <p className="text-slate-600 text-sm sm:text-base">Configure how the CRM works for your team</p>
+        </div>
+
+        <PipelineStagesManager />
+
+        <LossReasonsManager />
+
+        <LeadAssignmentManager />
+
+        <BookingAvailabilityManager />
+
+        <CustomFieldsManager />
+
+        <TagsManager />
+      </div>
+    </AdminLayout>
+  );
+}
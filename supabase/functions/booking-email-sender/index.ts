@@ -0,0 +1,304 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// Consultations are booked in one-hour slots
+const MEETING_MINUTES = 60;
+
+// Follow-ups go out an hour after the meeting ends, and not at all once it is two days old
+const FOLLOW_UP_DELAY = HOUR;
+const FOLLOW_UP_WINDOW = 48 * HOUR;
+
+// The booking-invite-email function sends the confirmation, with the calendar invite attached
+type EmailType = "reminder_24h" | "reminder_1h" | "follow_up";
+
+interface Booking {
+  id: string;
+  full_name: string;
+  email: string;
+  facility: string;
+  product_service: string;
+  reason: string;
+  timezone_value: string;
+  status: string;
+  created_at: string;
+  slots: { time_slot_utc: string }[];
+}
+
+interface SentEmail {
+  booking_id: string;
+  email_type: EmailType;
+  slot_utc: string;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function formatWhen(start: Date, timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      dateStyle: "full",
+      timeStyle: "short",
+    }).format(start) + ` (${timezone})`;
+  } catch {
+    return start.toUTCString();
+  }
+}
+
+function sentKey(bookingId: string, emailType: EmailType, slotUtc: Date): string {
+  return `${bookingId}:${emailType}:${slotUtc.getTime()}`;
+}
+
+// Which emails are due for a booking right now, ignoring what was already sent
+function getDueEmails(booking: Booking, start: Date, now: number): EmailType[] {
+  const startsIn = start.getTime() - now;
+  const endedAgo = now - (start.getTime() + MEETING_MINUTES * 60 * 1000);
+  const due: EmailType[] = [];
+
+  if (startsIn > 0 && startsIn <= HOUR) {
+    due.push("reminder_1h");
+  } else if (startsIn > HOUR && startsIn <= 24 * HOUR) {
+    // Bookings made less than a day ahead only just got their confirmation
+    if (start.getTime() - new Date(booking.created_at).getTime() > 24 * HOUR) {
+      due.push("reminder_24h");
+    }
+  }
+
+  // Only once an admin has marked the meeting as having taken place
+  if (booking.status === "Completed" && endedAgo >= FOLLOW_UP_DELAY && endedAgo < FOLLOW_UP_WINDOW) {
+    due.push("follow_up");
+  }
+
+  return due;
+}
+
+// Only a hash of the token is stored; the service role can derive the token itself.
+// The email goes out without the link rather than not at all if this fails.
+async function getManageLink(supabase: SupabaseClient, crmUrl: string, bookingId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("booking_manage_token", { p_booking_id: bookingId });
+  if (error || !data) {
+    console.error(`Error deriving manage token for booking ${bookingId}:`, error);
+    return null;
+  }
+  return `${crmUrl}/booking/manage/${data}`;
+}
+
+function renderEmail(
+  emailType: EmailType,
+  booking: Booking,
+  start: Date,
+  crmUrl: string | undefined,
+  manageLink: string | null
+): { subject: string; html: string } {
+  const when = escapeHtml(formatWhen(start, booking.timezone_value));
+
+  const content: Record<EmailType, { subject: string; headline: string; body: string; link: string | null; linkText: string }> = {
+    reminder_24h: {
+      subject: "Reminder: your consultation is tomorrow",
+      headline: "Your consultation is tomorrow",
+      body: "This is a reminder of your upcoming consultation with OG Healthcare.",
+      link: manageLink,
+      linkText: "Can't make it? Reschedule or cancel",
+    },
+    reminder_1h: {
+      subject: "Reminder: your consultation starts in 1 hour",
+      headline: "Your consultation starts in 1 hour",
+      body: "Your consultation with OG Healthcare is about to begin.",
+      link: manageLink,
+      linkText: "Can't make it? Reschedule or cancel",
+    },
+    follow_up: {
+      subject: "Thank you for meeting with OG Healthcare",
+      headline: "Thank you for your time",
+      body: "Thank you for meeting with us. Simply reply to this email if you have any questions, or book another consultation whenever it suits you.",
+      link: crmUrl ? `${crmUrl}/booking` : null,
+      linkText: "Book another consultation",
+    },
+  };
+
+  const { subject, headline, body, link, linkText } = content[emailType];
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b; max-width: 640px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #531B93 0%, #2563EB 100%); color: white; padding: 24px; border-radius: 12px;">
+    <h2 style="margin: 0;">${headline}</h2>
+    <p style="margin: 8px 0 0;">${when}</p>
+  </div>
+  <p style="margin-top: 24px;">Hi ${escapeHtml(booking.full_name)},</p>
+  <p>${body}</p>
+  <p style="font-size: 14px; color: #475569;">
+    Facility: ${escapeHtml(booking.facility)}<br>
+    Reason: ${escapeHtml(booking.reason)}<br>
+    Product/Service: ${escapeHtml(booking.product_service)}
+  </p>
+  ${link ? `<p style="margin-top: 24px;"><a href="${link}" style="color: #2563EB;">${linkText}</a></p>` : ""}
+  <p style="color: #64748b; font-size: 12px; margin-top: 32px;"><strong>Gold AI CRM</strong> - OG Healthcare</p>
+</body>
+</html>
+  `;
+
+  return { subject: `${subject} - OG Healthcare`, html };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const mailgunApiKey = Deno.env.get("MAILGUN_API_KEY");
+    const mailgunDomain = Deno.env.get("MAILGUN_DOMAIN");
+    const fromEmail = Deno.env.get("MAILGUN_FROM_EMAIL") || "noreply@goldai.com";
+    const crmUrl = Deno.env.get("CRM_BASE_URL")?.replace(/\/$/, "");
+
+    if (!mailgunApiKey || !mailgunDomain) {
+      return new Response(
+        JSON.stringify({
+          error: "Mailgun credentials not configured",
+          message: "Please add MAILGUN_API_KEY and MAILGUN_DOMAIN to your Supabase project secrets"
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const now = Date.now();
+
+    // Every booking that could still need an email: upcoming, or ended recently enough for a follow-up
+    const { data: bookings, error: bookingsError } = await supabase
+      .from("consultancy_bookings_v2")
+      .select("id, full_name, email, facility, product_service, reason, timezone_value, status, created_at, slots:booking_slots!inner(time_slot_utc)")
+      .neq("status", "Cancelled")
+      .eq("slots.is_booked", true)
+      .gte("slots.time_slot_utc", new Date(now - FOLLOW_UP_WINDOW - MEETING_MINUTES * 60 * 1000).toISOString())
+      .returns<Booking[]>();
+
+    if (bookingsError) throw bookingsError;
+
+    const bookingIds = (bookings || []).map((booking) => booking.id);
+    const sent = new Set<string>();
+
+    if (bookingIds.length > 0) {
+      const { data: log, error: logError } = await supabase
+        .from("booking_email_log")
+        .select("booking_id, email_type, slot_utc")
+        .in("booking_id", bookingIds)
+        .returns<SentEmail[]>();
+
+      if (logError) throw logError;
+
+      for (const row of log || []) {
+        sent.add(sentKey(row.booking_id, row.email_type, new Date(row.slot_utc)));
+      }
+    }
+
+    console.log(`Checking ${bookings?.length || 0} bookings for visitor emails...`);
+    const results = [];
+
+    for (const booking of bookings || []) {
+      const start = new Date(booking.slots[0].time_slot_utc);
+
+      for (const emailType of getDueEmails(booking, start, now)) {
+        if (sent.has(sentKey(booking.id, emailType, start))) continue;
+
+        // Claim the email first so overlapping runs can't send it twice
+        const { error: claimError } = await supabase
+          .from("booking_email_log")
+          .insert({ booking_id: booking.id, email_type: emailType, slot_utc: start.toISOString() });
+
+        if (claimError) {
+          if (claimError.code !== "23505") {
+            console.error(`Error claiming ${emailType} for booking ${booking.id}:`, claimError);
+          }
+          continue;
+        }
+
+        const manageLink = crmUrl && emailType !== "follow_up" ? await getManageLink(supabase, crmUrl, booking.id) : null;
+        const { subject, html } = renderEmail(emailType, booking, start, crmUrl, manageLink);
+
+        const formData = new FormData();
+        formData.append("from", fromEmail);
+        formData.append("to", booking.email);
+        formData.append("subject", subject);
+        formData.append("html", html);
+
+        try {
+          const mailgunResponse = await fetch(
+            `https://api.mailgun.net/v3/${mailgunDomain}/messages`,
+            {
+              method: "POST",
+              headers: {
+                Authorization: `Basic ${btoa(`api:${mailgunApiKey}`)}`,
+              },
+              body: formData,
+            }
+          );
+
+          if (!mailgunResponse.ok) {
+            throw new Error(`Mailgun API error: ${await mailgunResponse.text()}`);
+          }
+
+          results.push({ email: booking.email, type: emailType, status: "sent" });
+        } catch (error) {
+          console.error(`Error sending ${emailType} to ${booking.email}:`, error);
+
+          // Release the claim so the next run retries
+          const { error: releaseError } = await supabase
+            .from("booking_email_log")
+            .delete()
+            .eq("booking_id", booking.id)
+            .eq("email_type", emailType)
+            .eq("slot_utc", start.toISOString());
+
+          if (releaseError) {
+            console.error("Error releasing booking email:", releaseError);
+          }
+
+          results.push({ email: booking.email, type: emailType, status: "failed", error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Booking emails processed",
+        results,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error processing booking emails:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Internal server error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
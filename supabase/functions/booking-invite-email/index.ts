@@ -0,0 +1,412 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Consultations are booked in one-hour slots
+const MEETING_MINUTES = 60;
+
+const BOOKING_FIELDS =
+  "id, full_name, email, phone, facility, product_service, reason, timezone_value, status, invite_sequence, slots:booking_slots(time_slot_utc)";
+
+interface BookingInvite {
+  id: string;
+  full_name: string;
+  email: string;
+  phone: string | null;
+  facility: string;
+  product_service: string;
+  reason: string;
+  timezone_value: string;
+  status: string;
+  invite_sequence: number;
+  slots: { time_slot_utc: string | null }[];
+}
+
+interface Organizer {
+  name: string;
+  email: string;
+}
+
+type InviteMethod = "REQUEST" | "CANCEL" | "PUBLISH";
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// TEXT values escape backslashes, semicolons, commas and newlines (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Parameter values can't be escaped, so drop control characters (including CR/LF) and the
+// delimiters ; : , along with the quotes the value is wrapped in (RFC 5545 3.2)
+function sanitizeParam(value: string): string {
+  return Array.from(value, (char) => {
+    const code = char.charCodeAt(0);
+    return code < 0x20 || code === 0x7f || '";:,'.includes(char) ? " " : char;
+  }).join("").replace(/\s+/g, " ").trim();
+}
+
+const encoder = new TextEncoder();
+
+// Content lines are folded at 75 octets, continuing with a leading space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function getStart(booking: BookingInvite): Date | null {
+  const slot = booking.slots.find((s) => s.time_slot_utc);
+  return slot?.time_slot_utc ? new Date(slot.time_slot_utc) : null;
+}
+
+// Only a hash of the token is stored; the service role can derive the token itself.
+// The email goes out without the link rather than not at all if this fails.
+async function getManageLink(supabase: SupabaseClient, crmUrl: string, bookingId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("booking_manage_token", { p_booking_id: bookingId });
+  if (error || !data) {
+    console.error(`Error deriving manage token for booking ${bookingId}:`, error);
+    return null;
+  }
+  return `${crmUrl}/booking/manage/${data}`;
+}
+
+// Manage tokens are stored as the hex SHA-256 of the token
+async function hashToken(token: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(token)));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function getMethod(booking: BookingInvite, download: boolean): InviteMethod {
+  if (booking.status === "Cancelled") return "CANCEL";
+  return download ? "PUBLISH" : "REQUEST";
+}
+
+function buildInvite(booking: BookingInvite, start: Date, method: InviteMethod, organizer: Organizer): string {
+  const end = new Date(start.getTime() + MEETING_MINUTES * 60 * 1000);
+  const description = [
+    `Reason: ${booking.reason}`,
+    `Product/Service: ${booking.product_service}`,
+    `Facility: ${booking.facility}`,
+    booking.phone ? `Phone: ${booking.phone}` : null,
+  ].filter(Boolean).join("\n");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//OG Healthcare//Gold AI CRM//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+    "BEGIN:VEVENT",
+    `UID:booking-${booking.id}@oghealthcare.com`,
+    `SEQUENCE:${booking.invite_sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(`OG Healthcare consultation with ${booking.full_name}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `ORGANIZER;CN="${sanitizeParam(organizer.name)}":mailto:${organizer.email}`,
+    `ATTENDEE;CN="${sanitizeParam(booking.full_name)}";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${booking.email}`,
+    `STATUS:${method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function formatWhen(start: Date, timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      dateStyle: "full",
+      timeStyle: "short",
+    }).format(start) + ` (${timezone})`;
+  } catch {
+    return start.toUTCString();
+  }
+}
+
+function getHeadline(booking: BookingInvite): string {
+  if (booking.status === "Cancelled") return "Your consultation has been cancelled";
+  if (booking.invite_sequence > 0) return "Your consultation has been updated";
+  return "Your consultation is booked";
+}
+
+async function sendInviteEmail(params: {
+  to: string;
+  subject: string;
+  html: string;
+  invite: string;
+  method: InviteMethod;
+  fromEmail: string;
+  mailgunDomain: string;
+  mailgunApiKey: string;
+}): Promise<void> {
+  const formData = new FormData();
+  formData.append("from", params.fromEmail);
+  formData.append("to", params.to);
+  formData.append("subject", params.subject);
+  formData.append("html", params.html);
+  formData.append(
+    "attachment",
+    new Blob([params.invite], { type: `text/calendar; charset=UTF-8; method=${params.method}` }),
+    params.method === "CANCEL" ? "cancel.ics" : "invite.ics"
+  );
+
+  const mailgunResponse = await fetch(
+    `https://api.mailgun.net/v3/${params.mailgunDomain}/messages`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${btoa(`api:${params.mailgunApiKey}`)}`,
+      },
+      body: formData,
+    }
+  );
+
+  if (!mailgunResponse.ok) {
+    throw new Error(`Mailgun API error: ${await mailgunResponse.text()}`);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const mailgunApiKey = Deno.env.get("MAILGUN_API_KEY");
+    const mailgunDomain = Deno.env.get("MAILGUN_DOMAIN");
+    const fromEmail = Deno.env.get("MAILGUN_FROM_EMAIL") || "noreply@goldai.com";
+    const consultantEmail = Deno.env.get("CONSULTANT_EMAIL");
+    const organizer: Organizer = { name: "OG Healthcare", email: consultantEmail || fromEmail };
+    const crmUrl = Deno.env.get("CRM_BASE_URL")?.replace(/\/$/, "");
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const { bookingId, manageToken } = await req.json().catch(() => ({}));
+
+    // With a booking's manage token, or its id from a signed-in admin, return its invite as a download
+    if (bookingId || manageToken) {
+      const { data: booking, error } = manageToken
+        ? await supabase
+          .from("consultancy_bookings_v2")
+          .select(BOOKING_FIELDS)
+          .eq("manage_token_hash", await hashToken(String(manageToken)))
+          .maybeSingle<BookingInvite>()
+        : await createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+          // The caller's own JWT, so the bookings table's admin-only RLS applies
+          global: { headers: { Authorization: req.headers.get("Authorization") || "" } },
+        })
+          .from("consultancy_bookings_v2")
+          .select(BOOKING_FIELDS)
+          .eq("id", bookingId)
+          .maybeSingle<BookingInvite>();
+
+      if (error) throw error;
+
+      const start = booking ? getStart(booking) : null;
+      if (!booking || !start) {
+        return new Response(
+          JSON.stringify({ error: "No scheduled time found for this booking" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      return new Response(buildInvite(booking, start, getMethod(booking, true), organizer), {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/calendar; charset=UTF-8",
+          "Content-Disposition": 'attachment; filename="consultation.ics"',
+        },
+      });
+    }
+
+    if (!mailgunApiKey || !mailgunDomain) {
+      return new Response(
+        JSON.stringify({
+          error: "Mailgun credentials not configured",
+          message: "Please add MAILGUN_API_KEY and MAILGUN_DOMAIN to your Supabase project secrets"
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Claim the pending invites first so overlapping runs can't email twice
+    const { data: bookings, error: claimError } = await supabase
+      .from("consultancy_bookings_v2")
+      .update({ invite_pending: false })
+      .eq("invite_pending", true)
+      .select(BOOKING_FIELDS)
+      .returns<BookingInvite[]>();
+
+    if (claimError) throw claimError;
+
+    console.log(`Sending ${bookings?.length || 0} booking invites...`);
+    const results = [];
+
+    for (const booking of bookings || []) {
+      const start = getStart(booking);
+      if (!start) continue;
+
+      const method = getMethod(booking, false);
+      const invite = buildInvite(booking, start, method, organizer);
+      const headline = getHeadline(booking);
+
+      const when = escapeHtml(formatWhen(start, booking.timezone_value));
+      const manageLink = crmUrl && booking.status !== "Cancelled"
+        ? await getManageLink(supabase, crmUrl, booking.id)
+        : null;
+      const htmlBody = `
+<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b; max-width: 640px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #531B93 0%, #2563EB 100%); color: white; padding: 24px; border-radius: 12px;">
+    <h2 style="margin: 0;">${headline}</h2>
+    <p style="margin: 8px 0 0;">${when}</p>
+  </div>
+  <p style="margin-top: 24px;">Hi ${escapeHtml(booking.full_name)},</p>
+  <p>${booking.status === "Cancelled"
+    ? "Your consultation with OG Healthcare will not take place. The attached file removes it from your calendar."
+    : "The attached invite adds your consultation with OG Healthcare to your calendar."}</p>
+  <p style="font-size: 14px; color: #475569;">
+    Reason: ${escapeHtml(booking.reason)}<br>
+    Product/Service: ${escapeHtml(booking.product_service)}
+  </p>
+  ${manageLink ? `<p style="margin-top: 24px;">Need to change plans? <a href="${manageLink}" style="color: #2563EB;">Reschedule or cancel your consultation</a></p>` : ""}
+  <p style="color: #64748b; font-size: 12px; margin-top: 32px;"><strong>Gold AI CRM</strong> - OG Healthcare</p>
+</body>
+</html>
+      `;
+
+      try {
+        await sendInviteEmail({
+          to: booking.email,
+          subject: `${headline} - OG Healthcare`,
+          html: htmlBody,
+          invite,
+          method,
+          fromEmail,
+          mailgunDomain,
+          mailgunApiKey,
+        });
+
+        results.push({ email: booking.email, status: "sent" });
+      } catch (error) {
+        console.error(`Error sending booking invite to ${booking.email}:`, error);
+
+        // Release the claim so the next run retries
+        const { error: releaseError } = await supabase
+          .from("consultancy_bookings_v2")
+          .update({ invite_pending: true })
+          .eq("id", booking.id);
+
+        if (releaseError) {
+          console.error("Error releasing booking invite:", releaseError);
+        }
+
+        results.push({ email: booking.email, status: "failed", error: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      // The consultant's copy is best effort; the visitor's invite is what gets retried
+      if (consultantEmail) {
+        const change = booking.status === "Cancelled" ? "Cancelled" : booking.invite_sequence > 0 ? "Updated" : "New";
+        const consultantHtml = `
+<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b; max-width: 640px; margin: 0 auto; padding: 20px;">
+  <h2 style="margin: 0 0 8px;">${change} consultation: ${escapeHtml(booking.full_name)}</h2>
+  <p style="margin: 0 0 16px;">${when}</p>
+  <p style="font-size: 14px; color: #475569;">
+    Facility: ${escapeHtml(booking.facility)}<br>
+    Email: ${escapeHtml(booking.email)}<br>
+    ${booking.phone ? `Phone: ${escapeHtml(booking.phone)}<br>` : ""}
+    Reason: ${escapeHtml(booking.reason)}<br>
+    Product/Service: ${escapeHtml(booking.product_service)}
+  </p>
+  <p style="color: #64748b; font-size: 12px; margin-top: 32px;"><strong>Gold AI CRM</strong> - OG Healthcare</p>
+</body>
+</html>
+        `;
+
+        try {
+          await sendInviteEmail({
+            to: consultantEmail,
+            subject: `${change} consultation: ${booking.full_name}, ${booking.facility}`,
+            html: consultantHtml,
+            invite,
+            method,
+            fromEmail,
+            mailgunDomain,
+            mailgunApiKey,
+          });
+          results.push({ email: consultantEmail, status: "sent" });
+        } catch (error) {
+          console.error(`Error sending booking invite to ${consultantEmail}:`, error);
+          results.push({ email: consultantEmail, status: "failed", error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Booking invites processed",
+        results,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error processing booking invites:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Internal server error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,167 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Mentions older than this are left in the in-app inbox only
+const MAX_AGE_HOURS = 24;
+
+interface PendingMention {
+  id: string;
+  lead_id: string | null;
+  note_id: string | null;
+  actor_name: string | null;
+  admin: { email: string; name: string | null } | null;
+  lead: { name: string; facility: string } | null;
+  note: { body: string } | null;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Same @[Name](admin-id) format the CRM writes into note bodies
+function toPlainText(body: string): string {
+  return body.replace(/@\[([^\]\n]+)\]\(([0-9a-f-]{36})\)/g, "@$1");
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const mailgunApiKey = Deno.env.get("MAILGUN_API_KEY");
+    const mailgunDomain = Deno.env.get("MAILGUN_DOMAIN");
+    const fromEmail = Deno.env.get("MAILGUN_FROM_EMAIL") || "noreply@goldai.com";
+    const crmUrl = Deno.env.get("CRM_BASE_URL")?.replace(/\/$/, "");
+
+    if (!mailgunApiKey || !mailgunDomain) {
+      return new Response(
+        JSON.stringify({
+          error: "Mailgun credentials not configured",
+          message: "Please add MAILGUN_API_KEY and MAILGUN_DOMAIN to your Supabase project secrets"
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const since = new Date(Date.now() - MAX_AGE_HOURS * 60 * 60 * 1000).toISOString();
+
+    // Claim the unsent mentions first so overlapping runs can't email twice
+    const { data: mentions, error: claimError } = await supabase
+      .from("admin_notifications")
+      .update({ emailed_at: new Date().toISOString() })
+      .eq("type", "mention")
+      .is("emailed_at", null)
+      .gte("created_at", since)
+      .select("id, lead_id, note_id, actor_name, admin:admin_users(email, name), lead:leads(name, facility), note:lead_notes(body)")
+      .returns<PendingMention[]>();
+
+    if (claimError) throw claimError;
+
+    console.log(`Sending ${mentions?.length || 0} mention emails...`);
+    const results = [];
+
+    for (const mention of mentions || []) {
+      if (!mention.admin) continue;
+
+      const actor = escapeHtml(mention.actor_name || "A teammate");
+      const leadName = escapeHtml(mention.lead?.name || "a lead");
+      const leadLink = crmUrl && mention.lead_id
+        ? `${crmUrl}/admin/leads/${mention.lead_id}${mention.note_id ? `#note-${mention.note_id}` : ""}`
+        : null;
+      const noteHtml = escapeHtml(toPlainText(mention.note?.body || "")).replace(/\n/g, "<br>");
+
+      const htmlBody = `
+<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b; max-width: 640px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #531B93 0%, #2563EB 100%); color: white; padding: 24px; border-radius: 12px;">
+    <h2 style="margin: 0;">${actor} mentioned you</h2>
+    <p style="margin: 8px 0 0;">In a note on ${leadName}${mention.lead?.facility ? ` (${escapeHtml(mention.lead.facility)})` : ""}</p>
+  </div>
+  <div style="margin-top: 24px; padding: 16px; border-left: 4px solid #531B93; background: #f8fafc; font-size: 14px;">${noteHtml}</div>
+  ${leadLink ? `<p style="margin-top: 24px;"><a href="${leadLink}" style="color: #2563EB;">Open the lead</a></p>` : ""}
+  <p style="color: #64748b; font-size: 12px; margin-top: 32px;"><strong>Gold AI CRM</strong> - OG Healthcare</p>
+</body>
+</html>
+      `;
+
+      const formData = new FormData();
+      formData.append("from", fromEmail);
+      formData.append("to", mention.admin.email);
+      formData.append("subject", `${mention.actor_name || "A teammate"} mentioned you on ${mention.lead?.name || "a lead"}`);
+      formData.append("html", htmlBody);
+
+      try {
+        const mailgunResponse = await fetch(
+          `https://api.mailgun.net/v3/${mailgunDomain}/messages`,
+          {
+            method: "POST",
+            headers: {
+              Authorization: `Basic ${btoa(`api:${mailgunApiKey}`)}`,
+            },
+            body: formData,
+          }
+        );
+
+        if (!mailgunResponse.ok) {
+          throw new Error(`Mailgun API error: ${await mailgunResponse.text()}`);
+        }
+
+        results.push({ email: mention.admin.email, status: "sent" });
+      } catch (error) {
+        console.error(`Error sending mention email to ${mention.admin.email}:`, error);
+
+        // Release the claim so the next run retries
+        const { error: releaseError } = await supabase
+          .from("admin_notifications")
+          .update({ emailed_at: null })
+          .eq("id", mention.id);
+
+        if (releaseError) {
+          console.error("Error releasing mention:", releaseError);
+        }
+
+        results.push({ email: mention.admin.email, status: "failed", error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Mention emails processed",
+        results,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error sending mention emails:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Internal server error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
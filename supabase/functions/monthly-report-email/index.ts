@@ -1,4 +1,5 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,6 +7,15 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
+interface PipelineStage {
+  name: string;
+  is_qualified: boolean;
+  is_won: boolean;
+  is_closed: boolean;
+}
+
+const CLOSED_REASON_WON = "Confirmed Client";
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -34,12 +44,26 @@ Deno.serve(async (req: Request) => {
       return leadMonth === parseInt(month) && leadYear === parseInt(year);
     });
 
-    const confirmedClients = filteredLeads.filter(
-      (l: any) => l.status === 'Confirmed Client' || (l.status === 'Closed' && l.closed_reason === 'Confirmed Client')
-    ).length;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: stageRows, error: stagesError } = await supabase
+      .from("pipeline_stages")
+      .select("name, is_qualified, is_won, is_closed");
+
+    if (stagesError) throw stagesError;
+
+    const stages: PipelineStage[] = stageRows || [];
+    const stageFor = (status: string) => stages.find((s) => s.name === status);
+    const isWon = (lead: { status: string; closed_reason?: string | null }) => {
+      const stage = stageFor(lead.status);
+      return !!stage && (stage.is_won || (stage.is_closed && lead.closed_reason === CLOSED_REASON_WON));
+    };
+
+    const confirmedClients = filteredLeads.filter(isWon).length;
 
+    // Open leads in a qualified stage that are not yet won or closed
     const qualifiedProspects = filteredLeads.filter(
-      (l: any) => l.status === 'Qualified Prospect'
+      (l: any) => !!stageFor(l.status)?.is_qualified && !isWon(l) && !stageFor(l.status)?.is_closed
     ).length;
 
     const emailBody = `
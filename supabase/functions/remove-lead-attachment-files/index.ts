@@ -0,0 +1,133 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const BUCKET = "lead-attachments";
+
+// Files handled per run; anything left over waits for the next one
+const BATCH_SIZE = 100;
+
+interface QueuedRemoval {
+  storage_path: string;
+  attempts: number;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: queued, error: queueError } = await supabase
+      .from("lead_attachment_file_removals")
+      .select("storage_path, attempts")
+      .order("queued_at")
+      .limit(BATCH_SIZE)
+      .returns<QueuedRemoval[]>();
+
+    if (queueError) throw queueError;
+    if (!queued || queued.length === 0) {
+      return jsonResponse({ success: true, removed: 0, failed: 0 });
+    }
+
+    const dequeue = async (paths: string[]) => {
+      if (paths.length === 0) return;
+      const { error } = await supabase
+        .from("lead_attachment_file_removals")
+        .delete()
+        .in("storage_path", paths);
+      if (error) throw error;
+    };
+
+    // Never remove a file an attachment still points at
+    const { data: inUse, error: inUseError } = await supabase
+      .from("lead_attachments")
+      .select("storage_path")
+      .in("storage_path", queued.map((removal) => removal.storage_path));
+
+    if (inUseError) throw inUseError;
+
+    const inUsePaths = new Set((inUse || []).map((attachment) => attachment.storage_path));
+    await dequeue([...inUsePaths]);
+
+    const removals = queued.filter((removal) => !inUsePaths.has(removal.storage_path));
+    if (removals.length === 0) {
+      return jsonResponse({ success: true, removed: 0, failed: 0 });
+    }
+
+    const recordFailure = async (removal: QueuedRemoval, message: string) => {
+      console.error(`Error removing ${removal.storage_path}:`, message);
+      const { error } = await supabase
+        .from("lead_attachment_file_removals")
+        .update({ attempts: removal.attempts + 1, last_error: message, last_attempt_at: new Date().toISOString() })
+        .eq("storage_path", removal.storage_path);
+      if (error) console.error("Error recording failed removal:", error);
+    };
+
+    const { data: removed, error: removeError } = await supabase.storage
+      .from(BUCKET)
+      .remove(removals.map((removal) => removal.storage_path));
+
+    if (removeError) {
+      for (const removal of removals) {
+        await recordFailure(removal, removeError.message);
+      }
+      return jsonResponse({ success: false, removed: 0, failed: removals.length }, 500);
+    }
+
+    // Storage reports only the objects it deleted; anything else is either already gone or still there
+    const removedPaths = new Set((removed || []).map((object) => object.name));
+    const done: string[] = [];
+    let failed = 0;
+
+    for (const removal of removals) {
+      if (removedPaths.has(removal.storage_path)) {
+        done.push(removal.storage_path);
+        continue;
+      }
+
+      const slash = removal.storage_path.lastIndexOf("/");
+      const folder = removal.storage_path.slice(0, Math.max(slash, 0));
+      const fileName = removal.storage_path.slice(slash + 1);
+      const { data: listed, error: listError } = await supabase.storage
+        .from(BUCKET)
+        .list(folder, { search: fileName });
+
+      if (listError) {
+        await recordFailure(removal, listError.message);
+        failed++;
+      } else if ((listed || []).some((object) => object.name === fileName)) {
+        await recordFailure(removal, "Storage did not remove the file");
+        failed++;
+      } else {
+        done.push(removal.storage_path);
+      }
+    }
+
+    await dequeue(done);
+
+    return jsonResponse({ success: failed === 0, removed: done.length, failed }, failed === 0 ? 200 : 500);
+  } catch (error) {
+    console.error("Error removing lead attachment files:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
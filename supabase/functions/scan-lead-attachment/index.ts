@@ -0,0 +1,146 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const BUCKET = "lead-attachments";
+const MAX_BYTES = 25 * 1024 * 1024;
+
+// Same allowlist as src/lib/leadAttachments.ts; an empty list means a text file
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+const OLE = [0xd0, 0xcf, 0x11, 0xe0];
+const SIGNATURES: Record<string, number[][]> = {
+  "application/pdf": [[0x25, 0x50, 0x44, 0x46]],
+  "application/msword": [OLE],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [ZIP],
+  "application/vnd.ms-excel": [OLE],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [ZIP],
+  "application/vnd.ms-powerpoint": [OLE],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": [ZIP],
+  "text/plain": [],
+  "text/csv": [],
+  "image/png": [[0x89, 0x50, 0x4e, 0x47]],
+  "image/jpeg": [[0xff, 0xd8, 0xff]],
+};
+
+function matchesType(bytes: Uint8Array, mimeType: string): boolean {
+  const signatures = SIGNATURES[mimeType];
+  if (!signatures) return false;
+
+  const header = bytes.subarray(0, 512);
+  return signatures.length === 0
+    ? !header.includes(0)
+    : signatures.some((signature) => signature.every((byte, i) => header[i] === byte));
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const scanUrl = Deno.env.get("VIRUS_SCAN_URL");
+    const scanApiKey = Deno.env.get("VIRUS_SCAN_API_KEY");
+
+    const { attachmentId } = await req.json();
+    if (!attachmentId) {
+      return jsonResponse({ error: "attachmentId is required" }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: attachment, error: attachmentError } = await supabase
+      .from("lead_attachments")
+      .select("id, storage_path, file_name, mime_type, scan_status")
+      .eq("id", attachmentId)
+      .maybeSingle();
+
+    if (attachmentError) throw attachmentError;
+    if (!attachment) {
+      return jsonResponse({ error: "Attachment not found" }, 404);
+    }
+
+    // Files are scanned right after upload; a scan that errored can be run again
+    if (attachment.scan_status !== "pending" && attachment.scan_status !== "failed") {
+      return jsonResponse({ success: true, status: attachment.scan_status });
+    }
+
+    const recordResult = async (status: string, result: string | null, removeFile: boolean) => {
+      if (removeFile) {
+        const { error: removeError } = await supabase.storage.from(BUCKET).remove([attachment.storage_path]);
+        if (removeError) console.error("Error removing rejected file:", removeError);
+      }
+
+      const { error: updateError } = await supabase
+        .from("lead_attachments")
+        .update({ scan_status: status, scan_result: result, scanned_at: new Date().toISOString() })
+        .eq("id", attachment.id);
+
+      if (updateError) throw updateError;
+      return jsonResponse({ success: true, status, result });
+    };
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(BUCKET)
+      .download(attachment.storage_path);
+
+    if (downloadError) throw downloadError;
+
+    // The browser checks these too, but uploads can bypass the CRM
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (bytes.length > MAX_BYTES) {
+      return await recordResult("rejected", "File is larger than 25 MB", true);
+    }
+    if (!matchesType(bytes, attachment.mime_type)) {
+      return await recordResult("rejected", "File content does not match its type", true);
+    }
+
+    if (!scanUrl) {
+      console.log(`No VIRUS_SCAN_URL configured, skipping scan of ${attachment.file_name}`);
+      return await recordResult("skipped", null, false);
+    }
+
+    try {
+      const formData = new FormData();
+      formData.append("file", new Blob([bytes], { type: attachment.mime_type }), attachment.file_name);
+
+      const scanResponse = await fetch(scanUrl, {
+        method: "POST",
+        headers: scanApiKey ? { Authorization: `Bearer ${scanApiKey}` } : undefined,
+        body: formData,
+      });
+
+      if (!scanResponse.ok) {
+        throw new Error(`Scanner error: ${await scanResponse.text()}`);
+      }
+
+      const scan: { infected: boolean; viruses?: string[] } = await scanResponse.json();
+
+      return scan.infected
+        ? await recordResult("infected", (scan.viruses || []).join(", ") || "Malware detected", true)
+        : await recordResult("clean", null, false);
+    } catch (error) {
+      console.error(`Error scanning ${attachment.file_name}:`, error);
+      return await recordResult("failed", error instanceof Error ? error.message : String(error), false);
+    }
+  } catch (error) {
+    console.error("Error in attachment scan:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
@@ -12,6 +12,32 @@ interface EmailData {
   toEmail?: string;
 }
 
+interface PipelineStage {
+  name: string;
+  color: string;
+  probability: number;
+  is_qualified: boolean;
+  is_won: boolean;
+  is_lost: boolean;
+  is_closed: boolean;
+}
+
+// Badge colors per pipeline_stages.color key (mirrors src/lib/pipelineStages.ts)
+const STAGE_BADGE_COLORS: Record<string, { background: string; color: string }> = {
+  blue: { background: "#dbeafe", color: "#1e40af" },
+  yellow: { background: "#fef3c7", color: "#92400e" },
+  green: { background: "#d1fae5", color: "#065f46" },
+  emerald: { background: "#d1fae5", color: "#065f46" },
+  purple: { background: "#e9d5ff", color: "#6b21a8" },
+  indigo: { background: "#e0e7ff", color: "#3730a3" },
+  pink: { background: "#fce7f3", color: "#9d174d" },
+  orange: { background: "#ffedd5", color: "#9a3412" },
+  red: { background: "#fee2e2", color: "#991b1b" },
+  slate: { background: "#f1f5f9", color: "#475569" },
+};
+
+const CLOSED_REASON_WON = "Confirmed Client";
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -72,18 +98,42 @@ Deno.serve(async (req: Request) => {
 
     if (leadsError) throw leadsError;
 
-    const confirmedClients = leads?.filter(
-      (l: any) => l.status === "Confirmed Client" || (l.status === "Closed" && l.closed_reason === "Confirmed Client")
-    ).length || 0;
+    const { data: stageRows, error: stagesError } = await supabase
+      .from("pipeline_stages")
+      .select("name, color, probability, is_qualified, is_won, is_lost, is_closed");
+
+    if (stagesError) throw stagesError;
 
+    const stages: PipelineStage[] = stageRows || [];
+    const stageFor = (status: string) => stages.find((s) => s.name === status);
+    const isWon = (lead: { status: string; closed_reason?: string | null }) => {
+      const stage = stageFor(lead.status);
+      return !!stage && (stage.is_won || (stage.is_closed && lead.closed_reason === CLOSED_REASON_WON));
+    };
+    const isLost = (lead: { status: string; closed_reason?: string | null }) => {
+      const stage = stageFor(lead.status);
+      return !!stage && (stage.is_lost || (stage.is_closed && !!lead.closed_reason && lead.closed_reason !== CLOSED_REASON_WON));
+    };
+
+    const confirmedClients = leads?.filter(isWon).length || 0;
+
+    // Open leads in a qualified stage that are not yet won or closed
     const qualifiedProspects = leads?.filter(
-      (l: any) => l.status === "Qualified Prospect"
+      (l) => !!stageFor(l.status)?.is_qualified && !isWon(l) && !stageFor(l.status)?.is_closed
     ).length || 0;
 
     const totalValue = leads?.reduce((sum: number, lead: any) => {
       return sum + (lead.value_per_annum || 0);
     }, 0) || 0;
 
+    // Won deals in full, open deals at their stage probability, as on the dashboard forecast
+    const weightedValue = leads?.reduce((sum: number, lead: { status: string; closed_reason?: string | null; value_per_annum?: number | null }) => {
+      const stage = stageFor(lead.status);
+      if (isWon(lead)) return sum + (lead.value_per_annum || 0);
+      if (!stage || stage.is_closed || stage.is_lost) return sum;
+      return sum + ((lead.value_per_annum || 0) * stage.probability) / 100;
+    }, 0) || 0;
+
     const htmlBody = `
 <!DOCTYPE html>
 <html>
@@ -108,11 +158,6 @@ Deno.serve(async (req: Request) => {
     td { padding: 12px; border-bottom: 1px solid #e2e8f0; font-size: 13px; }
     tr:hover { background: #f8fafc; }
     .status-badge { display: inline-block; padding: 4px 10px; border-radius: 12px; font-size: 11px; font-weight: 600; }
-    .status-new { background: #dbeafe; color: #1e40af; }
-    .status-contacted { background: #fef3c7; color: #92400e; }
-    .status-qualified { background: #d1fae5; color: #065f46; }
-    .status-confirmed { background: #d1fae5; color: #065f46; }
-    .status-closed { background: #f1f5f9; color: #475569; }
     .footer { text-align: center; padding: 30px; color: #64748b; font-size: 12px; background: #f8fafc; }
   </style>
 </head>
@@ -142,6 +187,10 @@ Deno.serve(async (req: Request) => {
             <p class="stat-value">$${totalValue.toLocaleString()}</p>
             <p class="stat-label">Total Value/Year</p>
           </div>
+          <div class="stat" style="border-left-color: #2563EB;">
+            <p class="stat-value">$${Math.round(weightedValue).toLocaleString()}</p>
+            <p class="stat-label">Weighted Value/Year</p>
+          </div>
         </div>
       </div>
       <h3 style="color: #531B93; margin-top: 30px;">📋 Recent Leads</h3>
@@ -159,13 +208,15 @@ Deno.serve(async (req: Request) => {
         </thead>
         <tbody>
           ${leads.slice(0, 20).map((lead: any) => {
-            const statusClass =
-              lead.status === "New" ? "status-new" :
-              lead.status === "Contacted" ? "status-contacted" :
-              lead.status === "Qualified Prospect" ? "status-qualified" :
-              lead.status === "Confirmed Client" ? "status-confirmed" :
-              "status-closed";
-            
+            const stage = stageFor(lead.status);
+            const colorKey = stage?.is_closed
+              ? (isWon(lead) ? "green" : isLost(lead) ? "red" : stage.color)
+              : stage?.color;
+            const badge = STAGE_BADGE_COLORS[colorKey || "slate"] || STAGE_BADGE_COLORS.slate;
+            const statusLabel = stage?.is_closed && lead.closed_reason
+              ? `${lead.status} (${lead.closed_reason})`
+              : lead.status;
+
             return `
             <tr>
               <td>${new Date(lead.created_at).toLocaleDateString()}</td>
@@ -173,7 +224,7 @@ Deno.serve(async (req: Request) => {
               <td>${lead.facility}</td>
               <td>${lead.source}</td>
               <td>${lead.added_by || "System"}</td>
-              <td><span class="status-badge ${statusClass}">${lead.status}</span></td>
+              <td><span class="status-badge" style="background: ${badge.background}; color: ${badge.color};">${statusLabel}</span></td>
             </tr>
             `;
           }).join("")}
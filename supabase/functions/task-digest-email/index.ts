@@ -0,0 +1,223 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface DueTask {
+  id: string;
+  title: string;
+  due_date: string;
+  assignee_id: string;
+  lead: { id: string; name: string; facility: string } | null;
+}
+
+// "Today" for the digest is the team's working day, not the server's UTC date
+function todayIn(timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(new Date());
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderTaskRows(tasks: DueTask[], crmUrl: string | undefined): string {
+  return tasks.map((task) => {
+    const leadName = escapeHtml(task.lead?.name || "Lead");
+    const leadLabel = crmUrl && task.lead
+      ? `<a href="${crmUrl}/admin/leads/${task.lead.id}" style="color: #2563EB;">${leadName}</a>`
+      : leadName;
+
+    return `
+      <tr>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;">${escapeHtml(task.title)}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;">${leadLabel}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0; white-space: nowrap;">${task.due_date}</td>
+      </tr>
+    `;
+  }).join("");
+}
+
+function renderSection(title: string, color: string, tasks: DueTask[], crmUrl: string | undefined): string {
+  if (tasks.length === 0) return "";
+
+  return `
+    <h3 style="color: ${color}; margin-top: 24px;">${title} (${tasks.length})</h3>
+    <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+      <thead>
+        <tr style="background: #f8fafc; text-align: left;">
+          <th style="padding: 8px;">Task</th>
+          <th style="padding: 8px;">Lead</th>
+          <th style="padding: 8px;">Due</th>
+        </tr>
+      </thead>
+      <tbody>${renderTaskRows(tasks, crmUrl)}</tbody>
+    </table>
+  `;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const mailgunApiKey = Deno.env.get("MAILGUN_API_KEY");
+    const mailgunDomain = Deno.env.get("MAILGUN_DOMAIN");
+    const fromEmail = Deno.env.get("MAILGUN_FROM_EMAIL") || "noreply@goldai.com";
+    const crmUrl = Deno.env.get("CRM_BASE_URL")?.replace(/\/$/, "");
+    const timeZone = Deno.env.get("TASK_DIGEST_TIMEZONE") || "Asia/Kolkata";
+
+    if (!mailgunApiKey || !mailgunDomain) {
+      return new Response(
+        JSON.stringify({
+          error: "Mailgun credentials not configured",
+          message: "Please add MAILGUN_API_KEY and MAILGUN_DOMAIN to your Supabase project secrets"
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const today = todayIn(timeZone);
+
+    console.log(`Starting task digest for ${today} (${timeZone})...`);
+
+    const { data: tasks, error: tasksError } = await supabase
+      .from("lead_tasks")
+      .select("id, title, due_date, assignee_id, lead:leads(id, name, facility)")
+      .eq("is_done", false)
+      .not("assignee_id", "is", null)
+      .lte("due_date", today)
+      .order("due_date")
+      .returns<DueTask[]>();
+
+    if (tasksError) throw tasksError;
+
+    const { data: admins, error: adminsError } = await supabase
+      .from("admin_users")
+      .select("id, email, name")
+      .returns<AdminUser[]>();
+
+    if (adminsError) throw adminsError;
+
+    const { data: alreadySent, error: logError } = await supabase
+      .from("task_digest_log")
+      .select("admin_id")
+      .eq("sent_on", today);
+
+    if (logError) throw logError;
+
+    const sentAdminIds = new Set((alreadySent || []).map((row: { admin_id: string }) => row.admin_id));
+    const results = [];
+
+    for (const admin of admins || []) {
+      const adminTasks = (tasks || []).filter((task) => task.assignee_id === admin.id);
+
+      if (adminTasks.length === 0) {
+        results.push({ email: admin.email, status: "skipped", reason: "No tasks due" });
+        continue;
+      }
+
+      if (sentAdminIds.has(admin.id)) {
+        results.push({ email: admin.email, status: "skipped", reason: "Already sent today" });
+        continue;
+      }
+
+      const overdue = adminTasks.filter((task) => task.due_date < today);
+      const dueToday = adminTasks.filter((task) => task.due_date === today);
+
+      const htmlBody = `
+<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b; max-width: 640px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #531B93 0%, #2563EB 100%); color: white; padding: 24px; border-radius: 12px;">
+    <h2 style="margin: 0;">Your follow-ups for ${today}</h2>
+    <p style="margin: 8px 0 0;">Hi ${escapeHtml(admin.name || admin.email)}, you have ${adminTasks.length} open task${adminTasks.length === 1 ? "" : "s"} due.</p>
+  </div>
+  ${renderSection("Overdue", "#dc2626", overdue, crmUrl)}
+  ${renderSection("Due today", "#d97706", dueToday, crmUrl)}
+  <p style="color: #64748b; font-size: 12px; margin-top: 32px;"><strong>Gold AI CRM</strong> - OG Healthcare</p>
+</body>
+</html>
+      `;
+
+      const formData = new FormData();
+      formData.append("from", fromEmail);
+      formData.append("to", admin.email);
+      formData.append("subject", `${adminTasks.length} follow-up task${adminTasks.length === 1 ? "" : "s"} due${overdue.length > 0 ? ` (${overdue.length} overdue)` : ""}`);
+      formData.append("html", htmlBody);
+
+      try {
+        const mailgunResponse = await fetch(
+          `https://api.mailgun.net/v3/${mailgunDomain}/messages`,
+          {
+            method: "POST",
+            headers: {
+              Authorization: `Basic ${btoa(`api:${mailgunApiKey}`)}`,
+            },
+            body: formData,
+          }
+        );
+
+        if (!mailgunResponse.ok) {
+          throw new Error(`Mailgun API error: ${await mailgunResponse.text()}`);
+        }
+
+        const { error: insertError } = await supabase
+          .from("task_digest_log")
+          .insert({ admin_id: admin.id, sent_on: today, task_count: adminTasks.length });
+
+        if (insertError) {
+          console.error("Error recording digest:", insertError);
+        }
+
+        results.push({ email: admin.email, status: "sent", taskCount: adminTasks.length });
+      } catch (error) {
+        console.error(`Error sending digest to ${admin.email}:`, error);
+        results.push({ email: admin.email, status: "failed", error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Task digests processed",
+        date: today,
+        results,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in task digest:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Internal server error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,132 @@
+/*
+  # Create Lead Activity History
+
+  1. New Tables
+    - `lead_activities` - Immutable, append-only history of changes to a lead
+      - `id` (uuid, primary key)
+      - `lead_id` (uuid, references leads) - Lead the activity belongs to
+      - `activity_type` (text) - lead_created/booking_created/assessment_submitted/
+        status_changed/value_changed/notes_changed/lead_closed/lead_reopened
+      - `from_value` (text, nullable) - Previous value (stage, value, notes)
+      - `to_value` (text, nullable) - New value
+      - `actor_name` (text, nullable) - Admin name who made the change
+      - `actor_email` (text, nullable) - Admin email who made the change
+      - `created_at` (timestamptz)
+
+  2. Triggers
+    - `log_lead_activity` runs after every INSERT/UPDATE on `leads` and writes one
+      row per changed field. The acting admin is taken from the JWT email, falling
+      back to `added_by_email` for inserts made by the public forms.
+
+  3. Security
+    - Enable RLS on `lead_activities`
+    - Admins can read activities
+    - No insert/update/delete policies: rows are only written by the trigger
+*/
+
+CREATE TABLE IF NOT EXISTS lead_activities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  activity_type text NOT NULL CHECK (activity_type IN (
+    'lead_created',
+    'booking_created',
+    'assessment_submitted',
+    'status_changed',
+    'value_changed',
+    'notes_changed',
+    'lead_closed',
+    'lead_reopened'
+  )),
+  from_value text,
+  to_value text,
+  actor_name text,
+  actor_email text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_activities_lead_id_created_at
+  ON lead_activities(lead_id, created_at DESC);
+
+ALTER TABLE lead_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read lead activities"
+  ON lead_activities FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Write one activity row per meaningful change on a lead
+CREATE OR REPLACE FUNCTION log_lead_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_email text := auth.jwt() ->> 'email';
+  v_actor_name text;
+BEGIN
+  IF v_actor_email IS NULL AND TG_OP = 'INSERT' THEN
+    v_actor_email := NEW.added_by_email;
+  END IF;
+
+  IF v_actor_email IS NOT NULL THEN
+    SELECT name INTO v_actor_name FROM admin_users WHERE email = v_actor_email;
+  END IF;
+
+  IF v_actor_name IS NULL AND TG_OP = 'INSERT' THEN
+    v_actor_name := NEW.added_by;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO lead_activities (lead_id, activity_type, to_value, actor_name, actor_email)
+    VALUES (
+      NEW.id,
+      CASE NEW.source
+        WHEN 'Consultancy' THEN 'booking_created'
+        WHEN 'Assessment' THEN 'assessment_submitted'
+        ELSE 'lead_created'
+      END,
+      NEW.status,
+      v_actor_name,
+      v_actor_email
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (
+      NEW.id,
+      CASE
+        WHEN NEW.status = 'Closed' THEN 'lead_closed'
+        WHEN OLD.status = 'Closed' THEN 'lead_reopened'
+        ELSE 'status_changed'
+      END,
+      OLD.status,
+      CASE
+        WHEN NEW.status = 'Closed' AND NEW.closed_reason IS NOT NULL THEN NEW.status || ' (' || NEW.closed_reason || ')'
+        ELSE NEW.status
+      END,
+      v_actor_name,
+      v_actor_email
+    );
+  ELSIF NEW.status = 'Closed' AND NEW.closed_reason IS DISTINCT FROM OLD.closed_reason THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (NEW.id, 'lead_closed', OLD.closed_reason, NEW.closed_reason, v_actor_name, v_actor_email);
+  END IF;
+
+  IF NEW.value_per_annum IS DISTINCT FROM OLD.value_per_annum THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (NEW.id, 'value_changed', OLD.value_per_annum::text, NEW.value_per_annum::text, v_actor_name, v_actor_email);
+  END IF;
+
+  IF NEW.notes IS DISTINCT FROM OLD.notes THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (NEW.id, 'notes_changed', OLD.notes, NEW.notes, v_actor_name, v_actor_email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS log_lead_activity_trigger ON leads;
+CREATE TRIGGER log_lead_activity_trigger
+  AFTER INSERT OR UPDATE ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION log_lead_activity();
@@ -0,0 +1,178 @@
+/*
+  # Create Configurable Pipeline Stages
+
+  1. New Tables
+    - `pipeline_stages` - Admin-managed list of lead statuses
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - Stage name stored in `leads.status`
+      - `sort_order` (integer) - Column/button order
+      - `color` (text) - Palette key used for badges (blue, yellow, green, ...)
+      - `probability` (integer) - Win probability 0-100 used for forecasting
+      - `is_qualified` (boolean) - Counts towards "Qualified Leads"
+      - `is_won` (boolean) - Lead in this stage is a won deal
+      - `is_lost` (boolean) - Lead in this stage is a lost deal
+      - `is_closed` (boolean) - Terminal stage; outcome comes from `closed_reason`
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes to leads
+    - Drop the hard-coded `leads_status_check` constraint
+    - `leads.status` now references `pipeline_stages(name)`; renaming a stage
+      cascades to leads, deleting a stage in use is rejected
+
+  3. Triggers
+    - `log_lead_activity` now uses `is_closed` instead of the 'Closed' literal
+
+  4. Security
+    - Enable RLS on `pipeline_stages`
+    - Anyone can read stages, only admins can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  color text NOT NULL DEFAULT 'slate',
+  probability integer NOT NULL DEFAULT 0 CHECK (probability BETWEEN 0 AND 100),
+  is_qualified boolean NOT NULL DEFAULT false,
+  is_won boolean NOT NULL DEFAULT false,
+  is_lost boolean NOT NULL DEFAULT false,
+  is_closed boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (NOT (is_won AND is_lost))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_sort_order ON pipeline_stages(sort_order);
+
+-- Seed with the statuses that used to be hard-coded
+INSERT INTO pipeline_stages (name, sort_order, color, probability, is_qualified, is_won, is_lost, is_closed) VALUES
+  ('New', 1, 'blue', 10, false, false, false, false),
+  ('Contacted', 2, 'yellow', 20, false, false, false, false),
+  ('Qualified Prospect', 3, 'green', 40, true, false, false, false),
+  ('Contract Sent', 4, 'purple', 70, true, false, false, false),
+  ('Confirmed Client', 5, 'emerald', 100, true, true, false, false),
+  ('Closed', 6, 'slate', 0, false, false, false, true)
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read pipeline stages"
+  ON pipeline_stages FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert pipeline stages"
+  ON pipeline_stages FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update pipeline stages"
+  ON pipeline_stages FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete pipeline stages"
+  ON pipeline_stages FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION update_pipeline_stages_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_pipeline_stages_updated_at_trigger ON pipeline_stages;
+CREATE TRIGGER update_pipeline_stages_updated_at_trigger
+  BEFORE UPDATE ON pipeline_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_pipeline_stages_updated_at();
+
+-- Replace the hard-coded status list with a reference to pipeline_stages
+ALTER TABLE leads DROP CONSTRAINT IF EXISTS leads_status_check;
+
+ALTER TABLE leads DROP CONSTRAINT IF EXISTS leads_status_fkey;
+ALTER TABLE leads ADD CONSTRAINT leads_status_fkey
+  FOREIGN KEY (status) REFERENCES pipeline_stages(name)
+  ON UPDATE CASCADE
+  ON DELETE RESTRICT;
+
+-- Closing/reopening is now driven by the stage's is_closed flag
+CREATE OR REPLACE FUNCTION log_lead_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_email text := auth.jwt() ->> 'email';
+  v_actor_name text;
+  v_new_closed boolean;
+  v_old_closed boolean;
+BEGIN
+  IF v_actor_email IS NULL AND TG_OP = 'INSERT' THEN
+    v_actor_email := NEW.added_by_email;
+  END IF;
+
+  IF v_actor_email IS NOT NULL THEN
+    SELECT name INTO v_actor_name FROM admin_users WHERE email = v_actor_email;
+  END IF;
+
+  IF v_actor_name IS NULL AND TG_OP = 'INSERT' THEN
+    v_actor_name := NEW.added_by;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO lead_activities (lead_id, activity_type, to_value, actor_name, actor_email)
+    VALUES (
+      NEW.id,
+      CASE NEW.source
+        WHEN 'Consultancy' THEN 'booking_created'
+        WHEN 'Assessment' THEN 'assessment_submitted'
+        ELSE 'lead_created'
+      END,
+      NEW.status,
+      v_actor_name,
+      v_actor_email
+    );
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(is_closed, false) INTO v_new_closed FROM pipeline_stages WHERE name = NEW.status;
+  SELECT COALESCE(is_closed, false) INTO v_old_closed FROM pipeline_stages WHERE name = OLD.status;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (
+      NEW.id,
+      CASE
+        WHEN v_new_closed THEN 'lead_closed'
+        WHEN v_old_closed THEN 'lead_reopened'
+        ELSE 'status_changed'
+      END,
+      OLD.status,
+      CASE
+        WHEN v_new_closed AND NEW.closed_reason IS NOT NULL THEN NEW.status || ' (' || NEW.closed_reason || ')'
+        ELSE NEW.status
+      END,
+      v_actor_name,
+      v_actor_email
+    );
+  ELSIF v_new_closed AND NEW.closed_reason IS DISTINCT FROM OLD.closed_reason THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (NEW.id, 'lead_closed', OLD.closed_reason, NEW.closed_reason, v_actor_name, v_actor_email);
+  END IF;
+
+  IF NEW.value_per_annum IS DISTINCT FROM OLD.value_per_annum THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (NEW.id, 'value_changed', OLD.value_per_annum::text, NEW.value_per_annum::text, v_actor_name, v_actor_email);
+  END IF;
+
+  IF NEW.notes IS DISTINCT FROM OLD.notes THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (NEW.id, 'notes_changed', OLD.notes, NEW.notes, v_actor_name, v_actor_email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,280 @@
+/*
+  # Lead Duplicate Detection and Merge
+
+  1. Changes to existing tables
+    - `leads.normalized_phone` (text, generated) - Last 10 digits of `phone`, so
+      "+1 (555) 123-4567" and "5551234567" compare equal
+    - `consultancy_bookings_v2.lead_id` and `assessments.lead_id` (uuid, nullable)
+      link submissions to their lead instead of matching on email at read time.
+      Existing rows are backfilled by email.
+    - `lead_activities.activity_type` accepts 'lead_merged'
+
+  2. New Tables
+    - `lead_duplicates` - Queue of possible duplicate lead pairs
+      - `id` (uuid, primary key)
+      - `lead_id` (uuid) - The newer lead
+      - `duplicate_of_id` (uuid) - The existing lead it matches
+      - `match_reasons` (text[]) - Any of 'email', 'phone', 'facility'
+      - `status` (text) - pending/dismissed
+      - `resolved_by` (text, nullable) - Admin email who dismissed the pair
+      - `resolved_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+
+  3. Triggers
+    - `link_lead_records` links unlinked bookings/assessments with the same email
+      to a newly inserted lead
+    - `detect_lead_duplicates` queues pairs when a new lead shares an email,
+      normalized phone, or facility + name with an existing lead. Runs for the
+      public assessment/booking forms as well as manual adds.
+
+  4. Functions
+    - `merge_leads(p_survivor_id, p_merged_id, p_fields)` - Admin-only. Copies the
+      chosen field values onto the surviving lead, unions `selected_services`,
+      re-points bookings, assessments, activity history and pending duplicate
+      pairs, logs a 'lead_merged' activity and deletes the merged lead.
+
+  5. Security
+    - Enable RLS on `lead_duplicates`; admins can read and update it
+*/
+
+-- Normalized phone for matching
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'normalized_phone'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN normalized_phone text
+      GENERATED ALWAYS AS (right(regexp_replace(COALESCE(phone, ''), '\D', '', 'g'), 10)) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_email_lower ON leads(lower(email));
+CREATE INDEX IF NOT EXISTS idx_leads_normalized_phone ON leads(normalized_phone);
+CREATE INDEX IF NOT EXISTS idx_leads_facility_lower ON leads(lower(trim(facility)));
+
+-- Link bookings and assessments to leads
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'consultancy_bookings_v2' AND column_name = 'lead_id'
+  ) THEN
+    ALTER TABLE consultancy_bookings_v2 ADD COLUMN lead_id uuid REFERENCES leads(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assessments' AND column_name = 'lead_id'
+  ) THEN
+    ALTER TABLE assessments ADD COLUMN lead_id uuid REFERENCES leads(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_consultancy_bookings_v2_lead_id ON consultancy_bookings_v2(lead_id);
+CREATE INDEX IF NOT EXISTS idx_assessments_lead_id ON assessments(lead_id);
+
+-- Backfill links using the most recent lead with the same email
+UPDATE consultancy_bookings_v2 b
+SET lead_id = (
+  SELECT l.id FROM leads l
+  WHERE lower(l.email) = lower(b.email)
+  ORDER BY l.created_at DESC
+  LIMIT 1
+)
+WHERE b.lead_id IS NULL;
+
+UPDATE assessments a
+SET lead_id = (
+  SELECT l.id FROM leads l
+  WHERE lower(l.email) = lower(a.email)
+  ORDER BY l.created_at DESC
+  LIMIT 1
+)
+WHERE a.lead_id IS NULL;
+
+-- Allow merge entries in the activity history
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_activity_type_check;
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_activity_type_check
+CHECK (activity_type IN (
+  'lead_created',
+  'booking_created',
+  'assessment_submitted',
+  'status_changed',
+  'value_changed',
+  'notes_changed',
+  'lead_closed',
+  'lead_reopened',
+  'lead_merged'
+));
+
+-- Duplicate queue
+CREATE TABLE IF NOT EXISTS lead_duplicates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  duplicate_of_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  match_reasons text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  resolved_by text,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (lead_id, duplicate_of_id),
+  CHECK (lead_id <> duplicate_of_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_duplicates_status ON lead_duplicates(status);
+
+ALTER TABLE lead_duplicates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read lead duplicates"
+  ON lead_duplicates FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update lead duplicates"
+  ON lead_duplicates FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Link submissions made before the lead existed (bookings insert before their lead)
+CREATE OR REPLACE FUNCTION link_lead_records()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE consultancy_bookings_v2
+  SET lead_id = NEW.id
+  WHERE lead_id IS NULL AND lower(email) = lower(NEW.email);
+
+  UPDATE assessments
+  SET lead_id = NEW.id
+  WHERE lead_id IS NULL AND lower(email) = lower(NEW.email);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS link_lead_records_trigger ON leads;
+CREATE TRIGGER link_lead_records_trigger
+  AFTER INSERT ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION link_lead_records();
+
+-- Queue possible duplicates of a new lead
+CREATE OR REPLACE FUNCTION detect_lead_duplicates()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO lead_duplicates (lead_id, duplicate_of_id, match_reasons)
+  SELECT
+    NEW.id,
+    l.id,
+    array_remove(ARRAY[
+      CASE WHEN lower(l.email) = lower(NEW.email) THEN 'email' END,
+      CASE WHEN length(NEW.normalized_phone) >= 7 AND l.normalized_phone = NEW.normalized_phone THEN 'phone' END,
+      CASE WHEN lower(trim(l.facility)) = lower(trim(NEW.facility))
+        AND lower(trim(l.name)) = lower(trim(NEW.name)) THEN 'facility' END
+    ], NULL)
+  FROM leads l
+  WHERE l.id <> NEW.id
+    AND (
+      lower(l.email) = lower(NEW.email)
+      OR (length(NEW.normalized_phone) >= 7 AND l.normalized_phone = NEW.normalized_phone)
+      OR (lower(trim(l.facility)) = lower(trim(NEW.facility)) AND lower(trim(l.name)) = lower(trim(NEW.name)))
+    )
+  ON CONFLICT (lead_id, duplicate_of_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS detect_lead_duplicates_trigger ON leads;
+CREATE TRIGGER detect_lead_duplicates_trigger
+  AFTER INSERT ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION detect_lead_duplicates();
+
+-- Merge one lead into another
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id uuid, p_merged_id uuid, p_fields jsonb DEFAULT '{}'::jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_survivor leads%ROWTYPE;
+  v_merged leads%ROWTYPE;
+  v_actor_email text := auth.jwt() ->> 'email';
+  v_actor_name text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a lead into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surviving lead % not found', p_survivor_id;
+  END IF;
+
+  SELECT * INTO v_merged FROM leads WHERE id = p_merged_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merged lead % not found', p_merged_id;
+  END IF;
+
+  SELECT name INTO v_actor_name FROM admin_users WHERE email = v_actor_email;
+
+  UPDATE leads SET
+    name = CASE WHEN p_fields ? 'name' THEN p_fields->>'name' ELSE name END,
+    email = CASE WHEN p_fields ? 'email' THEN p_fields->>'email' ELSE email END,
+    phone = CASE WHEN p_fields ? 'phone' THEN p_fields->>'phone' ELSE phone END,
+    facility = CASE WHEN p_fields ? 'facility' THEN p_fields->>'facility' ELSE facility END,
+    state = CASE WHEN p_fields ? 'state' THEN p_fields->>'state' ELSE state END,
+    country = CASE WHEN p_fields ? 'country' THEN p_fields->>'country' ELSE country END,
+    source = CASE WHEN p_fields ? 'source' THEN p_fields->>'source' ELSE source END,
+    product_service = CASE WHEN p_fields ? 'product_service' THEN p_fields->>'product_service' ELSE product_service END,
+    status = CASE WHEN p_fields ? 'status' THEN p_fields->>'status' ELSE status END,
+    closed_reason = CASE WHEN p_fields ? 'closed_reason' THEN p_fields->>'closed_reason' ELSE closed_reason END,
+    efficiency_level = CASE WHEN p_fields ? 'efficiency_level' THEN p_fields->>'efficiency_level' ELSE efficiency_level END,
+    score = CASE WHEN p_fields ? 'score' THEN (p_fields->>'score')::integer ELSE score END,
+    value_per_annum = CASE WHEN p_fields ? 'value_per_annum' THEN (p_fields->>'value_per_annum')::numeric ELSE value_per_annum END,
+    comments = CASE WHEN p_fields ? 'comments' THEN p_fields->>'comments' ELSE comments END,
+    notes = CASE WHEN p_fields ? 'notes' THEN p_fields->>'notes' ELSE notes END,
+    selected_services = ARRAY(
+      SELECT DISTINCT s
+      FROM unnest(COALESCE(v_survivor.selected_services, '{}') || COALESCE(v_merged.selected_services, '{}')) AS s
+      ORDER BY s
+    ),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  UPDATE consultancy_bookings_v2 SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE assessments SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_activities SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+
+  -- Carry over other pending pairs that involved the merged lead
+  INSERT INTO lead_duplicates (lead_id, duplicate_of_id, match_reasons)
+  SELECT
+    CASE WHEN lead_id = p_merged_id THEN p_survivor_id ELSE lead_id END,
+    CASE WHEN duplicate_of_id = p_merged_id THEN p_survivor_id ELSE duplicate_of_id END,
+    match_reasons
+  FROM lead_duplicates
+  WHERE status = 'pending'
+    AND (lead_id = p_merged_id OR duplicate_of_id = p_merged_id)
+    AND NOT (lead_id IN (p_survivor_id, p_merged_id) AND duplicate_of_id IN (p_survivor_id, p_merged_id))
+  ON CONFLICT (lead_id, duplicate_of_id) DO NOTHING;
+
+  INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+  VALUES (
+    p_survivor_id,
+    'lead_merged',
+    v_merged.name || ' <' || v_merged.email || '>',
+    v_merged.source || ' lead created ' || to_char(v_merged.created_at, 'YYYY-MM-DD'),
+    v_actor_name,
+    v_actor_email
+  );
+
+  DELETE FROM leads WHERE id = p_merged_id;
+
+  RETURN p_survivor_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION merge_leads(uuid, uuid, jsonb) TO authenticated;
@@ -0,0 +1,191 @@
+/*
+  # Add Lead Ownership and Automatic Assignment
+
+  1. Changes to leads
+    - `owner_id` (uuid) - Admin responsible for follow-up, references `admin_users`
+
+  2. Changes to admin_users
+    - `receives_auto_assignments` (boolean) - Admin is in the automatic assignment pool
+
+  3. New Tables
+    - `lead_assignment_settings` - Single-row configuration for automatic assignment
+      - `id` (boolean, primary key) - Always true, keeps the table to one row
+      - `mode` (text) - 'off', 'round_robin' or 'load_balanced'
+      - `last_assigned_admin_id` (uuid) - Round-robin cursor
+      - `updated_at` (timestamptz)
+
+  4. Triggers
+    - `auto_assign_lead` (BEFORE INSERT) gives unowned leads from the public
+      assessment and booking forms an owner from the pool:
+      - round_robin: next admin after the last one assigned
+      - load_balanced: admin with the fewest open (not closed) leads
+    - `log_lead_owner_change` records an 'owner_changed' activity
+
+  5. Security
+    - Enable RLS on `lead_assignment_settings`; admins can read and update it
+    - Admins can update `admin_users` (to manage the assignment pool)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'owner_id'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN owner_id uuid REFERENCES admin_users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_users' AND column_name = 'receives_auto_assignments'
+  ) THEN
+    ALTER TABLE admin_users ADD COLUMN receives_auto_assignments boolean NOT NULL DEFAULT true;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_owner_id ON leads(owner_id);
+
+CREATE POLICY "Admins can update admin users"
+  ON admin_users FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TABLE IF NOT EXISTS lead_assignment_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  mode text NOT NULL DEFAULT 'off' CHECK (mode IN ('off', 'round_robin', 'load_balanced')),
+  last_assigned_admin_id uuid REFERENCES admin_users(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO lead_assignment_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE lead_assignment_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read lead assignment settings"
+  ON lead_assignment_settings FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update lead assignment settings"
+  ON lead_assignment_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION update_lead_assignment_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_lead_assignment_settings_updated_at ON lead_assignment_settings;
+CREATE TRIGGER update_lead_assignment_settings_updated_at
+  BEFORE UPDATE ON lead_assignment_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lead_assignment_settings_updated_at();
+
+-- Pick an owner for leads submitted through the public forms
+CREATE OR REPLACE FUNCTION auto_assign_lead()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_settings lead_assignment_settings%ROWTYPE;
+  v_owner_id uuid;
+BEGIN
+  IF NEW.owner_id IS NOT NULL OR NEW.source NOT IN ('Assessment', 'Consultancy') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the settings row so concurrent submissions advance the cursor one at a time
+  SELECT * INTO v_settings FROM lead_assignment_settings WHERE id FOR UPDATE;
+
+  IF NOT FOUND OR v_settings.mode = 'off' THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_settings.mode = 'round_robin' THEN
+    SELECT a.id INTO v_owner_id
+    FROM admin_users a
+    WHERE a.receives_auto_assignments
+    ORDER BY
+      (a.created_at, a.id) <= (
+        SELECT (last.created_at, last.id) FROM admin_users last
+        WHERE last.id = v_settings.last_assigned_admin_id
+      ) NULLS FIRST,
+      a.created_at,
+      a.id
+    LIMIT 1;
+  ELSE
+    SELECT a.id INTO v_owner_id
+    FROM admin_users a
+    LEFT JOIN leads l ON l.owner_id = a.id
+      AND l.status IN (SELECT name FROM pipeline_stages WHERE NOT is_closed AND NOT is_won AND NOT is_lost)
+    WHERE a.receives_auto_assignments
+    GROUP BY a.id, a.created_at
+    ORDER BY count(l.id), a.created_at, a.id
+    LIMIT 1;
+  END IF;
+
+  IF v_owner_id IS NOT NULL THEN
+    NEW.owner_id := v_owner_id;
+    UPDATE lead_assignment_settings SET last_assigned_admin_id = v_owner_id WHERE id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS auto_assign_lead ON leads;
+CREATE TRIGGER auto_assign_lead
+  BEFORE INSERT ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION auto_assign_lead();
+
+-- Allow ownership changes in the activity history
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_activity_type_check;
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_activity_type_check
+CHECK (activity_type IN (
+  'lead_created',
+  'booking_created',
+  'assessment_submitted',
+  'status_changed',
+  'value_changed',
+  'notes_changed',
+  'lead_closed',
+  'lead_reopened',
+  'lead_merged',
+  'owner_changed'
+));
+
+CREATE OR REPLACE FUNCTION log_lead_owner_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_email text := auth.jwt() ->> 'email';
+  v_actor_name text;
+BEGIN
+  IF v_actor_email IS NOT NULL THEN
+    SELECT name INTO v_actor_name FROM admin_users WHERE email = v_actor_email;
+  END IF;
+
+  INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+  VALUES (
+    NEW.id,
+    'owner_changed',
+    (SELECT coalesce(name, email) FROM admin_users WHERE id = OLD.owner_id),
+    (SELECT coalesce(name, email) FROM admin_users WHERE id = NEW.owner_id),
+    v_actor_name,
+    v_actor_email
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS log_lead_owner_change ON leads;
+CREATE TRIGGER log_lead_owner_change
+  AFTER UPDATE OF owner_id ON leads
+  FOR EACH ROW
+  WHEN (OLD.owner_id IS DISTINCT FROM NEW.owner_id)
+  EXECUTE FUNCTION log_lead_owner_change();
@@ -0,0 +1,99 @@
+/*
+  # Create Lead Follow-up Tasks
+
+  1. New Tables
+    - `lead_tasks` - Follow-up tasks attached to a lead
+      - `id` (uuid, primary key)
+      - `lead_id` (uuid) - References `leads`, deleted with the lead
+      - `title` (text) - What needs doing, e.g. "Call Dr. X"
+      - `due_date` (date) - Day the task is due
+      - `assignee_id` (uuid) - Admin responsible, references `admin_users`
+      - `is_done` (boolean)
+      - `completed_at` (timestamptz) - Set when the task is marked done
+      - `created_by` (text) - Email of the admin who created the task
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `task_digest_log` - One row per admin per day a due-task digest was emailed,
+      so re-running the scheduled function never sends twice
+
+  2. Triggers
+    - `update_lead_tasks_updated_at` keeps `updated_at` current and stamps
+      `completed_at` when `is_done` flips
+
+  3. Security
+    - Enable RLS on both tables; only admins can access tasks
+    - `task_digest_log` is written by the edge function with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS lead_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (length(trim(title)) > 0),
+  due_date date NOT NULL,
+  assignee_id uuid REFERENCES admin_users(id) ON DELETE SET NULL,
+  is_done boolean NOT NULL DEFAULT false,
+  completed_at timestamptz,
+  created_by text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_lead_id ON lead_tasks(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_open_due ON lead_tasks(assignee_id, due_date) WHERE NOT is_done;
+
+ALTER TABLE lead_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read lead tasks"
+  ON lead_tasks FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert lead tasks"
+  ON lead_tasks FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update lead tasks"
+  ON lead_tasks FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete lead tasks"
+  ON lead_tasks FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION update_lead_tasks_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  IF NEW.is_done AND NOT OLD.is_done THEN
+    NEW.completed_at = now();
+  ELSIF NOT NEW.is_done THEN
+    NEW.completed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_lead_tasks_updated_at ON lead_tasks;
+CREATE TRIGGER update_lead_tasks_updated_at
+  BEFORE UPDATE ON lead_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lead_tasks_updated_at();
+
+CREATE TABLE IF NOT EXISTS task_digest_log (
+  admin_id uuid NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  sent_on date NOT NULL,
+  task_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (admin_id, sent_on)
+);
+
+ALTER TABLE task_digest_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read task digest log"
+  ON task_digest_log FOR SELECT
+  TO authenticated
+  USING (is_admin());
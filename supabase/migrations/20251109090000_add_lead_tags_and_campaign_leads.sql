@@ -0,0 +1,70 @@
+/*
+  # Add Lead Tags and Campaign Membership
+
+  1. Changes to leads
+    - `tags` (text[]) - Free-form labels, e.g. "conference-2025", "hot"
+
+  2. New Tables
+    - `campaign_leads` - Leads targeted by a campaign
+      - `campaign_id` (uuid) - References `campaigns`
+      - `lead_id` (uuid) - References `leads`
+      - `added_by` (text) - Email of the admin who added the lead
+      - `added_at` (timestamptz)
+
+  3. Functions
+    - `add_lead_tag(p_lead_ids, p_tag)` - Adds a tag to many leads in one
+      statement without duplicating tags a lead already has
+
+  4. Security
+    - Enable RLS on `campaign_leads`; only admins can access it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'tags'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_tags ON leads USING gin(tags);
+
+CREATE OR REPLACE FUNCTION add_lead_tag(p_lead_ids uuid[], p_tag text)
+RETURNS void AS $$
+  UPDATE leads
+  SET tags = array_append(tags, trim(p_tag))
+  WHERE id = ANY(p_lead_ids)
+    AND NOT (trim(p_tag) = ANY(tags))
+    AND trim(p_tag) <> '';
+$$ LANGUAGE sql;
+
+GRANT EXECUTE ON FUNCTION add_lead_tag(uuid[], text) TO authenticated;
+
+CREATE TABLE IF NOT EXISTS campaign_leads (
+  campaign_id uuid NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  added_by text,
+  added_at timestamptz DEFAULT now(),
+  PRIMARY KEY (campaign_id, lead_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_leads_lead_id ON campaign_leads(lead_id);
+
+ALTER TABLE campaign_leads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read campaign leads"
+  ON campaign_leads FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can add campaign leads"
+  ON campaign_leads FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can remove campaign leads"
+  ON campaign_leads FOR DELETE
+  TO authenticated
+  USING (is_admin());
@@ -0,0 +1,76 @@
+/*
+  # Server-side Lead Search and Dashboard Stats
+
+  1. Extensions
+    - `pg_trgm` for indexed substring search
+
+  2. Indexes on leads
+    - Trigram GIN indexes on `name`, `email`, `facility` and `phone` so the lead
+      table's `ilike '%term%'` search does not scan the whole table
+    - B-tree indexes on `status` and `owner_id` for the table filters
+
+  3. Functions
+    - `get_lead_dashboard_stats()` - Dashboard totals, source and efficiency
+      breakdowns, top states and top challenges, computed in the database so
+      the dashboard no longer downloads every lead. Runs with the caller's
+      permissions, so RLS on `leads` still applies.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_leads_name_trgm ON leads USING gin(name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_leads_email_trgm ON leads USING gin(email gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_leads_facility_trgm ON leads USING gin(facility gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_leads_phone_trgm ON leads USING gin(phone gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
+CREATE INDEX IF NOT EXISTS idx_leads_owner_id ON leads(owner_id);
+
+CREATE OR REPLACE FUNCTION get_lead_dashboard_stats()
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'totalLeads', (SELECT count(*) FROM leads),
+    'qualifiedLeads', (
+      SELECT count(*)
+      FROM leads l
+      JOIN pipeline_stages s ON s.name = l.status
+      WHERE s.is_qualified
+    ),
+    'closedDeals', (
+      SELECT count(*)
+      FROM leads l
+      JOIN pipeline_stages s ON s.name = l.status
+      WHERE s.is_won OR (s.is_closed AND l.closed_reason = 'Confirmed Client')
+    ),
+    'assessmentLeads', (SELECT count(*) FROM leads WHERE source = 'Assessment'),
+    'consultancyLeads', (SELECT count(*) FROM leads WHERE source = 'Consultancy'),
+    'referralLeads', (SELECT count(*) FROM leads WHERE source = 'Referral'),
+    'goodEfficiency', (SELECT count(*) FROM leads WHERE efficiency_level = 'Good Efficiency'),
+    'moderateEfficiency', (SELECT count(*) FROM leads WHERE efficiency_level = 'Moderate Efficiency'),
+    'needsImprovement', (SELECT count(*) FROM leads WHERE efficiency_level = 'Needs Improvement'),
+    'leadsByState', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('state', state, 'count', total) ORDER BY total DESC)
+      FROM (
+        SELECT state, count(*) AS total
+        FROM leads
+        WHERE COALESCE(state, '') <> ''
+        GROUP BY state
+        ORDER BY total DESC
+        LIMIT 10
+      ) states
+    ), '[]'::jsonb),
+    'topChallenges', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('challenge', challenge, 'count', total) ORDER BY total DESC)
+      FROM (
+        SELECT lower(trim(challenge)) AS challenge, count(*) AS total
+        FROM leads, unnest(string_to_array(comments, ',')) AS challenge
+        WHERE trim(challenge) <> ''
+        GROUP BY lower(trim(challenge))
+        ORDER BY total DESC
+        LIMIT 10
+      ) challenges
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_lead_dashboard_stats() TO authenticated;
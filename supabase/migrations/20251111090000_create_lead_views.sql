@@ -0,0 +1,73 @@
+/*
+  # Create Saved Lead Views
+
+  1. New Tables
+    - `lead_views` - Named filter presets for the lead table
+      - `id` (uuid, primary key)
+      - `admin_id` (uuid) - Admin who created the view, references `admin_users`
+      - `name` (text)
+      - `filters` (jsonb) - The lead table URL params the view restores,
+        e.g. {"status": "New", "owner": "mine", "sort": "score"}
+      - `is_shared` (boolean) - Visible to the whole team when true
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `lead_views`
+    - Admins can read their own views and every shared view
+    - Admins can only create, edit and delete their own views
+*/
+
+CREATE TABLE IF NOT EXISTS lead_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id uuid NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_shared boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_views_admin_id ON lead_views(admin_id);
+
+ALTER TABLE lead_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read own and shared lead views"
+  ON lead_views FOR SELECT
+  TO authenticated
+  USING (
+    is_admin() AND (
+      is_shared OR
+      admin_id IN (SELECT id FROM admin_users WHERE email = auth.jwt()->>'email')
+    )
+  );
+
+CREATE POLICY "Admins can create own lead views"
+  ON lead_views FOR INSERT
+  TO authenticated
+  WITH CHECK (admin_id IN (SELECT id FROM admin_users WHERE email = auth.jwt()->>'email'));
+
+CREATE POLICY "Admins can update own lead views"
+  ON lead_views FOR UPDATE
+  TO authenticated
+  USING (admin_id IN (SELECT id FROM admin_users WHERE email = auth.jwt()->>'email'))
+  WITH CHECK (admin_id IN (SELECT id FROM admin_users WHERE email = auth.jwt()->>'email'));
+
+CREATE POLICY "Admins can delete own lead views"
+  ON lead_views FOR DELETE
+  TO authenticated
+  USING (admin_id IN (SELECT id FROM admin_users WHERE email = auth.jwt()->>'email'));
+
+CREATE OR REPLACE FUNCTION update_lead_views_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_lead_views_updated_at ON lead_views;
+CREATE TRIGGER update_lead_views_updated_at
+  BEFORE UPDATE ON lead_views
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lead_views_updated_at();
@@ -0,0 +1,67 @@
+/*
+  # Admin-defined Custom Fields on Leads
+
+  1. New Tables
+    - `lead_custom_fields` - Definitions of extra lead fields
+      - `id` (uuid, primary key)
+      - `key` (text, unique) - Storage key inside `leads.custom_fields`, e.g.
+        "bed_count". Fixed once created so existing values stay attached.
+      - `label` (text) - Display name, e.g. "Bed Count"
+      - `field_type` (text) - text, number, date, select or multi_select
+      - `options` (text[]) - Choices for select and multi_select fields
+      - `sort_order` (integer) - Display order on forms
+      - `created_at` (timestamptz)
+
+  2. Changes to leads
+    - `custom_fields` (jsonb) - Values keyed by definition `key`. Numbers are
+      stored as JSON numbers, dates as YYYY-MM-DD strings and multi-select
+      values as arrays. Values for deleted definitions are left in place.
+
+  3. Security
+    - Enable RLS on `lead_custom_fields`; admins can read and manage definitions
+*/
+
+CREATE TABLE IF NOT EXISTS lead_custom_fields (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text NOT NULL UNIQUE CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label text NOT NULL CHECK (length(trim(label)) > 0),
+  field_type text NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'multi_select')),
+  options text[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE lead_custom_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read custom fields"
+  ON lead_custom_fields FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert custom fields"
+  ON lead_custom_fields FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update custom fields"
+  ON lead_custom_fields FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete custom fields"
+  ON lead_custom_fields FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'custom_fields'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_custom_fields ON leads USING gin(custom_fields);
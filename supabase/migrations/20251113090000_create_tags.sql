@@ -0,0 +1,97 @@
+/*
+  # Tags on Leads, Bookings and Assessments
+
+  1. New Tables
+    - `tags` - Admin-curated tags with a display color
+      - `id` (uuid, primary key)
+      - `name` (text) - Tag text, unique ignoring case
+      - `color` (text) - Color key, same palette as pipeline stages
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `consultancy_bookings_v2.tags` and `assessments.tags` (text[]), matching
+      `leads.tags`. Any text can be used as a tag; curated tags only add a
+      color and appear first in autocomplete.
+
+  3. Functions
+    - `get_tag_usage()` - Every tag in use or curated, with how many leads,
+      bookings and assessments carry it. Drives autocomplete and the dashboard.
+      Runs with the caller's permissions, so RLS still applies.
+
+  4. Security
+    - Enable RLS on `tags`; admins can read and manage them
+*/
+
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  color text NOT NULL DEFAULT 'slate',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_name_lower ON tags(lower(name));
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read tags"
+  ON tags FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert tags"
+  ON tags FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update tags"
+  ON tags FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete tags"
+  ON tags FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'consultancy_bookings_v2' AND column_name = 'tags'
+  ) THEN
+    ALTER TABLE consultancy_bookings_v2 ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assessments' AND column_name = 'tags'
+  ) THEN
+    ALTER TABLE assessments ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_consultancy_bookings_v2_tags ON consultancy_bookings_v2 USING gin(tags);
+CREATE INDEX IF NOT EXISTS idx_assessments_tags ON assessments USING gin(tags);
+
+CREATE OR REPLACE FUNCTION get_tag_usage()
+RETURNS TABLE (tag text, lead_count bigint, booking_count bigint, assessment_count bigint) AS $$
+  WITH used AS (
+    SELECT unnest(tags) AS tag, 'lead' AS kind FROM leads
+    UNION ALL
+    SELECT unnest(tags), 'booking' FROM consultancy_bookings_v2
+    UNION ALL
+    SELECT unnest(tags), 'assessment' FROM assessments
+  )
+  SELECT
+    COALESCE(used.tag, tags.name) AS tag,
+    count(*) FILTER (WHERE used.kind = 'lead') AS lead_count,
+    count(*) FILTER (WHERE used.kind = 'booking') AS booking_count,
+    count(*) FILTER (WHERE used.kind = 'assessment') AS assessment_count
+  FROM used
+  FULL JOIN tags ON tags.name = used.tag
+  GROUP BY COALESCE(used.tag, tags.name)
+  ORDER BY count(used.kind) DESC, COALESCE(used.tag, tags.name);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_tag_usage() TO authenticated;
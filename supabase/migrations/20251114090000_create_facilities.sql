@@ -0,0 +1,219 @@
+/*
+  # Facilities (Accounts)
+
+  1. New Tables
+    - `facilities` - The hospital or practice a lead works at
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `normalized_name` (text, generated) - Lowercased name without
+        punctuation or words like "the", "inc" and "llc", used for matching
+      - `website`, `country`, `state`, `city` (text, nullable)
+      - `specialties` (text[])
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes to leads
+    - `facility_id` (uuid, nullable) - The account this lead is a contact of.
+      `leads.facility` keeps the name as it was typed.
+
+  3. Functions and Triggers
+    - `normalize_facility_name(text)` - Normalization used for `normalized_name`
+    - `match_facility(p_name, p_state)` - Closest facility by trigram similarity
+      of the normalized names (at least 0.6), preferring the same state
+    - `link_lead_facility` - Before a lead is inserted without a facility_id,
+      links it to the matching facility or creates one. Website and city are
+      filled in from the lead's booking, and specialties from its assessment,
+      when the facility doesn't have them yet.
+    - `get_facility_summaries(p_search)` - Facilities with their contact count
+      and total value per annum, for the accounts list
+
+  4. Backfill
+    - One facility per distinct normalized facility name on existing leads
+
+  5. Security
+    - Enable RLS on `facilities`; admins can read and manage them. Public form
+      submissions create facilities through the SECURITY DEFINER trigger.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION normalize_facility_name(p_name text)
+RETURNS text AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(COALESCE(p_name, '')), '[^a-z0-9 ]+', ' ', 'g'),
+      '\m(the|inc|llc|ltd|pllc|pc|corp|co)\M', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS facilities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  normalized_name text GENERATED ALWAYS AS (normalize_facility_name(name)) STORED,
+  website text,
+  country text,
+  state text,
+  city text,
+  specialties text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_facilities_normalized_name_trgm ON facilities USING gin(normalized_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_facilities_name_trgm ON facilities USING gin(name gin_trgm_ops);
+
+ALTER TABLE facilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read facilities"
+  ON facilities FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert facilities"
+  ON facilities FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update facilities"
+  ON facilities FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete facilities"
+  ON facilities FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION update_facilities_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_facilities_updated_at ON facilities;
+CREATE TRIGGER update_facilities_updated_at
+  BEFORE UPDATE ON facilities
+  FOR EACH ROW
+  EXECUTE FUNCTION update_facilities_updated_at();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'facility_id'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN facility_id uuid REFERENCES facilities(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_facility_id ON leads(facility_id);
+
+-- Closest existing facility for a typed name, or NULL when nothing is close enough
+CREATE OR REPLACE FUNCTION match_facility(p_name text, p_state text DEFAULT NULL)
+RETURNS uuid AS $$
+  SELECT f.id
+  FROM facilities f
+  WHERE normalize_facility_name(p_name) <> ''
+    AND similarity(f.normalized_name, normalize_facility_name(p_name)) >= 0.6
+  ORDER BY
+    (f.state IS NOT DISTINCT FROM p_state) DESC,
+    similarity(f.normalized_name, normalize_facility_name(p_name)) DESC,
+    f.created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION match_facility(text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION link_lead_facility()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_website text;
+  v_city text;
+  v_specialties text[];
+BEGIN
+  IF NEW.facility_id IS NOT NULL OR normalize_facility_name(NEW.facility) = '' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Bookings and assessments are inserted before their lead
+  SELECT b.website, b.city INTO v_website, v_city
+  FROM consultancy_bookings_v2 b
+  WHERE lower(b.email) = lower(NEW.email)
+  ORDER BY b.created_at DESC
+  LIMIT 1;
+
+  SELECT a.specialties INTO v_specialties
+  FROM assessments a
+  WHERE lower(a.email) = lower(NEW.email) AND a.specialties IS NOT NULL
+  ORDER BY a.created_at DESC
+  LIMIT 1;
+
+  NEW.facility_id := match_facility(NEW.facility, NEW.state);
+
+  IF NEW.facility_id IS NULL THEN
+    INSERT INTO facilities (name, country, state, city, website, specialties)
+    VALUES (trim(NEW.facility), NEW.country, NEW.state, v_city, NULLIF(trim(v_website), ''), COALESCE(v_specialties, '{}'))
+    RETURNING id INTO NEW.facility_id;
+  ELSE
+    UPDATE facilities
+    SET
+      website = COALESCE(website, NULLIF(trim(v_website), '')),
+      city = COALESCE(city, v_city),
+      specialties = CASE WHEN specialties = '{}' THEN COALESCE(v_specialties, '{}') ELSE specialties END
+    WHERE id = NEW.facility_id
+      AND (website IS NULL OR city IS NULL OR specialties = '{}');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS link_lead_facility_trigger ON leads;
+CREATE TRIGGER link_lead_facility_trigger
+  BEFORE INSERT ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION link_lead_facility();
+
+CREATE OR REPLACE FUNCTION get_facility_summaries(p_search text DEFAULT '')
+RETURNS TABLE (
+  id uuid,
+  name text,
+  website text,
+  country text,
+  state text,
+  city text,
+  specialties text[],
+  created_at timestamptz,
+  updated_at timestamptz,
+  contact_count bigint,
+  total_value numeric
+) AS $$
+  SELECT
+    f.id, f.name, f.website, f.country, f.state, f.city, f.specialties, f.created_at, f.updated_at,
+    count(l.id) AS contact_count,
+    COALESCE(sum(l.value_per_annum), 0) AS total_value
+  FROM facilities f
+  LEFT JOIN leads l ON l.facility_id = f.id
+  WHERE COALESCE(p_search, '') = '' OR f.name ILIKE '%' || p_search || '%'
+  GROUP BY f.id
+  ORDER BY f.name;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_facility_summaries(text) TO authenticated;
+
+-- Backfill: one facility per distinct normalized name, taking location from the oldest lead
+INSERT INTO facilities (name, country, state)
+SELECT DISTINCT ON (normalize_facility_name(facility)) trim(facility), country, state
+FROM leads
+WHERE facility_id IS NULL AND normalize_facility_name(facility) <> ''
+ORDER BY normalize_facility_name(facility), created_at;
+
+UPDATE leads l
+SET facility_id = f.id
+FROM facilities f
+WHERE l.facility_id IS NULL
+  AND f.normalized_name = normalize_facility_name(l.facility);
@@ -0,0 +1,344 @@
+/*
+  # Lead Notes Thread and Mentions
+
+  1. New Tables
+    - `lead_notes` - Append-only notes thread on a lead
+      - `id` (uuid, primary key)
+      - `lead_id` (uuid) - References `leads`
+      - `body` (text) - Markdown. Mentions are written as `@[Name](admin-id)`
+      - `mentions` (uuid[]) - Admins mentioned in the body
+      - `is_pinned` (boolean) - Pinned notes are shown above the thread
+      - `author_id`, `author_name`, `author_email` - Stamped from the JWT
+      - `edited_at` (timestamptz) - Last time the body was changed
+      - `created_at`, `updated_at` (timestamptz)
+    - `lead_note_revisions` - Previous bodies of an edited note
+      - `id` (uuid, primary key)
+      - `note_id` (uuid) - References `lead_notes`
+      - `body` (text) - The body before the edit
+      - `edited_by_name`, `edited_by_email` - Admin who replaced it
+      - `created_at` (timestamptz) - When it was replaced
+    - `admin_notifications` - In-app notifications for one admin
+      - `id` (uuid, primary key)
+      - `admin_id` (uuid) - Recipient, references `admin_users`
+      - `type` (text) - 'mention'
+      - `lead_id`, `note_id` (uuid) - What the notification is about
+      - `actor_name` (text) - Who mentioned the admin
+      - `is_read` (boolean)
+      - `emailed_at` (timestamptz) - Set by the `mention-notification-email`
+        edge function once the email has gone out
+      - `created_at` (timestamptz)
+
+  2. Triggers
+    - `prepare_lead_note` stamps the author on insert. On update it keeps the
+      previous body in `lead_note_revisions` and sets `edited_at`; only the
+      author can change the body, while any admin can pin or unpin.
+    - `notify_note_mentions` creates a notification for every newly
+      mentioned admin other than the author
+    - `seed_lead_note` turns the `notes` of a newly inserted lead (e.g. from an
+      import) into its first note
+    - `log_lead_note_added` adds 'note_added' to the lead's activity history
+
+  3. Changes
+    - `merge_leads` moves the merged lead's notes to the surviving lead
+    - Existing `leads.notes` are copied into the thread
+
+  4. Security
+    - Enable RLS on all three tables
+    - Admins can read and add notes and update them; there is no delete policy
+    - Revisions are only written by the trigger
+    - Admins can only read and mark their own notifications
+*/
+
+CREATE TABLE IF NOT EXISTS lead_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  is_pinned boolean NOT NULL DEFAULT false,
+  author_id uuid REFERENCES admin_users(id) ON DELETE SET NULL,
+  author_name text,
+  author_email text,
+  edited_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_notes_lead_id ON lead_notes(lead_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS lead_note_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id uuid NOT NULL REFERENCES lead_notes(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  edited_by_name text,
+  edited_by_email text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_note_revisions_note_id ON lead_note_revisions(note_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS admin_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id uuid NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  type text NOT NULL DEFAULT 'mention' CHECK (type IN ('mention')),
+  lead_id uuid REFERENCES leads(id) ON DELETE CASCADE,
+  note_id uuid REFERENCES lead_notes(id) ON DELETE CASCADE,
+  actor_name text,
+  is_read boolean NOT NULL DEFAULT false,
+  emailed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_notifications_admin_id ON admin_notifications(admin_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_notifications_unsent ON admin_notifications(created_at) WHERE emailed_at IS NULL;
+
+ALTER TABLE lead_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_note_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read lead notes"
+  ON lead_notes FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert lead notes"
+  ON lead_notes FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update lead notes"
+  ON lead_notes FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can read lead note revisions"
+  ON lead_note_revisions FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can read own notifications"
+  ON admin_notifications FOR SELECT
+  TO authenticated
+  USING (admin_id IN (SELECT id FROM admin_users WHERE email = auth.jwt()->>'email'));
+
+CREATE POLICY "Admins can update own notifications"
+  ON admin_notifications FOR UPDATE
+  TO authenticated
+  USING (admin_id IN (SELECT id FROM admin_users WHERE email = auth.jwt()->>'email'))
+  WITH CHECK (admin_id IN (SELECT id FROM admin_users WHERE email = auth.jwt()->>'email'));
+
+CREATE OR REPLACE FUNCTION prepare_lead_note()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_email text := auth.jwt() ->> 'email';
+  v_actor_id uuid;
+  v_actor_name text;
+BEGIN
+  IF v_actor_email IS NOT NULL THEN
+    SELECT id, name INTO v_actor_id, v_actor_name FROM admin_users WHERE email = v_actor_email;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Inserts without a JWT (triggers, backfill) keep the author they were given
+    IF v_actor_email IS NOT NULL THEN
+      NEW.author_id := v_actor_id;
+      NEW.author_name := v_actor_name;
+      NEW.author_email := v_actor_email;
+    END IF;
+    NEW.edited_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.author_id := OLD.author_id;
+  NEW.author_name := OLD.author_name;
+  NEW.author_email := OLD.author_email;
+  NEW.created_at := OLD.created_at;
+  NEW.updated_at := now();
+
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    IF OLD.author_email IS NOT NULL AND OLD.author_email IS DISTINCT FROM v_actor_email THEN
+      RAISE EXCEPTION 'Only the author can edit this note';
+    END IF;
+
+    INSERT INTO lead_note_revisions (note_id, body, edited_by_name, edited_by_email)
+    VALUES (OLD.id, OLD.body, v_actor_name, v_actor_email);
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS prepare_lead_note_trigger ON lead_notes;
+CREATE TRIGGER prepare_lead_note_trigger
+  BEFORE INSERT OR UPDATE ON lead_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_lead_note();
+
+-- One notification per admin mentioned for the first time in this note
+CREATE OR REPLACE FUNCTION notify_note_mentions()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO admin_notifications (admin_id, type, lead_id, note_id, actor_name)
+  SELECT a.id, 'mention', NEW.lead_id, NEW.id, COALESCE(NEW.author_name, NEW.author_email)
+  FROM admin_users a
+  WHERE a.id = ANY(NEW.mentions)
+    AND a.id IS DISTINCT FROM NEW.author_id
+    AND (TG_OP = 'INSERT' OR NOT a.id = ANY(OLD.mentions));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_note_mentions_trigger ON lead_notes;
+CREATE TRIGGER notify_note_mentions_trigger
+  AFTER INSERT OR UPDATE OF mentions ON lead_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_note_mentions();
+
+-- Backfill before the activity trigger exists, so old notes aren't logged as new
+INSERT INTO lead_notes (lead_id, body, author_name, author_email, created_at, updated_at)
+SELECT id, notes, COALESCE(added_by, 'Imported'), added_by_email, COALESCE(updated_at, created_at), COALESCE(updated_at, created_at)
+FROM leads
+WHERE length(trim(COALESCE(notes, ''))) > 0;
+
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_activity_type_check;
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_activity_type_check
+CHECK (activity_type IN (
+  'lead_created',
+  'booking_created',
+  'assessment_submitted',
+  'status_changed',
+  'value_changed',
+  'notes_changed',
+  'lead_closed',
+  'lead_reopened',
+  'lead_merged',
+  'owner_changed',
+  'note_added'
+));
+
+CREATE OR REPLACE FUNCTION log_lead_note_added()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO lead_activities (lead_id, activity_type, to_value, actor_name, actor_email)
+  VALUES (NEW.lead_id, 'note_added', NEW.body, NEW.author_name, NEW.author_email);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS log_lead_note_added_trigger ON lead_notes;
+CREATE TRIGGER log_lead_note_added_trigger
+  AFTER INSERT ON lead_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION log_lead_note_added();
+
+-- Notes given when a lead is created (Add Lead, import) start the thread
+CREATE OR REPLACE FUNCTION seed_lead_note()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF length(trim(COALESCE(NEW.notes, ''))) > 0 THEN
+    INSERT INTO lead_notes (lead_id, body, author_name, author_email)
+    VALUES (NEW.id, NEW.notes, NEW.added_by, NEW.added_by_email);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS seed_lead_note_trigger ON leads;
+CREATE TRIGGER seed_lead_note_trigger
+  AFTER INSERT ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION seed_lead_note();
+
+-- Same as before, but the merged lead's notes move to the survivor
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id uuid, p_merged_id uuid, p_fields jsonb DEFAULT '{}'::jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_survivor leads%ROWTYPE;
+  v_merged leads%ROWTYPE;
+  v_actor_email text := auth.jwt() ->> 'email';
+  v_actor_name text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a lead into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surviving lead % not found', p_survivor_id;
+  END IF;
+
+  SELECT * INTO v_merged FROM leads WHERE id = p_merged_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merged lead % not found', p_merged_id;
+  END IF;
+
+  SELECT name INTO v_actor_name FROM admin_users WHERE email = v_actor_email;
+
+  UPDATE leads SET
+    name = CASE WHEN p_fields ? 'name' THEN p_fields->>'name' ELSE name END,
+    email = CASE WHEN p_fields ? 'email' THEN p_fields->>'email' ELSE email END,
+    phone = CASE WHEN p_fields ? 'phone' THEN p_fields->>'phone' ELSE phone END,
+    facility = CASE WHEN p_fields ? 'facility' THEN p_fields->>'facility' ELSE facility END,
+    state = CASE WHEN p_fields ? 'state' THEN p_fields->>'state' ELSE state END,
+    country = CASE WHEN p_fields ? 'country' THEN p_fields->>'country' ELSE country END,
+    source = CASE WHEN p_fields ? 'source' THEN p_fields->>'source' ELSE source END,
+    product_service = CASE WHEN p_fields ? 'product_service' THEN p_fields->>'product_service' ELSE product_service END,
+    status = CASE WHEN p_fields ? 'status' THEN p_fields->>'status' ELSE status END,
+    closed_reason = CASE WHEN p_fields ? 'closed_reason' THEN p_fields->>'closed_reason' ELSE closed_reason END,
+    efficiency_level = CASE WHEN p_fields ? 'efficiency_level' THEN p_fields->>'efficiency_level' ELSE efficiency_level END,
+    score = CASE WHEN p_fields ? 'score' THEN (p_fields->>'score')::integer ELSE score END,
+    value_per_annum = CASE WHEN p_fields ? 'value_per_annum' THEN (p_fields->>'value_per_annum')::numeric ELSE value_per_annum END,
+    comments = CASE WHEN p_fields ? 'comments' THEN p_fields->>'comments' ELSE comments END,
+    notes = CASE WHEN p_fields ? 'notes' THEN p_fields->>'notes' ELSE notes END,
+    selected_services = ARRAY(
+      SELECT DISTINCT s
+      FROM unnest(COALESCE(v_survivor.selected_services, '{}') || COALESCE(v_merged.selected_services, '{}')) AS s
+      ORDER BY s
+    ),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  UPDATE consultancy_bookings_v2 SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE assessments SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_activities SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_notes SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE admin_notifications SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+
+  -- Carry over other pending pairs that involved the merged lead
+  INSERT INTO lead_duplicates (lead_id, duplicate_of_id, match_reasons)
+  SELECT
+    CASE WHEN lead_id = p_merged_id THEN p_survivor_id ELSE lead_id END,
+    CASE WHEN duplicate_of_id = p_merged_id THEN p_survivor_id ELSE duplicate_of_id END,
+    match_reasons
+  FROM lead_duplicates
+  WHERE status = 'pending'
+    AND (lead_id = p_merged_id OR duplicate_of_id = p_merged_id)
+    AND NOT (lead_id IN (p_survivor_id, p_merged_id) AND duplicate_of_id IN (p_survivor_id, p_merged_id))
+  ON CONFLICT (lead_id, duplicate_of_id) DO NOTHING;
+
+  INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+  VALUES (
+    p_survivor_id,
+    'lead_merged',
+    v_merged.name || ' <' || v_merged.email || '>',
+    v_merged.source || ' lead created ' || to_char(v_merged.created_at, 'YYYY-MM-DD'),
+    v_actor_name,
+    v_actor_email
+  );
+
+  DELETE FROM leads WHERE id = p_merged_id;
+
+  RETURN p_survivor_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION merge_leads(uuid, uuid, jsonb) TO authenticated;
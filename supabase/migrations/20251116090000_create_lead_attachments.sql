@@ -0,0 +1,228 @@
+/*
+  # Lead Attachments
+
+  1. Storage
+    - Private `lead-attachments` bucket, limited to 25 MB per file and the
+      allowed document and image types. Files are stored as
+      `<lead_id>/<random>-<file name>`.
+    - Admins can read, upload and delete objects in the bucket
+
+  2. New Tables
+    - `lead_attachments` - One row per uploaded file
+      - `id` (uuid, primary key)
+      - `lead_id` (uuid) - References `leads`
+      - `storage_path` (text, unique) - Object path in the bucket
+      - `file_name` (text) - Name as uploaded
+      - `mime_type` (text) - One of the allowed types
+      - `size_bytes` (bigint) - At most 25 MB
+      - `scan_status` (text) - pending/clean/skipped/infected/rejected/failed.
+        Set by the `scan-lead-attachment` edge function. Skipped means no virus
+        scanner is configured; rejected means the content didn't match the
+        file type. Infected and rejected files are removed from the bucket.
+      - `scan_result` (text, nullable) - Scanner detail, e.g. the virus name
+      - `scanned_at` (timestamptz, nullable)
+      - `uploaded_by_id`, `uploaded_by_name`, `uploaded_by_email` - Stamped
+        from the JWT
+      - `created_at` (timestamptz)
+
+  3. Changes
+    - `merge_leads` moves the merged lead's attachments to the surviving lead
+
+  4. Security
+    - Enable RLS on `lead_attachments`; admins can read, add and delete rows.
+      Scan results are written by the edge function with the service role.
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'lead-attachments',
+  'lead-attachments',
+  false,
+  26214400,
+  ARRAY[
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'text/plain',
+    'text/csv',
+    'image/png',
+    'image/jpeg'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Admins can read lead attachment files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'lead-attachments' AND is_admin());
+
+CREATE POLICY "Admins can upload lead attachment files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'lead-attachments' AND is_admin());
+
+CREATE POLICY "Admins can delete lead attachment files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'lead-attachments' AND is_admin());
+
+CREATE TABLE IF NOT EXISTS lead_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL CHECK (length(trim(file_name)) > 0),
+  mime_type text NOT NULL CHECK (mime_type IN (
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'text/plain',
+    'text/csv',
+    'image/png',
+    'image/jpeg'
+  )),
+  size_bytes bigint NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 26214400),
+  scan_status text NOT NULL DEFAULT 'pending' CHECK (scan_status IN ('pending', 'clean', 'skipped', 'infected', 'rejected', 'failed')),
+  scan_result text,
+  scanned_at timestamptz,
+  uploaded_by_id uuid REFERENCES admin_users(id) ON DELETE SET NULL,
+  uploaded_by_name text,
+  uploaded_by_email text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_attachments_lead_id ON lead_attachments(lead_id, created_at DESC);
+
+ALTER TABLE lead_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read lead attachments"
+  ON lead_attachments FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert lead attachments"
+  ON lead_attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin() AND scan_status = 'pending');
+
+CREATE POLICY "Admins can delete lead attachments"
+  ON lead_attachments FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION stamp_lead_attachment_uploader()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_email text := auth.jwt() ->> 'email';
+BEGIN
+  NEW.uploaded_by_email := v_actor_email;
+  SELECT id, name INTO NEW.uploaded_by_id, NEW.uploaded_by_name FROM admin_users WHERE email = v_actor_email;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS stamp_lead_attachment_uploader_trigger ON lead_attachments;
+CREATE TRIGGER stamp_lead_attachment_uploader_trigger
+  BEFORE INSERT ON lead_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_lead_attachment_uploader();
+
+-- Same as before, but the merged lead's attachments move to the survivor
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id uuid, p_merged_id uuid, p_fields jsonb DEFAULT '{}'::jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_survivor leads%ROWTYPE;
+  v_merged leads%ROWTYPE;
+  v_actor_email text := auth.jwt() ->> 'email';
+  v_actor_name text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a lead into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surviving lead % not found', p_survivor_id;
+  END IF;
+
+  SELECT * INTO v_merged FROM leads WHERE id = p_merged_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merged lead % not found', p_merged_id;
+  END IF;
+
+  SELECT name INTO v_actor_name FROM admin_users WHERE email = v_actor_email;
+
+  UPDATE leads SET
+    name = CASE WHEN p_fields ? 'name' THEN p_fields->>'name' ELSE name END,
+    email = CASE WHEN p_fields ? 'email' THEN p_fields->>'email' ELSE email END,
+    phone = CASE WHEN p_fields ? 'phone' THEN p_fields->>'phone' ELSE phone END,
+    facility = CASE WHEN p_fields ? 'facility' THEN p_fields->>'facility' ELSE facility END,
+    state = CASE WHEN p_fields ? 'state' THEN p_fields->>'state' ELSE state END,
+    country = CASE WHEN p_fields ? 'country' THEN p_fields->>'country' ELSE country END,
+    source = CASE WHEN p_fields ? 'source' THEN p_fields->>'source' ELSE source END,
+    product_service = CASE WHEN p_fields ? 'product_service' THEN p_fields->>'product_service' ELSE product_service END,
+    status = CASE WHEN p_fields ? 'status' THEN p_fields->>'status' ELSE status END,
+    closed_reason = CASE WHEN p_fields ? 'closed_reason' THEN p_fields->>'closed_reason' ELSE closed_reason END,
+    efficiency_level = CASE WHEN p_fields ? 'efficiency_level' THEN p_fields->>'efficiency_level' ELSE efficiency_level END,
+    score = CASE WHEN p_fields ? 'score' THEN (p_fields->>'score')::integer ELSE score END,
+    value_per_annum = CASE WHEN p_fields ? 'value_per_annum' THEN (p_fields->>'value_per_annum')::numeric ELSE value_per_annum END,
+    comments = CASE WHEN p_fields ? 'comments' THEN p_fields->>'comments' ELSE comments END,
+    notes = CASE WHEN p_fields ? 'notes' THEN p_fields->>'notes' ELSE notes END,
+    selected_services = ARRAY(
+      SELECT DISTINCT s
+      FROM unnest(COALESCE(v_survivor.selected_services, '{}') || COALESCE(v_merged.selected_services, '{}')) AS s
+      ORDER BY s
+    ),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  UPDATE consultancy_bookings_v2 SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE assessments SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_activities SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_notes SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE admin_notifications SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_attachments SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+
+  -- Carry over other pending pairs that involved the merged lead
+  INSERT INTO lead_duplicates (lead_id, duplicate_of_id, match_reasons)
+  SELECT
+    CASE WHEN lead_id = p_merged_id THEN p_survivor_id ELSE lead_id END,
+    CASE WHEN duplicate_of_id = p_merged_id THEN p_survivor_id ELSE duplicate_of_id END,
+    match_reasons
+  FROM lead_duplicates
+  WHERE status = 'pending'
+    AND (lead_id = p_merged_id OR duplicate_of_id = p_merged_id)
+    AND NOT (lead_id IN (p_survivor_id, p_merged_id) AND duplicate_of_id IN (p_survivor_id, p_merged_id))
+  ON CONFLICT (lead_id, duplicate_of_id) DO NOTHING;
+
+  INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+  VALUES (
+    p_survivor_id,
+    'lead_merged',
+    v_merged.name || ' <' || v_merged.email || '>',
+    v_merged.source || ' lead created ' || to_char(v_merged.created_at, 'YYYY-MM-DD'),
+    v_actor_name,
+    v_actor_email
+  );
+
+  DELETE FROM leads WHERE id = p_merged_id;
+
+  RETURN p_survivor_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION merge_leads(uuid, uuid, jsonb) TO authenticated;
@@ -0,0 +1,305 @@
+/*
+  # Lead Interactions
+
+  1. New Tables
+    - `lead_interactions` - Calls, emails and meetings logged against a lead
+      - `id` (uuid, primary key)
+      - `lead_id` (uuid) - References `leads`
+      - `interaction_type` (text) - call/email/whatsapp/linkedin/meeting
+      - `direction` (text) - outbound/inbound
+      - `duration_minutes` (integer, nullable)
+      - `outcome` (text) - connected/no_answer/left_voicemail/replied/
+        meeting_booked/not_interested/other
+      - `summary` (text, nullable)
+      - `occurred_at` (timestamptz) - When the contact happened
+      - `logged_by_id`, `logged_by_name`, `logged_by_email` - Stamped from the JWT
+      - `created_at` (timestamptz)
+
+  2. Changes to leads
+    - `last_contacted_at` (timestamptz, nullable) - Latest `occurred_at` of the
+      lead's interactions, kept current by a trigger
+
+  3. Triggers
+    - `stamp_lead_interaction` stamps who logged the interaction
+    - `sync_lead_last_contacted` recomputes `last_contacted_at` whenever
+      interactions are added, changed, moved or deleted
+    - `log_lead_interaction` adds 'interaction_logged' to the activity history
+      and moves a lead still in the first pipeline stage (New) to the next one
+      (Contacted)
+
+  4. Changes
+    - `merge_leads` moves the merged lead's interactions to the surviving lead
+
+  5. Security
+    - Enable RLS on `lead_interactions`; admins can read, log, edit and delete
+      interactions
+*/
+
+CREATE TABLE IF NOT EXISTS lead_interactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  interaction_type text NOT NULL CHECK (interaction_type IN ('call', 'email', 'whatsapp', 'linkedin', 'meeting')),
+  direction text NOT NULL DEFAULT 'outbound' CHECK (direction IN ('outbound', 'inbound')),
+  duration_minutes integer CHECK (duration_minutes IS NULL OR duration_minutes >= 0),
+  outcome text NOT NULL CHECK (outcome IN (
+    'connected',
+    'no_answer',
+    'left_voicemail',
+    'replied',
+    'meeting_booked',
+    'not_interested',
+    'other'
+  )),
+  summary text,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  logged_by_id uuid REFERENCES admin_users(id) ON DELETE SET NULL,
+  logged_by_name text,
+  logged_by_email text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_interactions_lead_id ON lead_interactions(lead_id, occurred_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'last_contacted_at'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN last_contacted_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_last_contacted_at ON leads(last_contacted_at);
+
+ALTER TABLE lead_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read lead interactions"
+  ON lead_interactions FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert lead interactions"
+  ON lead_interactions FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update lead interactions"
+  ON lead_interactions FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete lead interactions"
+  ON lead_interactions FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION stamp_lead_interaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_email text := auth.jwt() ->> 'email';
+BEGIN
+  NEW.logged_by_email := v_actor_email;
+  SELECT id, name INTO NEW.logged_by_id, NEW.logged_by_name FROM admin_users WHERE email = v_actor_email;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS stamp_lead_interaction_trigger ON lead_interactions;
+CREATE TRIGGER stamp_lead_interaction_trigger
+  BEFORE INSERT ON lead_interactions
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_lead_interaction();
+
+CREATE OR REPLACE FUNCTION sync_lead_last_contacted()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_lead_id uuid;
+BEGIN
+  FOR v_lead_id IN
+    SELECT DISTINCT id FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.lead_id END,
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.lead_id END
+    ]) AS id
+    WHERE id IS NOT NULL
+  LOOP
+    UPDATE leads l
+    SET last_contacted_at = latest.occurred_at
+    FROM (SELECT max(occurred_at) AS occurred_at FROM lead_interactions WHERE lead_id = v_lead_id) latest
+    WHERE l.id = v_lead_id
+      AND l.last_contacted_at IS DISTINCT FROM latest.occurred_at;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_lead_last_contacted_trigger ON lead_interactions;
+CREATE TRIGGER sync_lead_last_contacted_trigger
+  AFTER INSERT OR UPDATE OF lead_id, occurred_at OR DELETE ON lead_interactions
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_lead_last_contacted();
+
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_activity_type_check;
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_activity_type_check
+CHECK (activity_type IN (
+  'lead_created',
+  'booking_created',
+  'assessment_submitted',
+  'status_changed',
+  'value_changed',
+  'notes_changed',
+  'lead_closed',
+  'lead_reopened',
+  'lead_merged',
+  'owner_changed',
+  'note_added',
+  'interaction_logged'
+));
+
+CREATE OR REPLACE FUNCTION log_lead_interaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_initial pipeline_stages%ROWTYPE;
+  v_next_stage text;
+BEGIN
+  -- e.g. "Outbound call · 15 min · Left voicemail", then the summary
+  INSERT INTO lead_activities (lead_id, activity_type, to_value, actor_name, actor_email)
+  VALUES (
+    NEW.lead_id,
+    'interaction_logged',
+    concat_ws(
+      ' · ',
+      initcap(NEW.direction) || ' ' || CASE NEW.interaction_type
+        WHEN 'call' THEN 'call'
+        WHEN 'email' THEN 'email'
+        WHEN 'whatsapp' THEN 'WhatsApp'
+        WHEN 'linkedin' THEN 'LinkedIn message'
+        WHEN 'meeting' THEN 'meeting'
+      END,
+      CASE WHEN NEW.duration_minutes IS NOT NULL THEN NEW.duration_minutes || ' min' END,
+      initcap(replace(NEW.outcome, '_', ' '))
+    ) || COALESCE(E'\n' || NULLIF(trim(NEW.summary), ''), ''),
+    NEW.logged_by_name,
+    NEW.logged_by_email
+  );
+
+  SELECT * INTO v_initial
+  FROM pipeline_stages
+  WHERE NOT is_closed AND NOT is_won AND NOT is_lost
+  ORDER BY sort_order
+  LIMIT 1;
+
+  SELECT name INTO v_next_stage
+  FROM pipeline_stages
+  WHERE sort_order > v_initial.sort_order AND NOT is_closed AND NOT is_won AND NOT is_lost
+  ORDER BY sort_order
+  LIMIT 1;
+
+  IF v_next_stage IS NOT NULL THEN
+    UPDATE leads
+    SET status = v_next_stage, updated_at = now()
+    WHERE id = NEW.lead_id AND status = v_initial.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS log_lead_interaction_trigger ON lead_interactions;
+CREATE TRIGGER log_lead_interaction_trigger
+  AFTER INSERT ON lead_interactions
+  FOR EACH ROW
+  EXECUTE FUNCTION log_lead_interaction();
+
+-- Same as before, but the merged lead's interactions move to the survivor
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id uuid, p_merged_id uuid, p_fields jsonb DEFAULT '{}'::jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_survivor leads%ROWTYPE;
+  v_merged leads%ROWTYPE;
+  v_actor_email text := auth.jwt() ->> 'email';
+  v_actor_name text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a lead into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surviving lead % not found', p_survivor_id;
+  END IF;
+
+  SELECT * INTO v_merged FROM leads WHERE id = p_merged_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merged lead % not found', p_merged_id;
+  END IF;
+
+  SELECT name INTO v_actor_name FROM admin_users WHERE email = v_actor_email;
+
+  UPDATE leads SET
+    name = CASE WHEN p_fields ? 'name' THEN p_fields->>'name' ELSE name END,
+    email = CASE WHEN p_fields ? 'email' THEN p_fields->>'email' ELSE email END,
+    phone = CASE WHEN p_fields ? 'phone' THEN p_fields->>'phone' ELSE phone END,
+    facility = CASE WHEN p_fields ? 'facility' THEN p_fields->>'facility' ELSE facility END,
+    state = CASE WHEN p_fields ? 'state' THEN p_fields->>'state' ELSE state END,
+    country = CASE WHEN p_fields ? 'country' THEN p_fields->>'country' ELSE country END,
+    source = CASE WHEN p_fields ? 'source' THEN p_fields->>'source' ELSE source END,
+    product_service = CASE WHEN p_fields ? 'product_service' THEN p_fields->>'product_service' ELSE product_service END,
+    status = CASE WHEN p_fields ? 'status' THEN p_fields->>'status' ELSE status END,
+    closed_reason = CASE WHEN p_fields ? 'closed_reason' THEN p_fields->>'closed_reason' ELSE closed_reason END,
+    efficiency_level = CASE WHEN p_fields ? 'efficiency_level' THEN p_fields->>'efficiency_level' ELSE efficiency_level END,
+    score = CASE WHEN p_fields ? 'score' THEN (p_fields->>'score')::integer ELSE score END,
+    value_per_annum = CASE WHEN p_fields ? 'value_per_annum' THEN (p_fields->>'value_per_annum')::numeric ELSE value_per_annum END,
+    comments = CASE WHEN p_fields ? 'comments' THEN p_fields->>'comments' ELSE comments END,
+    notes = CASE WHEN p_fields ? 'notes' THEN p_fields->>'notes' ELSE notes END,
+    selected_services = ARRAY(
+      SELECT DISTINCT s
+      FROM unnest(COALESCE(v_survivor.selected_services, '{}') || COALESCE(v_merged.selected_services, '{}')) AS s
+      ORDER BY s
+    ),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  UPDATE consultancy_bookings_v2 SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE assessments SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_activities SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_notes SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE admin_notifications SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_attachments SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_interactions SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+
+  -- Carry over other pending pairs that involved the merged lead
+  INSERT INTO lead_duplicates (lead_id, duplicate_of_id, match_reasons)
+  SELECT
+    CASE WHEN lead_id = p_merged_id THEN p_survivor_id ELSE lead_id END,
+    CASE WHEN duplicate_of_id = p_merged_id THEN p_survivor_id ELSE duplicate_of_id END,
+    match_reasons
+  FROM lead_duplicates
+  WHERE status = 'pending'
+    AND (lead_id = p_merged_id OR duplicate_of_id = p_merged_id)
+    AND NOT (lead_id IN (p_survivor_id, p_merged_id) AND duplicate_of_id IN (p_survivor_id, p_merged_id))
+  ON CONFLICT (lead_id, duplicate_of_id) DO NOTHING;
+
+  INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+  VALUES (
+    p_survivor_id,
+    'lead_merged',
+    v_merged.name || ' <' || v_merged.email || '>',
+    v_merged.source || ' lead created ' || to_char(v_merged.created_at, 'YYYY-MM-DD'),
+    v_actor_name,
+    v_actor_email
+  );
+
+  DELETE FROM leads WHERE id = p_merged_id;
+
+  RETURN p_survivor_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION merge_leads(uuid, uuid, jsonb) TO authenticated;
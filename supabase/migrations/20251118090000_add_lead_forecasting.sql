@@ -0,0 +1,149 @@
+/*
+  # Deal Value Forecasting
+
+  1. Changes to leads
+    - `expected_close_date` (date, nullable) - Month the deal is expected to
+      close, used to bucket the forecast
+
+  2. New Tables
+    - `forecast_targets` - Revenue target per month
+      - `month` (date, primary key) - First day of the month
+      - `target_amount` (numeric) - Annual contract value the team aims to close
+      - `created_at`, `updated_at` (timestamptz)
+
+  3. Functions
+    - `get_lead_forecast(p_start, p_months)` - Per-month committed, weighted
+      and best-case pipeline from `p_start` for `p_months` months, with the
+      month's target, plus totals for open deals whose close date has passed
+      and open deals with no close date. Runs with the caller's permissions.
+      - Committed: won deals
+      - Weighted: won deals plus each open deal's value times its stage
+        probability
+      - Best case: won deals plus the full value of every open deal
+
+  4. Security
+    - Enable RLS on `forecast_targets`; admins can read and manage targets
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'expected_close_date'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN expected_close_date date;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_expected_close_date ON leads(expected_close_date);
+
+CREATE TABLE IF NOT EXISTS forecast_targets (
+  month date PRIMARY KEY CHECK (month = date_trunc('month', month)::date),
+  target_amount numeric NOT NULL CHECK (target_amount >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE forecast_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read forecast targets"
+  ON forecast_targets FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert forecast targets"
+  ON forecast_targets FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update forecast targets"
+  ON forecast_targets FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete forecast targets"
+  ON forecast_targets FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION update_forecast_targets_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_forecast_targets_updated_at_trigger ON forecast_targets;
+CREATE TRIGGER update_forecast_targets_updated_at_trigger
+  BEFORE UPDATE ON forecast_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_forecast_targets_updated_at();
+
+CREATE OR REPLACE FUNCTION get_lead_forecast(p_start date, p_months integer DEFAULT 6)
+RETURNS jsonb AS $$
+  WITH deals AS (
+    SELECT
+      l.expected_close_date,
+      COALESCE(l.value_per_annum, 0) AS value,
+      s.probability,
+      (s.is_won OR (s.is_closed AND l.closed_reason = 'Confirmed Client')) AS is_won,
+      NOT (s.is_won OR s.is_lost OR s.is_closed) AS is_open
+    FROM leads l
+    JOIN pipeline_stages s ON s.name = l.status
+  ),
+  months AS (
+    SELECT generate_series(
+      date_trunc('month', p_start)::date,
+      (date_trunc('month', p_start) + make_interval(months => p_months - 1))::date,
+      interval '1 month'
+    )::date AS month
+  ),
+  monthly AS (
+    SELECT
+      m.month,
+      t.target_amount AS target,
+      COALESCE(sum(d.value) FILTER (WHERE d.is_won), 0) AS committed,
+      COALESCE(sum(d.value * d.probability / 100.0) FILTER (WHERE d.is_open), 0) AS open_weighted,
+      COALESCE(sum(d.value) FILTER (WHERE d.is_open), 0) AS open_value,
+      count(*) FILTER (WHERE d.is_open) AS open_deals
+    FROM months m
+    LEFT JOIN deals d ON date_trunc('month', d.expected_close_date)::date = m.month
+    LEFT JOIN forecast_targets t ON t.month = m.month
+    GROUP BY m.month, t.target_amount
+  )
+  SELECT jsonb_build_object(
+    'months', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'month', month,
+        'target', target,
+        'committed', committed,
+        'weighted', committed + open_weighted,
+        'bestCase', committed + open_value,
+        'openDeals', open_deals
+      ) ORDER BY month)
+      FROM monthly
+    ), '[]'::jsonb),
+    'overdue', (
+      SELECT jsonb_build_object(
+        'weighted', COALESCE(sum(value * probability / 100.0), 0),
+        'bestCase', COALESCE(sum(value), 0),
+        'openDeals', count(*)
+      )
+      FROM deals
+      WHERE is_open AND expected_close_date < date_trunc('month', p_start)::date
+    ),
+    'unscheduled', (
+      SELECT jsonb_build_object(
+        'weighted', COALESCE(sum(value * probability / 100.0), 0),
+        'bestCase', COALESCE(sum(value), 0),
+        'openDeals', count(*)
+      )
+      FROM deals
+      WHERE is_open AND expected_close_date IS NULL
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_lead_forecast(date, integer) TO authenticated;
@@ -0,0 +1,336 @@
+/*
+  # Loss Reasons
+
+  1. New Tables
+    - `loss_reasons` - Admin-managed list of reasons a deal was lost
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `sort_order` (integer)
+      - `asks_competitor` (boolean) - Show the competitor name field
+      - `is_active` (boolean) - Inactive reasons stay on old leads but can't
+        be picked
+      - `created_at`, `updated_at` (timestamptz)
+    - Seeded with Price, Timing, Competitor, No budget, Unresponsive and Job
+      inquiry
+
+  2. Changes to leads
+    - `loss_reason_id` (uuid, nullable) - References `loss_reasons`; a reason
+      in use can't be deleted
+    - `loss_competitor` (text, nullable) - Who the deal was lost to
+    - `loss_details` (text, nullable) - Free-text explanation
+    - `lost_at` (timestamptz, nullable) - When the lead was closed as lost;
+      backfilled for leads that are already lost
+
+  3. Triggers
+    - `enforce_lead_loss_reason` requires a loss reason whenever an existing
+      lead becomes lost (closed with a reason other than 'Confirmed Client',
+      or moved to an `is_lost` stage), stamps `lost_at`, and clears the loss
+      fields when the lead is reopened or won
+
+  4. Functions
+    - `get_loss_analysis(p_since)` - Lost leads since `p_since` (all time when
+      null) broken down by reason, source, service, owner and competitor
+    - `merge_leads` keeps the loss reason when the merged lead is lost
+
+  5. Security
+    - Enable RLS on `loss_reasons`; admins can read and manage reasons
+*/
+
+CREATE TABLE IF NOT EXISTS loss_reasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL CHECK (length(trim(name)) > 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  asks_competitor boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO loss_reasons (name, sort_order, asks_competitor) VALUES
+  ('Price', 1, false),
+  ('Timing', 2, false),
+  ('Competitor', 3, true),
+  ('No budget', 4, false),
+  ('Unresponsive', 5, false),
+  ('Job inquiry', 6, false)
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE loss_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read loss reasons"
+  ON loss_reasons FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert loss reasons"
+  ON loss_reasons FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update loss reasons"
+  ON loss_reasons FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete loss reasons"
+  ON loss_reasons FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION update_loss_reasons_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_loss_reasons_updated_at_trigger ON loss_reasons;
+CREATE TRIGGER update_loss_reasons_updated_at_trigger
+  BEFORE UPDATE ON loss_reasons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_loss_reasons_updated_at();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'loss_reason_id'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN loss_reason_id uuid REFERENCES loss_reasons(id) ON DELETE RESTRICT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'loss_competitor'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN loss_competitor text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'loss_details'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN loss_details text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'lost_at'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN lost_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_loss_reason_id ON leads(loss_reason_id);
+CREATE INDEX IF NOT EXISTS idx_leads_lost_at ON leads(lost_at);
+
+-- Leads lost before reasons existed: use when they were closed, if recorded
+UPDATE leads l
+SET lost_at = COALESCE(
+  (
+    SELECT max(a.created_at)
+    FROM lead_activities a
+    WHERE a.lead_id = l.id AND a.activity_type = 'lead_closed'
+  ),
+  l.updated_at
+)
+FROM pipeline_stages s
+WHERE s.name = l.status
+  AND l.lost_at IS NULL
+  AND (s.is_lost OR (s.is_closed AND l.closed_reason IS NOT NULL AND l.closed_reason <> 'Confirmed Client'));
+
+CREATE OR REPLACE FUNCTION enforce_lead_loss_reason()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_stage pipeline_stages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_stage FROM pipeline_stages WHERE name = NEW.status;
+
+  -- Same rule as isLeadLost in the app
+  IF NOT COALESCE(
+    v_stage.is_lost OR (v_stage.is_closed AND NEW.closed_reason IS NOT NULL AND NEW.closed_reason <> 'Confirmed Client'),
+    false
+  ) THEN
+    NEW.loss_reason_id := NULL;
+    NEW.loss_competitor := NULL;
+    NEW.loss_details := NULL;
+    NEW.lost_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Imported and merged leads may arrive already lost without a reason
+  IF TG_OP = 'UPDATE' AND NEW.loss_reason_id IS NULL
+    AND (NEW.lost_at IS NULL OR OLD.loss_reason_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'A loss reason is required to close a lead as lost';
+  END IF;
+
+  NEW.lost_at := COALESCE(NEW.lost_at, now());
+  NEW.loss_competitor := NULLIF(trim(NEW.loss_competitor), '');
+  NEW.loss_details := NULLIF(trim(NEW.loss_details), '');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_lead_loss_reason_trigger ON leads;
+CREATE TRIGGER enforce_lead_loss_reason_trigger
+  BEFORE INSERT OR UPDATE ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_lead_loss_reason();
+
+CREATE OR REPLACE FUNCTION get_loss_analysis(p_since timestamptz DEFAULT NULL)
+RETURNS jsonb AS $$
+  WITH lost AS (
+    SELECT
+      l.source,
+      l.selected_services,
+      l.product_service,
+      COALESCE(l.value_per_annum, 0) AS value,
+      COALESCE(r.name, 'Not recorded') AS reason,
+      NULLIF(trim(l.loss_competitor), '') AS competitor,
+      COALESCE(a.name, a.email, 'Unassigned') AS owner
+    FROM leads l
+    JOIN pipeline_stages s ON s.name = l.status
+    LEFT JOIN loss_reasons r ON r.id = l.loss_reason_id
+    LEFT JOIN admin_users a ON a.id = l.owner_id
+    WHERE (s.is_lost OR (s.is_closed AND l.closed_reason IS NOT NULL AND l.closed_reason <> 'Confirmed Client'))
+      AND (p_since IS NULL OR l.lost_at >= p_since)
+  ),
+  services AS (
+    SELECT
+      unnest(
+        CASE WHEN cardinality(selected_services) > 0 THEN selected_services
+        ELSE ARRAY[COALESCE(NULLIF(trim(product_service), ''), 'Not specified')] END
+      ) AS service,
+      value
+    FROM lost
+  )
+  SELECT jsonb_build_object(
+    'totalLost', (SELECT count(*) FROM lost),
+    'totalValue', (SELECT COALESCE(sum(value), 0) FROM lost),
+    'byReason', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('label', reason, 'count', total, 'value', value) ORDER BY total DESC, reason)
+      FROM (SELECT reason, count(*) AS total, sum(value) AS value FROM lost GROUP BY reason) x
+    ), '[]'::jsonb),
+    'bySource', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('label', source, 'count', total, 'value', value) ORDER BY total DESC, source)
+      FROM (SELECT source, count(*) AS total, sum(value) AS value FROM lost GROUP BY source) x
+    ), '[]'::jsonb),
+    'byService', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('label', service, 'count', total, 'value', value) ORDER BY total DESC, service)
+      FROM (SELECT service, count(*) AS total, sum(value) AS value FROM services GROUP BY service) x
+    ), '[]'::jsonb),
+    'byOwner', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('label', owner, 'count', total, 'value', value) ORDER BY total DESC, owner)
+      FROM (SELECT owner, count(*) AS total, sum(value) AS value FROM lost GROUP BY owner) x
+    ), '[]'::jsonb),
+    'byCompetitor', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('label', competitor, 'count', total, 'value', value) ORDER BY total DESC, competitor)
+      FROM (
+        SELECT competitor, count(*) AS total, sum(value) AS value
+        FROM lost
+        WHERE competitor IS NOT NULL
+        GROUP BY competitor
+      ) x
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_loss_analysis(timestamptz) TO authenticated;
+
+-- Same as before, but a lead that ends up lost keeps the loss reason of
+-- whichever record already had one
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id uuid, p_merged_id uuid, p_fields jsonb DEFAULT '{}'::jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_survivor leads%ROWTYPE;
+  v_merged leads%ROWTYPE;
+  v_actor_email text := auth.jwt() ->> 'email';
+  v_actor_name text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a lead into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surviving lead % not found', p_survivor_id;
+  END IF;
+
+  SELECT * INTO v_merged FROM leads WHERE id = p_merged_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merged lead % not found', p_merged_id;
+  END IF;
+
+  SELECT name INTO v_actor_name FROM admin_users WHERE email = v_actor_email;
+
+  UPDATE leads SET
+    name = CASE WHEN p_fields ? 'name' THEN p_fields->>'name' ELSE name END,
+    email = CASE WHEN p_fields ? 'email' THEN p_fields->>'email' ELSE email END,
+    phone = CASE WHEN p_fields ? 'phone' THEN p_fields->>'phone' ELSE phone END,
+    facility = CASE WHEN p_fields ? 'facility' THEN p_fields->>'facility' ELSE facility END,
+    state = CASE WHEN p_fields ? 'state' THEN p_fields->>'state' ELSE state END,
+    country = CASE WHEN p_fields ? 'country' THEN p_fields->>'country' ELSE country END,
+    source = CASE WHEN p_fields ? 'source' THEN p_fields->>'source' ELSE source END,
+    product_service = CASE WHEN p_fields ? 'product_service' THEN p_fields->>'product_service' ELSE product_service END,
+    status = CASE WHEN p_fields ? 'status' THEN p_fields->>'status' ELSE status END,
+    closed_reason = CASE WHEN p_fields ? 'closed_reason' THEN p_fields->>'closed_reason' ELSE closed_reason END,
+    efficiency_level = CASE WHEN p_fields ? 'efficiency_level' THEN p_fields->>'efficiency_level' ELSE efficiency_level END,
+    score = CASE WHEN p_fields ? 'score' THEN (p_fields->>'score')::integer ELSE score END,
+    value_per_annum = CASE WHEN p_fields ? 'value_per_annum' THEN (p_fields->>'value_per_annum')::numeric ELSE value_per_annum END,
+    comments = CASE WHEN p_fields ? 'comments' THEN p_fields->>'comments' ELSE comments END,
+    notes = CASE WHEN p_fields ? 'notes' THEN p_fields->>'notes' ELSE notes END,
+    loss_reason_id = COALESCE(v_survivor.loss_reason_id, v_merged.loss_reason_id),
+    loss_competitor = COALESCE(v_survivor.loss_competitor, v_merged.loss_competitor),
+    loss_details = COALESCE(v_survivor.loss_details, v_merged.loss_details),
+    lost_at = COALESCE(v_survivor.lost_at, v_merged.lost_at),
+    selected_services = ARRAY(
+      SELECT DISTINCT s
+      FROM unnest(COALESCE(v_survivor.selected_services, '{}') || COALESCE(v_merged.selected_services, '{}')) AS s
+      ORDER BY s
+    ),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  UPDATE consultancy_bookings_v2 SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE assessments SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_activities SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_notes SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE admin_notifications SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_attachments SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+  UPDATE lead_interactions SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+
+  -- Carry over other pending pairs that involved the merged lead
+  INSERT INTO lead_duplicates (lead_id, duplicate_of_id, match_reasons)
+  SELECT
+    CASE WHEN lead_id = p_merged_id THEN p_survivor_id ELSE lead_id END,
+    CASE WHEN duplicate_of_id = p_merged_id THEN p_survivor_id ELSE duplicate_of_id END,
+    match_reasons
+  FROM lead_duplicates
+  WHERE status = 'pending'
+    AND (lead_id = p_merged_id OR duplicate_of_id = p_merged_id)
+    AND NOT (lead_id IN (p_survivor_id, p_merged_id) AND duplicate_of_id IN (p_survivor_id, p_merged_id))
+  ON CONFLICT (lead_id, duplicate_of_id) DO NOTHING;
+
+  INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+  VALUES (
+    p_survivor_id,
+    'lead_merged',
+    v_merged.name || ' <' || v_merged.email || '>',
+    v_merged.source || ' lead created ' || to_char(v_merged.created_at, 'YYYY-MM-DD'),
+    v_actor_name,
+    v_actor_email
+  );
+
+  DELETE FROM leads WHERE id = p_merged_id;
+
+  RETURN p_survivor_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION merge_leads(uuid, uuid, jsonb) TO authenticated;
@@ -0,0 +1,238 @@
+/*
+  # Consultant Availability and Booking Rules
+
+  All times are India Standard Time (Asia/Kolkata), the consultants' own
+  timezone. Consultations are one hour long.
+
+  1. New Tables
+    - `booking_availability_settings` - Single-row booking rules
+      - `min_notice_hours` (integer) - How far ahead of a slot it must be booked
+      - `max_days_ahead` (integer) - Furthest day (IST) that can be booked
+      - `buffer_minutes` (integer) - Minimum gap between two consultations
+      - `daily_cap` (integer, nullable) - Most consultations per IST day; null
+        means no cap
+      - `slot_interval_minutes` (integer) - Spacing of slot start times within
+        working hours (15, 30 or 60)
+    - `availability_windows` - Weekly working-hour template
+      - `weekday` (smallint) - 0 = Sunday to 6 = Saturday
+      - `start_time`, `end_time` (time) - Working hours; several windows on one
+        day leave gaps such as a lunch break
+    - `availability_overrides` - Exceptions for a single date
+      - `override_date` (date)
+      - `start_time`, `end_time` (time, nullable) - Working hours for that date;
+        both null blocks the whole day (holiday or blackout)
+      - `note` (text) - e.g. "Diwali"
+      - A date with any override ignores the weekly template, and a blackout
+        wins over custom hours on the same date
+
+  2. Functions
+    - `get_available_booking_slots(p_from, p_to)` - Start times (UTC) of the
+      open slots between `p_from` and `p_to`, after applying working hours,
+      overrides, minimum notice, maximum days ahead, buffers around booked
+      slots and the daily cap. Callable by the public booking form.
+
+  3. Security
+    - Enable RLS on all three tables; admins can manage them
+    - Anyone can read the booking rules so the booking form can limit its
+      date picker
+    - Working hours and overrides are only exposed through
+      `get_available_booking_slots`
+*/
+
+CREATE TABLE IF NOT EXISTS booking_availability_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  min_notice_hours integer NOT NULL DEFAULT 12 CHECK (min_notice_hours >= 0),
+  max_days_ahead integer NOT NULL DEFAULT 60 CHECK (max_days_ahead >= 1),
+  buffer_minutes integer NOT NULL DEFAULT 0 CHECK (buffer_minutes >= 0),
+  daily_cap integer CHECK (daily_cap IS NULL OR daily_cap >= 1),
+  slot_interval_minutes integer NOT NULL DEFAULT 60 CHECK (slot_interval_minutes IN (15, 30, 60)),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO booking_availability_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS availability_windows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_windows_weekday ON availability_windows(weekday);
+
+-- Monday to Friday, 10:00-13:00 and 14:00-19:00 IST
+INSERT INTO availability_windows (weekday, start_time, end_time)
+SELECT d, w.start_time, w.end_time
+FROM generate_series(1, 5) d
+CROSS JOIN (VALUES ('10:00'::time, '13:00'::time), ('14:00'::time, '19:00'::time)) AS w(start_time, end_time)
+WHERE NOT EXISTS (SELECT 1 FROM availability_windows);
+
+CREATE TABLE IF NOT EXISTS availability_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  override_date date NOT NULL,
+  start_time time,
+  end_time time,
+  note text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (
+    (start_time IS NULL AND end_time IS NULL)
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_overrides_date ON availability_overrides(override_date);
+
+ALTER TABLE booking_availability_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE availability_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE availability_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read booking availability settings"
+  ON booking_availability_settings FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update booking availability settings"
+  ON booking_availability_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can read availability windows"
+  ON availability_windows FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert availability windows"
+  ON availability_windows FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update availability windows"
+  ON availability_windows FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete availability windows"
+  ON availability_windows FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can read availability overrides"
+  ON availability_overrides FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert availability overrides"
+  ON availability_overrides FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update availability overrides"
+  ON availability_overrides FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete availability overrides"
+  ON availability_overrides FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION update_booking_availability_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_booking_availability_settings_updated_at ON booking_availability_settings;
+CREATE TRIGGER update_booking_availability_settings_updated_at
+  BEFORE UPDATE ON booking_availability_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_booking_availability_settings_updated_at();
+
+CREATE OR REPLACE FUNCTION update_availability_windows_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_availability_windows_updated_at ON availability_windows;
+CREATE TRIGGER update_availability_windows_updated_at
+  BEFORE UPDATE ON availability_windows
+  FOR EACH ROW
+  EXECUTE FUNCTION update_availability_windows_updated_at();
+
+CREATE OR REPLACE FUNCTION get_available_booking_slots(p_from timestamptz, p_to timestamptz)
+RETURNS jsonb AS $$
+  WITH settings AS (
+    SELECT * FROM booking_availability_settings WHERE id
+  ),
+  days AS (
+    SELECT d::date AS day
+    FROM generate_series(
+      (p_from AT TIME ZONE 'Asia/Kolkata')::date,
+      (p_to AT TIME ZONE 'Asia/Kolkata')::date,
+      interval '1 day'
+    ) d
+  ),
+  windows AS (
+    SELECT d.day, o.start_time, o.end_time
+    FROM days d
+    JOIN availability_overrides o ON o.override_date = d.day
+    WHERE o.start_time IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM availability_overrides b
+        WHERE b.override_date = d.day AND b.start_time IS NULL
+      )
+    UNION ALL
+    SELECT d.day, w.start_time, w.end_time
+    FROM days d
+    JOIN availability_windows w ON w.weekday = extract(dow FROM d.day)
+    WHERE NOT EXISTS (SELECT 1 FROM availability_overrides o WHERE o.override_date = d.day)
+  ),
+  candidates AS (
+    SELECT DISTINCT w.day, (t AT TIME ZONE 'Asia/Kolkata') AS starts_at
+    FROM windows w
+    CROSS JOIN settings s
+    CROSS JOIN LATERAL generate_series(
+      w.day + w.start_time,
+      w.day + w.end_time - interval '1 hour',
+      make_interval(mins => s.slot_interval_minutes)
+    ) t
+  ),
+  booked AS (
+    SELECT time_slot_utc AS starts_at
+    FROM booking_slots
+    WHERE is_booked AND time_slot_utc IS NOT NULL
+  )
+  SELECT COALESCE(jsonb_agg(c.starts_at ORDER BY c.starts_at), '[]'::jsonb)
+  FROM candidates c
+  CROSS JOIN settings s
+  WHERE c.starts_at >= p_from
+    AND c.starts_at < p_to
+    AND c.starts_at >= now() + make_interval(hours => s.min_notice_hours)
+    AND c.day <= (now() AT TIME ZONE 'Asia/Kolkata')::date + s.max_days_ahead
+    -- Keep the buffer clear on both sides of every booked hour
+    AND NOT EXISTS (
+      SELECT 1 FROM booked b
+      WHERE b.starts_at < c.starts_at + interval '1 hour' + make_interval(mins => s.buffer_minutes)
+        AND b.starts_at + interval '1 hour' + make_interval(mins => s.buffer_minutes) > c.starts_at
+    )
+    AND (
+      s.daily_cap IS NULL
+      OR (
+        SELECT count(*) FROM booked b
+        WHERE (b.starts_at AT TIME ZONE 'Asia/Kolkata')::date = c.day
+      ) < s.daily_cap
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_available_booking_slots(timestamptz, timestamptz) TO anon, authenticated;
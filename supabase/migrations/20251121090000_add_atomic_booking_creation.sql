@@ -0,0 +1,161 @@
+/*
+  # Atomic Consultation Booking
+
+  1. Changes to booking_slots
+    - Drop the `(booking_date, time_slot)` unique constraint; both columns are in
+      the visitor's own timezone, so it blocked unrelated bookings and missed
+      real clashes
+    - Release duplicate booked slots at the same UTC time, keeping the earliest
+    - Unique index on `time_slot_utc` for booked slots, so one start time can
+      only be booked once
+    - `booking_id` references `consultancy_bookings_v2` again (the original
+      reference was dropped with the old bookings table); deleting a booking
+      frees its slot
+
+  2. Functions
+    - `create_consultancy_booking(p_booking, p_slot_utc)` - Validates the
+      booking form, checks the slot is still open under the availability
+      rules, and creates the booking, its slot and its lead in one
+      transaction. Returns the booking id. Bookings are taken one at a time,
+      so buffers and daily caps hold under concurrent submissions.
+      - Raises `slot_taken` when the slot is no longer available
+      - Raises a readable message for invalid input
+
+  3. Security
+    - Callable by the public booking form (anon)
+*/
+
+ALTER TABLE booking_slots DROP CONSTRAINT IF EXISTS booking_slots_booking_date_time_slot_key;
+
+UPDATE booking_slots s
+SET is_booked = false
+WHERE s.is_booked
+  AND s.time_slot_utc IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM booking_slots e
+    WHERE e.is_booked
+      AND e.time_slot_utc = s.time_slot_utc
+      AND (e.created_at, e.id) < (s.created_at, s.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS booking_slots_time_slot_utc_booked_key
+  ON booking_slots(time_slot_utc)
+  WHERE is_booked;
+
+UPDATE booking_slots
+SET booking_id = NULL
+WHERE booking_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM consultancy_bookings_v2 b WHERE b.id = booking_slots.booking_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'booking_slots' AND constraint_name = 'booking_slots_booking_id_fkey'
+  ) THEN
+    ALTER TABLE booking_slots
+      ADD CONSTRAINT booking_slots_booking_id_fkey
+      FOREIGN KEY (booking_id) REFERENCES consultancy_bookings_v2(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_booking_slots_booking_id ON booking_slots(booking_id);
+
+CREATE OR REPLACE FUNCTION create_consultancy_booking(p_booking jsonb, p_slot_utc timestamptz)
+RETURNS uuid AS $$
+DECLARE
+  v_full_name text := trim(p_booking->>'full_name');
+  v_email text := lower(trim(p_booking->>'email'));
+  v_phone text := NULLIF(trim(p_booking->>'phone'), '');
+  v_country text := trim(p_booking->>'country');
+  v_state text := trim(p_booking->>'state');
+  v_city text := trim(p_booking->>'city');
+  v_facility text := trim(p_booking->>'facility');
+  v_website text := NULLIF(trim(p_booking->>'website'), '');
+  v_product_service text := trim(p_booking->>'product_service');
+  v_reason text := trim(p_booking->>'reason');
+  v_preferred_date date;
+  v_preferred_time text := trim(p_booking->>'preferred_time');
+  v_time_slot text := trim(p_booking->>'time_slot');
+  v_timezone text := trim(p_booking->>'timezone');
+  v_timezone_value text := trim(p_booking->>'timezone_value');
+  v_ist_time text := NULLIF(trim(p_booking->>'ist_time'), '');
+  v_booking_id uuid;
+BEGIN
+  IF COALESCE(v_full_name, '') = '' OR COALESCE(v_country, '') = '' OR COALESCE(v_state, '') = ''
+    OR COALESCE(v_city, '') = '' OR COALESCE(v_facility, '') = '' OR COALESCE(v_reason, '') = ''
+    OR COALESCE(v_preferred_time, '') = '' OR COALESCE(v_time_slot, '') = ''
+    OR COALESCE(v_timezone, '') = '' OR COALESCE(v_timezone_value, '') = '' THEN
+    RAISE EXCEPTION 'Please fill in all required fields';
+  END IF;
+
+  IF COALESCE(v_email, '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM services WHERE name = v_product_service AND is_visible) THEN
+    RAISE EXCEPTION 'Please select a product or service';
+  END IF;
+
+  BEGIN
+    v_preferred_date := (p_booking->>'preferred_date')::date;
+  EXCEPTION WHEN others THEN
+    RAISE EXCEPTION 'Please select a valid date';
+  END;
+
+  IF v_preferred_date IS NULL OR p_slot_utc IS NULL THEN
+    RAISE EXCEPTION 'Please select a date and time slot';
+  END IF;
+
+  -- One booking at a time, so the availability check below sees every earlier booking
+  PERFORM pg_advisory_xact_lock(hashtext('create_consultancy_booking'));
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(get_available_booking_slots(p_slot_utc, p_slot_utc + interval '1 minute')) AS slot
+    WHERE slot::timestamptz = p_slot_utc
+  ) THEN
+    RAISE EXCEPTION 'slot_taken';
+  END IF;
+
+  INSERT INTO consultancy_bookings_v2 (
+    full_name, email, phone, country, state, city, facility, website,
+    product_service, reason, preferred_date, preferred_time,
+    timezone, timezone_value, ist_time, status
+  )
+  VALUES (
+    v_full_name, v_email, v_phone, v_country, v_state, v_city, v_facility, v_website,
+    v_product_service, v_reason, v_preferred_date, v_preferred_time,
+    v_timezone, v_timezone_value, v_ist_time, 'Pending'
+  )
+  RETURNING id INTO v_booking_id;
+
+  BEGIN
+    INSERT INTO booking_slots (booking_date, time_slot, time_slot_utc, timezone, is_booked, booking_id)
+    VALUES (v_preferred_date, v_time_slot, p_slot_utc, v_timezone_value, true, v_booking_id);
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'slot_taken';
+  END;
+
+  INSERT INTO leads (name, email, phone, facility, state, source, product_service, comments, status)
+  VALUES (
+    v_full_name,
+    v_email,
+    COALESCE(v_phone, 'N/A'),
+    v_facility,
+    v_state,
+    'Consultancy',
+    v_product_service,
+    format(
+      'Consultation Booking - Reason: %s | Product: %s | Country: %s | City: %s | Website: %s | Preferred: %s %s | IST: %s | Date: %s',
+      v_reason, v_product_service, v_country, v_city, COALESCE(v_website, 'N/A'),
+      v_preferred_time, v_timezone, COALESCE(v_ist_time, 'N/A'), v_preferred_date
+    ),
+    'New'
+  );
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_consultancy_booking(jsonb, timestamptz) TO anon, authenticated;
@@ -0,0 +1,75 @@
+/*
+  # Calendar Invites for Consultation Bookings
+
+  1. Changes to consultancy_bookings_v2
+    - `invite_sequence` (integer) - iCalendar SEQUENCE of the booking's event,
+      raised every time the meeting is moved, cancelled or reinstated
+    - `invite_pending` (boolean) - The visitor and consultant still need an
+      email with the current invite; cleared by the `booking-invite-email`
+      edge function. New bookings start pending; existing bookings do not.
+
+  2. Triggers
+    - Cancelling a booking, or reinstating a cancelled one, raises its
+      sequence and queues a CANCEL or REQUEST invite
+    - Moving a booking's slot to a different time does the same
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'consultancy_bookings_v2' AND column_name = 'invite_sequence'
+  ) THEN
+    ALTER TABLE consultancy_bookings_v2 ADD COLUMN invite_sequence integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'consultancy_bookings_v2' AND column_name = 'invite_pending'
+  ) THEN
+    -- Added as false so past bookings are not emailed, then defaulted for new ones
+    ALTER TABLE consultancy_bookings_v2 ADD COLUMN invite_pending boolean NOT NULL DEFAULT false;
+    ALTER TABLE consultancy_bookings_v2 ALTER COLUMN invite_pending SET DEFAULT true;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_consultancy_bookings_v2_invite_pending
+  ON consultancy_bookings_v2(invite_pending)
+  WHERE invite_pending;
+
+CREATE OR REPLACE FUNCTION queue_booking_status_invite()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.status = 'Cancelled') IS DISTINCT FROM (OLD.status = 'Cancelled') THEN
+    NEW.invite_sequence := OLD.invite_sequence + 1;
+    NEW.invite_pending := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS queue_booking_status_invite_trigger ON consultancy_bookings_v2;
+CREATE TRIGGER queue_booking_status_invite_trigger
+  BEFORE UPDATE OF status ON consultancy_bookings_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_booking_status_invite();
+
+CREATE OR REPLACE FUNCTION queue_booking_reschedule_invite()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.booking_id IS NOT NULL AND NEW.time_slot_utc IS DISTINCT FROM OLD.time_slot_utc THEN
+    UPDATE consultancy_bookings_v2
+    SET invite_sequence = invite_sequence + 1, invite_pending = true
+    WHERE id = NEW.booking_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_booking_reschedule_invite_trigger ON booking_slots;
+CREATE TRIGGER queue_booking_reschedule_invite_trigger
+  AFTER UPDATE OF time_slot_utc ON booking_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_booking_reschedule_invite();
@@ -0,0 +1,421 @@
+/*
+  # Self-service Booking Management
+
+  1. Changes to consultancy_bookings_v2
+    - `manage_token` (text, unique) - Random 192-bit token in the visitor's
+      manage-booking link (/booking/manage/:token)
+    - `cancelled_at` (timestamptz, nullable) - When the booking was cancelled
+    - `cancellation_reason` (text, nullable) - Reason given when cancelling
+
+  2. Changes to lead_activities
+    - New activity types `booking_rescheduled` and `booking_cancelled`
+
+  3. Triggers
+    - Cancelling a booking frees its slot; reinstating it books the slot
+      again (failing if someone else has taken it since)
+
+  4. Functions
+    - `get_available_booking_slots` gains `p_exclude_booking_id`, so a booking
+      being moved doesn't block the times around itself
+    - `create_consultancy_booking` now returns `{ id, manageToken }`
+    - `get_managed_booking(p_token)` - The booking behind a manage link
+    - `reschedule_managed_booking(p_token, p_booking, p_slot_utc)` - Moves the
+      booking to another open slot
+    - `cancel_managed_booking(p_token, p_reason)` - Cancels the booking
+    - Rescheduling and cancelling are recorded on the lead's timeline
+
+  5. Security
+    - The manage functions are callable by the public (anon) and only act on
+      the booking matching the token
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'consultancy_bookings_v2' AND column_name = 'manage_token'
+  ) THEN
+    ALTER TABLE consultancy_bookings_v2
+      ADD COLUMN manage_token text NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'consultancy_bookings_v2' AND column_name = 'cancelled_at'
+  ) THEN
+    ALTER TABLE consultancy_bookings_v2 ADD COLUMN cancelled_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'consultancy_bookings_v2' AND column_name = 'cancellation_reason'
+  ) THEN
+    ALTER TABLE consultancy_bookings_v2 ADD COLUMN cancellation_reason text;
+  END IF;
+END $$;
+
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_activity_type_check;
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_activity_type_check
+CHECK (activity_type IN (
+  'lead_created',
+  'booking_created',
+  'assessment_submitted',
+  'status_changed',
+  'value_changed',
+  'notes_changed',
+  'lead_closed',
+  'lead_reopened',
+  'lead_merged',
+  'owner_changed',
+  'note_added',
+  'interaction_logged',
+  'booking_rescheduled',
+  'booking_cancelled'
+));
+
+CREATE OR REPLACE FUNCTION sync_cancelled_booking_slot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'Cancelled' AND OLD.status IS DISTINCT FROM 'Cancelled' THEN
+    UPDATE booking_slots SET is_booked = false WHERE booking_id = NEW.id AND is_booked;
+  ELSIF OLD.status = 'Cancelled' AND NEW.status IS DISTINCT FROM 'Cancelled' THEN
+    BEGIN
+      UPDATE booking_slots SET is_booked = true WHERE booking_id = NEW.id AND NOT is_booked;
+    EXCEPTION WHEN unique_violation THEN
+      RAISE EXCEPTION 'This booking''s time slot has been taken by another booking';
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_cancelled_booking_slot_trigger ON consultancy_bookings_v2;
+CREATE TRIGGER sync_cancelled_booking_slot_trigger
+  AFTER UPDATE OF status ON consultancy_bookings_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_cancelled_booking_slot();
+
+DROP FUNCTION IF EXISTS get_available_booking_slots(timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION get_available_booking_slots(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+  WITH settings AS (
+    SELECT * FROM booking_availability_settings WHERE id
+  ),
+  days AS (
+    SELECT d::date AS day
+    FROM generate_series(
+      (p_from AT TIME ZONE 'Asia/Kolkata')::date,
+      (p_to AT TIME ZONE 'Asia/Kolkata')::date,
+      interval '1 day'
+    ) d
+  ),
+  windows AS (
+    SELECT d.day, o.start_time, o.end_time
+    FROM days d
+    JOIN availability_overrides o ON o.override_date = d.day
+    WHERE o.start_time IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM availability_overrides b
+        WHERE b.override_date = d.day AND b.start_time IS NULL
+      )
+    UNION ALL
+    SELECT d.day, w.start_time, w.end_time
+    FROM days d
+    JOIN availability_windows w ON w.weekday = extract(dow FROM d.day)
+    WHERE NOT EXISTS (SELECT 1 FROM availability_overrides o WHERE o.override_date = d.day)
+  ),
+  candidates AS (
+    SELECT DISTINCT w.day, (t AT TIME ZONE 'Asia/Kolkata') AS starts_at
+    FROM windows w
+    CROSS JOIN settings s
+    CROSS JOIN LATERAL generate_series(
+      w.day + w.start_time,
+      w.day + w.end_time - interval '1 hour',
+      make_interval(mins => s.slot_interval_minutes)
+    ) t
+  ),
+  booked AS (
+    SELECT time_slot_utc AS starts_at
+    FROM booking_slots
+    WHERE is_booked
+      AND time_slot_utc IS NOT NULL
+      AND booking_id IS DISTINCT FROM p_exclude_booking_id
+  )
+  SELECT COALESCE(jsonb_agg(c.starts_at ORDER BY c.starts_at), '[]'::jsonb)
+  FROM candidates c
+  CROSS JOIN settings s
+  WHERE c.starts_at >= p_from
+    AND c.starts_at < p_to
+    AND c.starts_at >= now() + make_interval(hours => s.min_notice_hours)
+    AND c.day <= (now() AT TIME ZONE 'Asia/Kolkata')::date + s.max_days_ahead
+    -- Keep the buffer clear on both sides of every booked hour
+    AND NOT EXISTS (
+      SELECT 1 FROM booked b
+      WHERE b.starts_at < c.starts_at + interval '1 hour' + make_interval(mins => s.buffer_minutes)
+        AND b.starts_at + interval '1 hour' + make_interval(mins => s.buffer_minutes) > c.starts_at
+    )
+    AND (
+      s.daily_cap IS NULL
+      OR (
+        SELECT count(*) FROM booked b
+        WHERE (b.starts_at AT TIME ZONE 'Asia/Kolkata')::date = c.day
+      ) < s.daily_cap
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_available_booking_slots(timestamptz, timestamptz, uuid) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS create_consultancy_booking(jsonb, timestamptz);
+
+CREATE OR REPLACE FUNCTION create_consultancy_booking(p_booking jsonb, p_slot_utc timestamptz)
+RETURNS jsonb AS $$
+DECLARE
+  v_full_name text := trim(p_booking->>'full_name');
+  v_email text := lower(trim(p_booking->>'email'));
+  v_phone text := NULLIF(trim(p_booking->>'phone'), '');
+  v_country text := trim(p_booking->>'country');
+  v_state text := trim(p_booking->>'state');
+  v_city text := trim(p_booking->>'city');
+  v_facility text := trim(p_booking->>'facility');
+  v_website text := NULLIF(trim(p_booking->>'website'), '');
+  v_product_service text := trim(p_booking->>'product_service');
+  v_reason text := trim(p_booking->>'reason');
+  v_preferred_date date;
+  v_preferred_time text := trim(p_booking->>'preferred_time');
+  v_time_slot text := trim(p_booking->>'time_slot');
+  v_timezone text := trim(p_booking->>'timezone');
+  v_timezone_value text := trim(p_booking->>'timezone_value');
+  v_ist_time text := NULLIF(trim(p_booking->>'ist_time'), '');
+  v_booking_id uuid;
+  v_manage_token text;
+BEGIN
+  IF COALESCE(v_full_name, '') = '' OR COALESCE(v_country, '') = '' OR COALESCE(v_state, '') = ''
+    OR COALESCE(v_city, '') = '' OR COALESCE(v_facility, '') = '' OR COALESCE(v_reason, '') = ''
+    OR COALESCE(v_preferred_time, '') = '' OR COALESCE(v_time_slot, '') = ''
+    OR COALESCE(v_timezone, '') = '' OR COALESCE(v_timezone_value, '') = '' THEN
+    RAISE EXCEPTION 'Please fill in all required fields';
+  END IF;
+
+  IF COALESCE(v_email, '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM services WHERE name = v_product_service AND is_visible) THEN
+    RAISE EXCEPTION 'Please select a product or service';
+  END IF;
+
+  BEGIN
+    v_preferred_date := (p_booking->>'preferred_date')::date;
+  EXCEPTION WHEN others THEN
+    RAISE EXCEPTION 'Please select a valid date';
+  END;
+
+  IF v_preferred_date IS NULL OR p_slot_utc IS NULL THEN
+    RAISE EXCEPTION 'Please select a date and time slot';
+  END IF;
+
+  -- One booking at a time, so the availability check below sees every earlier booking
+  PERFORM pg_advisory_xact_lock(hashtext('create_consultancy_booking'));
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(get_available_booking_slots(p_slot_utc, p_slot_utc + interval '1 minute')) AS slot
+    WHERE slot::timestamptz = p_slot_utc
+  ) THEN
+    RAISE EXCEPTION 'slot_taken';
+  END IF;
+
+  INSERT INTO consultancy_bookings_v2 (
+    full_name, email, phone, country, state, city, facility, website,
+    product_service, reason, preferred_date, preferred_time,
+    timezone, timezone_value, ist_time, status
+  )
+  VALUES (
+    v_full_name, v_email, v_phone, v_country, v_state, v_city, v_facility, v_website,
+    v_product_service, v_reason, v_preferred_date, v_preferred_time,
+    v_timezone, v_timezone_value, v_ist_time, 'Pending'
+  )
+  RETURNING id, manage_token INTO v_booking_id, v_manage_token;
+
+  BEGIN
+    INSERT INTO booking_slots (booking_date, time_slot, time_slot_utc, timezone, is_booked, booking_id)
+    VALUES (v_preferred_date, v_time_slot, p_slot_utc, v_timezone_value, true, v_booking_id);
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'slot_taken';
+  END;
+
+  INSERT INTO leads (name, email, phone, facility, state, source, product_service, comments, status)
+  VALUES (
+    v_full_name,
+    v_email,
+    COALESCE(v_phone, 'N/A'),
+    v_facility,
+    v_state,
+    'Consultancy',
+    v_product_service,
+    format(
+      'Consultation Booking - Reason: %s | Product: %s | Country: %s | City: %s | Website: %s | Preferred: %s %s | IST: %s | Date: %s',
+      v_reason, v_product_service, v_country, v_city, COALESCE(v_website, 'N/A'),
+      v_preferred_time, v_timezone, COALESCE(v_ist_time, 'N/A'), v_preferred_date
+    ),
+    'New'
+  );
+
+  RETURN jsonb_build_object('id', v_booking_id, 'manageToken', v_manage_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_consultancy_booking(jsonb, timestamptz) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_managed_booking(p_token text)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'id', b.id,
+    'fullName', b.full_name,
+    'facility', b.facility,
+    'reason', b.reason,
+    'productService', b.product_service,
+    'status', b.status,
+    'timezone', b.timezone_value,
+    'startsAt', s.time_slot_utc,
+    'cancelledAt', b.cancelled_at
+  )
+  FROM consultancy_bookings_v2 b
+  LEFT JOIN LATERAL (
+    SELECT time_slot_utc FROM booking_slots
+    WHERE booking_id = b.id AND time_slot_utc IS NOT NULL
+    ORDER BY is_booked DESC, created_at DESC
+    LIMIT 1
+  ) s ON true
+  WHERE p_token IS NOT NULL AND b.manage_token = p_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_managed_booking(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION reschedule_managed_booking(p_token text, p_booking jsonb, p_slot_utc timestamptz)
+RETURNS void AS $$
+DECLARE
+  v_booking consultancy_bookings_v2%ROWTYPE;
+  v_old_start timestamptz;
+  v_preferred_date date;
+  v_preferred_time text := trim(p_booking->>'preferred_time');
+  v_time_slot text := trim(p_booking->>'time_slot');
+  v_timezone text := trim(p_booking->>'timezone');
+  v_timezone_value text := trim(p_booking->>'timezone_value');
+  v_ist_time text := NULLIF(trim(p_booking->>'ist_time'), '');
+BEGIN
+  SELECT * INTO v_booking FROM consultancy_bookings_v2 WHERE manage_token = p_token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This booking link is not valid';
+  END IF;
+
+  IF v_booking.status IN ('Cancelled', 'Completed') THEN
+    RAISE EXCEPTION 'This booking can no longer be changed';
+  END IF;
+
+  IF COALESCE(v_preferred_time, '') = '' OR COALESCE(v_time_slot, '') = ''
+    OR COALESCE(v_timezone, '') = '' OR COALESCE(v_timezone_value, '') = '' OR p_slot_utc IS NULL THEN
+    RAISE EXCEPTION 'Please select a date and time slot';
+  END IF;
+
+  BEGIN
+    v_preferred_date := (p_booking->>'preferred_date')::date;
+  EXCEPTION WHEN others THEN
+    RAISE EXCEPTION 'Please select a valid date';
+  END;
+
+  -- Same lock as create_consultancy_booking
+  PERFORM pg_advisory_xact_lock(hashtext('create_consultancy_booking'));
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(get_available_booking_slots(p_slot_utc, p_slot_utc + interval '1 minute', v_booking.id)) AS slot
+    WHERE slot::timestamptz = p_slot_utc
+  ) THEN
+    RAISE EXCEPTION 'slot_taken';
+  END IF;
+
+  SELECT time_slot_utc INTO v_old_start
+  FROM booking_slots
+  WHERE booking_id = v_booking.id AND is_booked
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  BEGIN
+    -- Updating the slot's time queues the updated calendar invite
+    UPDATE booking_slots
+    SET booking_date = v_preferred_date, time_slot = v_time_slot, time_slot_utc = p_slot_utc, timezone = v_timezone_value
+    WHERE booking_id = v_booking.id AND is_booked;
+
+    IF NOT FOUND THEN
+      INSERT INTO booking_slots (booking_date, time_slot, time_slot_utc, timezone, is_booked, booking_id)
+      VALUES (v_preferred_date, v_time_slot, p_slot_utc, v_timezone_value, true, v_booking.id);
+    END IF;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'slot_taken';
+  END;
+
+  UPDATE consultancy_bookings_v2
+  SET preferred_date = v_preferred_date,
+      preferred_time = v_preferred_time,
+      timezone = v_timezone,
+      timezone_value = v_timezone_value,
+      ist_time = v_ist_time
+  WHERE id = v_booking.id;
+
+  IF v_booking.lead_id IS NOT NULL THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (
+      v_booking.lead_id,
+      'booking_rescheduled',
+      to_char(v_old_start AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY, HH24:MI') || ' IST',
+      to_char(p_slot_utc AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY, HH24:MI') || ' IST',
+      v_booking.full_name,
+      v_booking.email
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION reschedule_managed_booking(text, jsonb, timestamptz) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_managed_booking(p_token text, p_reason text)
+RETURNS void AS $$
+DECLARE
+  v_booking consultancy_bookings_v2%ROWTYPE;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  SELECT * INTO v_booking FROM consultancy_bookings_v2 WHERE manage_token = p_token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This booking link is not valid';
+  END IF;
+
+  IF v_booking.status IN ('Cancelled', 'Completed') THEN
+    RAISE EXCEPTION 'This booking can no longer be changed';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'Please tell us why you are cancelling';
+  END IF;
+
+  -- The status change frees the slot and queues the cancellation invite
+  UPDATE consultancy_bookings_v2
+  SET status = 'Cancelled', cancelled_at = now(), cancellation_reason = v_reason
+  WHERE id = v_booking.id;
+
+  IF v_booking.lead_id IS NOT NULL THEN
+    INSERT INTO lead_activities (lead_id, activity_type, to_value, actor_name, actor_email)
+    VALUES (v_booking.lead_id, 'booking_cancelled', v_reason, v_booking.full_name, v_booking.email);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION cancel_managed_booking(text, text) TO anon, authenticated;
@@ -0,0 +1,46 @@
+/*
+  # Booking Confirmation and Reminder Emails
+
+  1. New Tables
+    - `booking_email_log` - One row per email sent to a visitor about a booking
+      - `booking_id` (uuid, references consultancy_bookings_v2)
+      - `email_type` (text) - confirmation, reminder_24h, reminder_1h or follow_up
+      - `slot_utc` (timestamptz) - Start of the slot the email was about, so a
+        rescheduled booking gets reminders for its new time
+      - `sent_at` (timestamptz)
+    - The `booking-email-sender` edge function claims a row before sending and
+      deletes it again if the send fails, so re-running it never sends twice
+
+  2. Existing bookings
+    - Marked as already confirmed, and meetings that have already started as
+      already reminded and followed up, so the first run doesn't email them
+
+  3. Security
+    - Enable RLS; admins can read the log
+    - Written by the edge function with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS booking_email_log (
+  booking_id uuid NOT NULL REFERENCES consultancy_bookings_v2(id) ON DELETE CASCADE,
+  email_type text NOT NULL CHECK (email_type IN ('confirmation', 'reminder_24h', 'reminder_1h', 'follow_up')),
+  slot_utc timestamptz NOT NULL,
+  sent_at timestamptz DEFAULT now(),
+  PRIMARY KEY (booking_id, email_type, slot_utc)
+);
+
+ALTER TABLE booking_email_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read booking email log"
+  ON booking_email_log FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+INSERT INTO booking_email_log (booking_id, email_type, slot_utc)
+SELECT s.booking_id, t.email_type, s.time_slot_utc
+FROM booking_slots s
+CROSS JOIN (VALUES ('confirmation'), ('reminder_24h'), ('reminder_1h'), ('follow_up')) AS t(email_type)
+WHERE s.is_booked
+  AND s.booking_id IS NOT NULL
+  AND s.time_slot_utc IS NOT NULL
+  AND (t.email_type = 'confirmation' OR s.time_slot_utc <= now())
+ON CONFLICT DO NOTHING;
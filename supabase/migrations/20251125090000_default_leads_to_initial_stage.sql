@@ -0,0 +1,126 @@
+/*
+  # Start New Leads in the First Open Pipeline Stage
+
+  Stages can be renamed and deleted, so new leads can no longer assume a
+  stage called 'New' exists.
+
+  1. Functions
+    - `initial_pipeline_stage()` - Name of the first stage in order that is
+      not closed, won or lost (the first stage if every stage is)
+    - `create_consultancy_booking` starts its lead in that stage
+
+  2. Changes to leads
+    - `status` defaults to `initial_pipeline_stage()` instead of 'New'
+*/
+
+CREATE OR REPLACE FUNCTION initial_pipeline_stage()
+RETURNS text AS $$
+  SELECT name
+  FROM pipeline_stages
+  ORDER BY (is_closed OR is_won OR is_lost), sort_order, name
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION initial_pipeline_stage() TO anon, authenticated;
+
+ALTER TABLE leads ALTER COLUMN status SET DEFAULT initial_pipeline_stage();
+
+CREATE OR REPLACE FUNCTION create_consultancy_booking(p_booking jsonb, p_slot_utc timestamptz)
+RETURNS jsonb AS $$
+DECLARE
+  v_full_name text := trim(p_booking->>'full_name');
+  v_email text := lower(trim(p_booking->>'email'));
+  v_phone text := NULLIF(trim(p_booking->>'phone'), '');
+  v_country text := trim(p_booking->>'country');
+  v_state text := trim(p_booking->>'state');
+  v_city text := trim(p_booking->>'city');
+  v_facility text := trim(p_booking->>'facility');
+  v_website text := NULLIF(trim(p_booking->>'website'), '');
+  v_product_service text := trim(p_booking->>'product_service');
+  v_reason text := trim(p_booking->>'reason');
+  v_preferred_date date;
+  v_preferred_time text := trim(p_booking->>'preferred_time');
+  v_time_slot text := trim(p_booking->>'time_slot');
+  v_timezone text := trim(p_booking->>'timezone');
+  v_timezone_value text := trim(p_booking->>'timezone_value');
+  v_ist_time text := NULLIF(trim(p_booking->>'ist_time'), '');
+  v_booking_id uuid;
+  v_manage_token text;
+BEGIN
+  IF COALESCE(v_full_name, '') = '' OR COALESCE(v_country, '') = '' OR COALESCE(v_state, '') = ''
+    OR COALESCE(v_city, '') = '' OR COALESCE(v_facility, '') = '' OR COALESCE(v_reason, '') = ''
+    OR COALESCE(v_preferred_time, '') = '' OR COALESCE(v_time_slot, '') = ''
+    OR COALESCE(v_timezone, '') = '' OR COALESCE(v_timezone_value, '') = '' THEN
+    RAISE EXCEPTION 'Please fill in all required fields';
+  END IF;
+
+  IF COALESCE(v_email, '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM services WHERE name = v_product_service AND is_visible) THEN
+    RAISE EXCEPTION 'Please select a product or service';
+  END IF;
+
+  BEGIN
+    v_preferred_date := (p_booking->>'preferred_date')::date;
+  EXCEPTION WHEN others THEN
+    RAISE EXCEPTION 'Please select a valid date';
+  END;
+
+  IF v_preferred_date IS NULL OR p_slot_utc IS NULL THEN
+    RAISE EXCEPTION 'Please select a date and time slot';
+  END IF;
+
+  -- One booking at a time, so the availability check below sees every earlier booking
+  PERFORM pg_advisory_xact_lock(hashtext('create_consultancy_booking'));
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(get_available_booking_slots(p_slot_utc, p_slot_utc + interval '1 minute')) AS slot
+    WHERE slot::timestamptz = p_slot_utc
+  ) THEN
+    RAISE EXCEPTION 'slot_taken';
+  END IF;
+
+  INSERT INTO consultancy_bookings_v2 (
+    full_name, email, phone, country, state, city, facility, website,
+    product_service, reason, preferred_date, preferred_time,
+    timezone, timezone_value, ist_time, status
+  )
+  VALUES (
+    v_full_name, v_email, v_phone, v_country, v_state, v_city, v_facility, v_website,
+    v_product_service, v_reason, v_preferred_date, v_preferred_time,
+    v_timezone, v_timezone_value, v_ist_time, 'Pending'
+  )
+  RETURNING id, manage_token INTO v_booking_id, v_manage_token;
+
+  BEGIN
+    INSERT INTO booking_slots (booking_date, time_slot, time_slot_utc, timezone, is_booked, booking_id)
+    VALUES (v_preferred_date, v_time_slot, p_slot_utc, v_timezone_value, true, v_booking_id);
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'slot_taken';
+  END;
+
+  INSERT INTO leads (name, email, phone, facility, state, source, product_service, comments, status)
+  VALUES (
+    v_full_name,
+    v_email,
+    COALESCE(v_phone, 'N/A'),
+    v_facility,
+    v_state,
+    'Consultancy',
+    v_product_service,
+    format(
+      'Consultation Booking - Reason: %s | Product: %s | Country: %s | City: %s | Website: %s | Preferred: %s %s | IST: %s | Date: %s',
+      v_reason, v_product_service, v_country, v_city, COALESCE(v_website, 'N/A'),
+      v_preferred_time, v_timezone, COALESCE(v_ist_time, 'N/A'), v_preferred_date
+    ),
+    initial_pipeline_stage()
+  );
+
+  RETURN jsonb_build_object('id', v_booking_id, 'manageToken', v_manage_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_consultancy_booking(jsonb, timestamptz) TO anon, authenticated;
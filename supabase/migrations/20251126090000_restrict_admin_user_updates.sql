@@ -0,0 +1,13 @@
+/*
+  # Restrict Admin User Updates to the Assignment Pool
+
+  1. Security
+    - "Admins can update admin users" lets any admin rewrite every column of
+      `admin_users`, including other admins' email and name
+    - Revoke table-wide UPDATE from `authenticated` and grant it back on
+      `receives_auto_assignments` only, which is all the assignment pool
+      settings need
+*/
+
+REVOKE UPDATE ON admin_users FROM authenticated;
+GRANT UPDATE (receives_auto_assignments) ON admin_users TO authenticated;
@@ -0,0 +1,28 @@
+/*
+  # Only Serve Lead Attachments That Passed Their Scan
+
+  1. Security
+    - Admins could read any object in the `lead-attachments` bucket, so a
+      file still pending, or one whose scan failed, could be downloaded by
+      requesting a signed URL directly
+    - Reading a file now also requires its `lead_attachments` row to be
+      'clean', or 'skipped' when no virus scanner is configured; the same
+      statuses the CRM offers to open
+    - The `scan-lead-attachment` edge function reads files with the service
+      role and is not affected
+*/
+
+DROP POLICY IF EXISTS "Admins can read lead attachment files" ON storage.objects;
+
+CREATE POLICY "Admins can read scanned lead attachment files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'lead-attachments'
+    AND is_admin()
+    AND EXISTS (
+      SELECT 1 FROM lead_attachments a
+      WHERE a.storage_path = storage.objects.name
+        AND a.scan_status IN ('clean', 'skipped')
+    )
+  );
@@ -0,0 +1,139 @@
+/*
+  # Forecast Won Deals by When They Were Won
+
+  Committed revenue was bucketed by `expected_close_date`, so a deal won
+  early or late counted in the month it was expected, and a won deal without
+  a close date didn't count at all.
+
+  1. Changes to leads
+    - `won_at` (timestamptz, nullable) - When the lead was won; backfilled
+      for leads that are already won from when they were closed, if recorded
+
+  2. Triggers
+    - `stamp_lead_won_at` sets `won_at` when a lead becomes won (moved to an
+      `is_won` stage, or closed as 'Confirmed Client') and clears it when the
+      lead is reopened or lost
+
+  3. Functions
+    - `get_lead_forecast` buckets won deals by `won_at`; open deals are still
+      bucketed by `expected_close_date`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'won_at'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN won_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_won_at ON leads(won_at);
+
+UPDATE leads l
+SET won_at = COALESCE(
+  (
+    SELECT max(a.created_at)
+    FROM lead_activities a
+    WHERE a.lead_id = l.id AND a.activity_type = 'lead_closed'
+  ),
+  l.updated_at
+)
+FROM pipeline_stages s
+WHERE s.name = l.status
+  AND l.won_at IS NULL
+  AND (s.is_won OR (s.is_closed AND l.closed_reason = 'Confirmed Client'));
+
+CREATE OR REPLACE FUNCTION stamp_lead_won_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Same rule as isLeadWon in the app
+  IF EXISTS (
+    SELECT 1 FROM pipeline_stages
+    WHERE name = NEW.status
+      AND (is_won OR (is_closed AND NEW.closed_reason = 'Confirmed Client'))
+  ) THEN
+    NEW.won_at := COALESCE(NEW.won_at, now());
+  ELSE
+    NEW.won_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_lead_won_at_trigger ON leads;
+CREATE TRIGGER stamp_lead_won_at_trigger
+  BEFORE INSERT OR UPDATE ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_lead_won_at();
+
+-- Same as before, but won deals count in the month they were won
+CREATE OR REPLACE FUNCTION get_lead_forecast(p_start date, p_months integer DEFAULT 6)
+RETURNS jsonb AS $$
+  WITH deals AS (
+    SELECT
+      l.expected_close_date,
+      l.won_at,
+      COALESCE(l.value_per_annum, 0) AS value,
+      s.probability,
+      (s.is_won OR (s.is_closed AND l.closed_reason = 'Confirmed Client')) AS is_won,
+      NOT (s.is_won OR s.is_lost OR s.is_closed) AS is_open
+    FROM leads l
+    JOIN pipeline_stages s ON s.name = l.status
+  ),
+  months AS (
+    SELECT generate_series(
+      date_trunc('month', p_start)::date,
+      (date_trunc('month', p_start) + make_interval(months => p_months - 1))::date,
+      interval '1 month'
+    )::date AS month
+  ),
+  monthly AS (
+    SELECT
+      m.month,
+      t.target_amount AS target,
+      COALESCE(sum(d.value) FILTER (WHERE d.is_won), 0) AS committed,
+      COALESCE(sum(d.value * d.probability / 100.0) FILTER (WHERE d.is_open), 0) AS open_weighted,
+      COALESCE(sum(d.value) FILTER (WHERE d.is_open), 0) AS open_value,
+      count(*) FILTER (WHERE d.is_open) AS open_deals
+    FROM months m
+    LEFT JOIN deals d ON date_trunc('month', CASE WHEN d.is_won THEN d.won_at ELSE d.expected_close_date END)::date = m.month
+    LEFT JOIN forecast_targets t ON t.month = m.month
+    GROUP BY m.month, t.target_amount
+  )
+  SELECT jsonb_build_object(
+    'months', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'month', month,
+        'target', target,
+        'committed', committed,
+        'weighted', committed + open_weighted,
+        'bestCase', committed + open_value,
+        'openDeals', open_deals
+      ) ORDER BY month)
+      FROM monthly
+    ), '[]'::jsonb),
+    'overdue', (
+      SELECT jsonb_build_object(
+        'weighted', COALESCE(sum(value * probability / 100.0), 0),
+        'bestCase', COALESCE(sum(value), 0),
+        'openDeals', count(*)
+      )
+      FROM deals
+      WHERE is_open AND expected_close_date < date_trunc('month', p_start)::date
+    ),
+    'unscheduled', (
+      SELECT jsonb_build_object(
+        'weighted', COALESCE(sum(value * probability / 100.0), 0),
+        'bestCase', COALESCE(sum(value), 0),
+        'openDeals', count(*)
+      )
+      FROM deals
+      WHERE is_open AND expected_close_date IS NULL
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_lead_forecast(date, integer) TO authenticated;
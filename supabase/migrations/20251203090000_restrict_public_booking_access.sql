@@ -0,0 +1,47 @@
+/*
+  # Create Public Bookings Only Through create_consultancy_booking
+
+  The public booking form creates bookings with the
+  `create_consultancy_booking` function, which validates the form and checks
+  the slot against the availability rules. Visitors could still skip those
+  checks by writing to the tables directly.
+
+  1. Security
+    - Drop "Anyone can insert booking slots" and "Public can read booking
+      slots"; visitors see open times through `get_available_booking_slots`
+    - Enable RLS on `consultancy_bookings_v2`, which had it disabled so the
+      form could insert. Admins can read, update and delete bookings; there
+      is no insert policy, so new bookings only come from the function.
+*/
+
+DROP POLICY IF EXISTS "Anyone can insert booking slots" ON booking_slots;
+DROP POLICY IF EXISTS "Public can read booking slots" ON booking_slots;
+
+-- Clear out every policy the table has had, in case any survived being disabled
+DROP POLICY IF EXISTS "Anyone can submit bookings" ON consultancy_bookings_v2;
+DROP POLICY IF EXISTS "Public can insert bookings" ON consultancy_bookings_v2;
+DROP POLICY IF EXISTS "enable_insert_for_all" ON consultancy_bookings_v2;
+DROP POLICY IF EXISTS "enable_read_for_admins" ON consultancy_bookings_v2;
+DROP POLICY IF EXISTS "enable_update_for_admins" ON consultancy_bookings_v2;
+DROP POLICY IF EXISTS "enable_delete_for_admins" ON consultancy_bookings_v2;
+DROP POLICY IF EXISTS "Admins can read all bookings" ON consultancy_bookings_v2;
+DROP POLICY IF EXISTS "Admins can update bookings" ON consultancy_bookings_v2;
+DROP POLICY IF EXISTS "Admins can delete bookings" ON consultancy_bookings_v2;
+
+ALTER TABLE consultancy_bookings_v2 ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read all bookings"
+  ON consultancy_bookings_v2 FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update bookings"
+  ON consultancy_bookings_v2 FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete bookings"
+  ON consultancy_bookings_v2 FOR DELETE
+  TO authenticated
+  USING (is_admin());
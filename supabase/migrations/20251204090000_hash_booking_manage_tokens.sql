@@ -0,0 +1,334 @@
+/*
+  # Store Only a Hash of Booking Manage Tokens
+
+  Manage tokens were stored in plain text, so anyone who could read
+  `consultancy_bookings_v2` could reschedule or cancel every booking.
+
+  1. New Tables
+    - `booking_link_secret` - Single-row secret the manage tokens are derived
+      from. RLS is enabled with no policies, so only the service role and
+      SECURITY DEFINER functions can read it.
+
+  2. Changes to consultancy_bookings_v2
+    - `manage_token_hash` (text, unique) - SHA-256 of the booking's manage
+      token, set when the booking is created and backfilled for existing
+      bookings
+    - `manage_token` is dropped. Links sent before this change stop working;
+      the next email about the booking carries a working one.
+
+  3. Functions
+    - `booking_manage_token(p_booking_id)` - HMAC-SHA256 of the booking id
+      under the secret. Only the service role can call it, so the email
+      edge functions can put the link in reminders and updated invites.
+    - `create_consultancy_booking` returns the derived token
+    - `get_managed_booking`, `reschedule_managed_booking` and
+      `cancel_managed_booking` look the booking up by the hash of the token
+      they are given
+*/
+
+CREATE TABLE IF NOT EXISTS booking_link_secret (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  secret text NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex')
+);
+
+INSERT INTO booking_link_secret (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE booking_link_secret ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON booking_link_secret FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION booking_manage_token(p_booking_id uuid)
+RETURNS text AS $$
+  SELECT encode(hmac(p_booking_id::text, secret, 'sha256'), 'hex')
+  FROM booking_link_secret
+  WHERE id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION booking_manage_token(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION booking_manage_token(uuid) TO service_role;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'consultancy_bookings_v2' AND column_name = 'manage_token_hash'
+  ) THEN
+    ALTER TABLE consultancy_bookings_v2 ADD COLUMN manage_token_hash text UNIQUE;
+  END IF;
+END $$;
+
+UPDATE consultancy_bookings_v2
+SET manage_token_hash = encode(digest(booking_manage_token(id), 'sha256'), 'hex')
+WHERE manage_token_hash IS NULL;
+
+ALTER TABLE consultancy_bookings_v2 ALTER COLUMN manage_token_hash SET NOT NULL;
+ALTER TABLE consultancy_bookings_v2 DROP COLUMN IF EXISTS manage_token;
+
+-- The id is already set from its default when BEFORE INSERT triggers run
+CREATE OR REPLACE FUNCTION set_booking_manage_token_hash()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.manage_token_hash := encode(digest(booking_manage_token(NEW.id), 'sha256'), 'hex');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_booking_manage_token_hash_trigger ON consultancy_bookings_v2;
+CREATE TRIGGER set_booking_manage_token_hash_trigger
+  BEFORE INSERT ON consultancy_bookings_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_manage_token_hash();
+
+-- Same as before, but the token is derived from the booking id instead of stored
+CREATE OR REPLACE FUNCTION create_consultancy_booking(p_booking jsonb, p_slot_utc timestamptz)
+RETURNS jsonb AS $$
+DECLARE
+  v_full_name text := trim(p_booking->>'full_name');
+  v_email text := lower(trim(p_booking->>'email'));
+  v_phone text := NULLIF(trim(p_booking->>'phone'), '');
+  v_country text := trim(p_booking->>'country');
+  v_state text := trim(p_booking->>'state');
+  v_city text := trim(p_booking->>'city');
+  v_facility text := trim(p_booking->>'facility');
+  v_website text := NULLIF(trim(p_booking->>'website'), '');
+  v_product_service text := trim(p_booking->>'product_service');
+  v_reason text := trim(p_booking->>'reason');
+  v_preferred_date date;
+  v_preferred_time text := trim(p_booking->>'preferred_time');
+  v_time_slot text := trim(p_booking->>'time_slot');
+  v_timezone text := trim(p_booking->>'timezone');
+  v_timezone_value text := trim(p_booking->>'timezone_value');
+  v_ist_time text := NULLIF(trim(p_booking->>'ist_time'), '');
+  v_booking_id uuid;
+BEGIN
+  IF COALESCE(v_full_name, '') = '' OR COALESCE(v_country, '') = '' OR COALESCE(v_state, '') = ''
+    OR COALESCE(v_city, '') = '' OR COALESCE(v_facility, '') = '' OR COALESCE(v_reason, '') = ''
+    OR COALESCE(v_preferred_time, '') = '' OR COALESCE(v_time_slot, '') = ''
+    OR COALESCE(v_timezone, '') = '' OR COALESCE(v_timezone_value, '') = '' THEN
+    RAISE EXCEPTION 'Please fill in all required fields';
+  END IF;
+
+  IF COALESCE(v_email, '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM services WHERE name = v_product_service AND is_visible) THEN
+    RAISE EXCEPTION 'Please select a product or service';
+  END IF;
+
+  BEGIN
+    v_preferred_date := (p_booking->>'preferred_date')::date;
+  EXCEPTION WHEN others THEN
+    RAISE EXCEPTION 'Please select a valid date';
+  END;
+
+  IF v_preferred_date IS NULL OR p_slot_utc IS NULL THEN
+    RAISE EXCEPTION 'Please select a date and time slot';
+  END IF;
+
+  -- One booking at a time, so the availability check below sees every earlier booking
+  PERFORM pg_advisory_xact_lock(hashtext('create_consultancy_booking'));
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(get_available_booking_slots(p_slot_utc, p_slot_utc + interval '1 minute')) AS slot
+    WHERE slot::timestamptz = p_slot_utc
+  ) THEN
+    RAISE EXCEPTION 'slot_taken';
+  END IF;
+
+  INSERT INTO consultancy_bookings_v2 (
+    full_name, email, phone, country, state, city, facility, website,
+    product_service, reason, preferred_date, preferred_time,
+    timezone, timezone_value, ist_time, status
+  )
+  VALUES (
+    v_full_name, v_email, v_phone, v_country, v_state, v_city, v_facility, v_website,
+    v_product_service, v_reason, v_preferred_date, v_preferred_time,
+    v_timezone, v_timezone_value, v_ist_time, 'Pending'
+  )
+  RETURNING id INTO v_booking_id;
+
+  BEGIN
+    INSERT INTO booking_slots (booking_date, time_slot, time_slot_utc, timezone, is_booked, booking_id)
+    VALUES (v_preferred_date, v_time_slot, p_slot_utc, v_timezone_value, true, v_booking_id);
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'slot_taken';
+  END;
+
+  INSERT INTO leads (name, email, phone, facility, state, source, product_service, comments, status)
+  VALUES (
+    v_full_name,
+    v_email,
+    COALESCE(v_phone, 'N/A'),
+    v_facility,
+    v_state,
+    'Consultancy',
+    v_product_service,
+    format(
+      'Consultation Booking - Reason: %s | Product: %s | Country: %s | City: %s | Website: %s | Preferred: %s %s | IST: %s | Date: %s',
+      v_reason, v_product_service, v_country, v_city, COALESCE(v_website, 'N/A'),
+      v_preferred_time, v_timezone, COALESCE(v_ist_time, 'N/A'), v_preferred_date
+    ),
+    initial_pipeline_stage()
+  );
+
+  RETURN jsonb_build_object('id', v_booking_id, 'manageToken', booking_manage_token(v_booking_id));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_consultancy_booking(jsonb, timestamptz) TO anon, authenticated;
+
+-- The manage functions are the same as before, but match the hash of the token
+CREATE OR REPLACE FUNCTION get_managed_booking(p_token text)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'id', b.id,
+    'fullName', b.full_name,
+    'facility', b.facility,
+    'reason', b.reason,
+    'productService', b.product_service,
+    'status', b.status,
+    'timezone', b.timezone_value,
+    'startsAt', s.time_slot_utc,
+    'cancelledAt', b.cancelled_at
+  )
+  FROM consultancy_bookings_v2 b
+  LEFT JOIN LATERAL (
+    SELECT time_slot_utc FROM booking_slots
+    WHERE booking_id = b.id AND time_slot_utc IS NOT NULL
+    ORDER BY is_booked DESC, created_at DESC
+    LIMIT 1
+  ) s ON true
+  WHERE p_token IS NOT NULL AND b.manage_token_hash = encode(digest(p_token, 'sha256'), 'hex');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_managed_booking(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION reschedule_managed_booking(p_token text, p_booking jsonb, p_slot_utc timestamptz)
+RETURNS void AS $$
+DECLARE
+  v_booking consultancy_bookings_v2%ROWTYPE;
+  v_old_start timestamptz;
+  v_preferred_date date;
+  v_preferred_time text := trim(p_booking->>'preferred_time');
+  v_time_slot text := trim(p_booking->>'time_slot');
+  v_timezone text := trim(p_booking->>'timezone');
+  v_timezone_value text := trim(p_booking->>'timezone_value');
+  v_ist_time text := NULLIF(trim(p_booking->>'ist_time'), '');
+BEGIN
+  SELECT * INTO v_booking
+  FROM consultancy_bookings_v2
+  WHERE manage_token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This booking link is not valid';
+  END IF;
+
+  IF v_booking.status IN ('Cancelled', 'Completed') THEN
+    RAISE EXCEPTION 'This booking can no longer be changed';
+  END IF;
+
+  IF COALESCE(v_preferred_time, '') = '' OR COALESCE(v_time_slot, '') = ''
+    OR COALESCE(v_timezone, '') = '' OR COALESCE(v_timezone_value, '') = '' OR p_slot_utc IS NULL THEN
+    RAISE EXCEPTION 'Please select a date and time slot';
+  END IF;
+
+  BEGIN
+    v_preferred_date := (p_booking->>'preferred_date')::date;
+  EXCEPTION WHEN others THEN
+    RAISE EXCEPTION 'Please select a valid date';
+  END;
+
+  -- Same lock as create_consultancy_booking
+  PERFORM pg_advisory_xact_lock(hashtext('create_consultancy_booking'));
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(get_available_booking_slots(p_slot_utc, p_slot_utc + interval '1 minute', v_booking.id)) AS slot
+    WHERE slot::timestamptz = p_slot_utc
+  ) THEN
+    RAISE EXCEPTION 'slot_taken';
+  END IF;
+
+  SELECT time_slot_utc INTO v_old_start
+  FROM booking_slots
+  WHERE booking_id = v_booking.id AND is_booked
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  BEGIN
+    -- Updating the slot's time queues the updated calendar invite
+    UPDATE booking_slots
+    SET booking_date = v_preferred_date, time_slot = v_time_slot, time_slot_utc = p_slot_utc, timezone = v_timezone_value
+    WHERE booking_id = v_booking.id AND is_booked;
+
+    IF NOT FOUND THEN
+      INSERT INTO booking_slots (booking_date, time_slot, time_slot_utc, timezone, is_booked, booking_id)
+      VALUES (v_preferred_date, v_time_slot, p_slot_utc, v_timezone_value, true, v_booking.id);
+    END IF;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'slot_taken';
+  END;
+
+  UPDATE consultancy_bookings_v2
+  SET preferred_date = v_preferred_date,
+      preferred_time = v_preferred_time,
+      timezone = v_timezone,
+      timezone_value = v_timezone_value,
+      ist_time = v_ist_time
+  WHERE id = v_booking.id;
+
+  IF v_booking.lead_id IS NOT NULL THEN
+    INSERT INTO lead_activities (lead_id, activity_type, from_value, to_value, actor_name, actor_email)
+    VALUES (
+      v_booking.lead_id,
+      'booking_rescheduled',
+      to_char(v_old_start AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY, HH24:MI') || ' IST',
+      to_char(p_slot_utc AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY, HH24:MI') || ' IST',
+      v_booking.full_name,
+      v_booking.email
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION reschedule_managed_booking(text, jsonb, timestamptz) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_managed_booking(p_token text, p_reason text)
+RETURNS void AS $$
+DECLARE
+  v_booking consultancy_bookings_v2%ROWTYPE;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  SELECT * INTO v_booking
+  FROM consultancy_bookings_v2
+  WHERE manage_token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This booking link is not valid';
+  END IF;
+
+  IF v_booking.status IN ('Cancelled', 'Completed') THEN
+    RAISE EXCEPTION 'This booking can no longer be changed';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'Please tell us why you are cancelling';
+  END IF;
+
+  -- The status change frees the slot and queues the cancellation invite
+  UPDATE consultancy_bookings_v2
+  SET status = 'Cancelled', cancelled_at = now(), cancellation_reason = v_reason
+  WHERE id = v_booking.id;
+
+  IF v_booking.lead_id IS NOT NULL THEN
+    INSERT INTO lead_activities (lead_id, activity_type, to_value, actor_name, actor_email)
+    VALUES (v_booking.lead_id, 'booking_cancelled', v_reason, v_booking.full_name, v_booking.email);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION cancel_managed_booking(text, text) TO anon, authenticated;
@@ -0,0 +1,85 @@
+/*
+  # Bound the Days Scanned for Open Booking Slots
+
+  1. Functions
+    - `get_available_booking_slots` is callable by the public and generated
+      every day between `p_from` and `p_to`, so one call with a range of
+      years made Postgres build and filter years of slots. The days are now
+      clamped to today through the booking horizon (`max_days_ahead`), the
+      only days that can return slots anyway.
+*/
+
+CREATE OR REPLACE FUNCTION get_available_booking_slots(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+  WITH settings AS (
+    SELECT * FROM booking_availability_settings WHERE id
+  ),
+  -- Only days that could be bookable, however wide a range the caller asks for
+  days AS (
+    SELECT d::date AS day
+    FROM settings s
+    CROSS JOIN LATERAL generate_series(
+      GREATEST((p_from AT TIME ZONE 'Asia/Kolkata')::date, (now() AT TIME ZONE 'Asia/Kolkata')::date),
+      LEAST((p_to AT TIME ZONE 'Asia/Kolkata')::date, (now() AT TIME ZONE 'Asia/Kolkata')::date + s.max_days_ahead),
+      interval '1 day'
+    ) d
+  ),
+  windows AS (
+    SELECT d.day, o.start_time, o.end_time
+    FROM days d
+    JOIN availability_overrides o ON o.override_date = d.day
+    WHERE o.start_time IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM availability_overrides b
+        WHERE b.override_date = d.day AND b.start_time IS NULL
+      )
+    UNION ALL
+    SELECT d.day, w.start_time, w.end_time
+    FROM days d
+    JOIN availability_windows w ON w.weekday = extract(dow FROM d.day)
+    WHERE NOT EXISTS (SELECT 1 FROM availability_overrides o WHERE o.override_date = d.day)
+  ),
+  candidates AS (
+    SELECT DISTINCT w.day, (t AT TIME ZONE 'Asia/Kolkata') AS starts_at
+    FROM windows w
+    CROSS JOIN settings s
+    CROSS JOIN LATERAL generate_series(
+      w.day + w.start_time,
+      w.day + w.end_time - interval '1 hour',
+      make_interval(mins => s.slot_interval_minutes)
+    ) t
+  ),
+  booked AS (
+    SELECT time_slot_utc AS starts_at
+    FROM booking_slots
+    WHERE is_booked
+      AND time_slot_utc IS NOT NULL
+      AND booking_id IS DISTINCT FROM p_exclude_booking_id
+  )
+  SELECT COALESCE(jsonb_agg(c.starts_at ORDER BY c.starts_at), '[]'::jsonb)
+  FROM candidates c
+  CROSS JOIN settings s
+  WHERE c.starts_at >= p_from
+    AND c.starts_at < p_to
+    AND c.starts_at >= now() + make_interval(hours => s.min_notice_hours)
+    AND c.day <= (now() AT TIME ZONE 'Asia/Kolkata')::date + s.max_days_ahead
+    -- Keep the buffer clear on both sides of every booked hour
+    AND NOT EXISTS (
+      SELECT 1 FROM booked b
+      WHERE b.starts_at < c.starts_at + interval '1 hour' + make_interval(mins => s.buffer_minutes)
+        AND b.starts_at + interval '1 hour' + make_interval(mins => s.buffer_minutes) > c.starts_at
+    )
+    AND (
+      s.daily_cap IS NULL
+      OR (
+        SELECT count(*) FROM booked b
+        WHERE (b.starts_at AT TIME ZONE 'Asia/Kolkata')::date = c.day
+      ) < s.daily_cap
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_available_booking_slots(timestamptz, timestamptz, uuid) TO anon, authenticated;
@@ -0,0 +1,75 @@
+/*
+  # Remove Deleted Lead Attachment Files with the Service Role
+
+  Storage deletes objects under the caller's RLS, and admins can only see
+  files whose scan passed and whose `lead_attachments` row still exists. An
+  admin deleting an attachment, or a lead, from the browser therefore
+  removed nothing from the bucket.
+
+  1. New Tables
+    - `lead_attachment_file_removals` - Files still to be removed from the
+      `lead-attachments` bucket
+      - `storage_path` (text, primary key) - Object path in the bucket
+      - `queued_at` (timestamptz)
+      - `attempts` (integer) - Removal attempts that failed so far
+      - `last_error` (text, nullable) - Why the last attempt failed
+      - `last_attempt_at` (timestamptz, nullable)
+    - The `remove-lead-attachment-files` edge function removes the files with
+      the service role and deletes their rows; failed removals stay queued
+      with their error and are retried on the next run
+    - Backfilled with files already in the bucket that have no attachment row
+
+  2. Triggers
+    - `queue_lead_attachment_file_removal` (AFTER DELETE on
+      `lead_attachments`) queues the file, including when the row goes with
+      its lead
+
+  3. Security
+    - Enable RLS; admins can read the queue and add to it (for uploads whose
+      attachment row could not be saved). The edge function never removes a
+      file that still has an attachment row.
+*/
+
+CREATE TABLE IF NOT EXISTS lead_attachment_file_removals (
+  storage_path text PRIMARY KEY,
+  queued_at timestamptz DEFAULT now(),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  last_attempt_at timestamptz
+);
+
+ALTER TABLE lead_attachment_file_removals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read lead attachment file removals"
+  ON lead_attachment_file_removals FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert lead attachment file removals"
+  ON lead_attachment_file_removals FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION queue_lead_attachment_file_removal()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO lead_attachment_file_removals (storage_path)
+  VALUES (OLD.storage_path)
+  ON CONFLICT (storage_path) DO NOTHING;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_lead_attachment_file_removal_trigger ON lead_attachments;
+CREATE TRIGGER queue_lead_attachment_file_removal_trigger
+  AFTER DELETE ON lead_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_lead_attachment_file_removal();
+
+-- Files left behind by deletes before this change
+INSERT INTO lead_attachment_file_removals (storage_path)
+SELECT o.name
+FROM storage.objects o
+WHERE o.bucket_id = 'lead-attachments'
+  AND NOT EXISTS (SELECT 1 FROM lead_attachments a WHERE a.storage_path = o.name)
+ON CONFLICT (storage_path) DO NOTHING;